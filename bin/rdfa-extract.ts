@@ -0,0 +1,11 @@
+#!/usr/bin/env node
+import { runRdfaExtract } from '../lib/RdfaExtract';
+
+runRdfaExtract(process.argv.slice(2), process.stdin, process.stdout, process.stderr)
+  .then((exitCode) => {
+    process.exitCode = exitCode;
+  })
+  .catch((error: Error) => {
+    process.stderr.write(`${error.stack}\n`);
+    process.exitCode = 1;
+  });
@@ -29,6 +29,10 @@ module.exports = config([
       // This rule requires strictNullChecks, which is not enabled in this project
       'ts/prefer-nullish-coalescing': 'off',
 
+      // Array#at, String#at and String#replaceAll are not part of the es6 lib that this project is compiled against
+      'unicorn/prefer-at': 'off',
+      'unicorn/prefer-string-replace-all': 'off',
+
       // Extended naming conventions for this project
       'ts/naming-convention': [
         'error',
@@ -85,6 +89,12 @@ module.exports = config([
           selector: 'objectLiteralProperty',
           format: null,
         },
+        {
+          // Allow any format for quoted type property names (e.g., JSON-LD keywords like '@id')
+          selector: 'typeProperty',
+          modifiers: [ 'requiresQuotes' ],
+          format: null,
+        },
       ],
     },
   },
@@ -1,6 +1,36 @@
+export * from './lib/AbortError';
+export * from './lib/CharsetDecoder';
+export * from './lib/ContentEncodingDecoder';
+export * from './lib/DeflateDecoder';
+export * from './lib/HtmlLiteralSerializer';
+export * from './lib/HtmlTreeNormalizer';
 export * from './lib/IActiveTag';
 export * from './lib/IHtmlParseListener';
+export * from './lib/IMediaType';
+export * from './lib/IRdfaIriPolicy';
+export * from './lib/IRdfaLimits';
 export * from './lib/IRdfaPattern';
+export * from './lib/ISourceLocation';
+export * from './lib/ITokenizer';
+export * from './lib/ITokenizerAdapter';
+export * from './lib/IVocabularyLoader';
+export * from './lib/LazyDecoder';
+export * from './lib/LiteralSanitizer';
+export * from './lib/RdfaDomObserver';
+export * from './lib/RdfaDomWalker';
+export * from './lib/RdfaLimitError';
 export * from './lib/RdfaParser';
+export * from './lib/RdfaProcessor';
+export * from './lib/RdfaProcessorStatus';
 export * from './lib/RdfaProfile';
+export * from './lib/RdfaTextParser';
+export * from './lib/RdfaTransformStream';
+export * from './lib/SourcePositionTracker';
+export * from './lib/TokenizerAdapterHtmlparser2';
+export * from './lib/TokenizerAdapterParse5';
+export * from './lib/TokenizerAdapterSaxes';
 export * from './lib/Util';
+export * from './lib/VocabularyExpander';
+export * from './lib/VocabularyLoaderFile';
+export * from './lib/VocabularyLoaderMemory';
+export * from './lib/XmlLiteralSerializer';
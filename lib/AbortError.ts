@@ -0,0 +1,17 @@
+/**
+ * An error that indicates that parsing was aborted,
+ * either via an abort signal or because the timeout was reached.
+ */
+export class AbortError extends Error {
+  public readonly reason: unknown;
+
+  /**
+   * @param {string} message A human-readable message.
+   * @param {unknown} reason The reason of the abort signal, if any.
+   */
+  public constructor(message: string, reason?: unknown) {
+    super(message);
+    this.name = 'AbortError';
+    this.reason = reason;
+  }
+}
@@ -0,0 +1,173 @@
+import { Util } from './Util';
+
+/**
+ * A streaming decoder that converts byte chunks into text.
+ *
+ * The character encoding is determined in the following order:
+ * 1. A byte order mark.
+ * 2. An explicitly provided encoding, such as the charset parameter of a content type.
+ * 3. A `<meta charset>` or `<meta http-equiv="Content-Type">` tag within the first bytes of the document.
+ * 4. An `<?xml encoding?>` declaration at the start of the document.
+ * 5. UTF-8.
+ *
+ * Bytes of incomplete multi-byte sequences are kept between chunks.
+ */
+export class CharsetDecoder {
+  /**
+   * The number of bytes that are inspected for meta tags and XML declarations.
+   */
+  public static readonly SNIFF_LENGTH = 1024;
+
+  private readonly encoding?: string;
+  private decoder?: TextDecoder;
+  private pendingChunks: Uint8Array[] = [];
+  private pendingLength = 0;
+
+  /**
+   * @param {string} encoding An optional encoding label that overrides sniffed encodings.
+   *                          If this label is not supported, an error will be thrown.
+   */
+  public constructor(encoding?: string) {
+    if (encoding) {
+      this.encoding = CharsetDecoder.createDecoder(encoding).encoding;
+    }
+  }
+
+  /**
+   * Create a decoder for the given encoding label.
+   * @param {string} encoding An encoding label.
+   * @return {TextDecoder} A text decoder.
+   */
+  public static createDecoder(encoding: string): TextDecoder {
+    try {
+      return new TextDecoder(encoding);
+    } catch {
+      throw new Error(`Unsupported encoding: ${encoding}`);
+    }
+  }
+
+  /**
+   * Check if the given encoding label is supported.
+   * @param {string} encoding An encoding label.
+   * @return {boolean} If the label is supported.
+   */
+  public static isSupportedEncoding(encoding: string): boolean {
+    try {
+      CharsetDecoder.createDecoder(encoding);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Determine the encoding from the byte order mark at the start of the given bytes.
+   * @param {Uint8Array} bytes The first bytes of a document.
+   * @return {string | undefined} An encoding label, or undefined if there is no byte order mark.
+   */
+  public static getBomEncoding(bytes: Uint8Array): string | undefined {
+    if (bytes[0] === 0xEF && bytes[1] === 0xBB && bytes[2] === 0xBF) {
+      return 'utf-8';
+    }
+    if (bytes[0] === 0xFE && bytes[1] === 0xFF) {
+      return 'utf-16be';
+    }
+    if (bytes[0] === 0xFF && bytes[1] === 0xFE) {
+      return 'utf-16le';
+    }
+  }
+
+  /**
+   * Determine the encoding from the charset parameter of a content type.
+   * @param {string} contentType A content type, such as 'text/html; charset=windows-1252'.
+   * @return {string | undefined} An encoding label, or undefined if there is no charset parameter.
+   */
+  public static getContentTypeEncoding(contentType: string): string | undefined {
+    return Util.parseMediaType(contentType)?.parameters.charset || undefined;
+  }
+
+  /**
+   * Determine the encoding from meta tags or an XML declaration within the given bytes.
+   * @param {Uint8Array} bytes The first bytes of a document.
+   * @return {string | undefined} An encoding label, or undefined if none could be found.
+   */
+  public static sniffEncoding(bytes: Uint8Array): string | undefined {
+    // Encoding declarations only contain ASCII characters, so a single-byte decoding suffices.
+    const text = String.fromCodePoint(...bytes.subarray(0, CharsetDecoder.SNIFF_LENGTH));
+
+    const metaMatch = /<meta\s[^>]*?charset\s*=\s*["']?\s*([\w.:-]+)/iu.exec(text);
+    if (metaMatch && CharsetDecoder.isSupportedEncoding(metaMatch[1])) {
+      // As defined by the HTML spec, UTF-16 encodings can not be declared within the document itself.
+      return /^utf-16/iu.test(metaMatch[1]) ? 'utf-8' : metaMatch[1];
+    }
+
+    const xmlMatch = /^<\?xml\s[^>]*?encoding\s*=\s*["']([\w.:-]+)["']/u.exec(text);
+    if (xmlMatch && CharsetDecoder.isSupportedEncoding(xmlMatch[1])) {
+      return xmlMatch[1];
+    }
+  }
+
+  /**
+   * Decode the given chunk.
+   * As long as the encoding is not determined, chunks are buffered, and an empty string is returned.
+   * @param {Uint8Array} chunk A chunk of bytes.
+   * @return {string} The decoded text.
+   */
+  public decode(chunk: Uint8Array): string {
+    if (this.decoder) {
+      return this.decoder.decode(chunk, { stream: true });
+    }
+
+    this.pendingChunks.push(chunk);
+    this.pendingLength += chunk.length;
+    const bytes = this.getPendingBytes();
+    // We need at least 3 bytes to detect a byte order mark.
+    if (bytes.length < 3) {
+      return '';
+    }
+    const bomEncoding = CharsetDecoder.getBomEncoding(bytes);
+    if (bomEncoding || this.encoding) {
+      return this.startDecoding(bomEncoding || this.encoding!, bytes);
+    }
+    if (bytes.length >= CharsetDecoder.SNIFF_LENGTH) {
+      return this.startDecoding(CharsetDecoder.sniffEncoding(bytes) || 'utf-8', bytes);
+    }
+    return '';
+  }
+
+  /**
+   * Decode all remaining bytes.
+   * @return {string} The decoded text.
+   */
+  public end(): string {
+    if (!this.decoder) {
+      const bytes = this.getPendingBytes();
+      this.decoder = CharsetDecoder.createDecoder(
+        CharsetDecoder.getBomEncoding(bytes) || this.encoding || CharsetDecoder.sniffEncoding(bytes) || 'utf-8',
+      );
+      return this.decoder.decode(bytes, { stream: true }) + this.decoder.decode();
+    }
+    return this.decoder.decode();
+  }
+
+  protected getPendingBytes(): Uint8Array {
+    if (this.pendingChunks.length === 1) {
+      return this.pendingChunks[0];
+    }
+    const bytes = new Uint8Array(this.pendingLength);
+    let offset = 0;
+    for (const chunk of this.pendingChunks) {
+      bytes.set(chunk, offset);
+      offset += chunk.length;
+    }
+    this.pendingChunks = [ bytes ];
+    return bytes;
+  }
+
+  protected startDecoding(encoding: string, bytes: Uint8Array): string {
+    this.decoder = CharsetDecoder.createDecoder(encoding);
+    this.pendingChunks = [];
+    this.pendingLength = 0;
+    return this.decoder.decode(bytes, { stream: true });
+  }
+}
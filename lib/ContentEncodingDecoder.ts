@@ -0,0 +1,69 @@
+import { createBrotliDecompress, createGunzip } from 'node:zlib';
+import { DeflateDecoder } from './DeflateDecoder';
+import { LazyDecoder } from './LazyDecoder';
+
+/**
+ * Undoes the content codings of an HTTP response body, as declared in its `Content-Encoding` header.
+ *
+ * This decoder is not available in browsers, where fetch already decodes response bodies.
+ */
+export class ContentEncodingDecoder {
+  /**
+   * The lowercase content codings, in the order in which they must be undone.
+   */
+  public readonly codings: string[];
+
+  /**
+   * @param {string} contentEncoding A Content-Encoding header value, such as 'gzip' or 'deflate, br'.
+   *                                 If one of its codings is not supported, an error will be thrown.
+   */
+  public constructor(contentEncoding: string) {
+    // Codings are listed in the order in which they were applied
+    this.codings = contentEncoding.split(',')
+      .map(coding => coding.trim().toLowerCase())
+      .filter(coding => coding && coding !== 'identity')
+      .reverse();
+    for (const coding of this.codings) {
+      if (!ContentEncodingDecoder.isSupportedCoding(coding)) {
+        throw new Error(`Unsupported content encoding: ${coding}`);
+      }
+    }
+  }
+
+  /**
+   * Check if the given content coding is supported.
+   * @param {string} coding A lowercase content coding.
+   * @return {boolean} If the coding is supported.
+   */
+  public static isSupportedCoding(coding: string): boolean {
+    return coding === 'gzip' || coding === 'x-gzip' || coding === 'deflate' || coding === 'br';
+  }
+
+  /**
+   * Create a decompression stream for the given content coding.
+   * @param {string} coding A supported lowercase content coding.
+   * @return {NodeJS.ReadWriteStream} A decompression stream.
+   */
+  public static createDecoder(coding: string): NodeJS.ReadWriteStream {
+    if (coding === 'br') {
+      return createBrotliDecompress();
+    }
+    return coding === 'deflate' ? new DeflateDecoder() : createGunzip();
+  }
+
+  /**
+   * Pipe the given body through a decompression stream for each content coding.
+   * Empty bodies, such as the ones of 204 responses and responses to HEAD requests, are decoded as empty bodies.
+   * @param {NodeJS.ReadableStream} body An encoded body.
+   * @param {(error: Error) => void} onError A callback for errors of the body and the decompression streams.
+   * @return {NodeJS.ReadableStream} The decoded body.
+   */
+  public decode(body: NodeJS.ReadableStream, onError: (error: Error) => void): NodeJS.ReadableStream {
+    for (const coding of this.codings) {
+      body.on('error', onError);
+      body = body.pipe(new LazyDecoder(() => ContentEncodingDecoder.createDecoder(coding)));
+    }
+    body.on('error', onError);
+    return body;
+  }
+}
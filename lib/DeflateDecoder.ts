@@ -0,0 +1,73 @@
+import { Transform } from 'node:stream';
+import type { TransformCallback } from 'node:stream';
+import type { Inflate, InflateRaw } from 'node:zlib';
+import { createInflate, createInflateRaw } from 'node:zlib';
+
+/**
+ * A decompression stream for the `deflate` content coding.
+ *
+ * While this coding is defined as the zlib format, some servers send raw deflate data without zlib header instead.
+ * The format is detected based on the first two bytes, which are a valid zlib header only for the zlib format.
+ *
+ * This decoder is not available in browsers, where fetch already decodes response bodies.
+ */
+export class DeflateDecoder extends Transform {
+  private header: Buffer = Buffer.alloc(0);
+  private inflate: Inflate | InflateRaw | undefined;
+
+  /**
+   * Check if the given bytes start with a zlib header.
+   * This header declares the deflate compression method, and is a multiple of 31 (RFC 1950, Section 2.2).
+   * @param {Buffer} bytes The first bytes of a stream.
+   * @return {boolean} If the bytes start with a zlib header.
+   */
+  public static isZlibHeader(bytes: Buffer): boolean {
+    return bytes.length >= 2 && (bytes[0] & 0x0F) === 8 && bytes.readUInt16BE(0) % 31 === 0;
+  }
+
+  public override _transform(chunk: Buffer, encoding: BufferEncoding, callback: TransformCallback): void {
+    if (!this.inflate) {
+      // Wait for the complete header
+      this.header = Buffer.concat([ this.header, chunk ]);
+      if (this.header.length < 2) {
+        return callback();
+      }
+      chunk = this.header;
+      this.createInflate();
+    }
+    this.inflate!.write(chunk, () => callback());
+  }
+
+  public override _flush(callback: TransformCallback): void {
+    // Empty bodies, such as the ones of 204 responses, are not compressed data
+    if (this.header.length === 0) {
+      return callback();
+    }
+    if (!this.inflate) {
+      this.createInflate();
+      this.inflate!.write(this.header);
+    }
+    this.inflate!.once('end', () => callback());
+    this.inflate!.end();
+  }
+
+  public override _read(size: number): void {
+    // Decompression is paused if the decompressed data is not consumed
+    this.inflate?.resume();
+    super._read(size);
+  }
+
+  /**
+   * Create the decompression stream for the format of the buffered header.
+   */
+  protected createInflate(): void {
+    const inflate = DeflateDecoder.isZlibHeader(this.header) ? createInflate() : createInflateRaw();
+    inflate.on('data', (data: Buffer) => {
+      if (!this.push(data)) {
+        inflate.pause();
+      }
+    });
+    inflate.on('error', error => this.destroy(error));
+    this.inflate = inflate;
+  }
+}
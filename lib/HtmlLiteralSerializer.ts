@@ -0,0 +1,129 @@
+/**
+ * Serializes the markup of rdf:HTML literals following the HTML fragment serialization algorithm
+ * (https://html.spec.whatwg.org/multipage/parsing.html#serialising-html-fragments),
+ * so that literals equal the innerHTML of the element with the rdf:HTML datatype in a browser.
+ *
+ * Unlike XML literals, no namespaces are declared, void elements such as `<br>` have no end tag,
+ * and the text of raw text elements such as `<script>` and `<style>` is not escaped.
+ */
+export class HtmlLiteralSerializer {
+  /**
+   * Elements that have no end tag.
+   */
+  public static readonly VOID_ELEMENTS = new Set([
+    'area',
+    'base',
+    'basefont',
+    'bgsound',
+    'br',
+    'col',
+    'embed',
+    'frame',
+    'hr',
+    'img',
+    'input',
+    'keygen',
+    'link',
+    'meta',
+    'param',
+    'source',
+    'track',
+    'wbr',
+  ]);
+
+  /**
+   * Elements of which the text is serialized as-is.
+   * This includes noscript, as browsers parse and serialize it as raw text when scripting is enabled.
+   */
+  public static readonly RAW_TEXT_ELEMENTS = new Set([
+    'iframe',
+    'noembed',
+    'noframes',
+    'noscript',
+    'plaintext',
+    'script',
+    'style',
+    'xmp',
+  ]);
+
+  private static readonly ESCAPED_CHARACTERS: Record<string, string> = {
+    '\u00A0': '&nbsp;',
+    '"': '&quot;',
+    '&': '&amp;',
+    '<': '&lt;',
+    '>': '&gt;',
+  };
+
+  /**
+   * Escape the given text for use as text content.
+   * @param {string} text Decoded text.
+   * @return {string} Escaped text.
+   */
+  public static escapeText(text: string): string {
+    return HtmlLiteralSerializer.escape(text, /[\u00A0&<>]/gu);
+  }
+
+  /**
+   * Escape the given value for use as a double-quoted attribute value.
+   * @param {string} value A decoded attribute value.
+   * @return {string} An escaped attribute value.
+   */
+  public static escapeAttribute(value: string): string {
+    return HtmlLiteralSerializer.escape(value, /[\u00A0"&<>]/gu);
+  }
+
+  protected static escape(value: string, characters: RegExp): string {
+    return value.replace(characters, character => HtmlLiteralSerializer.ESCAPED_CHARACTERS[character]);
+  }
+
+  /**
+   * Check if the given element has no end tag.
+   * @param {string} name A tag name.
+   * @return {boolean} If the element is a void element.
+   */
+  public static isVoidElement(name: string): boolean {
+    return HtmlLiteralSerializer.VOID_ELEMENTS.has(name);
+  }
+
+  /**
+   * Check if the text of the given element must not be escaped.
+   * @param {string} name A tag name.
+   * @return {boolean} If the element is a raw text element.
+   */
+  public static isRawTextElement(name: string): boolean {
+    return HtmlLiteralSerializer.RAW_TEXT_ELEMENTS.has(name);
+  }
+
+  /**
+   * Serialize the start tag of the given element.
+   * @param {string} name A tag name.
+   * @param {Record<string, string>} attributes A hash of attributes.
+   * @return {string} A start tag.
+   */
+  public serializeStartTag(name: string, attributes: Record<string, string>): string {
+    let tag = `<${name}`;
+    for (const key of Object.keys(attributes)) {
+      tag += ` ${key}="${HtmlLiteralSerializer.escapeAttribute(attributes[key])}"`;
+    }
+    return `${tag}>`;
+  }
+
+  /**
+   * Serialize the end tag of the given element.
+   * @param {string} name A tag name.
+   * @return {string} An end tag, or the empty string for void elements.
+   */
+  public serializeEndTag(name: string): string {
+    return HtmlLiteralSerializer.isVoidElement(name) ? '' : `</${name}>`;
+  }
+
+  /**
+   * Serialize the given text.
+   * @param {string} text Decoded text.
+   * @param {string} parentName The tag name of the parent element of the text.
+   * @return {string} Serialized text.
+   */
+  public serializeText(text: string, parentName: string): string {
+    return HtmlLiteralSerializer.isRawTextElement(parentName) ? text : HtmlLiteralSerializer.escapeText(text);
+  }
+}
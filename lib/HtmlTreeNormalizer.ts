@@ -0,0 +1,429 @@
+import type { ITokenizerListener } from './ITokenizer';
+
+/**
+ * Normalizes the tag events of an HTML document as the HTML5 tree construction algorithm would.
+ *
+ * This wraps a tokenizer listener, and emits the following implied events to it:
+ * * `<html>`, `<head>` and `<body>` elements are opened if they are missing,
+ *   and head elements, such as `<title>` and `<meta>`, are placed in the head,
+ *   also if they appear after `</head>` but before the body.
+ * * `<html>` and `<body>` are only closed at the end of the document, so that content after them is placed in the body.
+ * * `<p>`, `<li>`, `<dd>`, `<dt>`, headings, `<option>`, and table sections, rows and cells
+ *   are closed implicitly when an element is opened that may not be nested in them.
+ * * `<tbody>` and `<tr>` elements are opened if they are missing in tables.
+ *
+ * Close events of elements that were already closed implicitly are ignored,
+ * and duplicate `<html>`, `<head>` and `<body>` elements are ignored.
+ * Other parts of the tree construction algorithm, such as the adoption agency algorithm and foster parenting,
+ * are not applied.
+ */
+export class HtmlTreeNormalizer implements ITokenizerListener {
+  public static readonly HEAD_ELEMENTS = new Set([
+    'base',
+    'basefont',
+    'bgsound',
+    'link',
+    'meta',
+    'noframes',
+    'noscript',
+    'script',
+    'style',
+    'template',
+    'title',
+  ]);
+
+  public static readonly PARAGRAPH_CLOSING_ELEMENTS = new Set([
+    'address',
+    'article',
+    'aside',
+    'blockquote',
+    'center',
+    'dd',
+    'details',
+    'dialog',
+    'dir',
+    'div',
+    'dl',
+    'dt',
+    'fieldset',
+    'figcaption',
+    'figure',
+    'footer',
+    'form',
+    'h1',
+    'h2',
+    'h3',
+    'h4',
+    'h5',
+    'h6',
+    'header',
+    'hgroup',
+    'hr',
+    'li',
+    'listing',
+    'main',
+    'menu',
+    'nav',
+    'ol',
+    'p',
+    'plaintext',
+    'pre',
+    'search',
+    'section',
+    'summary',
+    'table',
+    'ul',
+    'xmp',
+  ]);
+
+  /**
+   * Elements that stop the search for an open `<li>`, `<dd>` or `<dt>` element, except for address, div and p.
+   */
+  public static readonly SPECIAL_ELEMENTS = new Set([
+    ...HtmlTreeNormalizer.PARAGRAPH_CLOSING_ELEMENTS,
+    'applet',
+    'area',
+    'base',
+    'basefont',
+    'bgsound',
+    'body',
+    'br',
+    'button',
+    'caption',
+    'col',
+    'colgroup',
+    'embed',
+    'frame',
+    'frameset',
+    'head',
+    'html',
+    'iframe',
+    'img',
+    'input',
+    'keygen',
+    'link',
+    'marquee',
+    'meta',
+    'noembed',
+    'noframes',
+    'noscript',
+    'object',
+    'param',
+    'script',
+    'select',
+    'source',
+    'style',
+    'tbody',
+    'td',
+    'template',
+    'textarea',
+    'tfoot',
+    'th',
+    'thead',
+    'title',
+    'tr',
+    'track',
+    'wbr',
+  ]);
+
+  public static readonly SCOPE_BOUNDARIES = new Set([
+    'applet',
+    'caption',
+    'html',
+    'marquee',
+    'object',
+    'table',
+    'td',
+    'template',
+    'th',
+  ]);
+
+  public static readonly TABLE_SCOPE_BOUNDARIES = new Set([ 'html', 'table', 'template' ]);
+
+  public static readonly HEADINGS = new Set([ 'h1', 'h2', 'h3', 'h4', 'h5', 'h6' ]);
+  public static readonly TABLE_SECTIONS = new Set([ 'tbody', 'tfoot', 'thead' ]);
+  public static readonly TABLE_CELLS = new Set([ 'td', 'th' ]);
+
+  private readonly listener: ITokenizerListener;
+  // The elements that were opened in the listener
+  private readonly openElements: IOpenElement[] = [];
+  // For each open element of the tokenizer, the element that was opened for it in the listener, if any
+  private readonly tokenizerElements: (IOpenElement | undefined)[] = [];
+  private html: IOpenElement | undefined;
+  private head: IOpenElement | undefined;
+  private body: IOpenElement | undefined;
+  // If the head was closed by the tokenizer, in which case it is only closed in the listener once the body opens
+  private headEnded = false;
+  // Whitespace after the end of the head, which belongs to the html element
+  private afterHeadText = '';
+
+  /**
+   * @param {ITokenizerListener} listener The listener to which normalized events will be emitted.
+   */
+  public constructor(listener: ITokenizerListener) {
+    this.listener = listener;
+  }
+
+  public onTagOpen(name: string, attributes: Record<string, string>): void {
+    this.tokenizerElements.push(this.openTokenizerElement(name, attributes));
+  }
+
+  public onTagClose(): void {
+    const element = this.tokenizerElements.pop();
+    // Head elements after the end of the head are still placed in the head
+    if (element && element === this.head && !this.body) {
+      this.headEnded = true;
+      return;
+    }
+    // The html and body elements remain open until the end of the document
+    if (element && element.open && element !== this.html && element !== this.body) {
+      this.closeUntil(current => current === element);
+    }
+  }
+
+  public onText(data: string): void {
+    const current = this.getCurrentElement();
+    if (!this.body && (!current || current === this.html || current === this.head)) {
+      if (/^[\t\n\f\r ]*$/u.test(data)) {
+        // Whitespace before the html element is dropped
+        if (!current) {
+          return;
+        }
+        if (current === this.head && this.headEnded) {
+          this.afterHeadText += data;
+          return;
+        }
+      } else {
+        this.openBody();
+      }
+    }
+    this.listener.onText(data);
+  }
+
+  public onError(error: Error): void {
+    this.listener.onError(error);
+  }
+
+  public onEnd(): void {
+    this.openBody();
+    this.closeUntil(() => false);
+    this.listener.onEnd();
+  }
+
+  /**
+   * Handle an opened element of the tokenizer.
+   * @param {string} name The tag name.
+   * @param {Record<string, string>} attributes A hash of attributes.
+   * @return {IOpenElement | undefined} The element that was opened in the listener, if any.
+   */
+  protected openTokenizerElement(name: string, attributes: Record<string, string>): IOpenElement | undefined {
+    if (name === 'html' || name === 'head' || name === 'body') {
+      return this.openDocumentElement(name, attributes);
+    }
+    if (!this.body) {
+      if (HtmlTreeNormalizer.HEAD_ELEMENTS.has(name)) {
+        this.openHead();
+        return this.open(name, attributes);
+      }
+      this.openBody();
+    }
+    this.closeImpliedElements(name);
+    this.openImpliedParents(name);
+    return this.open(name, attributes);
+  }
+
+  /**
+   * Open the html, head or body element, unless it has already been opened.
+   * @param {string} name html, head or body.
+   * @param {Record<string, string>} attributes A hash of attributes.
+   * @return {IOpenElement | undefined} The opened element, if any.
+   */
+  protected openDocumentElement(name: string, attributes: Record<string, string>): IOpenElement | undefined {
+    if (name === 'html') {
+      if (!this.html) {
+        return this.html = this.open(name, attributes);
+      }
+    } else if (name === 'head') {
+      if (!this.head) {
+        this.openHtml();
+        return this.head = this.open(name, attributes);
+      }
+    } else if (!this.body) {
+      this.openHead();
+      this.closeHead();
+      return this.body = this.open(name, attributes);
+    }
+  }
+
+  protected openHtml(): void {
+    if (!this.html) {
+      this.html = this.open('html', {});
+    }
+  }
+
+  protected openHead(): void {
+    if (!this.head) {
+      this.openHtml();
+      this.head = this.open('head', {});
+    }
+  }
+
+  protected closeHead(): void {
+    if (this.head!.open) {
+      this.closeUntil(current => current === this.head);
+    }
+    if (this.afterHeadText) {
+      this.listener.onText(this.afterHeadText);
+      this.afterHeadText = '';
+    }
+  }
+
+  protected openBody(): void {
+    if (!this.body) {
+      this.openHead();
+      this.closeHead();
+      this.body = this.open('body', {});
+    }
+  }
+
+  /**
+   * Close the open elements that may not contain an element with the given name.
+   * @param {string} name A tag name.
+   */
+  protected closeImpliedElements(name: string): void {
+    if (name === 'li') {
+      this.closeListItem(current => current === 'li');
+    } else if (name === 'dd' || name === 'dt') {
+      this.closeListItem(current => current === 'dd' || current === 'dt');
+    } else if (HtmlTreeNormalizer.TABLE_CELLS.has(name)) {
+      this.closeInTableScope(current => HtmlTreeNormalizer.TABLE_CELLS.has(current));
+    } else if (name === 'tr') {
+      this.closeInTableScope(current => current === 'tr');
+    } else if (HtmlTreeNormalizer.TABLE_SECTIONS.has(name)) {
+      this.closeInTableScope(current => HtmlTreeNormalizer.TABLE_SECTIONS.has(current));
+    } else if (name === 'option' || name === 'optgroup') {
+      this.closeCurrent(current => current === 'option');
+      if (name === 'optgroup') {
+        this.closeCurrent(current => current === 'optgroup');
+      }
+    }
+
+    if (HtmlTreeNormalizer.PARAGRAPH_CLOSING_ELEMENTS.has(name) &&
+      this.isInScope(current => current === 'p', HtmlTreeNormalizer.SCOPE_BOUNDARIES, 'button')) {
+      this.closeUntil(current => current.name === 'p');
+    }
+    if (HtmlTreeNormalizer.HEADINGS.has(name)) {
+      this.closeCurrent(current => HtmlTreeNormalizer.HEADINGS.has(current));
+    }
+  }
+
+  /**
+   * Open the table sections and rows that are missing for an element with the given name.
+   * @param {string} name A tag name.
+   */
+  protected openImpliedParents(name: string): void {
+    const current = this.getCurrentElement()!.name;
+    if (HtmlTreeNormalizer.TABLE_CELLS.has(name)) {
+      if (current === 'table') {
+        this.open('tbody', {});
+        this.open('tr', {});
+      } else if (HtmlTreeNormalizer.TABLE_SECTIONS.has(current)) {
+        this.open('tr', {});
+      }
+    } else if (name === 'tr' && current === 'table') {
+      this.open('tbody', {});
+    }
+  }
+
+  /**
+   * Close the closest open list item that matches the given predicate,
+   * unless a special element other than address, div or p is open within it.
+   * @param {(name: string) => boolean} isListItem A predicate for list items.
+   */
+  protected closeListItem(isListItem: (name: string) => boolean): void {
+    for (let i = this.openElements.length - 1; i >= 0; i--) {
+      const element = this.openElements[i];
+      const name = element.name;
+      if (isListItem(name)) {
+        this.closeUntil(current => current === element);
+        return;
+      }
+      if (HtmlTreeNormalizer.SPECIAL_ELEMENTS.has(name) && name !== 'address' && name !== 'div' && name !== 'p') {
+        return;
+      }
+    }
+  }
+
+  /**
+   * Close the closest open element that matches the given predicate, if it is in table scope.
+   * @param {(name: string) => boolean} predicate A predicate for tag names.
+   */
+  protected closeInTableScope(predicate: (name: string) => boolean): void {
+    if (this.isInScope(predicate, HtmlTreeNormalizer.TABLE_SCOPE_BOUNDARIES)) {
+      this.closeUntil(current => predicate(current.name));
+    }
+  }
+
+  /**
+   * Close the current element if it matches the given predicate.
+   * @param {(name: string) => boolean} predicate A predicate for tag names.
+   */
+  protected closeCurrent(predicate: (name: string) => boolean): void {
+    const current = this.getCurrentElement();
+    if (current && predicate(current.name)) {
+      this.closeUntil(element => element === current);
+    }
+  }
+
+  /**
+   * Check if an element that matches the given predicate is open,
+   * without a scope boundary element being open within it.
+   * @param {(name: string) => boolean} predicate A predicate for tag names.
+   * @param {Set<string>} boundaries The names of scope boundary elements.
+   * @param {string} additionalBoundary An optional additional scope boundary element.
+   * @return {boolean} If a matching element is in scope.
+   */
+  protected isInScope(predicate: (name: string) => boolean, boundaries: Set<string>, additionalBoundary?: string):
+  boolean {
+    for (let i = this.openElements.length - 1; i >= 0; i--) {
+      const name = this.openElements[i].name;
+      if (predicate(name)) {
+        return true;
+      }
+      if (boundaries.has(name) || name === additionalBoundary) {
+        return false;
+      }
+    }
+    return false;
+  }
+
+  protected getCurrentElement(): IOpenElement | undefined {
+    return this.openElements[this.openElements.length - 1];
+  }
+
+  protected open(name: string, attributes: Record<string, string>): IOpenElement {
+    const element: IOpenElement = { name, open: true };
+    this.openElements.push(element);
+    this.listener.onTagOpen(name, attributes);
+    return element;
+  }
+
+  /**
+   * Close open elements until an element matching the given predicate has been closed.
+   * @param {(element: IOpenElement) => boolean} predicate A predicate for the last element to close.
+   */
+  protected closeUntil(predicate: (element: IOpenElement) => boolean): void {
+    for (let element = this.openElements.pop(); element; element = this.openElements.pop()) {
+      element.open = false;
+      this.listener.onTagClose();
+      if (predicate(element)) {
+        return;
+      }
+    }
+  }
+}
+
+interface IOpenElement {
+  name: string;
+  open: boolean;
+}
@@ -1,5 +1,6 @@
 import type * as RDF from '@rdfjs/types';
 import type { IRdfaPattern } from './IRdfaPattern';
+import type { ISourceLocation } from './ISourceLocation';
 
 /**
  * Data holder for the RDFa state in XML tags.
@@ -12,8 +13,9 @@ export interface IActiveTag {
   explicitNewSubject?: boolean;
   predicates?: RDF.NamedNode[];
   object?: RDF.NamedNode | RDF.BlankNode | boolean;
-  textWithTags?: string[];
-  textWithoutTags?: string[];
+  textWithTagsStart?: number;
+  textWithHtmlTagsStart?: number;
+  textWithoutTagsStart?: number;
   vocab?: string;
   language?: string;
   datatype?: RDF.NamedNode;
@@ -23,8 +25,15 @@ export interface IActiveTag {
   interpretObjectAsTime?: boolean;
   incompleteTriples?: { predicate: RDF.Quad_Predicate; reverse: boolean; list?: boolean }[];
   inlist: boolean;
-  listMapping: Record<string, (RDF.Term | boolean)[]>;
-  listMappingLocal: Record<string, (RDF.Term | boolean)[]>;
+  listMapping: Map<string, (RDF.Term | boolean)[]>;
+  listMappingLocal: Map<string, (RDF.Term | boolean)[]>;
   skipElement: boolean;
+  omitMarkup?: boolean;
+  omitContents?: boolean;
+  collectedStartTag?: boolean;
+  serializedNamespaces?: Record<string, string>;
   localBaseIRI?: RDF.NamedNode;
+  xpath?: string;
+  xpathChildCounts?: Map<string, number>;
+  location?: ISourceLocation;
 }
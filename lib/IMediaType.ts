@@ -0,0 +1,21 @@
+/**
+ * A parsed media type, such as 'application/xhtml+xml; charset=utf-8'.
+ */
+export interface IMediaType {
+  /**
+   * The lowercase type, such as 'application'.
+   */
+  type: string;
+  /**
+   * The lowercase subtype, including its structured suffix, such as 'xhtml+xml'.
+   */
+  subtype: string;
+  /**
+   * The lowercase structured syntax suffix, such as 'xml'.
+   */
+  suffix?: string;
+  /**
+   * The parameters, with lowercase names and unquoted values.
+   */
+  parameters: Record<string, string>;
+}
@@ -0,0 +1,40 @@
+/**
+ * A policy for the IRIs of named nodes that are created from a document,
+ * such as from href, src, resource, about and property attributes.
+ * This protects consumers of untrusted documents against IRIs that are executable, such as javascript: IRIs,
+ * or excessively long, such as data: IRIs.
+ * IRIs that violate the policy are handled according to its action.
+ */
+export interface IRdfaIriPolicy {
+  /**
+   * The schemes that are allowed, such as [ 'http', 'https' ], which are compared case-insensitively.
+   * If set, IRIs with other schemes violate the policy.
+   * Relative IRIs, which may remain if relativeIris is enabled, have no scheme and are always allowed.
+   */
+  allowedSchemes?: string[];
+  /**
+   * The schemes that are not allowed, such as [ 'javascript', 'data' ], which are compared case-insensitively.
+   */
+  deniedSchemes?: string[];
+  /**
+   * The maximum number of characters of an IRI.
+   */
+  maxIriLength?: number;
+  /**
+   * What to do with IRIs that violate the policy, defaults to 'drop'.
+   */
+  action?: RdfaIriPolicyAction;
+  /**
+   * The IRI that replaces IRIs that violate the policy if the action is 'replace', defaults to 'about:invalid'.
+   */
+  replacement?: string;
+}
+
+/**
+ * What to do with an IRI that violates an {@link IRdfaIriPolicy}.
+ * * 'drop': ignore the IRI, as if it were invalid, so that no triples are produced with it.
+ * * 'replace': use the replacement IRI of the policy instead.
+ * * 'report': use the IRI as-is, which requires the processor graph to be enabled.
+ * In all cases, a warning is added to the processor graph if enabled.
+ */
+export type RdfaIriPolicyAction = 'drop' | 'replace' | 'report';
@@ -0,0 +1,45 @@
+/**
+ * Limits on the resources that may be used while parsing a document.
+ * These protect against untrusted documents that are excessively large or nested.
+ * Limits that are not set are unbounded.
+ */
+export interface IRdfaLimits {
+  /**
+   * The maximum nesting depth of elements in the document, excluding the elements of instantiated patterns.
+   * When truncating, deeper elements are ignored, including their text.
+   */
+  maxDepth?: number;
+  /**
+   * The maximum number of emitted quads, excluding processor graph quads.
+   * When truncating, all further quads are dropped.
+   */
+  maxQuads?: number;
+  /**
+   * The maximum number of characters that may be collected for literals of open elements,
+   * including the serialized markup of XML and HTML literals.
+   * When truncating, literals are cut off at this length.
+   */
+  maxLiteralLength?: number;
+  /**
+   * The maximum number of stored rdfa:Pattern elements.
+   * When truncating, further patterns are ignored.
+   */
+  maxPatterns?: number;
+  /**
+   * The maximum number of rdfa:copy references that wait for a pattern that is not defined yet.
+   * When truncating, further references to undefined patterns are ignored.
+   */
+  maxPendingPatternCopies?: number;
+  /**
+   * The maximum number of pattern instantiations, including instantiations within other patterns.
+   * When truncating, further instantiations are ignored.
+   */
+  maxPatternCopies?: number;
+}
+
+/**
+ * What to do when a limit is exceeded.
+ * * 'error': emit an {@link RdfaLimitError} and stop parsing.
+ * * 'truncate': emit a 'limit' event with an {@link RdfaLimitError}, and continue parsing with partial results.
+ */
+export type RdfaLimitBehavior = 'error' | 'truncate';
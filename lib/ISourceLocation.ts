@@ -0,0 +1,37 @@
+/**
+ * A position within a source document.
+ */
+export interface ISourcePosition {
+  /**
+   * The line number, starting from 1.
+   */
+  line: number;
+  /**
+   * The column number within the line in Unicode code points, starting from 1.
+   */
+  column: number;
+  /**
+   * The number of characters (UTF-16 code units) before this position.
+   */
+  offset: number;
+  /**
+   * The number of bytes before this position when the document is encoded as UTF-8.
+   * For documents in other encodings, such as windows-1252 or UTF-16, this is not the offset in the original bytes.
+   */
+  utf8ByteOffset: number;
+}
+
+/**
+ * The location of an element within a source document.
+ */
+export interface ISourceLocation {
+  /**
+   * The position at which the start tag of the element starts.
+   */
+  start: ISourcePosition;
+  /**
+   * The position right after the end tag of the element.
+   * This is only set once the element has been closed.
+   */
+  end?: ISourcePosition;
+}
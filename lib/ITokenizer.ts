@@ -0,0 +1,72 @@
+/**
+ * Splits HTML or XML text into tag and text events, which are emitted to an {@link ITokenizerListener}.
+ */
+export interface ITokenizer {
+  /**
+   * The index of the first character of the current event within the written text.
+   */
+  readonly startIndex: number;
+  /**
+   * The index of the last character of the current event within the written text.
+   */
+  readonly endIndex: number;
+
+  /**
+   * Tokenize the given text chunk.
+   * @param {string} chunk A text chunk.
+   */
+  write: (chunk: string) => void;
+
+  /**
+   * Indicate that no more chunks will be written.
+   * This closes all elements that are still open, after which the end event is emitted.
+   */
+  end: () => void;
+
+  /**
+   * Stop emitting events.
+   * Written text will be buffered until {@link resume} is called.
+   */
+  pause: () => void;
+
+  /**
+   * Continue emitting events after the tokenizer was paused.
+   */
+  resume: () => void;
+}
+
+/**
+ * A listener for the events of an {@link ITokenizer}.
+ * For each opened tag, a corresponding close event is emitted.
+ */
+export interface ITokenizerListener {
+  /**
+   * Called when a tag is opened.
+   * @param {string} name The tag name.
+   * @param {Record<string, string>} attributes A hash of attributes.
+   */
+  onTagOpen: (name: string, attributes: Record<string, string>) => void;
+
+  /**
+   * Called when a tag is closed, either explicitly or implicitly.
+   */
+  onTagClose: () => void;
+
+  /**
+   * Called when text contents are parsed.
+   * @param {string} data A string.
+   */
+  onText: (data: string) => void;
+
+  /**
+   * Called when the document is malformed.
+   * Tokenization continues after errors.
+   * @param {Error} error An error.
+   */
+  onError: (error: Error) => void;
+
+  /**
+   * Called when tokenizing has ended.
+   */
+  onEnd: () => void;
+}
@@ -0,0 +1,14 @@
+import type { ITokenizer, ITokenizerListener } from './ITokenizer';
+
+/**
+ * Creates tokenizers for a specific HTML or XML parsing library.
+ */
+export interface ITokenizerAdapter {
+  /**
+   * Create a new tokenizer for a single document.
+   * @param {ITokenizerListener} listener The listener to which events will be emitted.
+   * @param {boolean} xmlMode If the document must be tokenized as XML instead of HTML.
+   * @return {ITokenizer} A new tokenizer.
+   */
+  createTokenizer: (listener: ITokenizerListener, xmlMode: boolean) => ITokenizer;
+}
@@ -0,0 +1,14 @@
+import type * as RDF from '@rdfjs/types';
+
+/**
+ * Loads vocabulary documents for RDFa vocabulary expansion.
+ */
+export interface IVocabularyLoader {
+  /**
+   * Load the quads of the given vocabulary.
+   * The returned promise must reject if the vocabulary could not be loaded.
+   * @param {string} vocab A vocabulary IRI, as referenced via rdfa:usesVocabulary.
+   * @return {Promise<RDF.Quad[]>} A promise resolving to the vocabulary quads.
+   */
+  load: (vocab: string) => Promise<RDF.Quad[]>;
+}
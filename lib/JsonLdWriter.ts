@@ -0,0 +1,127 @@
+import type * as RDF from '@rdfjs/types';
+
+/**
+ * A minimal writer that serializes quads into an expanded JSON-LD document.
+ *
+ * Since JSON-LD groups properties per node, all quads are kept in memory until the writer is ended.
+ */
+export class JsonLdWriter {
+  public static readonly RDF_TYPE = 'http://www.w3.org/1999/02/22-rdf-syntax-ns#type';
+  public static readonly XSD_STRING = 'http://www.w3.org/2001/XMLSchema#string';
+  public static readonly RDF_LANG_STRING = 'http://www.w3.org/1999/02/22-rdf-syntax-ns#langString';
+
+  private readonly output: NodeJS.WritableStream;
+  private readonly graphs: Map<string, Map<string, IJsonLdNodeObject>> = new Map();
+
+  /**
+   * @param {NodeJS.WritableStream} output The stream to write the document to.
+   */
+  public constructor(output: NodeJS.WritableStream) {
+    this.output = output;
+  }
+
+  /**
+   * Convert the given term into a JSON-LD identifier.
+   * @param {Term} term A named node or blank node.
+   * @return {string} An IRI or blank node identifier.
+   */
+  public static termToId(term: RDF.Term): string {
+    return term.termType === 'BlankNode' ? `_:${term.value}` : term.value;
+  }
+
+  /**
+   * Convert the given term into a JSON-LD value or node reference.
+   * @param {Term} term An RDF term in the object position.
+   * @return {IJsonLdValueObject | IJsonLdNodeReference} A JSON-LD value object or node reference.
+   */
+  public static termToValue(term: RDF.Term): IJsonLdValueObject | IJsonLdNodeReference {
+    if (term.termType !== 'Literal') {
+      return { '@id': JsonLdWriter.termToId(term) };
+    }
+    if (term.language) {
+      return { '@value': term.value, '@language': term.language };
+    }
+    if (term.datatype.value !== JsonLdWriter.XSD_STRING && term.datatype.value !== JsonLdWriter.RDF_LANG_STRING) {
+      return { '@value': term.value, '@type': term.datatype.value };
+    }
+    return { '@value': term.value };
+  }
+
+  /**
+   * Add the given quad to the document.
+   * @param {Quad} quad A quad.
+   */
+  public addQuad(quad: RDF.Quad): void {
+    const graphId = quad.graph.termType === 'DefaultGraph' ? '' : JsonLdWriter.termToId(quad.graph);
+    let nodes = this.graphs.get(graphId);
+    if (!nodes) {
+      nodes = new Map();
+      this.graphs.set(graphId, nodes);
+    }
+    const subjectId = JsonLdWriter.termToId(quad.subject);
+    let node = nodes.get(subjectId);
+    if (!node) {
+      node = { '@id': subjectId };
+      nodes.set(subjectId, node);
+    }
+
+    if (quad.predicate.value === JsonLdWriter.RDF_TYPE && quad.object.termType !== 'Literal') {
+      (node['@type'] ||= []).push(JsonLdWriter.termToId(quad.object));
+    } else {
+      // Predicates are IRIs, so they never collide with the keywords of the node object
+      let values = <(IJsonLdValueObject | IJsonLdNodeReference)[] | undefined> node[quad.predicate.value];
+      if (!values) {
+        values = [];
+        node[quad.predicate.value] = values;
+      }
+      values.push(JsonLdWriter.termToValue(quad.object));
+    }
+  }
+
+  /**
+   * Write the document to the output stream.
+   * @param {(error?: Error) => void} callback A callback that is invoked once the document has been written.
+   */
+  public end(callback: (error?: Error) => void): void {
+    const document: (IJsonLdNodeObject | IJsonLdGraphObject)[] = [ ...this.graphs.get('')?.values() || [] ];
+    for (const [ graphId, nodes ] of this.graphs) {
+      if (graphId) {
+        document.push({ '@id': graphId, '@graph': [ ...nodes.values() ]});
+      }
+    }
+    this.output.write(`${JSON.stringify(document, null, 2)}\n`, (error?: Error | null) => callback(error || undefined));
+  }
+}
+
+/**
+ * A JSON-LD value object, which represents a literal.
+ */
+export interface IJsonLdValueObject {
+  '@value': string;
+  '@type'?: string;
+  '@language'?: string;
+}
+
+/**
+ * A JSON-LD node reference, which represents a named node or blank node.
+ */
+export interface IJsonLdNodeReference {
+  '@id': string;
+}
+
+/**
+ * A JSON-LD node object, which contains the types and property values of a subject.
+ */
+export interface IJsonLdNodeObject {
+  '@id': string;
+  '@type'?: string[];
+  [property: string]: string | string[] | (IJsonLdValueObject | IJsonLdNodeReference)[] | undefined;
+}
+
+/**
+ * A JSON-LD named graph, which contains the node objects of a graph.
+ */
+export interface IJsonLdGraphObject {
+  '@id': string;
+  '@graph': IJsonLdNodeObject[];
+}
@@ -0,0 +1,52 @@
+import { Transform } from 'node:stream';
+import type { TransformCallback } from 'node:stream';
+
+/**
+ * A decompression stream that only creates the underlying decompression stream once the first bytes arrive.
+ *
+ * Decompression streams fail on empty input, while the bodies of responses such as 204 responses
+ * and responses to HEAD requests are empty, regardless of their Content-Encoding.
+ * Empty input therefore results in empty output.
+ *
+ * This decoder is not available in browsers, where fetch already decodes response bodies.
+ */
+export class LazyDecoder extends Transform {
+  private readonly createDecoder: () => NodeJS.ReadWriteStream;
+  private decoder: NodeJS.ReadWriteStream | undefined;
+
+  /**
+   * @param {() => NodeJS.ReadWriteStream} createDecoder A factory for the underlying decompression stream.
+   */
+  public constructor(createDecoder: () => NodeJS.ReadWriteStream) {
+    super();
+    this.createDecoder = createDecoder;
+  }
+
+  public override _transform(chunk: Buffer, encoding: BufferEncoding, callback: TransformCallback): void {
+    if (!this.decoder) {
+      const decoder = this.createDecoder();
+      decoder.on('data', (data: Buffer) => {
+        if (!this.push(data)) {
+          decoder.pause();
+        }
+      });
+      decoder.on('error', (error: Error) => this.destroy(error));
+      this.decoder = decoder;
+    }
+    this.decoder.write(chunk, () => callback());
+  }
+
+  public override _flush(callback: TransformCallback): void {
+    if (!this.decoder) {
+      return callback();
+    }
+    this.decoder.once('end', () => callback());
+    this.decoder.end();
+  }
+
+  public override _read(size: number): void {
+    // Decompression is paused if the decompressed data is not consumed
+    this.decoder?.resume();
+    super._read(size);
+  }
+}
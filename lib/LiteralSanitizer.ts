@@ -0,0 +1,263 @@
+import { Util } from './Util';
+
+/**
+ * Sanitizes the markup of rdf:HTML and rdf:XMLLiteral literals while it is being serialized,
+ * so that literals can be rendered without executing markup of the document.
+ *
+ * Sanitization is based on allowlists:
+ * * Elements that are not allowed are omitted, but their contents are kept,
+ *   unless their contents are dangerous, such as for `<script>` and `<style>`, in which case they are omitted as well.
+ * * Attributes that are not allowed are omitted, and so are event handler attributes, such as `onclick`,
+ *   which are never allowed.
+ * * URL attributes, such as `href` and `src`, are omitted if their scheme is not allowed, such as `javascript:`.
+ * * Namespace declarations are always kept, as they are required for XML literals.
+ *
+ * Escaping text and attribute values is left to the serializer of the literal.
+ */
+export class LiteralSanitizer {
+  public static readonly DEFAULT_ALLOWED_ELEMENTS: string[] = [
+    'a',
+    'abbr',
+    'b',
+    'bdi',
+    'bdo',
+    'blockquote',
+    'br',
+    'caption',
+    'cite',
+    'code',
+    'col',
+    'colgroup',
+    'data',
+    'dd',
+    'del',
+    'dfn',
+    'div',
+    'dl',
+    'dt',
+    'em',
+    'figcaption',
+    'figure',
+    'h1',
+    'h2',
+    'h3',
+    'h4',
+    'h5',
+    'h6',
+    'hr',
+    'i',
+    'img',
+    'ins',
+    'kbd',
+    'li',
+    'mark',
+    'ol',
+    'p',
+    'pre',
+    'q',
+    'rp',
+    'rt',
+    'ruby',
+    's',
+    'samp',
+    'small',
+    'span',
+    'strong',
+    'sub',
+    'sup',
+    'table',
+    'tbody',
+    'td',
+    'tfoot',
+    'th',
+    'thead',
+    'time',
+    'tr',
+    'u',
+    'ul',
+    'var',
+    'wbr',
+  ];
+
+  public static readonly DEFAULT_ALLOWED_ATTRIBUTES: string[] = [
+    'abbr',
+    'about',
+    'alt',
+    'cite',
+    'class',
+    'colspan',
+    'content',
+    'datatype',
+    'datetime',
+    'dir',
+    'headers',
+    'height',
+    'href',
+    'id',
+    'inlist',
+    'lang',
+    'prefix',
+    'property',
+    'rel',
+    'resource',
+    'rev',
+    'reversed',
+    'rowspan',
+    'scope',
+    'span',
+    'src',
+    'start',
+    'title',
+    'typeof',
+    'value',
+    'vocab',
+    'width',
+    'xml:lang',
+  ];
+
+  public static readonly DEFAULT_ALLOWED_SCHEMES: string[] = [ 'http', 'https', 'mailto' ];
+
+  /**
+   * Elements of which the contents are omitted if they are not allowed,
+   * as their contents are not text that is rendered, or can execute code.
+   */
+  public static readonly CONTENT_OMITTING_ELEMENTS = new Set([
+    'applet',
+    'embed',
+    'frame',
+    'frameset',
+    'iframe',
+    'math',
+    'noembed',
+    'noframes',
+    'noscript',
+    'object',
+    'plaintext',
+    'script',
+    'style',
+    'svg',
+    'template',
+    'textarea',
+    'title',
+    'xmp',
+  ]);
+
+  /**
+   * Attributes of which the values are URLs.
+   */
+  public static readonly URL_ATTRIBUTES = new Set([
+    'action',
+    'background',
+    'cite',
+    'data',
+    'formaction',
+    'href',
+    'longdesc',
+    'poster',
+    'src',
+    'xlink:href',
+  ]);
+
+  private readonly allowedElements: Set<string>;
+  private readonly allowedAttributes: Set<string>;
+  private readonly allowedSchemes: Set<string>;
+
+  /**
+   * @param {ILiteralSanitizerOptions} options Optional allowlists, which default to a set of safe elements,
+   *                                           attributes and schemes.
+   */
+  public constructor(options?: ILiteralSanitizerOptions) {
+    options = options || {};
+    this.allowedElements = LiteralSanitizer.toLowerCaseSet(
+      options.allowedElements || LiteralSanitizer.DEFAULT_ALLOWED_ELEMENTS,
+    );
+    this.allowedAttributes = LiteralSanitizer.toLowerCaseSet(
+      options.allowedAttributes || LiteralSanitizer.DEFAULT_ALLOWED_ATTRIBUTES,
+    );
+    this.allowedSchemes = LiteralSanitizer.toLowerCaseSet(
+      options.allowedSchemes || LiteralSanitizer.DEFAULT_ALLOWED_SCHEMES,
+    );
+  }
+
+  protected static toLowerCaseSet(values: string[]): Set<string> {
+    return new Set(values.map(value => value.toLowerCase()));
+  }
+
+  /**
+   * Check if the given element may be serialized.
+   * @param {string} name A tag name.
+   * @return {boolean} If the element is allowed.
+   */
+  public isAllowedElement(name: string): boolean {
+    return this.allowedElements.has(name.toLowerCase());
+  }
+
+  /**
+   * Check if the contents of the given element must be omitted, which is the case for dangerous elements
+   * that are not allowed.
+   * @param {string} name A tag name.
+   * @return {boolean} If the contents of the element must be omitted.
+   */
+  public isContentOmitted(name: string): boolean {
+    return !this.isAllowedElement(name) && LiteralSanitizer.CONTENT_OMITTING_ELEMENTS.has(name.toLowerCase());
+  }
+
+  /**
+   * Check if the given attribute may be serialized.
+   * @param {string} name An attribute name.
+   * @param {string} value An attribute value.
+   * @return {boolean} If the attribute is allowed.
+   */
+  public isAllowedAttribute(name: string, value: string): boolean {
+    name = name.toLowerCase();
+    if (name === 'xmlns' || name.startsWith('xmlns:')) {
+      return true;
+    }
+    if (name.startsWith('on') || !this.allowedAttributes.has(name)) {
+      return false;
+    }
+    if (LiteralSanitizer.URL_ATTRIBUTES.has(name)) {
+      // Browsers ignore whitespace and control characters in schemes, such as in 'java\tscript:'
+      // eslint-disable-next-line no-control-regex
+      const scheme = Util.getScheme(value.split(/[\u0000-\u0020\u007F]/u).join(''));
+      return scheme === undefined || this.allowedSchemes.has(scheme);
+    }
+    return true;
+  }
+
+  /**
+   * Get the allowed attributes of an element.
+   * This assumes that the element is allowed.
+   * @param {Record<string, string>} attributes A hash of attributes.
+   * @return {Record<string, string>} A hash of the allowed attributes.
+   */
+  public sanitizeAttributes(attributes: Record<string, string>): Record<string, string> {
+    const sanitized: Record<string, string> = Util.createRecord();
+    for (const key of Object.keys(attributes)) {
+      if (this.isAllowedAttribute(key, attributes[key])) {
+        sanitized[key] = attributes[key];
+      }
+    }
+    return sanitized;
+  }
+}
+
+export interface ILiteralSanitizerOptions {
+  /**
+   * The names of the elements that are allowed, which are compared case-insensitively.
+   * Defaults to {@link LiteralSanitizer.DEFAULT_ALLOWED_ELEMENTS}.
+   */
+  allowedElements?: string[];
+  /**
+   * The names of the attributes that are allowed, which are compared case-insensitively.
+   * Event handler attributes, such as onclick, are never allowed.
+   * Defaults to {@link LiteralSanitizer.DEFAULT_ALLOWED_ATTRIBUTES}.
+   */
+  allowedAttributes?: string[];
+  /**
+   * The schemes that are allowed in URL attributes, such as href and src, which are compared case-insensitively.
+   * Relative URLs are always allowed.
+   * Defaults to {@link LiteralSanitizer.DEFAULT_ALLOWED_SCHEMES}.
+   */
+  allowedSchemes?: string[];
+}
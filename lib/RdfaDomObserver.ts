@@ -0,0 +1,347 @@
+import type * as RDF from '@rdfjs/types';
+import type { IRdfaDomNode, IRdfaDomWalkerOptions } from './RdfaDomWalker';
+import { RdfaDomWalker } from './RdfaDomWalker';
+
+/**
+ * Extracts RDFa from a live DOM, and reports the quads that are added and removed as the DOM changes.
+ *
+ * The DOM is watched using a MutationObserver.
+ * On each batch of mutations, only the smallest subtrees that contain all changes are extracted again,
+ * using the context of their ancestors, and the differences with their previous quads are reported.
+ * Subtrees are extended up to the outermost ancestor with a property attribute,
+ * as the literals of such ancestors depend on the text of their descendants.
+ * Changes that may affect the whole document, such as of `<base>` elements, lists and patterns,
+ * cause the whole root to be extracted again.
+ *
+ * As blank nodes are created anew on each extraction,
+ * quads with blank nodes within changed subtrees are reported as removed and added again.
+ */
+export class RdfaDomObserver {
+  private readonly listener: RdfaDomObserverListener;
+  private readonly walker: RdfaDomWalker;
+  private readonly mutationObserverClass?: RdfaMutationObserverClass;
+  private mutationObserver?: IRdfaMutationObserver;
+  private root?: IRdfaDomNode;
+  private readonly elementQuads: Map<IRdfaDomNode, RDF.Quad[]> = new Map();
+  private readonly elementChildren: Map<IRdfaDomNode, Set<IRdfaDomNode>> = new Map();
+  private readonly quadCounts: Map<string, { quad: RDF.Quad; count: number }> = new Map();
+
+  /**
+   * @param {RdfaDomObserverListener} listener A callback for the added and removed quads.
+   * @param {IRdfaDomObserverOptions} options Optional processing options.
+   */
+  public constructor(listener: RdfaDomObserverListener, options?: IRdfaDomObserverOptions) {
+    options = options || {};
+    this.listener = listener;
+    this.walker = new RdfaDomWalker(options);
+    // The global MutationObserver is typed for DOM nodes only, which are the nodes of the environments that have one
+    const globalScope = <Partial<Pick<typeof globalThis, 'MutationObserver'>>> globalThis;
+    this.mutationObserverClass = options.mutationObserverClass ||
+      <RdfaMutationObserverClass | undefined> <unknown> globalScope.MutationObserver;
+  }
+
+  /**
+   * The quads that are currently extracted from the observed root.
+   */
+  public get quads(): RDF.Quad[] {
+    return [ ...this.quadCounts.values() ].map(entry => entry.quad);
+  }
+
+  /**
+   * Create a string key that uniquely identifies the given term.
+   * @param {RDF.Term} term A term.
+   * @return {string} A key.
+   */
+  public static getTermKey(term: RDF.Term): string {
+    switch (term.termType) {
+      case 'Literal':
+        return `"${term.value}"@${term.language}^^${term.datatype.value}`;
+      case 'Quad':
+        return `<<${RdfaDomObserver.getQuadKey(term)}>>`;
+      default:
+        return `${term.termType}:${term.value}`;
+    }
+  }
+
+  /**
+   * Create a string key that uniquely identifies the given quad.
+   * @param {RDF.BaseQuad} quad A quad.
+   * @return {string} A key.
+   */
+  public static getQuadKey(quad: RDF.BaseQuad): string {
+    return [ quad.subject, quad.predicate, quad.object, quad.graph ].map(RdfaDomObserver.getTermKey).join(' ');
+  }
+
+  /**
+   * Check if the given node or any of its descendants may affect quads outside of the node.
+   * @param {IRdfaDomNode} node A node.
+   * @return {boolean} If the whole document must be extracted again when the node changes.
+   */
+  public static hasGlobalEffect(node: IRdfaDomNode): boolean {
+    const nodes = [ node ];
+    for (let current = nodes.pop(); current; current = nodes.pop()) {
+      if (RdfaDomObserver.isGlobalElement(current)) {
+        return true;
+      }
+      nodes.push(...current.childNodes || []);
+    }
+    return false;
+  }
+
+  /**
+   * Check if the given node is an element that may affect quads outside of itself,
+   * which is the case for `<base>` elements, list items, and elements that define or copy patterns.
+   * @param {IRdfaDomNode} node A node.
+   * @return {boolean} If the node is such an element.
+   */
+  protected static isGlobalElement(node: IRdfaDomNode): boolean {
+    if (!RdfaDomWalker.isElement(node)) {
+      return false;
+    }
+    const attributes = RdfaDomWalker.getAttributes(node);
+    return RdfaDomWalker.getTagName(node) === 'base' ||
+      'inlist' in attributes ||
+      RdfaDomObserver.isPatternAttributeValue(attributes.property) ||
+      RdfaDomObserver.isPatternAttributeValue(attributes.rel) ||
+      RdfaDomObserver.isPatternAttributeValue(attributes.typeof);
+  }
+
+  /**
+   * Check if the given attribute value may refer to RDFa patterns.
+   * @param {string | null | undefined} value An attribute value.
+   * @return {boolean} If the value may refer to rdfa:copy or rdfa:Pattern.
+   */
+  protected static isPatternAttributeValue(value: string | null | undefined): boolean {
+    return Boolean(value) && /copy|pattern/iu.test(value!);
+  }
+
+  /**
+   * Start observing the given root.
+   * All quads that are currently contained in the root are reported as added.
+   * If another root was being observed, it is not observed anymore.
+   * @param {IRdfaDomNode} root A document, document fragment or element.
+   */
+  public observe(root: IRdfaDomNode): void {
+    if (!this.mutationObserverClass) {
+      throw new Error('No MutationObserver is available, one must be provided via the mutationObserverClass option');
+    }
+    this.disconnect();
+    this.root = root;
+    // eslint-disable-next-line new-cap
+    this.mutationObserver = new this.mutationObserverClass(records => this.handleMutations(records));
+    this.mutationObserver.observe(root, {
+      attributeOldValue: true,
+      attributes: true,
+      characterData: true,
+      childList: true,
+      subtree: true,
+    });
+    this.extractRegions([ root ]);
+  }
+
+  /**
+   * Stop observing, and forget all extracted quads.
+   */
+  public disconnect(): void {
+    if (this.mutationObserver) {
+      this.mutationObserver.disconnect();
+      this.mutationObserver = undefined;
+    }
+    this.root = undefined;
+    this.elementQuads.clear();
+    this.elementChildren.clear();
+    this.quadCounts.clear();
+  }
+
+  /**
+   * Handle the given mutations of the observed root.
+   * This is invoked by the MutationObserver,
+   * but can also be invoked for the records that are taken from the MutationObserver before they are delivered.
+   * @param {IRdfaMutationRecord[]} records Mutation records.
+   */
+  public handleMutations(records: IRdfaMutationRecord[]): void {
+    const root = this.root;
+    if (!root) {
+      return;
+    }
+    const regions: IRdfaDomNode[] = [];
+    for (const record of records) {
+      const region = this.getRegion(record);
+      if (region === root) {
+        this.extractRegions([ root ]);
+        return;
+      }
+      regions.push(region);
+    }
+    this.extractRegions(regions);
+  }
+
+  /**
+   * Determine the subtree that must be extracted again for the given mutation.
+   * @param {IRdfaMutationRecord} record A mutation record.
+   * @return {IRdfaDomNode} The root of the subtree,
+   *                        which is the observed root if the mutation may affect the whole document.
+   */
+  protected getRegion(record: IRdfaMutationRecord): IRdfaDomNode {
+    const root = this.root!;
+    if (record.type === 'attributes' &&
+      (record.attributeName === 'inlist' || RdfaDomObserver.isPatternAttributeValue(record.oldValue))) {
+      return root;
+    }
+    if (record.type === 'childList' &&
+      [ ...record.removedNodes || [], ...record.addedNodes || [] ].some(RdfaDomObserver.hasGlobalEffect)) {
+      return root;
+    }
+
+    let region = RdfaDomWalker.isElement(record.target) ? record.target : record.target.parentNode || record.target;
+    for (let node: IRdfaDomNode | null | undefined = region; node && node !== root; node = node.parentNode) {
+      if (RdfaDomObserver.isGlobalElement(node)) {
+        return root;
+      }
+      if (RdfaDomWalker.isElement(node) && 'property' in RdfaDomWalker.getAttributes(node)) {
+        region = node;
+      }
+    }
+    return region;
+  }
+
+  /**
+   * Check if the given node is contained in the given ancestor, or is the ancestor itself.
+   * @param {IRdfaDomNode} node A node.
+   * @param {IRdfaDomNode} ancestor A potential ancestor.
+   * @return {boolean} If the node is contained in the ancestor.
+   */
+  protected static isContainedIn(node: IRdfaDomNode, ancestor: IRdfaDomNode): boolean {
+    for (let current: IRdfaDomNode | null | undefined = node; current; current = current.parentNode) {
+      if (current === ancestor) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Extract the given subtrees again, and report the differences with their previous quads.
+   * Subtrees that are not contained in the root anymore, or that are contained in other subtrees, are ignored.
+   * @param {IRdfaDomNode[]} regions The roots of subtrees.
+   */
+  protected extractRegions(regions: IRdfaDomNode[]): void {
+    const root = this.root!;
+    regions = regions.filter((region, index) => RdfaDomObserver.isContainedIn(region, root) &&
+      !regions.some((other, otherIndex) => otherIndex !== index &&
+        (other === region ? otherIndex < index : RdfaDomObserver.isContainedIn(region, other))));
+
+    const previousCounts: Map<string, number> = new Map();
+    const changedQuads: Map<string, RDF.Quad> = new Map();
+    const updateCount = (quad: RDF.Quad, delta: number): void => {
+      const key = RdfaDomObserver.getQuadKey(quad);
+      const entry = this.quadCounts.get(key) || { quad, count: 0 };
+      if (!previousCounts.has(key)) {
+        previousCounts.set(key, entry.count);
+        changedQuads.set(key, entry.quad);
+      }
+      entry.count += delta;
+      if (entry.count > 0) {
+        this.quadCounts.set(key, entry);
+      } else {
+        this.quadCounts.delete(key);
+      }
+    };
+
+    for (const region of regions) {
+      // Forget the quads of the previous extraction
+      const nodes = [ region ];
+      for (let node = nodes.pop(); node; node = nodes.pop()) {
+        for (const quad of this.elementQuads.get(node) || []) {
+          updateCount(quad, -1);
+        }
+        nodes.push(...this.elementChildren.get(node) || []);
+        this.elementQuads.delete(node);
+        this.elementChildren.delete(node);
+      }
+
+      // Make sure that the region is forgotten when its parent is extracted again
+      if (region !== root) {
+        this.addElementChild(region.parentNode!, region);
+      }
+
+      this.walker.extract(region, {
+        onQuad: (quad, element) => {
+          const quads = this.elementQuads.get(element) || [];
+          quads.push(quad);
+          this.elementQuads.set(element, quads);
+          updateCount(quad, 1);
+        },
+        onElement: (element, parent) => {
+          if (element !== region) {
+            this.addElementChild(parent || region, element);
+          }
+        },
+      });
+    }
+
+    const added: RDF.Quad[] = [];
+    const removed: RDF.Quad[] = [];
+    for (const [ key, previousCount ] of previousCounts) {
+      const exists = this.quadCounts.has(key);
+      if (previousCount === 0 && exists) {
+        added.push(changedQuads.get(key)!);
+      } else if (previousCount > 0 && !exists) {
+        removed.push(changedQuads.get(key)!);
+      }
+    }
+    if (added.length > 0 || removed.length > 0) {
+      this.listener(added, removed);
+    }
+  }
+
+  /**
+   * Remember that the given element was extracted as part of the given parent.
+   * @param {IRdfaDomNode} parent The closest extracted ancestor element, or the root.
+   * @param {IRdfaDomNode} element An element.
+   */
+  protected addElementChild(parent: IRdfaDomNode, element: IRdfaDomNode): void {
+    const children = this.elementChildren.get(parent);
+    if (children) {
+      children.add(element);
+    } else {
+      this.elementChildren.set(parent, new Set([ element ]));
+    }
+  }
+}
+
+/**
+ * A callback for the quads that were added and removed by a batch of mutations.
+ */
+export type RdfaDomObserverListener = (added: RDF.Quad[], removed: RDF.Quad[]) => void;
+
+export interface IRdfaDomObserverOptions extends IRdfaDomWalkerOptions {
+  /**
+   * The MutationObserver implementation to use, defaults to the global MutationObserver.
+   */
+  mutationObserverClass?: RdfaMutationObserverClass;
+}
+
+/**
+ * A mutation record of a DOM Level 2 MutationObserver.
+ * Only the properties that are needed for extracting RDFa are declared.
+ */
+export interface IRdfaMutationRecord {
+  type: string;
+  target: IRdfaDomNode;
+  addedNodes?: Iterable<IRdfaDomNode>;
+  removedNodes?: Iterable<IRdfaDomNode>;
+  attributeName?: string | null;
+  oldValue?: string | null;
+}
+
+/**
+ * A DOM Level 2 MutationObserver.
+ */
+export interface IRdfaMutationObserver {
+  observe: (target: IRdfaDomNode, options: Record<string, boolean>) => void;
+  disconnect: () => void;
+}
+
+export type RdfaMutationObserverClass =
+  new(callback: (records: IRdfaMutationRecord[]) => void) => IRdfaMutationObserver;
@@ -0,0 +1,310 @@
+import type * as RDF from '@rdfjs/types';
+import { Readable } from 'readable-stream';
+import type { IRdfaProcessorOptions } from './RdfaProcessor';
+import { RdfaProcessor } from './RdfaProcessor';
+import { Util } from './Util';
+
+/**
+ * Extracts RDFa from an existing DOM, without serializing and re-tokenizing it.
+ *
+ * This accepts DOM Level 2 nodes, such as the ones from browsers, jsdom and linkedom,
+ * and domhandler nodes, such as the ones produced by htmlparser2.
+ * The tree is walked depth-first, and passed to an {@link RdfaProcessor} using the attribute values of the DOM.
+ */
+export class RdfaDomWalker {
+  public static readonly XHTML_NAMESPACE = 'http://www.w3.org/1999/xhtml';
+
+  private readonly options: IRdfaDomWalkerOptions;
+
+  /**
+   * @param {IRdfaDomWalkerOptions} options Optional processing options.
+   */
+  public constructor(options?: IRdfaDomWalkerOptions) {
+    this.options = options || {};
+  }
+
+  /**
+   * Extract all quads from the given node.
+   * As this is synchronous, vocabulary expansion is not supported.
+   * @param {IRdfaDomNode} node A document, document fragment or element.
+   * @return {RDF.Quad[]} The extracted quads.
+   */
+  public parse(node: IRdfaDomNode): RDF.Quad[] {
+    const quads: RDF.Quad[] = [];
+    this.extract(node, { onQuad: quad => quads.push(quad) });
+    return quads;
+  }
+
+  /**
+   * Synchronously extract all quads from the given node into the given sink.
+   * As this is synchronous, vocabulary expansion is not supported.
+   * @param {IRdfaDomNode} node A document, document fragment or element.
+   * @param {IRdfaDomWalkerSink} sink The sink to which quads and walked elements will be emitted.
+   */
+  public extract(node: IRdfaDomNode, sink: IRdfaDomWalkerSink): void {
+    if (this.options.vocabExpansion) {
+      throw new Error('Vocabulary expansion is not supported when parsing synchronously, use stream instead');
+    }
+    const walk = this.walk(node, sink);
+    while (!walk.next().done) {
+      // Walk until the whole tree has been processed
+    }
+  }
+
+  /**
+   * Extract all quads from the given node as a stream.
+   * The DOM is walked lazily, as quads are being read from the stream.
+   * @param {IRdfaDomNode} node A document, document fragment or element.
+   * @return {RDF.Stream} A quad stream.
+   */
+  public stream(node: IRdfaDomNode): RDF.Stream {
+    let processor: RdfaProcessor;
+    const state = { pushable: true, finishing: false };
+    const walk = this.walk(node, {
+      onQuad: quad => state.pushable = stream.push(quad),
+    }, createdProcessor => processor = createdProcessor);
+    const stream = new Readable({
+      objectMode: true,
+      read() {
+        state.pushable = true;
+        if (state.finishing) {
+          return;
+        }
+        try {
+          // Stop walking once the consumer can not keep up
+          while (state.pushable) {
+            if (walk.next().done) {
+              state.finishing = true;
+              processor.finish().then(() => stream.push(null), (error: Error) => stream.destroy(error));
+              return;
+            }
+          }
+        } catch (error: unknown) {
+          stream.destroy(<Error> error);
+        }
+      },
+    });
+    return stream;
+  }
+
+  /**
+   * Get the name of the given element, which is lowercased for HTML elements.
+   * @param {IRdfaDomNode} element An element.
+   * @return {string} The tag name.
+   */
+  public static getTagName(element: IRdfaDomNode): string {
+    return element.namespaceURI === RdfaDomWalker.XHTML_NAMESPACE ?
+      element.tagName!.toLowerCase() :
+      element.tagName!;
+  }
+
+  /**
+   * Get the attributes of the given element as a hash.
+   * @param {IRdfaDomNode} element An element.
+   * @return {Record<string, string>} A hash of attributes.
+   */
+  public static getAttributes(element: IRdfaDomNode): Record<string, string> {
+    const attributes: Record<string, string> = {};
+    for (const attribute of element.attributes!) {
+      attributes[attribute.name] = attribute.value;
+    }
+    return attributes;
+  }
+
+  /**
+   * Check if the given node is an element.
+   * @param {IRdfaDomNode} node A node.
+   * @return {boolean} If the node is an element.
+   */
+  public static isElement(node: IRdfaDomNode): boolean {
+    // Processing instructions of domhandler also have node type 1, but no tag name
+    return node.nodeType === 1 && node.tagName !== undefined;
+  }
+
+  /**
+   * Find the `<base>` element within the `<head>` of the document that contains the given element.
+   * @param {IRdfaDomNode[]} ancestors The ancestors of an element, starting with the root.
+   * @return {IRdfaDomNode | undefined} The base element, if any.
+   */
+  protected static findBase(ancestors: IRdfaDomNode[]): IRdfaDomNode | undefined {
+    if (ancestors.some(ancestor => RdfaDomWalker.getTagName(ancestor) === 'head')) {
+      // Base elements within the walked subtree are processed as usual
+      return;
+    }
+    const html = ancestors[0];
+    for (const head of html.childNodes!) {
+      if (RdfaDomWalker.isElement(head) && RdfaDomWalker.getTagName(head) === 'head') {
+        return [ ...head.childNodes! ]
+          .find(child => RdfaDomWalker.isElement(child) && RdfaDomWalker.getTagName(child) === 'base');
+      }
+    }
+  }
+
+  /**
+   * Determine the profile of the given document, based on its content type.
+   * @param {IRdfaDomNode} node A node.
+   * @return {IRdfaProcessorOptions} Processor options.
+   */
+  protected getProcessorOptions(node: IRdfaDomNode): IRdfaProcessorOptions {
+    const contentType = this.options.contentType || (node.ownerDocument || node).contentType;
+    if (!this.options.profile && !this.options.features && contentType) {
+      return { ...this.options, profile: Util.contentTypeToProfile(contentType) };
+    }
+    return this.options;
+  }
+
+  /**
+   * Walk the given node, and pass all elements and text to a new processor.
+   * This yields after each opened element.
+   * @param {IRdfaDomNode} node A document, document fragment or element.
+   * @param {IRdfaDomWalkerSink} sink The sink for quads and walked elements.
+   * @param {(processor: RdfaProcessor) => void} onProcessor An optional callback for the created processor.
+   */
+  protected* walk(
+    node: IRdfaDomNode,
+    sink: IRdfaDomWalkerSink,
+    onProcessor?: (processor: RdfaProcessor) => void,
+  ): Generator<void, void> {
+    // Quads that are produced by ancestors of the given node are not part of the subtree
+    let inherited = false;
+    // The node that is being opened, closed, or of which text is being processed
+    let current = node;
+    const processor = new RdfaProcessor({
+      onQuad(quad) {
+        if (!inherited) {
+          sink.onQuad(quad, current);
+        }
+      },
+    }, this.getProcessorOptions(node));
+    onProcessor?.(processor);
+
+    const ancestors: IRdfaDomNode[] = [];
+    if (this.options.inheritContext !== false && RdfaDomWalker.isElement(node)) {
+      for (let parent = node.parentNode; parent && RdfaDomWalker.isElement(parent); parent = parent.parentNode) {
+        ancestors.unshift(parent);
+      }
+    }
+    if (ancestors.length > 0) {
+      inherited = true;
+      const base = RdfaDomWalker.findBase(ancestors);
+      if (base) {
+        processor.onTagOpen('base', RdfaDomWalker.getAttributes(base));
+        processor.onTagClose();
+      }
+      for (const ancestor of ancestors) {
+        processor.onTagOpen(RdfaDomWalker.getTagName(ancestor), RdfaDomWalker.getAttributes(ancestor));
+      }
+      inherited = false;
+    }
+
+    // Walk the tree using an explicit stack, so that deeply nested documents can not overflow the call stack
+    const stack: { node: IRdfaDomNode; index: number }[] = [];
+    const visit = (child: IRdfaDomNode, parent?: IRdfaDomNode): boolean => {
+      switch (child.nodeType) {
+        case 1:
+          if (RdfaDomWalker.isElement(child)) {
+            sink.onElement?.(child, parent);
+            current = child;
+            processor.onTagOpen(RdfaDomWalker.getTagName(child), RdfaDomWalker.getAttributes(child));
+            stack.push({ node: child, index: 0 });
+            return true;
+          }
+          return false;
+        case 3:
+          processor.onText(child.data!);
+          return false;
+        case 4:
+          // CDATA sections of domhandler contain a text node instead of data
+          if (child.data === undefined) {
+            stack.push({ node: child, index: 0 });
+          } else {
+            processor.onText(child.data);
+          }
+          return false;
+        case 9:
+        case 11:
+          stack.push({ node: child, index: 0 });
+          return false;
+        default:
+          return false;
+      }
+    };
+    if (visit(node)) {
+      yield;
+    }
+    while (stack.length > 0) {
+      const entry = stack.pop()!;
+      const children = entry.node.childNodes!;
+      if (entry.index < children.length) {
+        stack.push(entry);
+        if (visit(children[entry.index++], RdfaDomWalker.isElement(entry.node) ? entry.node : undefined)) {
+          yield;
+        }
+      } else if (RdfaDomWalker.isElement(entry.node)) {
+        current = entry.node;
+        processor.onTagClose();
+      }
+    }
+
+    inherited = true;
+    while (ancestors.pop()) {
+      processor.onTagClose();
+    }
+    inherited = false;
+    current = node;
+    processor.onEnd();
+  }
+}
+
+export interface IRdfaDomWalkerOptions extends IRdfaProcessorOptions {
+  /**
+   * The content type of the document, which determines the profile if no profile or features are given.
+   * Defaults to the content type of the document that contains the walked node, if available.
+   */
+  contentType?: string;
+  /**
+   * If the context of the ancestors of an element must be inherited when walking that element,
+   * such as their subject, language, prefixes and vocabulary, and the document's base IRI.
+   * Quads that are produced by the ancestors themselves are not emitted.
+   * Defaults to true.
+   */
+  inheritContext?: boolean;
+}
+
+/**
+ * A sink to which the results of an {@link RdfaDomWalker} are emitted.
+ */
+export interface IRdfaDomWalkerSink {
+  /**
+   * Called for each emitted quad.
+   * @param {RDF.Quad} quad A quad.
+   * @param {IRdfaDomNode} element The element that was being opened or closed when the quad was produced,
+   *                               or the walked node for quads that are produced at the end.
+   */
+  onQuad: (quad: RDF.Quad, element: IRdfaDomNode) => void;
+  /**
+   * Called before each element within the walked node is processed, including the walked node itself.
+   * @param {IRdfaDomNode} element An element.
+   * @param {IRdfaDomNode} parent The closest walked ancestor element, or undefined for the outermost elements.
+   */
+  onElement?: (element: IRdfaDomNode, parent: IRdfaDomNode | undefined) => void;
+}
+
+/**
+ * A node of a DOM Level 2 or domhandler tree.
+ * Only the properties that are needed for extracting RDFa are declared.
+ */
+export interface IRdfaDomNode {
+  /**
+   * 1 for elements, 3 for text, 4 for CDATA sections, 9 for documents, and 11 for document fragments.
+   */
+  nodeType: number;
+  parentNode?: IRdfaDomNode | null;
+  childNodes?: ArrayLike<IRdfaDomNode> & Iterable<IRdfaDomNode>;
+  tagName?: string;
+  namespaceURI?: string | null;
+  attributes?: Iterable<{ name: string; value: string }>;
+  data?: string;
+  ownerDocument?: IRdfaDomNode | null;
+  contentType?: string;
+}
@@ -0,0 +1,193 @@
+import { createReadStream } from 'node:fs';
+import { extname, resolve } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { parseArgs } from 'node:util';
+import type * as RDF from '@rdfjs/types';
+import fastGlob from 'fast-glob';
+import { Writer } from 'n3';
+import { DataFactory } from 'rdf-data-factory';
+import { JsonLdWriter } from './JsonLdWriter';
+import type { IRdfaParserOptions } from './RdfaParser';
+import { RdfaParser } from './RdfaParser';
+import type { RdfaProfile } from './RdfaProfile';
+import { RDFA_FEATURES } from './RdfaProfile';
+
+const DF = new DataFactory();
+
+/**
+ * The output formats that are supported by the rdfa-extract tool, mapped to their N3.js format.
+ */
+export const FORMATS: Record<string, string | undefined> = {
+  'n-triples': 'N-Triples',
+  'n-quads': 'N-Quads',
+  turtle: 'Turtle',
+  'json-ld': undefined,
+};
+
+/**
+ * The output formats that can not contain named graphs.
+ */
+export const TRIPLE_FORMATS: string[] = [ 'n-triples', 'turtle' ];
+
+/**
+ * The content types that are assumed for file extensions if no profile or content type is passed.
+ */
+export const EXTENSION_CONTENT_TYPES: Record<string, string> = {
+  '.html': 'text/html',
+  '.htm': 'text/html',
+  '.xhtml': 'application/xhtml+xml',
+  '.svg': 'image/svg+xml',
+  '.xml': 'application/xml',
+};
+
+export const USAGE = `rdfa-extract extracts RDFa from HTML, XHTML, SVG or XML documents
+  Usage:
+    rdfa-extract page.html
+    rdfa-extract 'pages/**/*.html' --format turtle
+    cat page.html | rdfa-extract --base http://example.org/ --content-type text/html
+  Options:
+    --base          The base IRI of the documents, defaults to the file URL of each file
+    --profile       The RDFa profile: core, html, xhtml or xml, detected from the document by default
+    --content-type  The content type of the documents, as an alternative to --profile
+    --language      The default language for string literals
+    --vocab         The initial vocabulary
+    --graph         The IRI of the graph in which quads must be emitted
+    --format, -f    The output format: n-quads (default), n-triples, turtle or json-ld
+    --help, -h      Print this help message
+  When no files are passed, or when '-' is passed, the document is read from standard input.
+`;
+
+/**
+ * Run the rdfa-extract tool.
+ * @param {string[]} args The command-line arguments, without the executable name.
+ * @param {NodeJS.ReadableStream} stdin A stream to read documents from if no files are passed.
+ * @param {NodeJS.WritableStream} stdout A stream to write the serialized quads to.
+ * @param {NodeJS.WritableStream} stderr A stream to write usage and error messages to.
+ * @return {Promise<number>} A promise resolving to the exit code.
+ */
+export async function runRdfaExtract(
+  args: string[],
+  stdin: NodeJS.ReadableStream,
+  stdout: NodeJS.WritableStream,
+  stderr: NodeJS.WritableStream,
+): Promise<number> {
+  let values: Record<string, string | boolean | undefined>;
+  let positionals: string[];
+  try {
+    ({ values, positionals } = parseArgs({
+      args,
+      allowPositionals: true,
+      options: {
+        base: { type: 'string' },
+        profile: { type: 'string' },
+        'content-type': { type: 'string' },
+        language: { type: 'string' },
+        vocab: { type: 'string' },
+        graph: { type: 'string' },
+        format: { type: 'string', short: 'f', default: 'n-quads' },
+        help: { type: 'boolean', short: 'h' },
+      },
+    }));
+  } catch (error: unknown) {
+    stderr.write(`${(<Error> error).message}\n${USAGE}`);
+    return 1;
+  }
+  if (values.help) {
+    stdout.write(USAGE);
+    return 0;
+  }
+  const format = <string> values.format;
+  if (!(format in FORMATS)) {
+    stderr.write(`Unsupported format '${format}', must be one of ${Object.keys(FORMATS).join(', ')}\n`);
+    return 1;
+  }
+  if (values.graph && TRIPLE_FORMATS.includes(format)) {
+    stderr.write(`The --graph option can not be used with the ${format} format\n`);
+    return 1;
+  }
+  // The profile with all features can not be selected explicitly
+  const profiles = Object.keys(RDFA_FEATURES).filter(Boolean);
+  if (values.profile !== undefined && !profiles.includes(<string> values.profile)) {
+    stderr.write(`Unsupported profile '${<string> values.profile}', must be one of ${profiles.join(', ')}\n${USAGE}`);
+    return 1;
+  }
+
+  const options: IRdfaParserOptions = {
+    language: <string | undefined> values.language,
+    vocab: <string | undefined> values.vocab,
+    profile: <RdfaProfile | undefined> values.profile,
+    contentType: <string | undefined> values['content-type'],
+    detectProfile: true,
+    defaultGraph: values.graph ? DF.namedNode(<string> values.graph) : undefined,
+  };
+  const writer = FORMATS[format] ?
+    new Writer(stdout, { format: FORMATS[format], end: false }) :
+    new JsonLdWriter(stdout);
+
+  try {
+    for (const file of await resolveFiles(positionals.length > 0 ? positionals : [ '-' ])) {
+      const fileOptions: IRdfaParserOptions = { ...options, baseIRI: <string | undefined> values.base };
+      if (file !== '-') {
+        fileOptions.baseIRI ||= pathToFileURL(resolve(file)).href;
+        if (!fileOptions.profile && !fileOptions.contentType) {
+          fileOptions.contentType = EXTENSION_CONTENT_TYPES[extname(file).toLowerCase()];
+        }
+      }
+      await extractQuads(file === '-' ? stdin : createReadStream(file), fileOptions, quad => writer.addQuad(quad));
+    }
+  } catch (error: unknown) {
+    stderr.write(`${(<Error> error).message}\n`);
+    return 1;
+  }
+
+  return new Promise((resolvePromise) => {
+    writer.end((error?: Error | null) => {
+      if (error) {
+        stderr.write(`${error.message}\n`);
+      }
+      resolvePromise(error ? 1 : 0);
+    });
+  });
+}
+
+/**
+ * Expand the given glob patterns into file paths.
+ * Non-pattern arguments and '-' (standard input) are passed through as-is.
+ * @param {string[]} patterns File paths or glob patterns.
+ * @return {Promise<string[]>} A promise resolving to file paths.
+ */
+export async function resolveFiles(patterns: string[]): Promise<string[]> {
+  const files: string[] = [];
+  for (const pattern of patterns) {
+    if (pattern !== '-' && fastGlob.isDynamicPattern(pattern)) {
+      const matches = await fastGlob(pattern, { onlyFiles: true });
+      if (matches.length === 0) {
+        throw new Error(`No files matched the pattern ${pattern}`);
+      }
+      files.push(...matches.sort());
+    } else {
+      files.push(pattern);
+    }
+  }
+  return files;
+}
+
+/**
+ * Parse RDFa from the given stream.
+ * @param {NodeJS.ReadableStream} input A document stream.
+ * @param {IRdfaParserOptions} options Options for the RDFa parser.
+ * @param {(quad: Quad) => void} onQuad A callback for each parsed quad.
+ * @return {Promise<void>} A promise resolving once the stream was fully parsed.
+ */
+export function extractQuads(
+  input: NodeJS.ReadableStream,
+  options: IRdfaParserOptions,
+  onQuad: (quad: RDF.Quad) => void,
+): Promise<void> {
+  return new Promise((resolvePromise, reject) => {
+    new RdfaParser(options).import(input)
+      .on('data', onQuad)
+      .on('error', reject)
+      .on('end', resolvePromise);
+  });
+}
@@ -0,0 +1,20 @@
+import type { IRdfaLimits } from './IRdfaLimits';
+
+/**
+ * An error that indicates that a document exceeded one of the configured limits.
+ */
+export class RdfaLimitError extends Error {
+  public readonly limit: keyof IRdfaLimits;
+  public readonly max: number;
+
+  /**
+   * @param {keyof IRdfaLimits} limit The name of the exceeded limit, such as 'maxDepth'.
+   * @param {number} max The configured value of the limit.
+   */
+  public constructor(limit: keyof IRdfaLimits, max: number) {
+    super(`The document exceeded the ${limit} limit of ${max}`);
+    this.name = 'RdfaLimitError';
+    this.limit = limit;
+    this.max = max;
+  }
+}
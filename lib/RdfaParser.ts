@@ -1,963 +1,452 @@
 import type * as RDF from '@rdfjs/types';
-import type { DomHandler } from 'domhandler';
-import { Parser as HtmlParser } from 'htmlparser2';
-import { PassThrough, Transform } from 'readable-stream';
-import type { IActiveTag } from './IActiveTag';
-import type { IHtmlParseListener } from './IHtmlParseListener';
-import * as INITIAL_CONTEXT_XHTML from './initial-context-xhtml.json';
-import * as INITIAL_CONTEXT from './initial-context.json';
-import type { IRdfaPattern } from './IRdfaPattern';
-import type { IRdfaFeatures, RdfaProfile } from './RdfaProfile';
-import { RDFA_FEATURES } from './RdfaProfile';
+import { Readable, Transform } from 'readable-stream';
+import { resolve } from 'relative-to-absolute-iri';
+import { AbortError } from './AbortError';
+import type * as ContentEncoding from './ContentEncodingDecoder';
+import type { ISourceLocation } from './ISourceLocation';
+import { RdfaLimitError } from './RdfaLimitError';
+import type { IRdfaTextParserOptions } from './RdfaTextParser';
+import { RdfaTextParser } from './RdfaTextParser';
 import { Util } from './Util';
 
 type EventEmitter = NodeJS.EventEmitter;
 
 /**
  * A stream transformer that parses RDFa (text) streams to an {@link RDF.Stream}.
+ *
+ * This delegates tokenizing to an {@link RdfaTextParser}, and adds backpressure and cancellation.
  */
 export class RdfaParser extends Transform implements RDF.Sink<EventEmitter, RDF.Stream> {
-  private readonly options: IRdfaParserOptions;
-  private readonly util: Util;
-  private readonly defaultGraph?: RDF.Quad_Graph;
-  private readonly parser: HtmlParser;
-  private readonly features: IRdfaFeatures;
-  private readonly htmlParseListener?: IHtmlParseListener;
-  private readonly rdfaPatterns: Record<string, IRdfaPattern> | undefined;
-  private readonly pendingRdfaPatternCopies: Record<string, IActiveTag[]> | undefined;
+  /**
+   * The maximum number of characters that are buffered when detecting the profile.
+   */
+  public static readonly PROFILE_DETECTION_LENGTH = RdfaTextParser.PROFILE_DETECTION_LENGTH;
 
-  private readonly activeTagStack: IActiveTag[] = [];
+  private readonly options: IRdfaParserOptions;
+  private readonly textParser: RdfaTextParser;
+  private readonly signal?: AbortSignal;
+  private abortListener?: () => void;
+  private timeout?: ReturnType<typeof setTimeout>;
+  private deadline?: number;
+  private aborted = false;
+  private abortTriggersStarted = false;
+  private parsing = false;
+  private parserPaused = false;
+  private resumeRequested = false;
+  private pendingCallback: ((error?: Error | null) => void) | undefined;
 
   public constructor(options?: IRdfaParserOptions) {
-    super({ readableObjectMode: true });
+    super({ readableObjectMode: true, decodeStrings: false });
     options = options || {};
     this.options = options;
-
-    this.util = new Util(options.dataFactory, options.baseIRI);
-    this.defaultGraph = options.defaultGraph || this.util.dataFactory.defaultGraph();
-    const profile = options.contentType ? Util.contentTypeToProfile(options.contentType) : options.profile || '';
-    this.features = options.features || RDFA_FEATURES[profile];
-    this.htmlParseListener = options.htmlParseListener;
-    this.rdfaPatterns = this.features.copyRdfaPatterns ? {} : undefined;
-    this.pendingRdfaPatternCopies = this.features.copyRdfaPatterns ? {} : undefined;
-
-    this.parser = this.initializeParser(profile === 'xml');
-
-    this.activeTagStack.push({
-      incompleteTriples: [],
-      inlist: false,
-      language: options.language,
-      listMapping: {},
-      listMappingLocal: {},
-      name: '',
-      prefixesAll: {
-        ...INITIAL_CONTEXT['@context'],
-        ...this.features.xhtmlInitialContext ? INITIAL_CONTEXT_XHTML['@context'] : {},
-      },
-      prefixesCustom: {},
-      skipElement: false,
-      vocab: options.vocab,
-    });
+    this.textParser = new RdfaTextParser({
+      onQuad: (quad, location) => this.pushQuad(quad, location),
+      onLimit: error => this.emit('limit', error),
+      onError: error => this.handleError(error),
+      onProgress: () => this.checkDeadline(),
+    }, options);
+
+    // Instances that are only used for calling import() must not be aborted themselves,
+    // so we only start listening to the signal and timeout once parsing starts.
+    this.signal = options.signal;
+    if (this.signal || options.timeout !== undefined) {
+      this.once('pipe', () => this.startAbortTriggers());
+    }
   }
 
   /**
-   * Parses the given text stream into a quad stream.
-   * @param {NodeJS.EventEmitter} stream A text stream.
-   * @return {RDF.Stream} A quad stream.
+   * Parse the body of the given HTTP response.
+   *
+   * The base IRI, content type, character encoding and default language are derived from the response,
+   * as determined by {@link RdfaParser.getResponseOptions}, and are overridden by the given options.
+   * Bodies of Node.js responses are decompressed according to their Content-Encoding header,
+   * while bodies of WHATWG responses have already been decompressed by fetch.
+   * @param {RdfaResponse} response A WHATWG Response, or a Node.js http.IncomingMessage.
+   * @param {IRdfaParserOptions} options Optional parser options.
+   * @return {RdfaParser} A parser into which the response body is piped.
    */
-  public import(stream: EventEmitter): RDF.Stream {
-    const output = new PassThrough({ readableObjectMode: true });
-    stream.on('error', error => parsed.emit('error', error));
-    stream.on('data', data => output.push(data));
-    stream.on('end', () => output.push(null));
-    const parsed = output.pipe(new RdfaParser(this.options));
-    return parsed;
-  }
-
-  public _transform(chunk: any, encoding: string, callback: (error?: Error | null, data?: any) => void): void {
-    this.parser.write(String(chunk));
-    callback();
-  }
-
-  public _flush(callback: (error?: Error | null, data?: any) => void): void {
-    this.parser.end();
-    callback();
-  }
-
-  public onTagOpen(name: string, attributes: Record<string, string>): void {
-    // Determine the parent tag (ignore skipped tags)
-    let parentTagI: number = this.activeTagStack.length - 1;
-    while (parentTagI > 0 && this.activeTagStack[parentTagI].skipElement) {
-      parentTagI--;
-    }
-    let parentTag: IActiveTag = this.activeTagStack[parentTagI];
-    // If we skipped a tag, make sure we DO use the lang, prefixes and vocab of the skipped tag
-    if (parentTagI !== this.activeTagStack.length - 1) {
-      const lastTag = this.activeTagStack.at(-1)!;
-      parentTag = {
-        ...parentTag,
-        language: lastTag.language,
-        prefixesAll: lastTag.prefixesAll,
-        prefixesCustom: lastTag.prefixesCustom,
-        vocab: lastTag.vocab,
-      };
-    }
-
-    // Create a new active tag and inherit language scope and baseIRI from parent
-    const activeTag: IActiveTag = {
-      collectChildTags: parentTag.collectChildTags,
-      collectChildTagsForCurrentTag: parentTag.collectChildTagsForCurrentTag,
-      incompleteTriples: [],
-      inlist: 'inlist' in attributes,
-      listMapping: <Record<string, (RDF.Term | boolean)[]>> <any> [],
-      listMappingLocal: parentTag.listMapping,
-      localBaseIRI: parentTag.localBaseIRI,
-      name,
-      prefixesAll: null!,
-      prefixesCustom: null!,
-      skipElement: false,
-    };
-    this.activeTagStack.push(activeTag);
-
-    // Save the tag contents if needed
-    if (activeTag.collectChildTags) {
-      // Add explicitly defined xmlns, xmlns:* and prefixes to attributes, as required by the spec (Step 11, note)
-      // Sort prefixes alphabetically for deterministic namespace declaration order
-      for (const prefix of Object.keys(parentTag.prefixesCustom).sort()) {
-        const suffix = parentTag.prefixesCustom[prefix];
-        const attributeKey = prefix === '' ? 'xmlns' : `xmlns:${prefix}`;
-        if (!(attributeKey in attributes)) {
-          attributes[attributeKey] = suffix;
-        }
-      }
-
-      const attributesSerialized = Object.keys(attributes).map(key => `${key}="${attributes[key]}"`).join(' ');
-      activeTag.textWithTags = [ `<${name}${attributesSerialized ? ` ${attributesSerialized}` : ''}>` ];
-      if (this.features.skipHandlingXmlLiteralChildren) {
-        return;
-      }
-    }
-
-    let allowTermsInRelPredicates = true;
-    let allowTermsInRevPredicates = true;
-    if (this.features.onlyAllowUriRelRevIfProperty) {
-      // Ignore illegal rel/rev values when property is present
-      if ('property' in attributes && 'rel' in attributes) {
-        allowTermsInRelPredicates = false;
-        if (!attributes.rel.includes(':')) {
-          delete attributes.rel;
-        }
-      }
-      if ('property' in attributes && 'rev' in attributes) {
-        allowTermsInRevPredicates = false;
-        if (!attributes.rev.includes(':')) {
-          delete attributes.rev;
-        }
-      }
-    }
-
-    if (this.features.copyRdfaPatterns) {
-      // Save the tag if needed
-      if (parentTag.collectedPatternTag) {
-        const patternTag: IRdfaPattern = {
-          attributes,
-          children: [],
-          name,
-          referenced: false,
-          rootPattern: false,
-          text: [],
-        };
-        parentTag.collectedPatternTag.children.push(patternTag);
-        activeTag.collectedPatternTag = patternTag;
-        return;
-      }
-
-      // Store tags with type rdfa:Pattern as patterns
-      if (attributes.typeof === 'rdfa:Pattern') {
-        activeTag.collectedPatternTag = {
-          attributes,
-          children: [],
-          name,
-          parentTag,
-          referenced: false,
-          rootPattern: true,
-          text: [],
-        };
-        return;
-      }
-
-      // Instantiate patterns on rdfa:copy
-      if (attributes.property === 'rdfa:copy') {
-        const copyTargetPatternId: string = attributes.resource || attributes.href || attributes.src;
-        if (this.rdfaPatterns![copyTargetPatternId]) {
-          this.emitPatternCopy(parentTag, this.rdfaPatterns![copyTargetPatternId], copyTargetPatternId);
-        } else {
-          if (!this.pendingRdfaPatternCopies![copyTargetPatternId]) {
-            this.pendingRdfaPatternCopies![copyTargetPatternId] = [];
-          }
-          this.pendingRdfaPatternCopies![copyTargetPatternId].push(parentTag);
-        }
-        return;
-      }
-    }
-
-    // <base> tags override the baseIRI of the whole document
-    if (this.features.baseTag && name === 'base' && attributes.href) {
-      this.util.baseIRI = this.util.getBaseIRI(attributes.href);
-    }
-    // Xml:base attributes override the baseIRI of the current tag and children
-    if (this.features.xmlBase && attributes['xml:base']) {
-      activeTag.localBaseIRI = this.util.getBaseIRI(attributes['xml:base']);
-    }
-
-    // <time> tags set an initial datatype
-    if (this.features.timeTag && name === 'time' && !attributes.datatype) {
-      activeTag.interpretObjectAsTime = true;
-    }
-
-    // Processing based on https://www.w3.org/TR/rdfa-core/#s_rdfaindetail
-    // 1: initialize values
-    let newSubject: RDF.NamedNode | RDF.BlankNode | boolean | undefined;
-    let currentObjectResource: RDF.NamedNode | RDF.BlankNode | boolean | undefined;
-    let typedResource: RDF.NamedNode | RDF.BlankNode | boolean | undefined;
-
-    // 2: handle vocab attribute to set active vocabulary
-    // Vocab sets the active vocabulary
-    if ('vocab' in attributes) {
-      if (attributes.vocab) {
-        activeTag.vocab = attributes.vocab;
-        this.emitTriple(
-          this.util.getBaseIriTerm(activeTag),
-          this.util.dataFactory.namedNode(`${Util.RDFA}usesVocabulary`),
-          this.util.dataFactory.namedNode(activeTag.vocab),
-        );
+  public static fromResponse(response: RdfaResponse, options?: IRdfaParserOptions): RdfaParser {
+    const parser = new RdfaParser({ ...RdfaParser.getResponseOptions(response), ...options });
+    if (RdfaParser.isWhatwgResponse(response)) {
+      if (response.body) {
+        RdfaParser.pipeWebStream(response.body, parser);
       } else {
-        // If vocab is set to '', then we fallback to the root vocab as defined via the parser constructor
-        activeTag.vocab = this.activeTagStack[0].vocab;
-      }
-    } else {
-      activeTag.vocab = parentTag.vocab;
-    }
-
-    // 3: handle prefixes
-    activeTag.prefixesCustom = Util.parsePrefixes(
-      attributes,
-      parentTag.prefixesCustom,
-      Boolean(this.features.xmlnsPrefixMappings),
-    );
-    activeTag.prefixesAll = Object.keys(activeTag.prefixesCustom).length > 0 ?
-        { ...parentTag.prefixesAll, ...activeTag.prefixesCustom } :
-      parentTag.prefixesAll;
-
-    // Handle role attribute
-    if (this.features.roleAttribute && attributes.role) {
-      const roleSubject = attributes.id ?
-        this.util.createIri(`#${attributes.id}`, activeTag, false, false, false) :
-        this.util.createBlankNode();
-      // Temporarily override vocab
-      const vocabOld = activeTag.vocab;
-      activeTag.vocab = 'http://www.w3.org/1999/xhtml/vocab#';
-      for (const role of this.util.createVocabIris(attributes.role, activeTag, true, false)) {
-        this.emitTriple(
-          roleSubject,
-          this.util.dataFactory.namedNode('http://www.w3.org/1999/xhtml/vocab#role'),
-          role,
-        );
+        parser.end();
       }
-      activeTag.vocab = vocabOld;
+      return parser;
     }
 
-    // 4: handle language
-    // Save language attribute value in active tag
-    if ('xml:lang' in attributes || (this.features.langAttribute && 'lang' in attributes)) {
-      activeTag.language = attributes['xml:lang'] || attributes.lang;
-    } else {
-      activeTag.language = parentTag.language;
+    // The decoder depends on Node.js modules, so it is only loaded for Node.js responses
+    // eslint-disable-next-line ts/no-require-imports, ts/no-var-requires
+    const contentEncoding = <typeof ContentEncoding> require('./ContentEncodingDecoder');
+    let decoder: ContentEncoding.ContentEncodingDecoder;
+    try {
+      decoder = new contentEncoding
+        .ContentEncodingDecoder(RdfaParser.getResponseHeader(response, 'content-encoding') || '');
+    } catch (error: unknown) {
+      parser.destroy(<Error> error);
+      return parser;
     }
+    const body = decoder.decode(response, (error: Error) => parser.destroy(error));
+    body.pipe(<NodeJS.WritableStream> <unknown> parser);
+    return parser;
+  }
 
-    const isRootTag: boolean = this.activeTagStack.length === 2;
-    if (!('rel' in attributes) && !('rev' in attributes)) {
-      // 5: Determine the new subject when rel and rev are not present
-      if ('property' in attributes && !('content' in attributes) && !('datatype' in attributes)) {
-        // 5.1: property is present, but not content and datatype
-        // Determine new subject
-        if ('about' in attributes) {
-          newSubject = this.util.createIri(attributes.about, activeTag, false, true, true);
-          activeTag.explicitNewSubject = Boolean(newSubject);
-        } else if (isRootTag) {
-          newSubject = true;
-        } else if (parentTag.object) {
-          newSubject = parentTag.object;
-        }
-
-        // Determine type
-        if ('typeof' in attributes) {
-          if ('about' in attributes) {
-            typedResource = this.util.createIri(attributes.about, activeTag, false, true, true);
-          }
-          if (!typedResource && isRootTag) {
-            typedResource = true;
-          }
-          if (!typedResource && 'resource' in attributes) {
-            typedResource = this.util.createIri(attributes.resource, activeTag, false, true, true);
-          }
-          if (!typedResource && ('href' in attributes || 'src' in attributes)) {
-            typedResource = this.util.createIri(attributes.href || attributes.src, activeTag, false, false, true);
-          }
-          if (!typedResource && this.isInheritSubjectInHeadBody(name)) {
-            typedResource = newSubject;
-          }
-          if (!typedResource) {
-            typedResource = this.util.createBlankNode();
-          }
-
-          currentObjectResource = typedResource;
-        }
-      } else {
-        // 5.2
-        if ('about' in attributes || 'resource' in attributes) {
-          newSubject = this.util.createIri(attributes.about || attributes.resource, activeTag, false, true, true);
-          activeTag.explicitNewSubject = Boolean(newSubject);
-        }
-        if (!newSubject && ('href' in attributes || 'src' in attributes)) {
-          newSubject = this.util.createIri(attributes.href || attributes.src, activeTag, false, false, true);
-          activeTag.explicitNewSubject = Boolean(newSubject);
-        }
-        if (!newSubject) {
-          if (isRootTag) {
-            newSubject = true;
-          } else if (this.isInheritSubjectInHeadBody(name)) {
-            newSubject = parentTag.object;
-          } else if ('typeof' in attributes) {
-            newSubject = this.util.createBlankNode();
-            activeTag.explicitNewSubject = true;
-          } else if (parentTag.object) {
-            newSubject = parentTag.object;
-            if (!('property' in attributes)) {
-              activeTag.skipElement = true;
-            }
-          }
-        }
-
-        // Determine type
-        if ('typeof' in attributes) {
-          typedResource = newSubject;
-        }
-      }
-    } else {
-      // Either rel or rev is present
-      // 6: Determine the new subject when rel or rev are present
-
-      // Define new subject
-      if ('about' in attributes) {
-        newSubject = this.util.createIri(attributes.about, activeTag, false, true, true);
-        activeTag.explicitNewSubject = Boolean(newSubject);
-        if ('typeof' in attributes) {
-          typedResource = newSubject;
-        }
-      } else if (isRootTag) {
-        newSubject = true;
-      } else if (parentTag.object) {
-        newSubject = parentTag.object;
-      }
-
-      // Define object
-      if ('resource' in attributes) {
-        currentObjectResource = this.util.createIri(attributes.resource, activeTag, false, true, true);
-      }
-      if (!currentObjectResource) {
-        if ('href' in attributes || 'src' in attributes) {
-          currentObjectResource = this.util.createIri(attributes.href || attributes.src, activeTag, false, false, true);
-        } else if ('typeof' in attributes && !('about' in attributes) && !this.isInheritSubjectInHeadBody(name)) {
-          currentObjectResource = this.util.createBlankNode();
-        }
-      }
+  /**
+   * Derive parser options from the metadata of the given HTTP response.
+   *
+   * * `baseIRI`: The Content-Location header resolved against the final URL of the response, or the final URL itself.
+   * * `contentType`: The Content-Type header, which determines the profile and the character encoding.
+   * * `language`: The Content-Language header, if it contains a single language tag.
+   * @param {RdfaResponse} response A WHATWG Response, or a Node.js http.IncomingMessage.
+   * @return {IRdfaParserOptions} The derived parser options.
+   */
+  public static getResponseOptions(response: RdfaResponse): IRdfaParserOptions {
+    const options: IRdfaParserOptions = {};
 
-      // Set typed resource
-      if ('typeof' in attributes && !('about' in attributes)) {
-        if (this.isInheritSubjectInHeadBody(name)) {
-          typedResource = newSubject;
-        } else {
-          typedResource = currentObjectResource;
-        }
-      }
+    // Node.js responses only know their URL if an HTTP client has set it
+    let url = RdfaParser.isWhatwgResponse(response) ? response.url : response.responseUrl || response.url;
+    if (url && !Util.isValidIri(url)) {
+      url = undefined;
     }
-
-    // 7: If a typed resource was defined, emit it as a triple
-    if (typedResource) {
-      for (const type of this.util.createVocabIris(attributes.typeof, activeTag, true, true)) {
-        this.emitTriple(
-          this.util.getResourceOrBaseIri(typedResource, activeTag),
-          this.util.dataFactory.namedNode(`${Util.RDF}type`),
-          type,
-        );
-      }
+    const contentLocation = RdfaParser.getResponseHeader(response, 'content-location')?.trim();
+    if (contentLocation && url) {
+      options.baseIRI = resolve(contentLocation, url);
+    } else if (contentLocation && Util.isValidIri(contentLocation)) {
+      options.baseIRI = contentLocation;
+    } else if (url) {
+      options.baseIRI = url;
     }
 
-    // 8: Reset list mapping if we have a new subject
-    if (newSubject) {
-      activeTag.listMapping = {};
+    const contentType = RdfaParser.getResponseHeader(response, 'content-type');
+    if (contentType) {
+      options.contentType = contentType;
     }
 
-    // 9: If an object was defined, emit triples for it
-    if (currentObjectResource) {
-      // Handle list mapping
-      if ('rel' in attributes && 'inlist' in attributes) {
-        for (const predicate of
-          this.util.createVocabIris(attributes.rel, activeTag, allowTermsInRelPredicates, false)) {
-          this.addListMapping(activeTag, newSubject!, predicate, currentObjectResource);
-        }
-      }
-
-      // Determine predicates using rel or rev (unless rel and inlist are present)
-      if (!('rel' in attributes && 'inlist' in attributes)) {
-        if ('rel' in attributes) {
-          for (const predicate of
-            this.util.createVocabIris(attributes.rel, activeTag, allowTermsInRelPredicates, false)) {
-            this.emitTriple(
-              this.util.getResourceOrBaseIri(newSubject!, activeTag),
-              predicate,
-              this.util.getResourceOrBaseIri(currentObjectResource, activeTag),
-            );
-          }
-        }
-        if ('rev' in attributes) {
-          for (const predicate of
-            this.util.createVocabIris(attributes.rev, activeTag, allowTermsInRevPredicates, false)) {
-            this.emitTriple(
-              this.util.getResourceOrBaseIri(currentObjectResource, activeTag),
-              predicate,
-              this.util.getResourceOrBaseIri(newSubject!, activeTag),
-            );
-          }
-        }
-      }
+    // A list of languages describes the intended audience, and not the language of the literals
+    const languages = (RdfaParser.getResponseHeader(response, 'content-language') || '')
+      .split(',')
+      .map(language => language.trim())
+      .filter(Boolean);
+    if (languages.length === 1) {
+      options.language = languages[0];
     }
 
-    // 10: Store incomplete triples if we don't have an object, but we do have predicates
-    if (!currentObjectResource) {
-      if ('rel' in attributes) {
-        if ('inlist' in attributes) {
-          for (const predicate of
-            this.util.createVocabIris(attributes.rel, activeTag, allowTermsInRelPredicates, false)) {
-            this.addListMapping(activeTag, newSubject!, predicate, false);
-            activeTag.incompleteTriples!.push({ predicate, reverse: false, list: true });
-          }
-        } else {
-          for (const predicate of
-            this.util.createVocabIris(attributes.rel, activeTag, allowTermsInRelPredicates, false)) {
-            activeTag.incompleteTriples!.push({ predicate, reverse: false });
-          }
-        }
-      }
-      if ('rev' in attributes) {
-        for (const predicate of
-          this.util.createVocabIris(attributes.rev, activeTag, allowTermsInRevPredicates, false)) {
-          activeTag.incompleteTriples!.push({ predicate, reverse: true });
-        }
-      }
+    return options;
+  }
 
-      // Set a blank node object, so the children can make use of this when completing the triples
-      if (activeTag.incompleteTriples!.length > 0) {
-        currentObjectResource = this.util.createBlankNode();
-      }
+  /**
+   * Get the value of the given header of an HTTP response.
+   * @param {RdfaResponse} response A WHATWG Response, or a Node.js http.IncomingMessage.
+   * @param {string} name A lowercase header name.
+   * @return {string | undefined} The header value, with multiple values joined by commas.
+   */
+  public static getResponseHeader(response: RdfaResponse, name: string): string | undefined {
+    if (RdfaParser.isWhatwgResponse(response)) {
+      return response.headers.get(name) ?? undefined;
     }
+    const value = response.headers[name];
+    return Array.isArray(value) ? value.join(', ') : value;
+  }
 
-    // 11: Determine current property value
-    if ('property' in attributes) {
-      // Create predicates
-      activeTag.predicates = this.util.createVocabIris(attributes.property, activeTag, true, false);
-
-      // Save datatype attribute value in active tag
-      let localObjectResource: RDF.Term | boolean | undefined;
-      if ('datatype' in attributes) {
-        activeTag.datatype = this.util.createIri(attributes.datatype, activeTag, true, true, false);
-        if (activeTag.datatype &&
-          (activeTag.datatype.value === `${Util.RDF}XMLLiteral` ||
-            (this.features.htmlDatatype && activeTag.datatype.value === `${Util.RDF}HTML`))) {
-          activeTag.collectChildTags = true;
-          activeTag.collectChildTagsForCurrentTag = true;
-        }
-      } else {
-        // Try to determine resource
-        if (!('rev' in attributes) && !('rel' in attributes) && !('content' in attributes)) {
-          if ('resource' in attributes) {
-            localObjectResource = this.util.createIri(attributes.resource, activeTag, false, true, true);
-          }
-          if (!localObjectResource && 'href' in attributes) {
-            localObjectResource = this.util.createIri(attributes.href, activeTag, false, false, true);
-          }
-          if (!localObjectResource && 'src' in attributes) {
-            localObjectResource = this.util.createIri(attributes.src, activeTag, false, false, true);
-          }
-        }
-        if ('typeof' in attributes && !('about' in attributes)) {
-          localObjectResource = typedResource;
-        }
-      }
-
-      // If we're in a parent tag that collects child tags,
-      // and we find a tag that does NOT preserve tags,
-      // we mark this tag (and children) to not preserve it.
-      if (!('datatype' in attributes) || attributes.datatype === '') {
-        activeTag.collectChildTagsForCurrentTag = false;
-      }
-
-      if ('content' in attributes) {
-        // Emit triples based on content attribute has preference over text content
-        const object = this.util.createLiteral(attributes.content, activeTag);
-        if ('inlist' in attributes) {
-          for (const predicate of activeTag.predicates) {
-            this.addListMapping(activeTag, newSubject!, predicate, object);
-          }
-        } else {
-          const subject = this.util.getResourceOrBaseIri(newSubject!, activeTag);
-          for (const predicate of activeTag.predicates) {
-            this.emitTriple(subject, predicate, object);
-          }
-        }
-
-        // Unset predicate to avoid text contents to produce new triples
-        activeTag.predicates = undefined;
-      } else if (this.features.datetimeAttribute && 'datetime' in attributes) {
-        activeTag.interpretObjectAsTime = true;
-        // Datetime attribute on time tag has preference over text content
-        const object = this.util.createLiteral(attributes.datetime, activeTag);
-        if ('inlist' in attributes) {
-          for (const predicate of activeTag.predicates) {
-            this.addListMapping(activeTag, newSubject!, predicate, object);
-          }
-        } else {
-          const subject = this.util.getResourceOrBaseIri(newSubject!, activeTag);
-          for (const predicate of activeTag.predicates) {
-            this.emitTriple(subject, predicate, object);
-          }
-        }
+  protected static isWhatwgResponse(response: RdfaResponse): response is IRdfaWhatwgResponse {
+    return typeof (<IRdfaWhatwgResponse> response).headers.get === 'function';
+  }
 
-        // Unset predicate to avoid text contents to produce new triples
-        activeTag.predicates = undefined;
-      } else if (localObjectResource) {
-        // Emit triples for all resource objects
-        const object = this.util.getResourceOrBaseIri(localObjectResource, activeTag);
-        if ('inlist' in attributes) {
-          for (const predicate of activeTag.predicates) {
-            this.addListMapping(activeTag, newSubject!, predicate, object);
-          }
+  /**
+   * Write the chunks of the given Web stream into the given parser, respecting backpressure.
+   * @param {ReadableStream<Uint8Array>} body A Web stream of byte chunks.
+   * @param {RdfaParser} parser The parser to write to.
+   */
+  protected static pipeWebStream(body: ReadableStream<Uint8Array>, parser: RdfaParser): void {
+    const reader = body.getReader();
+    const read = (): void => {
+      reader.read().then(({ done, value }) => {
+        if (parser.destroyed) {
+          return;
+        }
+        if (done) {
+          parser.end();
+        } else if (parser.write(value)) {
+          read();
         } else {
-          const subject = this.util.getResourceOrBaseIri(newSubject!, activeTag);
-          for (const predicate of activeTag.predicates) {
-            this.emitTriple(subject, predicate, object);
-          }
+          parser.once('drain', read);
         }
+      }, (error: Error) => parser.destroy(error));
+    };
+    // Stop reading the body if parsing is aborted
+    parser.once('close', () => {
+      reader.cancel().catch(() => {
+        // Errors of the body have already been handled
+      });
+    });
+    read();
+  }
 
-        // Unset predicate to avoid text contents to produce new triples
-        activeTag.predicates = undefined;
-      }
-    }
-
-    // 12: Complete incomplete triples
-    let incompleteTriplesCompleted = false;
-    if (!activeTag.skipElement && newSubject && parentTag.incompleteTriples!.length > 0) {
-      incompleteTriplesCompleted = true;
-      const subject = this.util.getResourceOrBaseIri(parentTag.subject!, activeTag);
-      const object = this.util.getResourceOrBaseIri(newSubject, activeTag);
-      for (const incompleteTriple of parentTag.incompleteTriples!) {
-        if (incompleteTriple.reverse) {
-          this.emitTriple(object, incompleteTriple.predicate, subject);
-        } else if (incompleteTriple.list) {
-          // Find the active tag that defined the list by going up the stack
-          let firstInListTag: IActiveTag | null = null;
-          for (let i = this.activeTagStack.length - 1; i >= 0; i--) {
-            if (this.activeTagStack[i].inlist) {
-              firstInListTag = this.activeTagStack[i];
-              break;
-            }
-          }
-          // FirstInListTag is guaranteed to be non-null
-          this.addListMapping(firstInListTag!, newSubject, incompleteTriple.predicate, object);
-        } else {
-          this.emitTriple(subject, incompleteTriple.predicate, object);
-        }
+  /**
+   * Create a readable stream of the data events of the given stream, respecting backpressure.
+   * The given stream is paused while the readable stream is not consumed, if it can be paused.
+   * @param {NodeJS.EventEmitter} stream A stream.
+   * @param {(data: unknown) => unknown} map A function that is applied to each data chunk.
+   * @return {Readable} A readable stream of the mapped data chunks.
+   */
+  protected static readStream(stream: EventEmitter, map: (data: unknown) => unknown): Readable {
+    const source = <Partial<NodeJS.ReadableStream>> stream;
+    const output = new Readable({
+      objectMode: true,
+      read() {
+        source.resume?.();
+      },
+    });
+    stream.on('data', (data) => {
+      if (!output.push(map(data))) {
+        source.pause?.();
       }
-    }
-    if (!incompleteTriplesCompleted && parentTag.incompleteTriples!.length > 0) {
-      activeTag.incompleteTriples = [ ...activeTag.incompleteTriples!, ...parentTag.incompleteTriples! ];
-    }
-
-    // 13: Save evaluation context into active tag
-    activeTag.subject = newSubject || parentTag.subject;
-    activeTag.object = currentObjectResource || newSubject;
+    });
+    stream.on('end', () => output.push(null));
+    return output;
   }
 
-  public onText(data: string): void {
-    const activeTag: IActiveTag = this.activeTagStack.at(-1)!;
+  /**
+   * Resolve the relative IRIs in the given quad stream against the given base IRI,
+   * such as the quads of a document that was parsed without base IRI with the relativeIris option.
+   * @param {NodeJS.EventEmitter} stream A quad stream.
+   * @param {string} baseIRI An absolute base IRI.
+   * @param {RDF.DataFactory} dataFactory An optional data factory for the resolved terms and quads.
+   * @return {RDF.Stream} A quad stream without relative IRIs.
+   */
+  public static rebase(stream: EventEmitter, baseIRI: string, dataFactory?: RDF.DataFactory): RDF.Stream {
+    const util = new Util(dataFactory, baseIRI);
+    const output = RdfaParser.readStream(stream, quad => util.rebaseQuad(<RDF.Quad> quad));
+    stream.on('error', (error: Error) => output.destroy(error));
+    return output;
+  }
 
-    // Collect text in pattern tag if needed
-    if (this.features.copyRdfaPatterns && activeTag.collectedPatternTag) {
-      activeTag.collectedPatternTag.text.push(data);
-      return;
-    }
+  /**
+   * Parses the given text stream into a quad stream.
+   * @param {NodeJS.EventEmitter} stream A text stream.
+   * @return {RDF.Stream} A quad stream.
+   */
+  public import(stream: EventEmitter): RDF.Stream {
+    const output = RdfaParser.readStream(stream, data => data);
+    stream.on('error', error => parsed.emit('error', error));
+    const parsed = output.pipe(new RdfaParser(this.options));
+    return parsed;
+  }
 
-    // Save the text inside the active tag
-    if (!activeTag.textWithTags) {
-      activeTag.textWithTags = [];
-    }
-    if (!activeTag.textWithoutTags) {
-      activeTag.textWithoutTags = [];
+  public _transform(chunk: any, encoding: string, callback: (error?: Error | null, data?: any) => void): void {
+    this.startAbortTriggers();
+    if (this.aborted) {
+      return callback();
     }
-    activeTag.textWithTags.push(data);
-    activeTag.textWithoutTags.push(data);
+    this.runParser(() => this.textParser.write(<string | Uint8Array> chunk), callback);
   }
 
-  public onTagClose(): void {
-    // Get the active tag
-    const activeTag: IActiveTag = this.activeTagStack.at(-1)!;
-    const parentTag: IActiveTag = this.activeTagStack.at(-2)!;
-
-    if (!(activeTag.collectChildTags && parentTag.collectChildTags && this.features.skipHandlingXmlLiteralChildren)) {
-      // If we detect a finalized rdfa:Pattern tag, store it
-      if (this.features.copyRdfaPatterns && activeTag.collectedPatternTag &&
-        activeTag.collectedPatternTag.rootPattern) {
-        const patternId = activeTag.collectedPatternTag.attributes.resource;
-
-        // Remove resource and typeof attributes to avoid it being seen as a new pattern
-        delete activeTag.collectedPatternTag.attributes.resource;
-        delete activeTag.collectedPatternTag.attributes.typeof;
-
-        // Store the pattern
-        this.rdfaPatterns![patternId] = activeTag.collectedPatternTag;
-
-        // Apply all pending copies for this pattern
-        if (this.pendingRdfaPatternCopies![patternId]) {
-          for (const tag of this.pendingRdfaPatternCopies![patternId]) {
-            this.emitPatternCopy(tag, activeTag.collectedPatternTag, patternId);
-          }
-          delete this.pendingRdfaPatternCopies![patternId];
-        }
-
-        // Remove the active tag from the stack
-        this.activeTagStack.pop();
-
-        return;
-      }
-
-      // Emit all triples that were determined in the active tag
-      if (activeTag.predicates) {
-        const subject = this.util.getResourceOrBaseIri(activeTag.subject!, activeTag);
-        let textSegments: string[];
-        if (activeTag.collectChildTagsForCurrentTag) {
-          textSegments = activeTag.textWithTags || [];
-          if (activeTag.collectChildTags && parentTag.collectChildTags) {
-            // If we are inside an XMLLiteral child that also has RDFa content, ignore the tag name that was collected.
-            textSegments = textSegments.slice(1);
-          }
-        } else {
-          textSegments = activeTag.textWithoutTags || [];
-        }
-        const object = this.util.createLiteral(textSegments.join(''), activeTag);
-        if (activeTag.inlist) {
-          for (const predicate of activeTag.predicates) {
-            this.addListMapping(activeTag, subject, predicate, object);
-          }
-        } else {
-          for (const predicate of activeTag.predicates) {
-            this.emitTriple(subject, predicate, object);
-          }
-        }
-
-        // Reset text, unless the parent is also collecting text
-        if (!parentTag.predicates) {
-          activeTag.textWithoutTags = undefined;
-          activeTag.textWithTags = undefined;
-        }
-      }
-
-      // 14: Handle local list mapping
-      if (activeTag.object && Object.keys(activeTag.listMapping).length > 0) {
-        const subject = this.util.getResourceOrBaseIri(activeTag.object, activeTag);
-        for (const predicateValue in activeTag.listMapping) {
-          const predicate = this.util.dataFactory.namedNode(predicateValue);
-          const values = activeTag.listMapping[predicateValue];
-
-          if (values.length > 0) {
-            // Non-empty list, emit linked list of rdf:first and rdf:rest chains
-            const bnodes = values.map(() => this.util.createBlankNode());
-            for (let i = 0; i < values.length; i++) {
-              const object = this.util.getResourceOrBaseIri(values[i], activeTag);
-              this.emitTriple(bnodes[i], this.util.dataFactory.namedNode(`${Util.RDF}first`), object);
-              this.emitTriple(bnodes[i], this.util.dataFactory.namedNode(`${Util.RDF}rest`), (i < values.length - 1) ? bnodes[i + 1] : this.util.dataFactory.namedNode(`${Util.RDF}nil`));
-            }
-
-            // Emit triple for the first linked list chain
-            this.emitTriple(subject, predicate, bnodes[0]);
-          } else {
-            // Empty list, just emit rdf:nil
-            this.emitTriple(subject, predicate, this.util.dataFactory.namedNode(`${Util.RDF}nil`));
-          }
-        }
-      }
+  public _flush(callback: (error?: Error | null, data?: any) => void): void {
+    this.startAbortTriggers();
+    if (this.aborted) {
+      return callback();
     }
+    this.runParser(() => this.textParser.end(), () => {
+      this.textParser.finish().then(() => callback(), callback);
+    });
+  }
 
-    // Remove the active tag from the stack
-    this.activeTagStack.pop();
-
-    // Save the tag contents if needed
-    if (activeTag.collectChildTags && activeTag.textWithTags) {
-      activeTag.textWithTags.push(`</${activeTag.name}>`);
-    }
+  public _destroy(error: Error | null, callback: (error: Error | null) => void): void {
+    this.clearAbortTriggers();
+    callback(error);
+  }
 
-    // If we still have text contents, try to append it to the parent tag
-    if (activeTag.textWithTags && parentTag) {
-      if (parentTag.textWithTags) {
-        parentTag.textWithTags = [ ...parentTag.textWithTags, ...activeTag.textWithTags ];
+  public _read(size: number): void {
+    // Continue parsing if the parser was paused because the consumer could not keep up
+    if (this.parserPaused) {
+      if (this.parsing) {
+        this.resumeRequested = true;
       } else {
-        parentTag.textWithTags = activeTag.textWithTags;
-      }
-    }
-    if (activeTag.textWithoutTags && parentTag) {
-      if (parentTag.textWithoutTags) {
-        parentTag.textWithoutTags = [ ...parentTag.textWithoutTags, ...activeTag.textWithoutTags ];
-      } else {
-        parentTag.textWithoutTags = activeTag.textWithoutTags;
+        const callback = this.pendingCallback!;
+        this.pendingCallback = undefined;
+        this.parserPaused = false;
+        this.runParser(() => this.textParser.resume(), callback);
       }
     }
+    super._read(size);
   }
 
-  public onEnd(): void {
-    if (this.features.copyRdfaPatterns) {
-      this.features.copyRdfaPatterns = false;
-
-      // Emit all unreferenced patterns
-      for (const patternId in this.rdfaPatterns) {
-        const pattern = this.rdfaPatterns[patternId];
-        if (!pattern.referenced) {
-          pattern.attributes.typeof = 'rdfa:Pattern';
-          pattern.attributes.resource = patternId;
-          this.emitPatternCopy(pattern.parentTag!, pattern, patternId);
-          pattern.referenced = false;
-          delete pattern.attributes.typeof;
-          delete pattern.attributes.resource;
-        }
-      }
+  /**
+   * Abort parsing.
+   * This stops the HTML parser, releases all buffered state, and destroys the stream with the given error.
+   * @param {AbortError} error The error to destroy the stream with.
+   */
+  protected abort(error: AbortError): void {
+    this.aborted = true;
+    this.clearAbortTriggers();
 
-      // Emit all unreferenced copy links
-      for (const patternId in this.pendingRdfaPatternCopies) {
-        for (const parentTag of this.pendingRdfaPatternCopies[patternId]) {
-          this.activeTagStack.push(parentTag);
-          this.onTagOpen('link', { property: 'rdfa:copy', href: patternId });
-          this.onTagClose();
-          this.activeTagStack.pop();
-        }
-      }
+    this.textParser.abort();
+    this.pendingCallback = undefined;
 
-      this.features.copyRdfaPatterns = true;
-    }
+    this.destroy(error);
   }
 
   /**
-   * If the new subject can be inherited from the parent object
-   * if the resource defines no new subject.
-   * @param {string} name The current tag name.
-   * @returns {boolean} If the subject can be inherited.
+   * Start listening to the abort signal and the timeout, if they were not started yet.
    */
-  protected isInheritSubjectInHeadBody(name: string): boolean {
-    return Boolean(this.features.inheritSubjectInHeadBody) && (name === 'head' || name === 'body');
+  protected startAbortTriggers(): void {
+    if (this.abortTriggersStarted) {
+      return;
+    }
+    this.abortTriggersStarted = true;
+    if (this.signal) {
+      if (this.signal.aborted) {
+        this.abort(new AbortError('The parser was aborted', this.signal.reason));
+        return;
+      }
+      this.abortListener = () => this.abort(new AbortError('The parser was aborted', this.signal!.reason));
+      this.signal.addEventListener('abort', this.abortListener);
+    }
+    if (this.options.timeout !== undefined) {
+      // The timer only fires between chunks, so the deadline is also checked while a chunk is being parsed
+      this.deadline = Date.now() + this.options.timeout;
+      this.timeout = setTimeout(
+        () => this.abort(new AbortError(`The parser timed out after ${this.options.timeout}ms`)),
+        this.options.timeout,
+      );
+      // The timeout must not keep the process alive
+      this.timeout.unref?.();
+    }
   }
 
   /**
-   * Add a list mapping for the given predicate and object in the active tag.
-   * @param {IActiveTag} activeTag The active tag.
-   * @param {Term | boolean} subject A subject term, this will only be used to create a separate list
-   *                                 if activeTag.explicitNewSubject is true.
-   * @param {Term} predicate A predicate term.
-   * @param {Term | boolean} currentObjectResource The current object resource.
+   * Stop listening to the abort signal and the timeout.
    */
-  protected addListMapping(
-    activeTag: IActiveTag,
-    subject: RDF.Quad_Subject | boolean,
-    predicate: RDF.Quad_Predicate,
-    currentObjectResource: RDF.Quad_Object | boolean,
-  ): void {
-    if (activeTag.explicitNewSubject) {
-      const bNode = this.util.createBlankNode();
-      this.emitTriple(this.util.getResourceOrBaseIri(subject, activeTag), predicate, bNode);
-      this.emitTriple(bNode, this.util.dataFactory.namedNode(`${Util.RDF}first`), this.util.getResourceOrBaseIri(currentObjectResource, activeTag));
-      this.emitTriple(bNode, this.util.dataFactory.namedNode(`${Util.RDF}rest`), this.util.dataFactory.namedNode(`${Util.RDF}nil`));
-    } else {
-      let predicateList = activeTag.listMappingLocal[predicate.value];
-      if (!predicateList) {
-        activeTag.listMappingLocal[predicate.value] = predicateList = [];
-      }
-      if (currentObjectResource) {
-        predicateList.push(currentObjectResource);
-      }
+  protected clearAbortTriggers(): void {
+    if (this.abortListener) {
+      this.signal!.removeEventListener('abort', this.abortListener);
+    }
+    if (this.timeout) {
+      clearTimeout(this.timeout);
+      this.timeout = undefined;
     }
   }
 
   /**
-   * Emit the given triple to the stream.
-   * @param {Term} subject A subject term.
-   * @param {Term} predicate A predicate term.
-   * @param {Term} object An object term.
+   * Throw an {@link AbortError} if the timeout has been exceeded.
    */
-  protected emitTriple(subject: RDF.Quad_Subject, predicate: RDF.Quad_Predicate, object: RDF.Quad_Object): void {
-    // Validate IRIs
-    if ((subject.termType === 'NamedNode' && !subject.value.includes(':')) ||
-      (predicate.termType === 'NamedNode' && !predicate.value.includes(':')) ||
-      (object.termType === 'NamedNode' && !object.value.includes(':'))) {
-      return;
+  protected checkDeadline(): void {
+    if (this.deadline !== undefined && Date.now() > this.deadline) {
+      throw new AbortError(`The parser timed out after ${this.options.timeout}ms`);
     }
-    this.push(this.util.dataFactory.quad(subject, predicate, object, this.defaultGraph));
   }
 
   /**
-   * Emit an instantiation of the given pattern with the given parent tag.
-   * @param {IActiveTag} parentTag The parent tag to instantiate in.
-   * @param {IRdfaPattern} pattern The pattern to instantiate.
-   * @param {string} rootPatternId The pattern id.
+   * Run the given action on the HTML parser.
+   * If the parser was paused due to backpressure during this action,
+   * the callback will only be invoked once the consumer has read enough quads for parsing to finish.
+   * @param {() => void} action An action that causes the HTML parser to run.
+   * @param {(error?: Error | null) => void} callback A callback to invoke once the action has been fully handled.
    */
-  protected emitPatternCopy(parentTag: IActiveTag, pattern: IRdfaPattern, rootPatternId: string): void {
-    this.activeTagStack.push(parentTag);
-    pattern.referenced = true;
-
-    // Ensure that blank nodes within patterns are instantiated only once.
-    // All next pattern copies will reuse the instantiated blank nodes from the first pattern.
-    if (pattern.constructedBlankNodes) {
-      let blankNodeIndex = 0;
-      this.util.blankNodeFactory = () => pattern.constructedBlankNodes![blankNodeIndex++];
+  protected runParser(action: () => void, callback: (error?: Error | null) => void): void {
+    this.parsing = true;
+    action();
+    while (this.parserPaused && this.resumeRequested) {
+      this.parserPaused = false;
+      this.resumeRequested = false;
+      this.textParser.resume();
+    }
+    this.resumeRequested = false;
+    this.parsing = false;
+    if (this.parserPaused) {
+      this.pendingCallback = callback;
     } else {
-      pattern.constructedBlankNodes = [];
-      this.util.blankNodeFactory = () => {
-        const bNode = this.util.dataFactory.blankNode();
-        pattern.constructedBlankNodes!.push(bNode);
-        return bNode;
-      };
+      callback();
     }
-
-    // Apply everything within the pattern
-    this.emitPatternCopyAbsolute(pattern, true, rootPatternId);
-
-    this.util.blankNodeFactory = undefined;
-    this.activeTagStack.pop();
   }
 
   /**
-   * Emit an instantiation of the given pattern with the given parent tag.
-   *
-   * This should probably not be called directly,
-   * call {@link emitPatternCopy} instead.
-   *
-   * @param {IRdfaPattern} pattern The pattern to instantiate.
-   * @param {boolean} root If this is the root call for the given pattern.
-   * @param {string} rootPatternId The pattern id.
+   * Push the given quad into the stream.
+   * If the stream buffer is full, the HTML parser is paused until the consumer reads more quads.
+   * @param {RDF.Quad} quad A quad.
+   * @param {ISourceLocation} location The location of the element that produced the quad, if known.
    */
-  protected emitPatternCopyAbsolute(pattern: IRdfaPattern, root: boolean, rootPatternId: string): void {
-    // Stop on detection of cyclic patterns
-    if (!root && pattern.attributes.property === 'rdfa:copy' && pattern.attributes.href === rootPatternId) {
-      return;
+  protected pushQuad(quad: RDF.Quad, location?: ISourceLocation): void {
+    if (location) {
+      this.emit('location', quad, location);
     }
-
-    this.onTagOpen(pattern.name, pattern.attributes);
-    for (const text of pattern.text) {
-      this.onText(text);
+    // Quads emitted after the end of the document can not pause the parser anymore
+    if (!this.push(quad) && this.parsing && !this.textParser.ended) {
+      this.textParser.pause();
+      this.parserPaused = true;
     }
-    for (const child of pattern.children) {
-      this.emitPatternCopyAbsolute(child, false, rootPatternId);
-    }
-    this.onTagClose();
   }
 
-  protected initializeParser(xmlMode: boolean): HtmlParser {
-    return new HtmlParser(
-      <DomHandler> <any> {
-        onclosetag: () => {
-          try {
-            this.onTagClose();
-            if (this.htmlParseListener) {
-              this.htmlParseListener.onTagClose();
-            }
-          } catch (e) {
-            this.emit('error', e);
-          }
-        },
-        onend: () => {
-          try {
-            this.onEnd();
-            if (this.htmlParseListener) {
-              this.htmlParseListener.onEnd();
-            }
-          } catch (e) {
-            this.emit('error', e);
-          }
-        },
-        onopentag: (name: string, attributes: Record<string, string>) => {
-          try {
-            this.onTagOpen(name, attributes);
-            if (this.htmlParseListener) {
-              this.htmlParseListener.onTagOpen(name, attributes);
-            }
-          } catch (e) {
-            this.emit('error', e);
-          }
-        },
-        ontext: (data: string) => {
-          try {
-            this.onText(data);
-            if (this.htmlParseListener) {
-              this.htmlParseListener.onText(data);
-            }
-          } catch (e) {
-            this.emit('error', e);
-          }
-        },
-      },
-      {
-        decodeEntities: true,
-        recognizeSelfClosing: true,
-        xmlMode,
-      },
-    );
+  /**
+   * Handle an error that was thrown while handling an HTML parse event.
+   * Exceeded limits and timeouts stop parsing, while other errors are emitted.
+   * @param {unknown} error An error.
+   */
+  protected handleError(error: unknown): void {
+    if (error instanceof AbortError) {
+      this.abort(error);
+    } else if (error instanceof RdfaLimitError) {
+      this.textParser.pause();
+      this.destroy(error);
+    } else {
+      this.emit('error', error);
+    }
   }
 }
 
-export interface IRdfaParserOptions {
-  /**
-   * A custom RDFJS DataFactory to construct terms and triples.
-   */
-  dataFactory?: RDF.DataFactory;
-  /**
-   * An initital default base IRI.
-   */
-  baseIRI?: string;
-  /**
-   * A default language for string literals.
-   */
-  language?: string;
+export interface IRdfaParserOptions extends IRdfaTextParserOptions {
   /**
-   * The initial vocabulary.
+   * If the source location of elements must be tracked.
+   * If enabled, a 'location' event will be emitted for each quad,
+   * with the quad and the location of the element that produced it.
+   * The end of the location is only set once the element has been closed.
    */
-  vocab?: string;
+  sourceLocations?: boolean;
   /**
-   * The default graph for constructing quads.
+   * A signal to abort parsing.
+   * Once aborted, the stream will be destroyed with an {@link AbortError}.
+   * This signal is only observed once the first chunk is written, or once a stream is piped into the parser.
    */
-  defaultGraph?: RDF.Quad_Graph;
+  signal?: AbortSignal;
   /**
-   * A hash of features that should be enabled.
-   * Defaults to the features defined by the profile.
+   * The maximum number of milliseconds parsing may take,
+   * starting from the first written chunk, or from the moment a stream is piped into the parser.
+   * Once exceeded, the stream will be destroyed with an {@link AbortError},
+   * also while a single large chunk is being parsed.
    */
-  features?: IRdfaFeatures;
+  timeout?: number;
+}
+
+/**
+ * An HTTP response from which {@link RdfaParser.fromResponse} can parse RDFa.
+ */
+export type RdfaResponse = IRdfaWhatwgResponse | IRdfaIncomingMessage;
+
+/**
+ * The parts of a WHATWG Response, as returned by fetch, that are used for parsing.
+ */
+export interface IRdfaWhatwgResponse {
   /**
-   * The RDFa profile to use.
-   * Defaults to a profile with all possible features enabled.
+   * The final URL of the response, after redirects.
    */
-  profile?: RdfaProfile;
+  url: string;
+  headers: { get: (name: string) => string | null };
+  body: ReadableStream<Uint8Array> | null;
+}
+
+/**
+ * The parts of a Node.js http.IncomingMessage that are used for parsing.
+ */
+export interface IRdfaIncomingMessage extends NodeJS.ReadableStream {
+  headers: Record<string, string | string[] | undefined>;
   /**
-   * The content type of the document that should be parsed.
-   * This can be used as an alternative to the 'profile' option.
+   * The final URL of the response, after redirects, as set by HTTP clients such as follow-redirects.
    */
-  contentType?: string;
+  responseUrl?: string;
   /**
-   * An optional listener for the internal HTML parse events.
+   * The URL of the response, as set by some HTTP clients.
+   * This is ignored if it is not an absolute IRI, such as the request path of incoming requests on a server.
    */
-  htmlParseListener?: IHtmlParseListener;
+  url?: string;
 }
@@ -0,0 +1,1724 @@
+import type * as RDF from '@rdfjs/types';
+import { HtmlLiteralSerializer } from './HtmlLiteralSerializer';
+import { HtmlTreeNormalizer } from './HtmlTreeNormalizer';
+import type { IActiveTag } from './IActiveTag';
+import * as INITIAL_CONTEXT_XHTML from './initial-context-xhtml.json';
+import * as INITIAL_CONTEXT from './initial-context.json';
+import type { IRdfaIriPolicy } from './IRdfaIriPolicy';
+import type { IRdfaLimits, RdfaLimitBehavior } from './IRdfaLimits';
+import type { IRdfaPattern } from './IRdfaPattern';
+import type { ISourceLocation } from './ISourceLocation';
+import type { IVocabularyLoader } from './IVocabularyLoader';
+import type { LiteralSanitizer } from './LiteralSanitizer';
+import { RdfaLimitError } from './RdfaLimitError';
+import type { RdfaProcessorStatus } from './RdfaProcessorStatus';
+import type { IRdfaFeatures, RdfaProfile } from './RdfaProfile';
+import { RDFA_FEATURES } from './RdfaProfile';
+import { Util } from './Util';
+import { VocabularyExpander } from './VocabularyExpander';
+import { XmlLiteralSerializer } from './XmlLiteralSerializer';
+
+/**
+ * Processes RDFa from tag and text events, and emits the resulting quads to a sink.
+ *
+ * This does not depend on any stream implementation or HTML parser,
+ * so it can be driven by any tokenizer.
+ * Calls to {@link onTagOpen} and {@link onTagClose} must be balanced,
+ * and {@link onEnd} must be called once all tags have been closed.
+ * Once an error was thrown, such as an {@link RdfaLimitError}, the processor should not be used anymore.
+ */
+export class RdfaProcessor {
+  /**
+   * The maximum number of characters of the tags and text that are buffered until the base IRI is determined,
+   * after which they are processed against the base IRI at that point, if deferBase is enabled.
+   */
+  public static readonly DEFERRED_EVENTS_LENGTH = 65536;
+
+  private readonly sink: IRdfaProcessorSink;
+  private readonly util: Util;
+  private readonly defaultGraph?: RDF.Quad_Graph;
+  private readonly features: IRdfaFeatures;
+  private rdfaPatterns: Map<string, IRdfaPattern> | undefined;
+  private pendingRdfaPatternCopies: Map<string, IActiveTag[]> | undefined;
+  private readonly processorGraph?: RDF.Quad_Graph;
+  private readonly processorGraphStream?: IRdfaProcessorGraphStream;
+  private readonly vocabLoader?: IVocabularyLoader;
+  private readonly vocabExpander?: VocabularyExpander;
+  private readonly vocabLoads: Map<string, Promise<void>> = new Map();
+  private vocabLoadsPending = 0;
+  // If vocabularies were loaded that may entail new quads from the quads that were emitted so far
+  private vocabExpansionOutdated = false;
+  private readonly vocabExpansionQuads: Map<string, [RDF.Quad_Subject, RDF.Quad_Object][]> = new Map();
+  private readonly vocabExpansionKeys: Set<string> = new Set();
+  private readonly sourceLocations: boolean;
+  private readonly literalSanitizer?: LiteralSanitizer;
+  private readonly xmlLiteralSerializer: XmlLiteralSerializer;
+  private readonly htmlLiteralSerializer: HtmlLiteralSerializer = new HtmlLiteralSerializer();
+  private textBuffer: ITextBuffer = RdfaProcessor.createTextBuffer();
+  private readonly limits: IRdfaLimits;
+  private readonly limitBehavior: RdfaLimitBehavior;
+  private readonly exceededLimits: Set<keyof IRdfaLimits> = new Set();
+  private skippedDepth = 0;
+  // The number of tags on the active tag stack that were pushed for instantiating patterns
+  private copiedTagCount = 0;
+  private quadCount = 0;
+  private patternCount = 0;
+  private pendingRdfaPatternCopyCount = 0;
+  private patternCopyCount = 0;
+  private readonly deferBase: boolean;
+  // Events that are buffered until the base IRI of the document is determined, if deferBase is enabled
+  private deferredEvents: IDeferredEvent[] | undefined;
+  private deferredEventsLength = 0;
+  private readonly deferredTagNames: string[] = [];
+  // If the base IRI was set from a base tag that has not been processed yet
+  private deferredBaseTag = false;
+  private openTags = 0;
+  private ended = false;
+  private aborted = false;
+
+  private readonly activeTagStack: IActiveTag[] = [];
+
+  /**
+   * @param {IRdfaProcessorSink} sink The sink to which quads will be emitted.
+   * @param {IRdfaProcessorOptions} options Optional processing options.
+   */
+  public constructor(sink: IRdfaProcessorSink, options?: IRdfaProcessorOptions) {
+    options = options || {};
+    this.sink = sink;
+
+    this.util = new Util(options.dataFactory, options.baseIRI, options.relativeIris, options.iriPolicy);
+    this.defaultGraph = options.defaultGraph || this.util.dataFactory.defaultGraph();
+    this.features = options.features || RDFA_FEATURES[options.profile || ''];
+    this.rdfaPatterns = this.features.copyRdfaPatterns ? new Map() : undefined;
+    this.pendingRdfaPatternCopies = this.features.copyRdfaPatterns ? new Map() : undefined;
+    this.processorGraphStream = options.processorGraphStream;
+    this.processorGraph = options.processorGraph || (this.processorGraphStream ? this.defaultGraph : undefined);
+    if (this.processorGraph) {
+      this.util.processorStatusListener = (type, description) => this.emitProcessorStatus(type, description);
+    } else if (options.iriPolicy?.action === 'report') {
+      throw new Error('A processorGraph or processorGraphStream must be provided when the iriPolicy action is report');
+    }
+    if (options.vocabExpansion) {
+      if (!options.vocabLoader) {
+        throw new Error('A vocabLoader must be provided when vocabExpansion is enabled');
+      }
+      this.vocabLoader = options.vocabLoader;
+      this.vocabExpander = new VocabularyExpander(this.util.dataFactory);
+    }
+    this.sourceLocations = Boolean(options.sourceLocations);
+    this.literalSanitizer = options.literalSanitizer;
+    this.xmlLiteralSerializer = new XmlLiteralSerializer({ canonical: options.canonicalXmlLiterals });
+    this.limits = options.limits || {};
+    this.limitBehavior = options.limitBehavior || 'error';
+    this.deferBase = Boolean(options.deferBase && this.features.baseTag);
+    if (this.deferBase) {
+      this.deferredEvents = [];
+    }
+
+    this.activeTagStack.push({
+      incompleteTriples: [],
+      inlist: false,
+      language: options.language,
+      listMapping: new Map(),
+      listMappingLocal: new Map(),
+      name: '',
+      prefixesAll: Util.createRecord<string>(
+        INITIAL_CONTEXT['@context'],
+        this.features.xhtmlInitialContext ? INITIAL_CONTEXT_XHTML['@context'] : {},
+      ),
+      prefixesCustom: Util.createRecord(),
+      skipElement: false,
+      vocab: options.vocab,
+    });
+  }
+
+  /**
+   * Called when a tag is opened.
+   * @param {string} name The tag name.
+   * @param {Record<string, string>} attributes A hash of attributes.
+   * @param {ISourceLocation} location The optional location of the tag within the source document.
+   *                                   Its end may be set once the tag is closed.
+   */
+  public onTagOpen(name: string, attributes: Record<string, string>, location?: ISourceLocation): void {
+    if (this.aborted) {
+      return;
+    }
+    if (this.ended) {
+      throw new Error(`Unable to open the tag '${name}', as processing has already ended`);
+    }
+    this.openTags++;
+    if (this.deferredEvents) {
+      if (name === 'base' && attributes.href) {
+        // If the base IRI is dropped by the IRI policy, the previous base IRI is kept
+        this.util.baseIRI = this.util.getBaseIRI(attributes.href) || this.util.baseIRI;
+        this.deferredBaseTag = true;
+        this.processDeferredEvents();
+      } else if (RdfaProcessor.isDeferrableTag(name)) {
+        this.deferredTagNames.push(name);
+        let length = name.length;
+        for (const [ attribute, value ] of Object.entries(attributes)) {
+          length += attribute.length + value.length;
+        }
+        this.deferEvent({ name, attributes, location }, length);
+        return;
+      } else {
+        this.processDeferredEvents();
+      }
+    }
+    this.processTagOpen(name, attributes, location);
+  }
+
+  /**
+   * Called when text contents are parsed.
+   * This can be called multiple times per tag.
+   * @param {string} data A string.
+   */
+  public onText(data: string): void {
+    if (this.aborted) {
+      return;
+    }
+    if (this.ended) {
+      throw new Error('Unable to process text, as processing has already ended');
+    }
+    if (this.deferredEvents) {
+      // Text outside the elements of the head is body content
+      const parentName: string | undefined = this.deferredTagNames[this.deferredTagNames.length - 1];
+      if ((parentName !== undefined && parentName !== 'html' && parentName !== 'head') ||
+        /^[\t\n\f\r ]*$/u.test(data)) {
+        this.deferEvent({ text: data }, data.length);
+        return;
+      }
+      this.processDeferredEvents();
+    }
+    this.processText(data);
+  }
+
+  /**
+   * Called when the last opened tag is closed.
+   */
+  public onTagClose(): void {
+    if (this.aborted) {
+      return;
+    }
+    if (this.ended) {
+      throw new Error('Unable to close a tag, as processing has already ended');
+    }
+    if (this.openTags === 0) {
+      throw new Error('Unable to close a tag, as no tag is open');
+    }
+    this.openTags--;
+    if (this.deferredEvents) {
+      if (this.deferredTagNames.pop() === 'head') {
+        this.deferredEvents.push({});
+        this.processDeferredEvents();
+      } else {
+        this.deferEvent({}, 0);
+      }
+      return;
+    }
+    this.processTagClose();
+  }
+
+  /**
+   * Called when the end of the document is reached, after all tags have been closed.
+   * After this, {@link finish} must be called to complete processing.
+   */
+  public onEnd(): void {
+    if (this.aborted) {
+      return;
+    }
+    if (this.ended) {
+      throw new Error('Unable to end processing, as processing has already ended');
+    }
+    if (this.openTags > 0) {
+      throw new Error(`Unable to end processing, as ${this.openTags} tag(s) are still open`);
+    }
+    this.ended = true;
+    if (this.deferredEvents) {
+      this.processDeferredEvents();
+    }
+    this.processEnd();
+    if (this.vocabLoadsPending === 0) {
+      this.releaseVocabExpansion();
+    }
+  }
+
+  /**
+   * Called when the markup of the document is not conformant, such as when an element was not closed.
+   * This is reported in the processor graph, if enabled.
+   * @param {string} message A human-readable description of the error.
+   */
+  public onDocumentError(message: string): void {
+    if (this.processorGraph && !this.aborted) {
+      this.emitProcessorStatus('DocumentError', message);
+    }
+  }
+
+  /**
+   * Complete processing after {@link onEnd} was called.
+   * This waits until all vocabularies are loaded to emit the remaining quads entailed by vocabulary expansion,
+   * and ends the processor graph stream.
+   */
+  public async finish(): Promise<void> {
+    await Promise.all(this.vocabLoads.values());
+    if (this.processorGraphStream) {
+      this.processorGraphStream.end();
+    }
+  }
+
+  /**
+   * Stop processing, and release all buffered state.
+   * All further calls will be ignored.
+   */
+  public abort(): void {
+    this.aborted = true;
+    this.textBuffer = RdfaProcessor.createTextBuffer();
+    this.activeTagStack.splice(1);
+    this.rdfaPatterns = new Map();
+    this.pendingRdfaPatternCopies = new Map();
+    this.releaseVocabExpansion();
+    this.deferredEvents = undefined;
+  }
+
+  /**
+   * Check if the given tag may be deferred until the base IRI is determined,
+   * which is the case for the html and head tags, and the tags that are placed in the head.
+   * @param {string} name A tag name.
+   * @return {boolean} If the tag may be deferred.
+   */
+  public static isDeferrableTag(name: string): boolean {
+    return name === 'html' || name === 'head' || HtmlTreeNormalizer.HEAD_ELEMENTS.has(name);
+  }
+
+  private static createTextBuffer(): ITextBuffer {
+    return {
+      withTags: [],
+      withHtmlTags: [],
+      withoutTags: [],
+      collectingTags: 0,
+      collectingWithTags: 0,
+      collectingWithHtmlTags: 0,
+      collectingWithoutTags: 0,
+      length: 0,
+      truncated: false,
+    };
+  }
+
+  /**
+   * Defer the given event until the base IRI is determined.
+   * If the deferred events exceed {@link DEFERRED_EVENTS_LENGTH}, they are processed immediately instead.
+   * @param {IDeferredEvent} event A tag or text event.
+   * @param {number} length The number of characters of the event.
+   */
+  protected deferEvent(event: IDeferredEvent, length: number): void {
+    this.deferredEvents!.push(event);
+    // Each event is counted as at least one character, so that the number of empty events is bounded as well
+    this.deferredEventsLength += Math.max(length, 1);
+    if (this.deferredEventsLength > RdfaProcessor.DEFERRED_EVENTS_LENGTH) {
+      this.processDeferredEvents();
+    }
+  }
+
+  /**
+   * Process the events that were deferred until the base IRI was determined,
+   * after which events will not be deferred anymore.
+   */
+  protected processDeferredEvents(): void {
+    const events = this.deferredEvents!;
+    this.deferredEvents = undefined;
+    for (const event of events) {
+      if (this.aborted) {
+        return;
+      }
+      if (event.name !== undefined) {
+        this.processTagOpen(event.name, event.attributes!, event.location);
+      } else if (event.text === undefined) {
+        this.processTagClose();
+      } else {
+        this.processText(event.text);
+      }
+    }
+  }
+
+  /**
+   * Process the opening of a tag.
+   * Unlike {@link onTagOpen}, this does not validate the balance of calls,
+   * so that it can also be used for instantiating patterns.
+   * @param {string} name The tag name.
+   * @param {Record<string, string>} attributes The tag attributes.
+   * @param {ISourceLocation} location The location of the tag.
+   */
+  protected processTagOpen(name: string, attributes: Record<string, string>, location?: ISourceLocation): void {
+    // Allow the sink to stop long-running processing, such as the expansion of many pattern copies
+    if (this.sink.onProgress) {
+      this.sink.onProgress();
+    }
+
+    // Ignore elements that are nested too deeply, where tags of pattern copies do not count
+    if (this.skippedDepth > 0 ||
+      this.exceedsLimit('maxDepth', this.activeTagStack.length - this.copiedTagCount)) {
+      this.skippedDepth++;
+      return;
+    }
+
+    // Determine the parent tag (ignore skipped tags)
+    let parentTagI: number = this.activeTagStack.length - 1;
+    while (parentTagI > 0 && this.activeTagStack[parentTagI].skipElement) {
+      parentTagI--;
+    }
+    let parentTag: IActiveTag = this.activeTagStack[parentTagI];
+    const lastTag: IActiveTag = this.activeTagStack[this.activeTagStack.length - 1];
+    // If we skipped a tag, make sure we DO use the lang, prefixes and vocab of the skipped tag
+    if (parentTagI !== this.activeTagStack.length - 1) {
+      parentTag = {
+        ...parentTag,
+        language: lastTag.language,
+        prefixesAll: lastTag.prefixesAll,
+        prefixesCustom: lastTag.prefixesCustom,
+        vocab: lastTag.vocab,
+      };
+    }
+
+    // Create a new active tag and inherit language scope and baseIRI from parent
+    const activeTag: IActiveTag = {
+      collectChildTags: parentTag.collectChildTags,
+      collectChildTagsForCurrentTag: parentTag.collectChildTagsForCurrentTag,
+      incompleteTriples: [],
+      inlist: 'inlist' in attributes,
+      listMapping: new Map(),
+      listMappingLocal: parentTag.listMapping,
+      localBaseIRI: parentTag.localBaseIRI,
+      location,
+      name,
+      prefixesAll: null!,
+      prefixesCustom: null!,
+      skipElement: false,
+    };
+    this.activeTagStack.push(activeTag);
+
+    // Determine the location of this tag for pointers in the processor graph
+    if (this.processorGraph) {
+      this.setXPath(activeTag, this.activeTagStack[this.activeTagStack.length - 2]);
+    }
+
+    // Save the tag contents if needed
+    if (activeTag.collectChildTags) {
+      // Skipped tags are serialized as well, so the serialization state is inherited from the last tag
+      if (this.textBuffer.collectingWithTags > 0 || this.textBuffer.collectingWithHtmlTags > 0) {
+        if (this.literalSanitizer) {
+          // Omit elements that are not allowed, and all contents of dangerous elements
+          activeTag.omitContents = lastTag.omitContents || this.literalSanitizer.isContentOmitted(name);
+          activeTag.omitMarkup = activeTag.omitContents || !this.literalSanitizer.isAllowedElement(name);
+        }
+        // Top-level elements of an XML literal must declare all in-scope xmlns, xmlns:* and prefixes,
+        // as required by the spec (Step 11, note), and their descendants only the ones that differ.
+        const parentNamespaces = lastTag.predicates && lastTag.collectChildTagsForCurrentTag ?
+          undefined :
+          lastTag.serializedNamespaces;
+        if (activeTag.omitMarkup) {
+          activeTag.serializedNamespaces = parentNamespaces;
+        } else {
+          const serializedAttributes = this.literalSanitizer ?
+            this.literalSanitizer.sanitizeAttributes(attributes) :
+            attributes;
+          let xmlTag = '';
+          if (this.textBuffer.collectingWithTags > 0) {
+            const startTag = this.xmlLiteralSerializer.serializeStartTag(
+              name,
+              serializedAttributes,
+              parentTag.prefixesCustom,
+              parentNamespaces,
+            );
+            activeTag.serializedNamespaces = startTag.namespaces;
+            xmlTag = startTag.tag;
+          }
+          this.appendText(
+            undefined,
+            xmlTag,
+            this.textBuffer.collectingWithHtmlTags > 0 ?
+              this.htmlLiteralSerializer.serializeStartTag(name, serializedAttributes) :
+              '',
+          );
+          // Start tags that exceed the limit are omitted, and so are their end tags
+          activeTag.collectedStartTag = !this.textBuffer.truncated;
+        }
+      }
+      if (this.features.skipHandlingXmlLiteralChildren) {
+        return;
+      }
+    }
+
+    let allowTermsInRelPredicates = true;
+    let allowTermsInRevPredicates = true;
+    if (this.features.onlyAllowUriRelRevIfProperty) {
+      // Ignore illegal rel/rev values when property is present
+      if ('property' in attributes && 'rel' in attributes) {
+        allowTermsInRelPredicates = false;
+        if (!attributes.rel.includes(':')) {
+          delete attributes.rel;
+        }
+      }
+      if ('property' in attributes && 'rev' in attributes) {
+        allowTermsInRevPredicates = false;
+        if (!attributes.rev.includes(':')) {
+          delete attributes.rev;
+        }
+      }
+    }
+
+    if (this.features.copyRdfaPatterns) {
+      // Save the tag if needed
+      if (parentTag.collectedPatternTag) {
+        const patternTag: IRdfaPattern = {
+          attributes,
+          children: [],
+          name,
+          referenced: false,
+          rootPattern: false,
+          text: [],
+        };
+        parentTag.collectedPatternTag.children.push(patternTag);
+        activeTag.collectedPatternTag = patternTag;
+        return;
+      }
+
+      // Store tags with type rdfa:Pattern as patterns
+      if (attributes.typeof === 'rdfa:Pattern') {
+        activeTag.collectedPatternTag = {
+          attributes,
+          children: [],
+          name,
+          parentTag,
+          referenced: false,
+          rootPattern: true,
+          text: [],
+        };
+        return;
+      }
+
+      // Instantiate patterns on rdfa:copy
+      if (attributes.property === 'rdfa:copy') {
+        const copyTargetPatternId: string = attributes.resource || attributes.href || attributes.src;
+        const pattern = this.rdfaPatterns!.get(copyTargetPatternId);
+        if (pattern) {
+          this.emitPatternCopy(parentTag, pattern, copyTargetPatternId);
+        } else if (!this.exceedsLimit('maxPendingPatternCopies', this.pendingRdfaPatternCopyCount + 1)) {
+          this.pendingRdfaPatternCopyCount++;
+          let pendingCopies = this.pendingRdfaPatternCopies!.get(copyTargetPatternId);
+          if (!pendingCopies) {
+            this.pendingRdfaPatternCopies!.set(copyTargetPatternId, pendingCopies = []);
+          }
+          pendingCopies.push(parentTag);
+        }
+        return;
+      }
+    }
+
+    // <base> tags override the baseIRI of the whole document
+    if (this.features.baseTag && name === 'base' && attributes.href) {
+      if (!this.deferBase) {
+        this.util.baseIRI = this.util.getBaseIRI(attributes.href) || this.util.baseIRI;
+      } else if (this.deferredBaseTag) {
+        // The base IRI was already set before the deferred events were processed
+        this.deferredBaseTag = false;
+      } else if (this.processorGraph) {
+        this.emitProcessorStatus('Warning', `The base element with href '${attributes.href}' was ignored, as only the first base element in the head is used`);
+      }
+    }
+    // Xml:base attributes override the baseIRI of the current tag and children
+    if (this.features.xmlBase && attributes['xml:base']) {
+      activeTag.localBaseIRI = this.util.getBaseIRI(attributes['xml:base']) || activeTag.localBaseIRI;
+    }
+
+    // <time> tags set an initial datatype
+    if (this.features.timeTag && name === 'time' && !attributes.datatype) {
+      activeTag.interpretObjectAsTime = true;
+    }
+
+    // Processing based on https://www.w3.org/TR/rdfa-core/#s_rdfaindetail
+    // 1: initialize values
+    let newSubject: RDF.NamedNode | RDF.BlankNode | boolean | undefined;
+    let currentObjectResource: RDF.NamedNode | RDF.BlankNode | boolean | undefined;
+    let typedResource: RDF.NamedNode | RDF.BlankNode | boolean | undefined;
+
+    // 2: handle vocab attribute to set active vocabulary
+    // Vocab sets the active vocabulary
+    if ('vocab' in attributes) {
+      if (attributes.vocab) {
+        activeTag.vocab = attributes.vocab;
+        // Vocabularies that are dropped by the IRI policy are not referenced or loaded
+        const vocab = this.util.createPolicyNamedNode(activeTag.vocab);
+        if (vocab) {
+          this.emitTriple(
+            this.util.getBaseIriTerm(activeTag),
+            this.util.dataFactory.namedNode(`${Util.RDFA}usesVocabulary`),
+            vocab,
+          );
+          if (this.vocabExpander) {
+            this.loadVocabulary(vocab.value, activeTag);
+          }
+        }
+      } else {
+        // If vocab is set to '', then we fallback to the root vocab as defined via the parser constructor
+        activeTag.vocab = this.activeTagStack[0].vocab;
+      }
+    } else {
+      activeTag.vocab = parentTag.vocab;
+    }
+
+    // 3: handle prefixes
+    activeTag.prefixesCustom = Util.parsePrefixes(
+      attributes,
+      parentTag.prefixesCustom,
+      Boolean(this.features.xmlnsPrefixMappings),
+      this.util.processorStatusListener,
+    );
+    activeTag.prefixesAll = Object.keys(activeTag.prefixesCustom).length > 0 ?
+      Util.createRecord(parentTag.prefixesAll, activeTag.prefixesCustom) :
+      parentTag.prefixesAll;
+    if (this.processorGraph && activeTag.prefixesCustom !== parentTag.prefixesCustom) {
+      for (const prefix in activeTag.prefixesCustom) {
+        const previousValue = parentTag.prefixesAll[prefix];
+        if (previousValue && previousValue !== activeTag.prefixesCustom[prefix]) {
+          this.emitProcessorStatus('PrefixRedefinition', `The prefix '${prefix}' was redefined from '${previousValue}' to '${activeTag.prefixesCustom[prefix]}'`);
+        }
+      }
+    }
+
+    // Handle role attribute
+    if (this.features.roleAttribute && attributes.role) {
+      const roleSubject = attributes.id ?
+        this.util.createIri(`#${attributes.id}`, activeTag, false, false, false) :
+        this.util.createBlankNode();
+      // Temporarily override vocab
+      const vocabOld = activeTag.vocab;
+      activeTag.vocab = 'http://www.w3.org/1999/xhtml/vocab#';
+      for (const role of this.util.createVocabIris(attributes.role, activeTag, true, false)) {
+        this.emitTriple(
+          roleSubject,
+          this.util.dataFactory.namedNode('http://www.w3.org/1999/xhtml/vocab#role'),
+          role,
+        );
+      }
+      activeTag.vocab = vocabOld;
+    }
+
+    // 4: handle language
+    // Save language attribute value in active tag
+    if ('xml:lang' in attributes || (this.features.langAttribute && 'lang' in attributes)) {
+      activeTag.language = attributes['xml:lang'] || attributes.lang;
+    } else {
+      activeTag.language = parentTag.language;
+    }
+
+    const isRootTag: boolean = this.activeTagStack.length === 2;
+    if (!('rel' in attributes) && !('rev' in attributes)) {
+      // 5: Determine the new subject when rel and rev are not present
+      if ('property' in attributes && !('content' in attributes) && !('datatype' in attributes)) {
+        // 5.1: property is present, but not content and datatype
+        // Determine new subject
+        if ('about' in attributes) {
+          newSubject = this.util.createIri(attributes.about, activeTag, false, true, true);
+          activeTag.explicitNewSubject = Boolean(newSubject);
+        } else if (isRootTag) {
+          newSubject = true;
+        } else if (parentTag.object) {
+          newSubject = parentTag.object;
+        }
+
+        // Determine type
+        if ('typeof' in attributes) {
+          if ('about' in attributes) {
+            typedResource = this.util.createIri(attributes.about, activeTag, false, true, true);
+          }
+          if (!typedResource && isRootTag) {
+            typedResource = true;
+          }
+          if (!typedResource && 'resource' in attributes) {
+            typedResource = this.util.createIri(attributes.resource, activeTag, false, true, true);
+          }
+          if (!typedResource && ('href' in attributes || 'src' in attributes)) {
+            typedResource = this.util.createIri(attributes.href || attributes.src, activeTag, false, false, true);
+          }
+          if (!typedResource && this.isInheritSubjectInHeadBody(name)) {
+            typedResource = newSubject;
+          }
+          if (!typedResource) {
+            typedResource = this.util.createBlankNode();
+          }
+
+          currentObjectResource = typedResource;
+        }
+      } else {
+        // 5.2
+        if ('about' in attributes || 'resource' in attributes) {
+          newSubject = this.util.createIri(attributes.about || attributes.resource, activeTag, false, true, true);
+          activeTag.explicitNewSubject = Boolean(newSubject);
+        }
+        if (!newSubject && ('href' in attributes || 'src' in attributes)) {
+          newSubject = this.util.createIri(attributes.href || attributes.src, activeTag, false, false, true);
+          activeTag.explicitNewSubject = Boolean(newSubject);
+        }
+        if (!newSubject) {
+          if (isRootTag) {
+            newSubject = true;
+          } else if (this.isInheritSubjectInHeadBody(name)) {
+            newSubject = parentTag.object;
+          } else if ('typeof' in attributes) {
+            newSubject = this.util.createBlankNode();
+            activeTag.explicitNewSubject = true;
+          } else if (parentTag.object) {
+            newSubject = parentTag.object;
+            if (!('property' in attributes)) {
+              activeTag.skipElement = true;
+            }
+          }
+        }
+
+        // Determine type
+        if ('typeof' in attributes) {
+          typedResource = newSubject;
+        }
+      }
+    } else {
+      // Either rel or rev is present
+      // 6: Determine the new subject when rel or rev are present
+
+      // Define new subject
+      if ('about' in attributes) {
+        newSubject = this.util.createIri(attributes.about, activeTag, false, true, true);
+        activeTag.explicitNewSubject = Boolean(newSubject);
+        if ('typeof' in attributes) {
+          typedResource = newSubject;
+        }
+      } else if (isRootTag) {
+        newSubject = true;
+      } else if (parentTag.object) {
+        newSubject = parentTag.object;
+      }
+
+      // Define object
+      if ('resource' in attributes) {
+        currentObjectResource = this.util.createIri(attributes.resource, activeTag, false, true, true);
+      }
+      if (!currentObjectResource) {
+        if ('href' in attributes || 'src' in attributes) {
+          currentObjectResource = this.util.createIri(attributes.href || attributes.src, activeTag, false, false, true);
+        } else if ('typeof' in attributes && !('about' in attributes) && !this.isInheritSubjectInHeadBody(name)) {
+          currentObjectResource = this.util.createBlankNode();
+        }
+      }
+
+      // Set typed resource
+      if ('typeof' in attributes && !('about' in attributes)) {
+        if (this.isInheritSubjectInHeadBody(name)) {
+          typedResource = newSubject;
+        } else {
+          typedResource = currentObjectResource;
+        }
+      }
+    }
+
+    // 7: If a typed resource was defined, emit it as a triple
+    if (typedResource) {
+      for (const type of this.util.createVocabIris(attributes.typeof, activeTag, true, true)) {
+        this.emitTriple(
+          this.util.getResourceOrBaseIri(typedResource, activeTag),
+          this.util.dataFactory.namedNode(`${Util.RDF}type`),
+          type,
+        );
+      }
+    }
+
+    // 8: Reset list mapping if we have a new subject
+    if (newSubject) {
+      activeTag.listMapping = new Map();
+    }
+
+    // 9: If an object was defined, emit triples for it
+    if (currentObjectResource) {
+      // Handle list mapping
+      if ('rel' in attributes && 'inlist' in attributes) {
+        for (const predicate of
+          this.util.createVocabIris(attributes.rel, activeTag, allowTermsInRelPredicates, false)) {
+          this.addListMapping(activeTag, newSubject!, predicate, currentObjectResource);
+        }
+      }
+
+      // Determine predicates using rel or rev (unless rel and inlist are present)
+      if (!('rel' in attributes && 'inlist' in attributes)) {
+        if ('rel' in attributes) {
+          for (const predicate of
+            this.util.createVocabIris(attributes.rel, activeTag, allowTermsInRelPredicates, false)) {
+            this.emitTriple(
+              this.util.getResourceOrBaseIri(newSubject!, activeTag),
+              predicate,
+              this.util.getResourceOrBaseIri(currentObjectResource, activeTag),
+            );
+          }
+        }
+        if ('rev' in attributes) {
+          for (const predicate of
+            this.util.createVocabIris(attributes.rev, activeTag, allowTermsInRevPredicates, false)) {
+            this.emitTriple(
+              this.util.getResourceOrBaseIri(currentObjectResource, activeTag),
+              predicate,
+              this.util.getResourceOrBaseIri(newSubject!, activeTag),
+            );
+          }
+        }
+      }
+    }
+
+    // 10: Store incomplete triples if we don't have an object, but we do have predicates
+    if (!currentObjectResource) {
+      if ('rel' in attributes) {
+        if ('inlist' in attributes) {
+          for (const predicate of
+            this.util.createVocabIris(attributes.rel, activeTag, allowTermsInRelPredicates, false)) {
+            this.addListMapping(activeTag, newSubject!, predicate, false);
+            activeTag.incompleteTriples!.push({ predicate, reverse: false, list: true });
+          }
+        } else {
+          for (const predicate of
+            this.util.createVocabIris(attributes.rel, activeTag, allowTermsInRelPredicates, false)) {
+            activeTag.incompleteTriples!.push({ predicate, reverse: false });
+          }
+        }
+      }
+      if ('rev' in attributes) {
+        for (const predicate of
+          this.util.createVocabIris(attributes.rev, activeTag, allowTermsInRevPredicates, false)) {
+          activeTag.incompleteTriples!.push({ predicate, reverse: true });
+        }
+      }
+
+      // Set a blank node object, so the children can make use of this when completing the triples
+      if (activeTag.incompleteTriples!.length > 0) {
+        currentObjectResource = this.util.createBlankNode();
+      }
+    }
+
+    // 11: Determine current property value
+    if ('property' in attributes) {
+      // Create predicates
+      activeTag.predicates = this.util.createVocabIris(attributes.property, activeTag, true, false);
+
+      // Save datatype attribute value in active tag
+      let localObjectResource: RDF.Term | boolean | undefined;
+      if ('datatype' in attributes) {
+        activeTag.datatype = this.util.createIri(attributes.datatype, activeTag, true, true, false);
+        if (activeTag.datatype &&
+          (activeTag.datatype.value === `${Util.RDF}XMLLiteral` ||
+            (this.features.htmlDatatype && activeTag.datatype.value === `${Util.RDF}HTML`))) {
+          activeTag.collectChildTags = true;
+          activeTag.collectChildTagsForCurrentTag = true;
+        }
+      } else {
+        // Try to determine resource
+        if (!('rev' in attributes) && !('rel' in attributes) && !('content' in attributes)) {
+          if ('resource' in attributes) {
+            localObjectResource = this.util.createIri(attributes.resource, activeTag, false, true, true);
+          }
+          if (!localObjectResource && 'href' in attributes) {
+            localObjectResource = this.util.createIri(attributes.href, activeTag, false, false, true);
+          }
+          if (!localObjectResource && 'src' in attributes) {
+            localObjectResource = this.util.createIri(attributes.src, activeTag, false, false, true);
+          }
+        }
+        if ('typeof' in attributes && !('about' in attributes)) {
+          localObjectResource = typedResource;
+        }
+      }
+
+      // If we're in a parent tag that collects child tags,
+      // and we find a tag that does NOT preserve tags,
+      // we mark this tag (and children) to not preserve it.
+      if (!('datatype' in attributes) || attributes.datatype === '') {
+        activeTag.collectChildTagsForCurrentTag = false;
+      }
+
+      if ('content' in attributes) {
+        // Emit triples based on content attribute has preference over text content
+        const object = this.util.createLiteral(attributes.content, activeTag);
+        if ('inlist' in attributes) {
+          for (const predicate of activeTag.predicates) {
+            this.addListMapping(activeTag, newSubject!, predicate, object);
+          }
+        } else {
+          const subject = this.util.getResourceOrBaseIri(newSubject!, activeTag);
+          for (const predicate of activeTag.predicates) {
+            this.emitTriple(subject, predicate, object);
+          }
+        }
+
+        // Unset predicate to avoid text contents to produce new triples
+        activeTag.predicates = undefined;
+      } else if (this.features.datetimeAttribute && 'datetime' in attributes) {
+        activeTag.interpretObjectAsTime = true;
+        // Datetime attribute on time tag has preference over text content
+        const object = this.util.createLiteral(attributes.datetime, activeTag);
+        if ('inlist' in attributes) {
+          for (const predicate of activeTag.predicates) {
+            this.addListMapping(activeTag, newSubject!, predicate, object);
+          }
+        } else {
+          const subject = this.util.getResourceOrBaseIri(newSubject!, activeTag);
+          for (const predicate of activeTag.predicates) {
+            this.emitTriple(subject, predicate, object);
+          }
+        }
+
+        // Unset predicate to avoid text contents to produce new triples
+        activeTag.predicates = undefined;
+      } else if (localObjectResource) {
+        // Emit triples for all resource objects
+        const object = this.util.getResourceOrBaseIri(localObjectResource, activeTag);
+        if ('inlist' in attributes) {
+          for (const predicate of activeTag.predicates) {
+            this.addListMapping(activeTag, newSubject!, predicate, object);
+          }
+        } else {
+          const subject = this.util.getResourceOrBaseIri(newSubject!, activeTag);
+          for (const predicate of activeTag.predicates) {
+            this.emitTriple(subject, predicate, object);
+          }
+        }
+
+        // Unset predicate to avoid text contents to produce new triples
+        activeTag.predicates = undefined;
+      }
+    }
+
+    // 12: Complete incomplete triples
+    let incompleteTriplesCompleted = false;
+    if (!activeTag.skipElement && newSubject && parentTag.incompleteTriples!.length > 0) {
+      incompleteTriplesCompleted = true;
+      const subject = this.util.getResourceOrBaseIri(parentTag.subject!, activeTag);
+      const object = this.util.getResourceOrBaseIri(newSubject, activeTag);
+      for (const incompleteTriple of parentTag.incompleteTriples!) {
+        if (incompleteTriple.reverse) {
+          this.emitTriple(object, incompleteTriple.predicate, subject);
+        } else if (incompleteTriple.list) {
+          // Find the active tag that defined the list by going up the stack
+          let firstInListTag: IActiveTag | null = null;
+          for (let i = this.activeTagStack.length - 1; i >= 0; i--) {
+            if (this.activeTagStack[i].inlist) {
+              firstInListTag = this.activeTagStack[i];
+              break;
+            }
+          }
+          // FirstInListTag is guaranteed to be non-null
+          this.addListMapping(firstInListTag!, newSubject, incompleteTriple.predicate, object);
+        } else {
+          this.emitTriple(subject, incompleteTriple.predicate, object);
+        }
+      }
+    }
+    if (!incompleteTriplesCompleted && parentTag.incompleteTriples!.length > 0) {
+      activeTag.incompleteTriples = [ ...activeTag.incompleteTriples!, ...parentTag.incompleteTriples! ];
+    }
+
+    // 13: Save evaluation context into active tag
+    activeTag.subject = newSubject || parentTag.subject;
+    activeTag.object = currentObjectResource || newSubject;
+
+    // Start collecting text if the text contents will become a literal,
+    // in the only form in which the literal needs it
+    if (activeTag.predicates) {
+      if (!activeTag.collectChildTagsForCurrentTag) {
+        activeTag.textWithoutTagsStart = this.textBuffer.withoutTags.length;
+        this.textBuffer.collectingWithoutTags++;
+      } else if (activeTag.datatype && activeTag.datatype.value === `${Util.RDF}HTML`) {
+        activeTag.textWithHtmlTagsStart = this.textBuffer.withHtmlTags.length;
+        this.textBuffer.collectingWithHtmlTags++;
+      } else {
+        activeTag.textWithTagsStart = this.textBuffer.withTags.length;
+        this.textBuffer.collectingWithTags++;
+      }
+      this.textBuffer.collectingTags++;
+    }
+  }
+
+  /**
+   * Process text contents.
+   * @param {string} data A string.
+   */
+  protected processText(data: string): void {
+    // Ignore text within elements that are nested too deeply
+    if (this.skippedDepth > 0) {
+      return;
+    }
+
+    const activeTag: IActiveTag = this.activeTagStack[this.activeTagStack.length - 1];
+
+    // Collect text in pattern tag if needed
+    if (this.features.copyRdfaPatterns && activeTag.collectedPatternTag) {
+      activeTag.collectedPatternTag.text.push(data);
+      return;
+    }
+
+    // Save the text if an open tag needs it
+    if (this.textBuffer.collectingTags > 0) {
+      this.appendText(
+        data,
+        this.textBuffer.collectingWithTags > 0 && !activeTag.omitContents ?
+          XmlLiteralSerializer.escapeText(data) :
+          '',
+        this.textBuffer.collectingWithHtmlTags > 0 && !activeTag.omitContents ?
+          this.htmlLiteralSerializer.serializeText(data, activeTag.name) :
+          '',
+      );
+    }
+  }
+
+  /**
+   * Process the closing of the last opened tag.
+   * Unlike {@link onTagClose}, this does not validate the balance of calls,
+   * so that it can also be used for instantiating patterns.
+   */
+  protected processTagClose(): void {
+    // Ignore the closing of elements that were nested too deeply
+    if (this.skippedDepth > 0) {
+      this.skippedDepth--;
+      return;
+    }
+
+    // Get the active tag
+    const activeTag: IActiveTag = this.activeTagStack[this.activeTagStack.length - 1];
+    const parentTag: IActiveTag = this.activeTagStack[this.activeTagStack.length - 2];
+
+    if (!(activeTag.collectChildTags && parentTag.collectChildTags && this.features.skipHandlingXmlLiteralChildren)) {
+      // If we detect a finalized rdfa:Pattern tag, store it
+      if (this.features.copyRdfaPatterns && activeTag.collectedPatternTag &&
+        activeTag.collectedPatternTag.rootPattern) {
+        const patternId = activeTag.collectedPatternTag.attributes.resource;
+
+        // Remove resource and typeof attributes to avoid it being seen as a new pattern
+        delete activeTag.collectedPatternTag.attributes.resource;
+        delete activeTag.collectedPatternTag.attributes.typeof;
+
+        // Store the pattern
+        const newPattern = !this.rdfaPatterns!.has(patternId);
+        if (!newPattern || !this.exceedsLimit('maxPatterns', this.patternCount + 1)) {
+          if (newPattern) {
+            this.patternCount++;
+          }
+          this.rdfaPatterns!.set(patternId, activeTag.collectedPatternTag);
+
+          // Apply all pending copies for this pattern
+          const pendingCopies = this.pendingRdfaPatternCopies!.get(patternId);
+          if (pendingCopies) {
+            this.pendingRdfaPatternCopies!.delete(patternId);
+            this.pendingRdfaPatternCopyCount -= pendingCopies.length;
+            for (const tag of pendingCopies) {
+              this.emitPatternCopy(tag, activeTag.collectedPatternTag, patternId);
+            }
+          }
+        }
+
+        // Remove the active tag from the stack
+        this.activeTagStack.pop();
+
+        return;
+      }
+
+      // Emit all triples that were determined in the active tag
+      if (activeTag.predicates) {
+        const subject = this.util.getResourceOrBaseIri(activeTag.subject!, activeTag);
+        let text: string;
+        if (!activeTag.collectChildTagsForCurrentTag) {
+          text = this.textBuffer.withoutTags.slice(activeTag.textWithoutTagsStart).join('');
+          this.textBuffer.collectingWithoutTags--;
+        } else if (activeTag.datatype && activeTag.datatype.value === `${Util.RDF}HTML`) {
+          text = this.textBuffer.withHtmlTags.slice(activeTag.textWithHtmlTagsStart).join('');
+          this.textBuffer.collectingWithHtmlTags--;
+        } else {
+          text = this.textBuffer.withTags.slice(activeTag.textWithTagsStart).join('');
+          this.textBuffer.collectingWithTags--;
+        }
+        const object = this.util.createLiteral(text, activeTag);
+        if (activeTag.inlist) {
+          for (const predicate of activeTag.predicates) {
+            this.addListMapping(activeTag, subject, predicate, object);
+          }
+        } else {
+          for (const predicate of activeTag.predicates) {
+            this.emitTriple(subject, predicate, object);
+          }
+        }
+
+        // Release the collected text once no open tag needs it anymore
+        if (--this.textBuffer.collectingTags === 0) {
+          this.textBuffer.withTags = [];
+          this.textBuffer.withHtmlTags = [];
+          this.textBuffer.withoutTags = [];
+          this.textBuffer.length = 0;
+          this.textBuffer.truncated = false;
+        }
+      }
+
+      // 14: Handle local list mapping
+      if (activeTag.object && activeTag.listMapping.size > 0) {
+        const subject = this.util.getResourceOrBaseIri(activeTag.object, activeTag);
+        for (const [ predicateValue, values ] of activeTag.listMapping) {
+          const predicate = this.util.dataFactory.namedNode(predicateValue);
+
+          if (values.length > 0) {
+            // Non-empty list, emit linked list of rdf:first and rdf:rest chains
+            const bnodes = values.map(() => this.util.createBlankNode());
+            for (let i = 0; i < values.length; i++) {
+              const object = this.util.getResourceOrBaseIri(values[i], activeTag);
+              this.emitTriple(bnodes[i], this.util.dataFactory.namedNode(`${Util.RDF}first`), object);
+              this.emitTriple(bnodes[i], this.util.dataFactory.namedNode(`${Util.RDF}rest`), (i < values.length - 1) ? bnodes[i + 1] : this.util.dataFactory.namedNode(`${Util.RDF}nil`));
+            }
+
+            // Emit triple for the first linked list chain
+            this.emitTriple(subject, predicate, bnodes[0]);
+          } else {
+            // Empty list, just emit rdf:nil
+            this.emitTriple(subject, predicate, this.util.dataFactory.namedNode(`${Util.RDF}nil`));
+          }
+        }
+      }
+    }
+
+    // Remove the active tag from the stack
+    this.activeTagStack.pop();
+
+    // Save the tag contents if needed
+    if (activeTag.collectedStartTag) {
+      this.appendEndTag(activeTag.name);
+    }
+  }
+
+  /**
+   * Append the given segment to the text buffer, within the maxLiteralLength limit.
+   * Text that exceeds the limit is cut off, and markup that exceeds the limit is omitted.
+   * End tags are appended via {@link appendEndTag} instead.
+   * Each form of the segment is only stored if an open tag collects text in that form.
+   * @param {string | undefined} text A text segment, or undefined if the segment is markup.
+   * @param {string} xml The segment as it must be used in XML literals, such as escaped text or serialized markup.
+   * @param {string} html The segment as it must be used in HTML literals.
+   */
+  protected appendText(text: string | undefined, xml: string, html: string): void {
+    if (this.textBuffer.truncated) {
+      return;
+    }
+    const length = Math.max(text === undefined ? 0 : text.length, xml.length, html.length);
+    if (this.exceedsLimit('maxLiteralLength', this.textBuffer.length + length)) {
+      this.textBuffer.truncated = true;
+      if (text === undefined) {
+        xml = '';
+        html = '';
+      } else {
+        // Serialized text that differs from the text, such as escaped text, is omitted instead of cut off
+        const remaining = this.limits.maxLiteralLength! - this.textBuffer.length;
+        const truncatedText = text.slice(0, remaining);
+        xml = xml === text ? truncatedText : '';
+        html = html === text ? truncatedText : '';
+        text = truncatedText;
+      }
+    }
+    this.textBuffer.length += Math.max(text === undefined ? 0 : text.length, xml.length, html.length);
+    if (this.textBuffer.collectingWithTags > 0) {
+      this.textBuffer.withTags.push(xml);
+    }
+    if (this.textBuffer.collectingWithHtmlTags > 0) {
+      this.textBuffer.withHtmlTags.push(html);
+    }
+    if (text !== undefined && this.textBuffer.collectingWithoutTags > 0) {
+      this.textBuffer.withoutTags.push(text);
+    }
+  }
+
+  /**
+   * Append the end tag with the given name to the text buffer.
+   * As the start tag of this element has been appended before,
+   * this is done even if the text was cut off, so that the collected markup remains balanced.
+   * @param {string} name A tag name.
+   */
+  protected appendEndTag(name: string): void {
+    const xml = this.textBuffer.collectingWithTags > 0 ? `</${name}>` : '';
+    const html = this.textBuffer.collectingWithHtmlTags > 0 ? this.htmlLiteralSerializer.serializeEndTag(name) : '';
+    this.textBuffer.length += Math.max(xml.length, html.length);
+    if (this.textBuffer.collectingWithTags > 0) {
+      this.textBuffer.withTags.push(xml);
+    }
+    if (this.textBuffer.collectingWithHtmlTags > 0) {
+      this.textBuffer.withHtmlTags.push(html);
+    }
+  }
+
+  /**
+   * Check if the given value exceeds the given limit.
+   * The first time a limit is exceeded, this is reported depending on the limit behavior,
+   * either by throwing an {@link RdfaLimitError},
+   * or by passing an {@link RdfaLimitError} to the sink.
+   * @param {keyof IRdfaLimits} limit The name of a limit.
+   * @param {number} value The value to check, such as the number of quads including the new quad.
+   * @return {boolean} If the limit is exceeded, in which case the caller must skip the corresponding work.
+   */
+  protected exceedsLimit(limit: keyof IRdfaLimits, value: number): boolean {
+    const max = this.limits[limit];
+    if (max === undefined || value <= max) {
+      return false;
+    }
+    if (!this.exceededLimits.has(limit)) {
+      this.exceededLimits.add(limit);
+      const error = new RdfaLimitError(limit, max);
+      if (this.limitBehavior === 'truncate') {
+        if (this.processorGraph) {
+          this.emitProcessorStatus('Warning', error.message);
+        }
+        if (this.sink.onLimit) {
+          this.sink.onLimit(error);
+        }
+      } else {
+        throw error;
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Process the end of the document.
+   */
+  protected processEnd(): void {
+    if (this.features.copyRdfaPatterns) {
+      this.features.copyRdfaPatterns = false;
+
+      // Emit all unreferenced patterns
+      for (const [ patternId, pattern ] of this.rdfaPatterns!) {
+        if (this.aborted) {
+          return;
+        }
+        if (!pattern.referenced) {
+          pattern.attributes.typeof = 'rdfa:Pattern';
+          pattern.attributes.resource = patternId;
+          this.emitPatternCopy(pattern.parentTag!, pattern, patternId);
+          pattern.referenced = false;
+          delete pattern.attributes.typeof;
+          delete pattern.attributes.resource;
+        }
+      }
+
+      // Emit all unreferenced copy links
+      for (const [ patternId, pendingCopies ] of this.pendingRdfaPatternCopies!) {
+        for (const parentTag of pendingCopies) {
+          if (this.aborted) {
+            return;
+          }
+          this.activeTagStack.push(parentTag);
+          // Count both the re-pushed parent tag and the link tag
+          this.copiedTagCount += 2;
+          this.processTagOpen('link', { property: 'rdfa:copy', href: patternId });
+          this.processTagClose();
+          this.copiedTagCount -= 2;
+          this.activeTagStack.pop();
+        }
+      }
+
+      this.features.copyRdfaPatterns = true;
+    }
+  }
+
+  /**
+   * If the new subject can be inherited from the parent object
+   * if the resource defines no new subject.
+   * @param {string} name The current tag name.
+   * @returns {boolean} If the subject can be inherited.
+   */
+  protected isInheritSubjectInHeadBody(name: string): boolean {
+    return Boolean(this.features.inheritSubjectInHeadBody) && (name === 'head' || name === 'body');
+  }
+
+  /**
+   * Add a list mapping for the given predicate and object in the active tag.
+   * @param {IActiveTag} activeTag The active tag.
+   * @param {Term | boolean} subject A subject term, this will only be used to create a separate list
+   *                                 if activeTag.explicitNewSubject is true.
+   * @param {Term} predicate A predicate term.
+   * @param {Term | boolean} currentObjectResource The current object resource.
+   */
+  protected addListMapping(
+    activeTag: IActiveTag,
+    subject: RDF.Quad_Subject | boolean,
+    predicate: RDF.Quad_Predicate,
+    currentObjectResource: RDF.Quad_Object | boolean,
+  ): void {
+    if (activeTag.explicitNewSubject) {
+      const bNode = this.util.createBlankNode();
+      this.emitTriple(this.util.getResourceOrBaseIri(subject, activeTag), predicate, bNode);
+      this.emitTriple(bNode, this.util.dataFactory.namedNode(`${Util.RDF}first`), this.util.getResourceOrBaseIri(currentObjectResource, activeTag));
+      this.emitTriple(bNode, this.util.dataFactory.namedNode(`${Util.RDF}rest`), this.util.dataFactory.namedNode(`${Util.RDF}nil`));
+    } else {
+      let predicateList = activeTag.listMappingLocal.get(predicate.value);
+      if (!predicateList) {
+        activeTag.listMappingLocal.set(predicate.value, predicateList = []);
+      }
+      if (currentObjectResource) {
+        predicateList.push(currentObjectResource);
+      }
+    }
+  }
+
+  /**
+   * Emit the given triple to the stream.
+   * @param {Term} subject A subject term.
+   * @param {Term} predicate A predicate term.
+   * @param {Term} object An object term.
+   */
+  protected emitTriple(subject: RDF.Quad_Subject, predicate: RDF.Quad_Predicate, object: RDF.Quad_Object): void {
+    // Validate IRIs
+    if (!this.util.relativeIris && (
+      (subject.termType === 'NamedNode' && !subject.value.includes(':')) ||
+      (predicate.termType === 'NamedNode' && !predicate.value.includes(':')) ||
+      (object.termType === 'NamedNode' && !object.value.includes(':')))) {
+      if (this.processorGraph) {
+        this.emitProcessorStatus('Warning', `Dropped the triple <${subject.value}> <${predicate.value}> <${object.value}> because it contains a relative IRI`);
+      }
+      return;
+    }
+    if (this.exceedsLimit('maxQuads', this.quadCount + 1)) {
+      return;
+    }
+    this.quadCount++;
+    const quad = this.util.dataFactory.quad(subject, predicate, object, this.defaultGraph);
+    this.sink.onQuad(quad, this.sourceLocations ? this.getQuadLocation() : undefined);
+    if (this.vocabExpander) {
+      // Vocabularies that are referenced later on may entail new quads from this quad,
+      // so it is kept until the end of the document and until all vocabularies are loaded.
+      // Only the terms that are needed for expansion are kept, which is bounded by maxQuads.
+      let pairs = this.vocabExpansionQuads.get(predicate.value);
+      if (!pairs) {
+        pairs = [];
+        this.vocabExpansionQuads.set(predicate.value, pairs);
+      }
+      pairs.push([ subject, object ]);
+      this.vocabExpansionKeys.add(VocabularyExpander.quadToKey(quad));
+      if (this.vocabLoadsPending === 0) {
+        this.emitEntailedQuads(quad);
+      }
+    }
+  }
+
+  /**
+   * Determine the location of the closest tag in the stack that has a known location.
+   * @return {ISourceLocation | undefined} A location, or undefined if no tag has a known location.
+   */
+  protected getQuadLocation(): ISourceLocation | undefined {
+    for (let i = this.activeTagStack.length - 1; i >= 0; i--) {
+      const location = this.activeTagStack[i].location;
+      if (location) {
+        return location;
+      }
+    }
+  }
+
+  /**
+   * Start loading the given vocabulary for vocabulary expansion, if it was not being loaded yet.
+   * Once all vocabularies that are being loaded are loaded, all quads that were emitted so far are expanded again
+   * if these vocabularies contain new relations,
+   * so that the entailed quads do not depend on the point in the document at which a vocabulary was referenced.
+   * Once the document has ended, the quads that were kept for this are released.
+   * @param {string} vocab A vocabulary IRI.
+   * @param {IActiveTag} activeTag The tag that referred to the vocabulary.
+   */
+  protected loadVocabulary(vocab: string, activeTag: IActiveTag): void {
+    if (!this.vocabLoads.has(vocab)) {
+      this.vocabLoadsPending++;
+      const load = this.vocabLoader!.load(vocab)
+        .then(
+          (quads) => {
+            if (this.vocabExpander!.addVocabulary(quads)) {
+              this.vocabExpansionOutdated = true;
+            }
+          },
+          (error: Error) => {
+            if (this.processorGraph) {
+              this.emitProcessorStatus(
+                'VocabReferenceError',
+                `Could not load the vocabulary ${vocab}: ${error.message}`,
+                activeTag,
+              );
+            }
+          },
+        )
+        .then(() => {
+          if (--this.vocabLoadsPending === 0 && !this.aborted) {
+            if (this.vocabExpansionOutdated) {
+              this.vocabExpansionOutdated = false;
+              this.expandEmittedQuads();
+            }
+            if (this.ended) {
+              this.releaseVocabExpansion();
+            }
+          }
+        });
+      // Expansion errors are thrown by finish
+      load.catch(() => {
+        // Do nothing
+      });
+      this.vocabLoads.set(vocab, load);
+    }
+  }
+
+  /**
+   * Emit all quads that are entailed by the quads that were emitted so far, and that were not emitted yet.
+   */
+  protected expandEmittedQuads(): void {
+    for (const [ predicate, pairs ] of this.vocabExpansionQuads) {
+      const predicateTerm = this.util.dataFactory.namedNode(predicate);
+      for (const [ subject, object ] of pairs) {
+        if (this.aborted) {
+          return;
+        }
+        this.emitEntailedQuads(this.util.dataFactory.quad(subject, predicateTerm, object, this.defaultGraph));
+      }
+    }
+  }
+
+  /**
+   * Release the emitted quads that are kept for vocabulary expansion,
+   * which is done once no more vocabularies can be referenced or loaded.
+   */
+  protected releaseVocabExpansion(): void {
+    this.vocabExpansionQuads.clear();
+    this.vocabExpansionKeys.clear();
+  }
+
+  /**
+   * Emit the quads that are entailed by the given emitted quad based on the vocabularies that are loaded,
+   * and that were not emitted yet.
+   * @param {RDF.Quad} quad An emitted quad.
+   */
+  protected emitEntailedQuads(quad: RDF.Quad): void {
+    for (const entailed of this.vocabExpander!.expand(quad)) {
+      const key = VocabularyExpander.quadToKey(entailed);
+      if (!this.vocabExpansionKeys.has(key) && !this.exceedsLimit('maxQuads', this.quadCount + 1)) {
+        this.vocabExpansionKeys.add(key);
+        this.quadCount++;
+        this.sink.onQuad(entailed);
+      }
+    }
+  }
+
+  /**
+   * Emit an entry in the processor graph for the current tag.
+   * @param {RdfaProcessorStatus} type The type of processor status.
+   * @param {string} description A human-readable description of the status.
+   * @param {IActiveTag} activeTag The tag to refer to, defaults to the current tag.
+   */
+  protected emitProcessorStatus(
+    type: RdfaProcessorStatus,
+    description: string,
+    activeTag: IActiveTag = this.activeTagStack[this.activeTagStack.length - 1],
+  ): void {
+    const status = this.util.dataFactory.blankNode();
+    this.emitProcessorTriple(status, `${Util.RDF}type`, this.util.dataFactory.namedNode(Util.RDFA + type));
+    this.emitProcessorTriple(status, `${Util.DC}description`, this.util.dataFactory.literal(description));
+    if (activeTag.xpath) {
+      const pointer = this.util.dataFactory.blankNode();
+      this.emitProcessorTriple(status, `${Util.RDFA}context`, pointer);
+      this.emitProcessorTriple(pointer, `${Util.RDF}type`, this.util.dataFactory.namedNode(`${Util.PTR}XPathPointer`));
+      this.emitProcessorTriple(pointer, `${Util.PTR}expression`, this.util.dataFactory.literal(activeTag.xpath));
+    }
+  }
+
+  /**
+   * Emit the given triple in the processor graph.
+   * @param {Term} subject A subject term.
+   * @param {string} predicate A predicate IRI.
+   * @param {Term} object An object term.
+   */
+  protected emitProcessorTriple(subject: RDF.Quad_Subject, predicate: string, object: RDF.Quad_Object): void {
+    const quad = this.util.dataFactory.quad(
+      subject,
+      this.util.dataFactory.namedNode(predicate),
+      object,
+      this.processorGraph,
+    );
+    if (this.processorGraphStream) {
+      this.processorGraphStream.write(quad);
+    } else {
+      this.sink.onQuad(quad);
+    }
+  }
+
+  /**
+   * Determine the XPath expression of the given tag, based on its parent.
+   * @param {IActiveTag} activeTag The active tag.
+   * @param {IActiveTag} parentTag The parent tag.
+   */
+  protected setXPath(activeTag: IActiveTag, parentTag: IActiveTag): void {
+    if (!parentTag.xpathChildCounts) {
+      parentTag.xpathChildCounts = new Map();
+    }
+    const position = (parentTag.xpathChildCounts.get(activeTag.name) || 0) + 1;
+    parentTag.xpathChildCounts.set(activeTag.name, position);
+    activeTag.xpath = `${parentTag.xpath || ''}/${activeTag.name}[${position}]`;
+  }
+
+  /**
+   * Emit an instantiation of the given pattern with the given parent tag.
+   * @param {IActiveTag} parentTag The parent tag to instantiate in.
+   * @param {IRdfaPattern} pattern The pattern to instantiate.
+   * @param {string} rootPatternId The pattern id.
+   */
+  protected emitPatternCopy(parentTag: IActiveTag, pattern: IRdfaPattern, rootPatternId: string): void {
+    if (this.aborted || this.exceedsLimit('maxPatternCopies', this.patternCopyCount + 1)) {
+      return;
+    }
+    this.patternCopyCount++;
+    this.activeTagStack.push(parentTag);
+    this.copiedTagCount++;
+    pattern.referenced = true;
+
+    // Text within copied patterns must not end up in literals of the document's open tags
+    const textBuffer = this.textBuffer;
+    this.textBuffer = RdfaProcessor.createTextBuffer();
+
+    // Ensure that blank nodes within patterns are instantiated only once.
+    // All next pattern copies will reuse the instantiated blank nodes from the first pattern.
+    if (pattern.constructedBlankNodes) {
+      let blankNodeIndex = 0;
+      this.util.blankNodeFactory = () => pattern.constructedBlankNodes![blankNodeIndex++];
+    } else {
+      pattern.constructedBlankNodes = [];
+      this.util.blankNodeFactory = () => {
+        const bNode = this.util.dataFactory.blankNode();
+        pattern.constructedBlankNodes!.push(bNode);
+        return bNode;
+      };
+    }
+
+    // Apply everything within the pattern
+    this.emitPatternCopyAbsolute(pattern, true, rootPatternId);
+
+    this.util.blankNodeFactory = undefined;
+    this.textBuffer = textBuffer;
+    this.copiedTagCount--;
+    this.activeTagStack.pop();
+  }
+
+  /**
+   * Emit an instantiation of the given pattern with the given parent tag.
+   *
+   * This should probably not be called directly,
+   * call {@link emitPatternCopy} instead.
+   *
+   * @param {IRdfaPattern} pattern The pattern to instantiate.
+   * @param {boolean} root If this is the root call for the given pattern.
+   * @param {string} rootPatternId The pattern id.
+   */
+  protected emitPatternCopyAbsolute(pattern: IRdfaPattern, root: boolean, rootPatternId: string): void {
+    // Stop on detection of cyclic patterns, or if parsing was aborted in the meantime
+    if ((!root && pattern.attributes.property === 'rdfa:copy' && pattern.attributes.href === rootPatternId) ||
+      this.aborted) {
+      return;
+    }
+
+    this.copiedTagCount++;
+    this.processTagOpen(pattern.name, pattern.attributes);
+    for (const text of pattern.text) {
+      this.processText(text);
+    }
+    for (const child of pattern.children) {
+      this.emitPatternCopyAbsolute(child, false, rootPatternId);
+    }
+    this.processTagClose();
+    this.copiedTagCount--;
+  }
+}
+
+export interface IRdfaProcessorOptions {
+  /**
+   * A custom RDFJS DataFactory to construct terms and triples.
+   */
+  dataFactory?: RDF.DataFactory;
+  /**
+   * An initital default base IRI.
+   */
+  baseIRI?: string;
+  /**
+   * A default language for string literals.
+   */
+  language?: string;
+  /**
+   * The initial vocabulary.
+   */
+  vocab?: string;
+  /**
+   * The default graph for constructing quads.
+   */
+  defaultGraph?: RDF.Quad_Graph;
+  /**
+   * A hash of features that should be enabled.
+   * Defaults to the features defined by the profile.
+   */
+  features?: IRdfaFeatures;
+  /**
+   * The RDFa profile to use.
+   * Defaults to a profile with all possible features enabled.
+   */
+  profile?: RdfaProfile;
+  /**
+   * The graph in which the processor graph (rdfa:Error, rdfa:Warning and rdfa:Info entries) must be emitted.
+   * If set, the processor graph will be emitted to the sink, unless processorGraphStream is set.
+   * By default, no processor graph is emitted.
+   */
+  processorGraph?: RDF.Quad_Graph;
+  /**
+   * An optional stream to which the processor graph must be written instead of the sink.
+   * This stream will be ended when processing is finished.
+   */
+  processorGraphStream?: IRdfaProcessorGraphStream;
+  /**
+   * If vocabulary expansion must be performed for all vocabularies referenced via the vocab attribute.
+   * This requires vocabLoader to be set.
+   * Entailed quads are emitted as soon as the vocabularies that entail them are loaded,
+   * for which the terms of all emitted quads are kept in memory until the end of the document,
+   * or until all vocabularies are loaded if that happens later.
+   * Memory usage therefore grows with the number of emitted quads, which can be bounded via the maxQuads limit.
+   */
+  vocabExpansion?: boolean;
+  /**
+   * The loader for vocabularies when vocabExpansion is enabled.
+   */
+  vocabLoader?: IVocabularyLoader;
+  /**
+   * If the locations of tags that are passed to onTagOpen must be passed to the sink for each quad.
+   * For each quad, the location of the closest tag with a known location is passed.
+   */
+  sourceLocations?: boolean;
+  /**
+   * Limits on the resources that may be used while parsing, which should be set for untrusted documents.
+   * By default, no limits apply.
+   */
+  limits?: IRdfaLimits;
+  /**
+   * What to do when one of the limits is exceeded, defaults to 'error'.
+   */
+  limitBehavior?: RdfaLimitBehavior;
+  /**
+   * If the base IRI must be determined as in HTML, if the profile supports base tags.
+   * Only the first base tag is used, and its base IRI also applies to the tags before it.
+   * For this, tags and text are buffered until a base tag is found, the head is closed,
+   * or body content is found, such as a tag that can not be placed in the head.
+   * To bound memory usage, this also stops once {@link RdfaProcessor.DEFERRED_EVENTS_LENGTH} characters are buffered.
+   * Base tags after that are ignored.
+   */
+  deferBase?: boolean;
+  /**
+   * If IRIs must remain relative if no absolute base IRI is known, such as when the baseIRI option is not set.
+   * By default, triples with relative IRIs are dropped.
+   * Relative IRIs can be resolved afterwards via {@link RdfaParser.rebase}.
+   */
+  relativeIris?: boolean;
+  /**
+   * A sanitizer for the markup of rdf:HTML and rdf:XMLLiteral literals, which is applied while it is being serialized.
+   * By default, markup is serialized as-is.
+   */
+  literalSanitizer?: LiteralSanitizer;
+  /**
+   * If the markup of rdf:XMLLiteral literals must be serialized following Exclusive XML Canonicalization,
+   * so that equal markup always results in equal literals.
+   * By default, markup is serialized in document order, with all in-scope namespaces declared on top-level elements.
+   */
+  canonicalXmlLiterals?: boolean;
+  /**
+   * A policy for the schemes and lengths of the IRIs of named nodes, which should be set for untrusted documents.
+   * By default, all valid IRIs are allowed.
+   */
+  iriPolicy?: IRdfaIriPolicy;
+}
+
+/**
+ * A sink to which the results of an {@link RdfaProcessor} are emitted.
+ */
+export interface IRdfaProcessorSink {
+  /**
+   * Called for each emitted quad.
+   * @param {RDF.Quad} quad A quad.
+   * @param {ISourceLocation} location If sourceLocations is enabled,
+   *                                  the location of the closest tag that produced the quad, if known.
+   */
+  onQuad: (quad: RDF.Quad, location?: ISourceLocation) => void;
+
+  /**
+   * Called the first time each limit is exceeded, if the limit behavior is 'truncate'.
+   * @param {RdfaLimitError} error An error describing the exceeded limit.
+   */
+  onLimit?: (error: RdfaLimitError) => void;
+
+  /**
+   * Called before each tag is processed, including the tags of copied patterns and deferred tags.
+   * Errors thrown by this method stop processing, and are thrown to the caller of the current processor method.
+   */
+  onProgress?: () => void;
+}
+
+/**
+ * A writable object stream to which processor graph quads can be written.
+ */
+export interface IRdfaProcessorGraphStream {
+  write: (quad: RDF.Quad) => void;
+  end: () => void;
+}
+
+/**
+ * Text that is collected for the literals of the currently open tags.
+ * Each collecting tag refers to the start index of its text within these shared arrays,
+ * so that text is stored only once, regardless of the nesting depth.
+ */
+interface ITextBuffer {
+  /**
+   * Text segments, including the serialized markup of child tags inside XML literals.
+   */
+  withTags: string[];
+  /**
+   * Text segments, including the serialized markup of child tags inside HTML literals.
+   */
+  withHtmlTags: string[];
+  /**
+   * Text segments without markup.
+   */
+  withoutTags: string[];
+  /**
+   * The number of open tags that are collecting text.
+   */
+  collectingTags: number;
+  /**
+   * The number of open tags that are collecting text for XML literals.
+   */
+  collectingWithTags: number;
+  /**
+   * The number of open tags that are collecting text for HTML literals.
+   */
+  collectingWithHtmlTags: number;
+  /**
+   * The number of open tags that are collecting text without markup.
+   */
+  collectingWithoutTags: number;
+  /**
+   * The total length of the text segments including markup.
+   */
+  length: number;
+  /**
+   * If the text was cut off due to the maxLiteralLength limit.
+   */
+  truncated: boolean;
+}
+
+/**
+ * A tag or text event that is buffered until the base IRI of the document is determined.
+ * Events without a name or text close the last opened tag.
+ */
+interface IDeferredEvent {
+  name?: string;
+  attributes?: Record<string, string>;
+  location?: ISourceLocation;
+  text?: string;
+}
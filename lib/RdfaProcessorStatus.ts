@@ -0,0 +1,19 @@
+/**
+ * A type of entry in the RDFa processor graph.
+ * See https://www.w3.org/TR/rdfa-core/#processor-status
+ */
+export type RdfaProcessorStatus =
+  // Generic error, warning and info entries
+  'Error' |
+  'Warning' |
+  'Info' |
+  // If the document could not be fully processed due to non-conformant markup
+  'DocumentError' |
+  // If a CURIE could not be resolved due to an undefined prefix
+  'UnresolvedCURIE' |
+  // If a term could not be resolved due to a missing term mapping or vocabulary
+  'UnresolvedTerm' |
+  // If a prefix mapping was redefined
+  'PrefixRedefinition' |
+  // If a vocabulary could not be loaded for vocabulary expansion
+  'VocabReferenceError';
@@ -0,0 +1,281 @@
+import { CharsetDecoder } from './CharsetDecoder';
+import { HtmlTreeNormalizer } from './HtmlTreeNormalizer';
+import type { IHtmlParseListener } from './IHtmlParseListener';
+import type { ISourceLocation } from './ISourceLocation';
+import type { ITokenizer, ITokenizerListener } from './ITokenizer';
+import type { ITokenizerAdapter } from './ITokenizerAdapter';
+import type { IRdfaProcessorOptions, IRdfaProcessorSink } from './RdfaProcessor';
+import { RdfaProcessor } from './RdfaProcessor';
+import type { RdfaProfile } from './RdfaProfile';
+import { SourcePositionTracker } from './SourcePositionTracker';
+import { TokenizerAdapterHtmlparser2 } from './TokenizerAdapterHtmlparser2';
+import { Util } from './Util';
+
+/**
+ * Parses RDFa from text or byte chunks, independent of any stream implementation.
+ *
+ * Byte chunks are decoded, the profile is detected if needed,
+ * and the text is tokenized using a tokenizer adapter, of which the events are passed to an {@link RdfaProcessor}.
+ */
+export class RdfaTextParser {
+  /**
+   * The maximum number of characters that are buffered when detecting the profile.
+   */
+  public static readonly PROFILE_DETECTION_LENGTH = 4096;
+
+  private readonly options: IRdfaTextParserOptions;
+  private readonly sink: IRdfaTextParserSink;
+  private processor!: RdfaProcessor;
+  private tokenizer!: ITokenizer;
+  private readonly htmlParseListener?: IHtmlParseListener;
+  private readonly sourcePositionTracker?: SourcePositionTracker;
+  private readonly locationStack: ISourceLocation[] = [];
+  private readonly charsetDecoder: CharsetDecoder;
+  private profileDetectionBuffer: string | undefined;
+  private documentEnded = false;
+
+  /**
+   * @param {IRdfaTextParserSink} sink The sink to which quads and errors will be emitted.
+   * @param {IRdfaTextParserOptions} options Optional parsing options.
+   */
+  public constructor(sink: IRdfaTextParserSink, options?: IRdfaTextParserOptions) {
+    options = options || {};
+    this.options = options;
+    this.sink = sink;
+
+    const profile = options.contentType ? Util.contentTypeToProfile(options.contentType) : options.profile || '';
+    this.htmlParseListener = options.htmlParseListener;
+
+    let encoding = options.encoding;
+    if (!encoding && options.contentType) {
+      // Unsupported charsets of content types are ignored, as they usually originate from untrusted headers.
+      const contentTypeEncoding = CharsetDecoder.getContentTypeEncoding(options.contentType);
+      if (contentTypeEncoding && CharsetDecoder.isSupportedEncoding(contentTypeEncoding)) {
+        encoding = contentTypeEncoding;
+      }
+    }
+    this.charsetDecoder = new CharsetDecoder(encoding);
+
+    if (options.sourceLocations) {
+      this.sourcePositionTracker = new SourcePositionTracker();
+    }
+
+    this.initializeProfile(profile);
+    if (options.detectProfile && !options.features && !profile) {
+      this.profileDetectionBuffer = '';
+    }
+  }
+
+  /**
+   * If the end of the document has been reached by the tokenizer.
+   */
+  public get ended(): boolean {
+    return this.documentEnded;
+  }
+
+  /**
+   * Parse the given chunk.
+   * @param {string | Uint8Array} chunk A text chunk, or a chunk of bytes that will be decoded.
+   */
+  public write(chunk: string | Uint8Array): void {
+    this.writeText(typeof chunk === 'string' ? chunk : this.charsetDecoder.decode(chunk));
+  }
+
+  /**
+   * Indicate that no more chunks will be written.
+   * Once the tokenizer has handled all remaining text, {@link finish} must be called.
+   */
+  public end(): void {
+    this.writeText(this.charsetDecoder.end(), true);
+    this.tokenizer.end();
+  }
+
+  /**
+   * Complete parsing after {@link end} was called and the tokenizer has handled all text.
+   * This waits until all vocabularies are loaded to emit the quads entailed by vocabulary expansion,
+   * and ends the processor graph stream.
+   */
+  public finish(): Promise<void> {
+    return this.processor.finish();
+  }
+
+  /**
+   * Pause the tokenizer.
+   * Written text will be buffered until {@link resume} is called.
+   */
+  public pause(): void {
+    this.tokenizer.pause();
+  }
+
+  /**
+   * Resume the tokenizer after it was paused.
+   */
+  public resume(): void {
+    this.tokenizer.resume();
+  }
+
+  /**
+   * Stop parsing, and release all buffered state.
+   * All further events will be ignored.
+   */
+  public abort(): void {
+    this.tokenizer.pause();
+    this.processor.abort();
+    this.profileDetectionBuffer = undefined;
+    this.locationStack.splice(0);
+  }
+
+  /**
+   * Pass the given decoded text to the tokenizer.
+   * If the profile is being detected, text is buffered until the profile is known.
+   * @param {string} data A text chunk.
+   * @param {boolean} complete If this is the last chunk.
+   */
+  protected writeText(data: string, complete = false): void {
+    if (this.profileDetectionBuffer !== undefined) {
+      const text = this.profileDetectionBuffer + data;
+      const profile = Util.detectProfile(text, complete || text.length >= RdfaTextParser.PROFILE_DETECTION_LENGTH);
+      if (profile === undefined) {
+        this.profileDetectionBuffer = text;
+        return;
+      }
+      this.profileDetectionBuffer = undefined;
+      this.initializeProfile(profile);
+      data = text;
+    }
+    if (data) {
+      if (this.sourcePositionTracker) {
+        this.sourcePositionTracker.append(data);
+      }
+      this.tokenizer.write(data);
+    }
+  }
+
+  /**
+   * Initialize the RDFa processor and the tokenizer for the given profile.
+   * This may only be called before any text was passed to the tokenizer.
+   * @param {RdfaProfile} profile An RDFa profile.
+   */
+  protected initializeProfile(profile: RdfaProfile): void {
+    const processorOptions: IRdfaProcessorOptions = { ...this.options, profile };
+    this.processor = new RdfaProcessor(this.sink, processorOptions);
+    this.tokenizer = this.initializeTokenizer(profile);
+  }
+
+  /**
+   * Create a tokenizer that passes its events to the RDFa processor.
+   * @param {RdfaProfile} profile An RDFa profile.
+   * @return {ITokenizer} A new tokenizer.
+   */
+  protected initializeTokenizer(profile: RdfaProfile): ITokenizer {
+    const tokenizerAdapter = this.options.tokenizer || new TokenizerAdapterHtmlparser2();
+    let listener: ITokenizerListener = {
+      onTagClose: () => {
+        try {
+          if (this.sourcePositionTracker) {
+            this.locationStack.pop()!.end = this.sourcePositionTracker.getPosition(this.tokenizer.endIndex + 1);
+          }
+          this.processor.onTagClose();
+          if (this.htmlParseListener) {
+            this.htmlParseListener.onTagClose();
+          }
+        } catch (e) {
+          this.sink.onError(e);
+        }
+      },
+      onError: (error: Error) => {
+        this.processor.onDocumentError(error.message);
+      },
+      onEnd: () => {
+        this.documentEnded = true;
+        try {
+          this.processor.onEnd();
+          if (this.htmlParseListener) {
+            this.htmlParseListener.onEnd();
+          }
+        } catch (e) {
+          this.sink.onError(e);
+        }
+      },
+      onTagOpen: (name: string, attributes: Record<string, string>) => {
+        try {
+          let location: ISourceLocation | undefined;
+          if (this.sourcePositionTracker) {
+            location = { start: this.sourcePositionTracker.getPosition(this.tokenizer.startIndex) };
+            this.locationStack.push(location);
+          }
+          this.processor.onTagOpen(name, attributes, location);
+          if (this.htmlParseListener) {
+            this.htmlParseListener.onTagOpen(name, attributes);
+          }
+        } catch (e) {
+          this.sink.onError(e);
+        }
+      },
+      onText: (data: string) => {
+        try {
+          this.processor.onText(data);
+          if (this.htmlParseListener) {
+            this.htmlParseListener.onText(data);
+          }
+        } catch (e) {
+          this.sink.onError(e);
+        }
+      },
+    };
+    if (this.options.normalizeHtml && profile === 'html') {
+      listener = new HtmlTreeNormalizer(listener);
+    }
+    return tokenizerAdapter.createTokenizer(listener, profile === 'xml');
+  }
+}
+
+export interface IRdfaTextParserOptions extends IRdfaProcessorOptions {
+  /**
+   * The content type of the document that should be parsed.
+   * This can be used as an alternative to the 'profile' option.
+   */
+  contentType?: string;
+  /**
+   * If the profile must be detected from the start of the document,
+   * based on the XML declaration, the DOCTYPE and the root element.
+   * This only applies if no features are given,
+   * and if no profile could be determined from the 'profile' or 'contentType' options.
+   */
+  detectProfile?: boolean;
+  /**
+   * The character encoding of byte chunks, such as 'windows-1252'.
+   * This overrides the charset parameter of the content type and any encoding declared in the document,
+   * but not a byte order mark.
+   * If not set, the encoding will be sniffed from the document, defaulting to UTF-8.
+   * This has no effect on string chunks.
+   */
+  encoding?: string;
+  /**
+   * An optional listener for the internal HTML parse events.
+   */
+  htmlParseListener?: IHtmlParseListener;
+  /**
+   * If the tag events of documents with the html profile must be normalized
+   * as the HTML5 tree construction algorithm would,
+   * such as implied html, head and body elements, and implicitly closed paragraphs, list items and table cells.
+   * This makes the output for minimal or malformed documents match the output for their browser DOM.
+   */
+  normalizeHtml?: boolean;
+  /**
+   * The adapter for the library that tokenizes the document.
+   * Defaults to htmlparser2.
+   */
+  tokenizer?: ITokenizerAdapter;
+}
+
+/**
+ * A sink to which the results of an {@link RdfaTextParser} are emitted.
+ */
+export interface IRdfaTextParserSink extends IRdfaProcessorSink {
+  /**
+   * Called when an error was thrown while handling an HTML parse event, such as an {@link RdfaLimitError}.
+   * @param {unknown} error An error.
+   */
+  onError: (error: unknown) => void;
+}
@@ -0,0 +1,159 @@
+import type * as RDF from '@rdfjs/types';
+import { AbortError } from './AbortError';
+import type { IRdfaParserOptions } from './RdfaParser';
+import { RdfaTextParser } from './RdfaTextParser';
+
+/**
+ * A WHATWG TransformStream that parses RDFa text or byte chunks into quads.
+ *
+ * This can be used in environments with Web Streams, such as browsers, Deno, and service workers,
+ * for example as `(await fetch(url)).body.pipeThrough(new RdfaTransformStream({ baseIRI: url }))`.
+ *
+ * This shares its tokenizing, decoding and profile detection with {@link RdfaParser}.
+ * The 'location' and 'limit' events of {@link RdfaParser} are not available,
+ * but exceeded limits can be observed through the processor graph.
+ */
+export class RdfaTransformStream extends TransformStream<string | Uint8Array, RDF.Quad> {
+  /**
+   * @param {IRdfaParserOptions} options The parser options.
+   * @param {QueuingStrategy<string | Uint8Array>} writableStrategy The queuing strategy of the writable side.
+   * @param {QueuingStrategy<RDF.Quad>} readableStrategy The queuing strategy of the readable side.
+   */
+  public constructor(
+    options?: IRdfaParserOptions,
+    writableStrategy?: QueuingStrategy<string | Uint8Array>,
+    readableStrategy?: QueuingStrategy<RDF.Quad>,
+  ) {
+    options = options || {};
+    let controller: TransformStreamDefaultController<RDF.Quad>;
+    let readableController: ReadableStreamDefaultController<RDF.Quad>;
+    const { signal, timeout: timeoutMs } = options;
+    let abortListener: (() => void) | undefined;
+    let timeout: ReturnType<typeof setTimeout> | undefined;
+    let deadline: number | undefined;
+    let parsing = false;
+    let parserPaused = false;
+    let pendingCallback: ((error?: unknown) => void) | undefined;
+
+    const clearAbortTriggers = (): void => {
+      if (abortListener) {
+        signal!.removeEventListener('abort', abortListener);
+      }
+      if (timeout) {
+        clearTimeout(timeout);
+      }
+    };
+    // Aborting the text parser ensures that no more quads or errors will be emitted
+    const fail = (error: unknown): void => {
+      clearAbortTriggers();
+      textParser.abort();
+      controller.error(error);
+      readableController.error(error);
+      const callback = pendingCallback;
+      pendingCallback = undefined;
+      callback?.(error);
+    };
+    const textParser = new RdfaTextParser({
+      onQuad(quad) {
+        readableController.enqueue(quad);
+        // Quads emitted after the end of the document can not pause the parser anymore
+        if (readableController.desiredSize! <= 0 && parsing && !textParser.ended) {
+          textParser.pause();
+          parserPaused = true;
+        }
+      },
+      onError: fail,
+      // The timer only fires between chunks, so the deadline is also checked while a chunk is being parsed
+      onProgress() {
+        if (deadline !== undefined && Date.now() > deadline) {
+          throw new AbortError(`The parser timed out after ${timeoutMs}ms`);
+        }
+      },
+    }, options);
+
+    // Run the given action on the text parser,
+    // and invoke the callback once the consumer has read enough quads for parsing to finish
+    const runParser = (action: () => void, callback: (error?: unknown) => void): void => {
+      parsing = true;
+      action();
+      parsing = false;
+      if (parserPaused) {
+        pendingCallback = callback;
+      } else {
+        callback();
+      }
+    };
+    const runParserAsync = (action: () => void): Promise<void> => new Promise((resolve, reject) => {
+      runParser(action, error => error === undefined ? resolve() : reject(error));
+    });
+
+    // A TransformStream does not tell its transformer when quads are read,
+    // so quads are enqueued in a separate readable side that continues parsing when it is pulled
+    const readable = new ReadableStream<RDF.Quad>({
+      start(startController) {
+        readableController = startController;
+      },
+      // Quads are only enqueued while parsing, during which the readable side can not be pulled
+      pull() {
+        if (parserPaused) {
+          const callback = pendingCallback!;
+          pendingCallback = undefined;
+          parserPaused = false;
+          runParser(() => textParser.resume(), callback);
+        }
+      },
+      // Stop parsing once the readable side is canceled
+      cancel(reason) {
+        clearAbortTriggers();
+        textParser.abort();
+        controller.error(reason);
+        const callback = pendingCallback;
+        pendingCallback = undefined;
+        callback?.(reason);
+      },
+    }, readableStrategy);
+
+    // The cancel callback is not part of the Transformer type of the DOM lib yet
+    const transformer: Transformer<string | Uint8Array, RDF.Quad> & { cancel: (reason: unknown) => void } = {
+      start(startController) {
+        controller = startController;
+        if (signal) {
+          if (signal.aborted) {
+            return fail(new AbortError('The parser was aborted', signal.reason));
+          }
+          abortListener = () => fail(new AbortError('The parser was aborted', signal.reason));
+          signal.addEventListener('abort', abortListener);
+        }
+        if (timeoutMs !== undefined) {
+          deadline = Date.now() + timeoutMs;
+          timeout = setTimeout(() => fail(new AbortError(`The parser timed out after ${timeoutMs}ms`)), timeoutMs);
+          // The timeout must not keep the process alive
+          timeout.unref?.();
+        }
+      },
+      // Once the stream has errored, no more chunks will be transformed or flushed
+      transform(chunk) {
+        return runParserAsync(() => textParser.write(chunk));
+      },
+      async flush() {
+        try {
+          await runParserAsync(() => textParser.end());
+          await textParser.finish();
+          readableController.close();
+        } finally {
+          clearAbortTriggers();
+        }
+      },
+      // Stop parsing once the writable side is aborted
+      cancel(reason) {
+        clearAbortTriggers();
+        textParser.abort();
+        readableController.error(reason);
+      },
+    };
+    // The readable side of the TransformStream itself is never read,
+    // so it must not exert backpressure on the writable side
+    super(transformer, writableStrategy, { highWaterMark: 1 });
+    Object.defineProperty(this, 'readable', { value: readable });
+  }
+}
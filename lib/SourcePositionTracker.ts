@@ -0,0 +1,64 @@
+import type { ISourcePosition } from './ISourceLocation';
+
+/**
+ * Determines line, column and UTF-8 byte positions for character offsets in a streamed document.
+ *
+ * Only text that has not been passed yet is kept in memory,
+ * which requires positions to be requested in non-decreasing order of offset.
+ */
+export class SourcePositionTracker {
+  private buffer = '';
+  private bufferOffset = 0;
+  private line = 1;
+  private column = 1;
+  private utf8ByteOffset = 0;
+
+  /**
+   * Append the next chunk of the document.
+   * @param {string} chunk A string chunk.
+   */
+  public append(chunk: string): void {
+    this.buffer += chunk;
+  }
+
+  /**
+   * Determine the position of the given character offset.
+   * Offsets before the last requested offset will return the last requested position.
+   * @param {number} offset A character offset in the document.
+   * @return {ISourcePosition} A source position.
+   */
+  public getPosition(offset: number): ISourcePosition {
+    const end = Math.min(offset - this.bufferOffset, this.buffer.length);
+    let i = 0;
+    while (i < end) {
+      const codePoint = this.buffer.codePointAt(i)!;
+      if (codePoint === 10) {
+        this.line++;
+        this.column = 1;
+      } else {
+        this.column++;
+      }
+      if (codePoint < 0x80) {
+        this.utf8ByteOffset += 1;
+      } else if (codePoint < 0x800) {
+        this.utf8ByteOffset += 2;
+      } else if (codePoint < 0x10000) {
+        this.utf8ByteOffset += 3;
+      } else {
+        this.utf8ByteOffset += 4;
+        i++;
+      }
+      i++;
+    }
+    if (i > 0) {
+      this.buffer = this.buffer.slice(i);
+      this.bufferOffset += i;
+    }
+    return {
+      line: this.line,
+      column: this.column,
+      offset: this.bufferOffset,
+      utf8ByteOffset: this.utf8ByteOffset,
+    };
+  }
+}
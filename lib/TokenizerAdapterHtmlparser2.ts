@@ -0,0 +1,59 @@
+import type { DomHandler } from 'domhandler';
+import { decodeHTML } from 'entities';
+import { Parser as HtmlParser } from 'htmlparser2';
+import type { ITokenizer, ITokenizerListener } from './ITokenizer';
+import type { ITokenizerAdapter } from './ITokenizerAdapter';
+
+/**
+ * A tokenizer adapter for htmlparser2.
+ *
+ * This is a fast and forgiving tokenizer for both HTML and XML,
+ * which recognizes self-closing tags in HTML, and implicitly closes elements such as `<p>` and `<li>`.
+ */
+export class TokenizerAdapterHtmlparser2 implements ITokenizerAdapter {
+  public createTokenizer(listener: ITokenizerListener, xmlMode: boolean): ITokenizer {
+    // Entities in the text of textarea elements are not decoded by htmlparser2, so this is done here.
+    // A possibly incomplete entity at the end of a text chunk is kept until the next chunk.
+    let textareaEntity: string | undefined;
+    return new HtmlParser(
+      <DomHandler> <any> {
+        onclosetag(name: string, isImplied: boolean) {
+          if (xmlMode && isImplied) {
+            listener.onError(new Error(`The element '${name}' was not closed`));
+          }
+          if (textareaEntity !== undefined) {
+            if (textareaEntity) {
+              listener.onText(decodeHTML(textareaEntity));
+            }
+            textareaEntity = undefined;
+          }
+          listener.onTagClose();
+        },
+        onerror: (error: Error) => listener.onError(error),
+        onend: () => listener.onEnd(),
+        onopentag(name: string, attributes: Record<string, string>) {
+          listener.onTagOpen(name, attributes);
+          if (!xmlMode && name === 'textarea') {
+            textareaEntity = '';
+          }
+        },
+        ontext(data: string) {
+          if (textareaEntity === undefined) {
+            listener.onText(data);
+            return;
+          }
+          data = textareaEntity + data;
+          textareaEntity = /&[#\w]{0,32}$/u.exec(data)?.[0] || '';
+          if (data.length > textareaEntity.length) {
+            listener.onText(decodeHTML(data.slice(0, data.length - textareaEntity.length)));
+          }
+        },
+      },
+      {
+        decodeEntities: true,
+        recognizeSelfClosing: true,
+        xmlMode,
+      },
+    );
+  }
+}
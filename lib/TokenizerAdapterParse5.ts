@@ -0,0 +1,183 @@
+import type * as Parse5 from 'parse5';
+import type { ITokenizer, ITokenizerListener } from './ITokenizer';
+import type { ITokenizerAdapter } from './ITokenizerAdapter';
+import { TokenizerAdapterHtmlparser2 } from './TokenizerAdapterHtmlparser2';
+
+/**
+ * A tokenizer adapter for the HTML5 tokenizer of parse5.
+ *
+ * This tokenizes HTML exactly as defined by the HTML5 specification, such as the tokenization of character references,
+ * attributes, and the contents of `<script>`, `<style>`, `<title>` and `<textarea>` elements.
+ * Tree construction is not performed: end tags close all elements up to the closest open element with the same name,
+ * end tags without such an element are ignored, and all open elements are closed at the end of the document.
+ * Tokenizer errors are emitted as errors.
+ *
+ * As parse5 only supports HTML, XML documents are tokenized by another adapter.
+ *
+ * parse5 is an optional peer dependency, which is only loaded when the first HTML tokenizer is created.
+ */
+export class TokenizerAdapterParse5 implements ITokenizerAdapter {
+  public static readonly VOID_ELEMENTS = new Set([
+    'area',
+    'base',
+    'basefont',
+    'bgsound',
+    'br',
+    'col',
+    'embed',
+    'frame',
+    'hr',
+    'img',
+    'input',
+    'keygen',
+    'link',
+    'meta',
+    'param',
+    'source',
+    'track',
+    'wbr',
+  ]);
+
+  public static readonly TEXT_ELEMENTS: Record<string, TokenizerTextMode> = {
+    iframe: 'RAWTEXT',
+    noembed: 'RAWTEXT',
+    noframes: 'RAWTEXT',
+    plaintext: 'PLAINTEXT',
+    script: 'SCRIPT_DATA',
+    style: 'RAWTEXT',
+    textarea: 'RCDATA',
+    title: 'RCDATA',
+    xmp: 'RAWTEXT',
+  };
+
+  public static readonly FOREIGN_ELEMENTS = new Set([ 'math', 'svg' ]);
+
+  private readonly xmlTokenizerAdapter: ITokenizerAdapter;
+
+  /**
+   * @param {ITokenizerAdapter} xmlTokenizerAdapter The adapter for XML documents, defaults to htmlparser2.
+   */
+  public constructor(xmlTokenizerAdapter?: ITokenizerAdapter) {
+    this.xmlTokenizerAdapter = xmlTokenizerAdapter || new TokenizerAdapterHtmlparser2();
+  }
+
+  public createTokenizer(listener: ITokenizerListener, xmlMode: boolean): ITokenizer {
+    if (xmlMode) {
+      return this.xmlTokenizerAdapter.createTokenizer(listener, xmlMode);
+    }
+
+    // eslint-disable-next-line ts/no-require-imports, ts/no-var-requires
+    const parse5 = <typeof Parse5> require('parse5');
+    const openTags: string[] = [];
+    let foreignDepth = 0;
+    let paused = false;
+    const position = { startIndex: 0, endIndex: 0 };
+    // Consecutive character tokens are emitted as a single text event
+    let text = '';
+
+    const flushText = (): void => {
+      if (text) {
+        const data = text;
+        text = '';
+        listener.onText(data);
+      }
+    };
+    const closeTag = (name: string): void => {
+      if (TokenizerAdapterParse5.FOREIGN_ELEMENTS.has(name)) {
+        tokenizer.inForeignNode = --foreignDepth > 0;
+      }
+      listener.onTagClose();
+    };
+    const onCharacter = (token: Parse5.Token.CharacterToken): void => {
+      text += token.chars;
+    };
+    const tokenizer = new parse5.Tokenizer({ sourceCodeLocationInfo: true }, {
+      onStartTag(token) {
+        flushText();
+        position.startIndex = token.location!.startOffset;
+        position.endIndex = token.location!.endOffset - 1;
+        const attributes: Record<string, string> = {};
+        for (const attribute of token.attrs) {
+          attributes[attribute.name] = attribute.value;
+        }
+        if (TokenizerAdapterParse5.FOREIGN_ELEMENTS.has(token.tagName)) {
+          tokenizer.inForeignNode = ++foreignDepth > 0;
+        }
+        listener.onTagOpen(token.tagName, attributes);
+        if (TokenizerAdapterParse5.VOID_ELEMENTS.has(token.tagName) || (token.selfClosing && foreignDepth > 0)) {
+          closeTag(token.tagName);
+        } else {
+          openTags.push(token.tagName);
+          if (foreignDepth === 0 && token.tagName in TokenizerAdapterParse5.TEXT_ELEMENTS) {
+            tokenizer.state = parse5.TokenizerMode[TokenizerAdapterParse5.TEXT_ELEMENTS[token.tagName]];
+          }
+        }
+      },
+      onEndTag(token) {
+        flushText();
+        const index = openTags.lastIndexOf(token.tagName);
+        if (index < 0) {
+          return;
+        }
+        position.startIndex = token.location!.startOffset;
+        // Elements that are closed implicitly end right before this end tag
+        position.endIndex = token.location!.startOffset - 1;
+        while (openTags.length > index + 1) {
+          closeTag(openTags.pop()!);
+        }
+        position.endIndex = token.location!.endOffset - 1;
+        closeTag(openTags.pop()!);
+      },
+      onEof(token) {
+        flushText();
+        position.startIndex = token.location!.startOffset;
+        position.endIndex = token.location!.startOffset - 1;
+        for (let name = openTags.pop(); name; name = openTags.pop()) {
+          closeTag(name);
+        }
+        listener.onEnd();
+      },
+      onCharacter,
+      onWhitespaceCharacter: onCharacter,
+      onNullCharacter() {
+        // Null characters are ignored by the tree builder
+      },
+      onComment() {
+        // Comments are ignored
+      },
+      onDoctype() {
+        // Doctypes are ignored
+      },
+      onParseError(error) {
+        flushText();
+        listener.onError(new Error(`${error.startLine}:${error.startCol}: ${error.code}`));
+      },
+    });
+
+    return {
+      get startIndex() {
+        return position.startIndex;
+      },
+      get endIndex() {
+        return position.endIndex;
+      },
+      write: chunk => tokenizer.write(chunk, false),
+      end: () => tokenizer.write('', true),
+      pause() {
+        paused = true;
+        tokenizer.pause();
+      },
+      resume() {
+        if (paused) {
+          paused = false;
+          tokenizer.resume();
+        }
+      },
+    };
+  }
+}
+
+/**
+ * The parse5 tokenizer modes in which the contents of text elements are tokenized.
+ */
+export type TokenizerTextMode = 'RCDATA' | 'RAWTEXT' | 'SCRIPT_DATA' | 'PLAINTEXT';
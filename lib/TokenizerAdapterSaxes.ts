@@ -0,0 +1,139 @@
+import type { ITokenizer, ITokenizerListener } from './ITokenizer';
+import type { ITokenizerAdapter } from './ITokenizerAdapter';
+import { TokenizerAdapterHtmlparser2 } from './TokenizerAdapterHtmlparser2';
+
+/**
+ * A tokenizer adapter for the strict and namespace-aware XML parser saxes.
+ *
+ * Well-formedness and namespace errors are emitted as errors, after which tokenizing continues.
+ * Elements that are still open at the end of the document are closed.
+ * As saxes can not be paused while it is tokenizing a chunk,
+ * chunks are written to it in pieces that end after each '>', so that pausing takes effect after each tag.
+ *
+ * As saxes only supports XML, HTML documents are tokenized by another adapter.
+ *
+ * saxes is an optional peer dependency, which is only loaded when the first XML tokenizer is created.
+ */
+export class TokenizerAdapterSaxes implements ITokenizerAdapter {
+  private readonly htmlTokenizerAdapter: ITokenizerAdapter;
+
+  /**
+   * @param {ITokenizerAdapter} htmlTokenizerAdapter The adapter for HTML documents, defaults to htmlparser2.
+   */
+  public constructor(htmlTokenizerAdapter?: ITokenizerAdapter) {
+    this.htmlTokenizerAdapter = htmlTokenizerAdapter || new TokenizerAdapterHtmlparser2();
+  }
+
+  public createTokenizer(listener: ITokenizerListener, xmlMode: boolean): ITokenizer {
+    if (!xmlMode) {
+      return this.htmlTokenizerAdapter.createTokenizer(listener, xmlMode);
+    }
+
+    // eslint-disable-next-line ts/no-require-imports, ts/no-var-requires
+    const saxes = <ISaxes> require('saxes');
+    let openTags = 0;
+    const state = { paused: false, endRequested: false, chunkOffset: 0 };
+    const bufferedChunks: string[] = [];
+    const position = { startIndex: 0, endIndex: 0 };
+
+    const parser = new saxes.SaxesParser({ xmlns: true });
+    parser.on('opentagstart', (tag) => {
+      // The parser has consumed the '<', the name, and the character after the name
+      position.startIndex = parser.position - tag.name.length - 2;
+    });
+    parser.on('opentag', (tag) => {
+      position.endIndex = parser.position - 1;
+      const attributes: Record<string, string> = {};
+      for (const attribute of Object.values(tag.attributes)) {
+        attributes[attribute.name] = attribute.value;
+      }
+      openTags++;
+      listener.onTagOpen(tag.name, attributes);
+    });
+    parser.on('closetag', () => {
+      position.endIndex = parser.position - 1;
+      openTags--;
+      listener.onTagClose();
+    });
+    parser.on('text', text => listener.onText(text));
+    parser.on('cdata', text => listener.onText(text));
+    parser.on('error', error => listener.onError(error));
+    parser.on('end', () => {
+      // Unclosed elements have already been reported as errors
+      while (openTags > 0) {
+        openTags--;
+        listener.onTagClose();
+      }
+      listener.onEnd();
+    });
+
+    const flush = (): void => {
+      // Pausing while a piece is being written stops writing the pieces after it
+      while (!state.paused && bufferedChunks.length > 0) {
+        const chunk = bufferedChunks[0];
+        const start = state.chunkOffset;
+        const tagEnd = chunk.indexOf('>', start);
+        const end = tagEnd < 0 ? chunk.length : tagEnd + 1;
+        if (end === chunk.length) {
+          bufferedChunks.shift();
+          state.chunkOffset = 0;
+        } else {
+          state.chunkOffset = end;
+        }
+        parser.write(chunk.slice(start, end));
+      }
+      if (!state.paused && state.endRequested) {
+        state.endRequested = false;
+        parser.close();
+      }
+    };
+    return {
+      get startIndex() {
+        return position.startIndex;
+      },
+      get endIndex() {
+        return position.endIndex;
+      },
+      write(chunk) {
+        bufferedChunks.push(chunk);
+        flush();
+      },
+      end() {
+        state.endRequested = true;
+        flush();
+      },
+      pause() {
+        state.paused = true;
+      },
+      resume() {
+        state.paused = false;
+        flush();
+      },
+    };
+  }
+}
+
+/**
+ * The parts of the saxes module that are used by this adapter.
+ * They are declared here, as the typings of saxes do not type-check.
+ */
+interface ISaxes {
+  // eslint-disable-next-line ts/naming-convention
+  SaxesParser: new(options: { xmlns: boolean }) => ISaxesParser;
+}
+
+interface ISaxesParser {
+  readonly position: number;
+  on: ((name: 'opentagstart', handler: (tag: ISaxesTag) => void) => void) &
+    ((name: 'opentag', handler: (tag: ISaxesTag) => void) => void) &
+    ((name: 'closetag' | 'end', handler: () => void) => void) &
+    ((name: 'text' | 'cdata', handler: (text: string) => void) => void) &
+    ((name: 'error', handler: (error: Error) => void) => void);
+  write: (chunk: string) => void;
+  close: () => void;
+}
+
+interface ISaxesTag {
+  name: string;
+  attributes: Record<string, { name: string; value: string }>;
+}
@@ -2,6 +2,9 @@ import type * as RDF from '@rdfjs/types';
 import { DataFactory } from 'rdf-data-factory';
 import { resolve } from 'relative-to-absolute-iri';
 import type { IActiveTag } from './IActiveTag';
+import type { IMediaType } from './IMediaType';
+import type { IRdfaIriPolicy } from './IRdfaIriPolicy';
+import type { RdfaProcessorStatus } from './RdfaProcessorStatus';
 import type { RdfaProfile } from './RdfaProfile';
 import { RDFA_CONTENTTYPES } from './RdfaProfile';
 
@@ -12,8 +15,19 @@ export class Util {
   public static readonly RDF = 'http://www.w3.org/1999/02/22-rdf-syntax-ns#';
   public static readonly XSD = 'http://www.w3.org/2001/XMLSchema#';
   public static readonly RDFA = 'http://www.w3.org/ns/rdfa#';
+  public static readonly DC = 'http://purl.org/dc/terms/';
+  public static readonly PTR = 'http://www.w3.org/2009/pointers#';
+
+  private static readonly WHITESPACE_REGEX: RegExp = /[\t\n\f\r ]+/u;
+  // See https://www.w3.org/TR/xml-names/#NT-NCName
+  private static readonly NCNAME_REGEX: RegExp = new RegExp(
+    '^[A-Z_a-z\u00C0-\u00D6\u00D8-\u00F6\u00F8-\u02FF\u0370-\u037D\u037F-\u1FFF\u200C-\u200D\u2070-\u218F' +
+    '\u2C00-\u2FEF\u3001-\uD7FF\uF900-\uFDCF\uFDF0-\uFFFD\u{10000}-\u{EFFFF}]' +
+    '[-.\\w\u00B7\u00C0-\u00D6\u00D8-\u00F6\u00F8-\u037D\u037F-\u1FFF\u200C-\u200D\u203F\u2040\u2070-\u218F' +
+    '\u2C00-\u2FEF\u3001-\uD7FF\uF900-\uFDCF\uFDF0-\uFFFD\u{10000}-\u{EFFFF}]*$',
+    'u',
+  );
 
-  private static readonly PREFIX_REGEX: RegExp = /\s*([^\s:]*)*:\s*(\S*)*\s*/gu;
   private static readonly TIME_REGEXES: { regex: RegExp; type: string }[] = [
     {
       regex: /^-?P(\d+Y)?(\d+M)?(\d+D)?(T(\d+H)?(\d+M)?(\d+(\.\d)?S)?)?$/u,
@@ -29,17 +43,44 @@ export class Util {
     { regex: /^\d+$/u, type: 'gYear' },
   ];
 
+  private static readonly MEDIA_TYPE_TOKEN_REGEX: RegExp = /^[\w!#$%&'*+.^`|~-]+$/u;
   private static readonly IRI_REGEX: RegExp = /^([A-Za-z][\d+-.A-Za-z]*|_):[^ "<>[\\\]`{|}]*$/u;
+  private static readonly RELATIVE_IRI_REGEX: RegExp = /^[^ "<>[\\\]`{|}]*$/u;
+  private static readonly SCHEME_REGEX: RegExp = /^[A-Za-z][\d+-.A-Za-z]*:/u;
 
   public readonly dataFactory: RDF.DataFactory;
   public baseIRI: RDF.NamedNode;
   public blankNodeFactory: (() => RDF.BlankNode) | undefined;
+  public processorStatusListener: ((type: RdfaProcessorStatus, description: string) => void) | undefined;
+  public readonly relativeIris: boolean;
+  public readonly iriPolicy: IRdfaIriPolicy | undefined;
   private readonly baseIRIDocument: RDF.NamedNode;
+  private readonly allowedSchemes: Set<string> | undefined;
+  private readonly deniedSchemes: Set<string> | undefined;
 
-  public constructor(dataFactory: RDF.DataFactory | undefined, baseIRI: string | undefined) {
+  /**
+   * @param {RDF.DataFactory} dataFactory An optional data factory.
+   * @param {string} baseIRI An optional base IRI.
+   * @param {boolean} relativeIris If IRIs may remain relative if they can not be resolved against an absolute base IRI.
+   * @param {IRdfaIriPolicy} iriPolicy An optional policy for the IRIs of created named nodes.
+   */
+  public constructor(
+    dataFactory: RDF.DataFactory | undefined,
+    baseIRI: string | undefined,
+    relativeIris?: boolean,
+    iriPolicy?: IRdfaIriPolicy,
+  ) {
     this.dataFactory = dataFactory || new DataFactory();
     this.baseIRI = this.dataFactory.namedNode(baseIRI || '');
     this.baseIRIDocument = this.baseIRI;
+    this.relativeIris = Boolean(relativeIris);
+    this.iriPolicy = iriPolicy;
+    if (iriPolicy?.allowedSchemes) {
+      this.allowedSchemes = new Set(iriPolicy.allowedSchemes.map(scheme => scheme.toLowerCase()));
+    }
+    if (iriPolicy?.deniedSchemes) {
+      this.deniedSchemes = new Set(iriPolicy.deniedSchemes.map(scheme => scheme.toLowerCase()));
+    }
   }
 
   /**
@@ -47,14 +88,17 @@ export class Util {
    * @param {{[p: string]: string}} attributes A tag's attributes.
    * @param {{[p: string]: string}} parentPrefixes The prefixes from the parent tag.
    * @param {boolean} xmlnsPrefixMappings If prefixes should be extracted from xmlnsPrefixMappings.
+   * @param {(type: RdfaProcessorStatus, description: string) => void} onStatus An optional callback for
+   *                                                                            rejected and overridden prefixes.
    * @return {{[p: string]: string}} The new prefixes.
    */
   public static parsePrefixes(
     attributes: Record<string, string>,
     parentPrefixes: Record<string, string>,
     xmlnsPrefixMappings: boolean,
+    onStatus?: (type: RdfaProcessorStatus, description: string) => void,
   ): Record<string, string> {
-    const additionalPrefixes: Record<string, string> = {};
+    const additionalPrefixes: Record<string, string> = Util.createRecord();
     if (xmlnsPrefixMappings) {
       for (const attribute in attributes) {
         if (attribute.startsWith('xmlns')) {
@@ -64,13 +108,16 @@ export class Util {
     }
 
     if (attributes.prefix || Object.keys(additionalPrefixes).length > 0) {
-      const prefixes: Record<string, string> = { ...parentPrefixes, ...additionalPrefixes };
+      const prefixes: Record<string, string> = Util.createRecord(parentPrefixes, additionalPrefixes);
 
       if (attributes.prefix) {
-        let prefixMatch: RegExpExecArray | null;
-        // eslint-disable-next-line no-cond-assign
-        while ((prefixMatch = Util.PREFIX_REGEX.exec(attributes.prefix)) !== null) {
-          prefixes[prefixMatch[1]] = prefixMatch[2];
+        const declaredPrefixes = Util.parsePrefixAttribute(attributes.prefix, onStatus);
+        for (const prefix in declaredPrefixes) {
+          const iri = declaredPrefixes[prefix];
+          if (onStatus && prefix in additionalPrefixes && additionalPrefixes[prefix] !== iri) {
+            onStatus('PrefixRedefinition', `The prefix '${prefix}' of an xmlns attribute was overridden from '${additionalPrefixes[prefix]}' to '${iri}' by the prefix attribute`);
+          }
+          prefixes[prefix] = iri;
         }
       }
 
@@ -79,6 +126,50 @@ export class Util {
     return parentPrefixes;
   }
 
+  /**
+   * Parse the value of a prefix attribute.
+   *
+   * Following the RDFa 1.1 grammar, this consists of whitespace-separated pairs of
+   * an NCName with a colon and an IRI, such as 'dc: http://purl.org/dc/terms/ ex: http://example.org/'.
+   * Prefixes are converted to lowercase, and the '_' prefix is ignored.
+   * Invalid declarations are skipped, and the last declaration of a prefix is used.
+   * @param {string} value The value of a prefix attribute.
+   * @param {(type: RdfaProcessorStatus, description: string) => void} onStatus An optional callback for
+   *                                                                            rejected and overridden prefixes.
+   * @return {{[p: string]: string}} The declared prefixes.
+   */
+  public static parsePrefixAttribute(
+    value: string,
+    onStatus?: (type: RdfaProcessorStatus, description: string) => void,
+  ): Record<string, string> {
+    const prefixes: Record<string, string> = Util.createRecord();
+    const tokens = value.split(Util.WHITESPACE_REGEX).filter(Boolean);
+    for (let i = 0; i < tokens.length; i++) {
+      const token = tokens[i];
+      if (!token.endsWith(':')) {
+        onStatus?.('Warning', `Ignored the prefix declaration '${token}', as it does not end with a colon`);
+        continue;
+      }
+      if (i + 1 === tokens.length) {
+        onStatus?.('Warning', `Ignored the prefix declaration '${token}', as it is not followed by an IRI`);
+        break;
+      }
+      const iri = tokens[++i];
+      const prefix = token.slice(0, -1).toLowerCase();
+      if (prefix === '_') {
+        onStatus?.('Warning', `Ignored the prefix '_' for '${iri}', as it is reserved for blank nodes`);
+      } else if (Util.NCNAME_REGEX.test(prefix)) {
+        if (prefix in prefixes) {
+          onStatus?.('PrefixRedefinition', `The prefix '${prefix}' was declared multiple times, and was overridden from '${prefixes[prefix]}' to '${iri}'`);
+        }
+        prefixes[prefix] = iri;
+      } else {
+        onStatus?.('Warning', `Ignored the prefix '${prefix}' for '${iri}', as it is not a valid NCName`);
+      }
+    }
+    return prefixes;
+  }
+
   /**
    * Expand the given term value based on the given prefixes.
    * @param {string} term A term value.
@@ -100,9 +191,10 @@ export class Util {
       return `http://www.w3.org/1999/xhtml/vocab#${local}`;
     }
 
-    // Try to expand the prefix
+    // Try to expand the prefix, where prefixes of prefix attributes are lowercase
     if (prefix) {
-      const prefixElement = activeTag.prefixesAll[prefix];
+      const prefixElement = Util.getOwnValue(activeTag.prefixesAll, prefix) ||
+        Util.getOwnValue(activeTag.prefixesAll, prefix.toLowerCase());
       if (prefixElement) {
         return prefixElement + local;
       }
@@ -110,7 +202,7 @@ export class Util {
 
     // Try to expand the term
     if (term) {
-      const expandedTerm = activeTag.prefixesAll[term.toLocaleLowerCase()];
+      const expandedTerm = Util.getOwnValue(activeTag.prefixesAll, term.toLocaleLowerCase());
       if (expandedTerm) {
         return expandedTerm;
       }
@@ -119,6 +211,32 @@ export class Util {
     return term;
   }
 
+  /**
+   * Create a record without prototype that contains the entries of the given records.
+   *
+   * Keys that are taken from the document, such as '__proto__' or 'constructor',
+   * are stored as regular entries of such a record, and do not resolve to properties of Object.prototype.
+   * @param {Record<string, T>[]} sources Records of which the entries are copied, where later entries take precedence.
+   * @return {Record<string, T>} A new record without prototype.
+   */
+  public static createRecord<T>(...sources: Record<string, T>[]): Record<string, T> {
+    const record = <Record<string, T>> Object.create(null);
+    for (const source of sources) {
+      Object.assign(record, source);
+    }
+    return record;
+  }
+
+  /**
+   * Get the value of the given key in a record, if it is an own property of that record.
+   * @param {Record<string, T>} record A record, which may have a prototype.
+   * @param {string} key A key.
+   * @return {T | undefined} The value of the key, or undefined if the record does not contain it.
+   */
+  public static getOwnValue<T>(record: Record<string, T>, key: string): T | undefined {
+    return Object.prototype.hasOwnProperty.call(record, key) ? record[key] : undefined;
+  }
+
   /**
    * Check if the given IRI is valid.
    * @param {string} iri A potential IRI.
@@ -128,28 +246,292 @@ export class Util {
     return Util.IRI_REGEX.test(iri);
   }
 
+  /**
+   * Check if the given IRI is absolute, i.e., if it starts with a scheme.
+   * @param {string} iri An IRI or relative IRI reference.
+   * @return {boolean} If the given IRI is absolute.
+   */
+  public static isAbsoluteIri(iri: string): boolean {
+    return Util.SCHEME_REGEX.test(iri);
+  }
+
+  /**
+   * Get the scheme of the given IRI.
+   * @param {string} iri An IRI or relative IRI reference.
+   * @return {string | undefined} The lowercase scheme, without colon, or undefined if the IRI is relative.
+   */
+  public static getScheme(iri: string): string | undefined {
+    const match = Util.SCHEME_REGEX.exec(iri);
+    return match ? match[0].slice(0, -1).toLowerCase() : undefined;
+  }
+
+  /**
+   * Resolve the given relative IRI reference against the given relative base IRI.
+   * Dot segments that go above the root of the base IRI are removed.
+   * @param {string} iri A relative IRI reference.
+   * @param {string} baseIRI A relative base IRI, which may be empty.
+   * @return {string} A relative IRI reference.
+   */
+  public static resolveRelativeIri(iri: string, baseIRI: string): string {
+    if (!baseIRI || iri.startsWith('/')) {
+      return iri;
+    }
+    // Resolve against a placeholder scheme, which is removed afterwards
+    const scheme = baseIRI.startsWith('/') ? 'x:' : 'x:/';
+    return resolve(iri, scheme + baseIRI).slice(scheme.length);
+  }
+
+  /**
+   * Parse the given media type.
+   * @param {string} contentType A media type, such as 'text/html; charset=utf-8'.
+   * @return {IMediaType | undefined} The parsed media type, or undefined if it is invalid.
+   */
+  public static parseMediaType(contentType: string): IMediaType | undefined {
+    const parameterStart = contentType.indexOf(';');
+    const essence = (parameterStart < 0 ? contentType : contentType.slice(0, parameterStart)).trim().toLowerCase();
+    const slashIndex = essence.indexOf('/');
+    const type = essence.slice(0, Math.max(0, slashIndex));
+    const subtype = essence.slice(slashIndex + 1);
+    if (slashIndex < 0 || !Util.MEDIA_TYPE_TOKEN_REGEX.test(type) || !Util.MEDIA_TYPE_TOKEN_REGEX.test(subtype)) {
+      return;
+    }
+    const plusIndex = subtype.lastIndexOf('+');
+    const mediaType: IMediaType = {
+      type,
+      subtype,
+      suffix: plusIndex >= 0 ? subtype.slice(plusIndex + 1) : undefined,
+      parameters: {},
+    };
+
+    // Parse parameters, where values may be quoted strings that can contain semicolons
+    let i = parameterStart;
+    while (i >= 0 && i < contentType.length) {
+      const equalsIndex = contentType.indexOf('=', i + 1);
+      const nextSemicolon = contentType.indexOf(';', i + 1);
+      if (equalsIndex < 0 || (nextSemicolon >= 0 && nextSemicolon < equalsIndex)) {
+        // Skip parameters without value
+        i = nextSemicolon;
+        continue;
+      }
+      const name = contentType.slice(i + 1, equalsIndex).trim().toLowerCase();
+      let value = '';
+      let j = equalsIndex + 1;
+      while (contentType[j] === ' ' || contentType[j] === '\t') {
+        j++;
+      }
+      if (contentType[j] === '"') {
+        for (j++; j < contentType.length && contentType[j] !== '"'; j++) {
+          if (contentType[j] === '\\') {
+            j++;
+          }
+          value += contentType[j] || '';
+        }
+        i = contentType.indexOf(';', j);
+      } else {
+        i = contentType.indexOf(';', j);
+        value = contentType.slice(j, i < 0 ? contentType.length : i).trim();
+      }
+      if (name && !Object.prototype.hasOwnProperty.call(mediaType.parameters, name)) {
+        mediaType.parameters[name] = value;
+      }
+    }
+
+    return mediaType;
+  }
+
   /**
    * Determine the RDFa profile from the given content type.
+   * Parameters and casing are ignored, and types with an '+xml' suffix are considered XML.
    * Defaults to the default RDFa profile (all features enabled) for unknown content types.
    * @param {string} contentType A content type.
    * @returns {RdfaProfile} An RDFa profile.
    */
   public static contentTypeToProfile(contentType: string): RdfaProfile {
-    return RDFA_CONTENTTYPES[contentType] || '';
+    const mediaType = Util.parseMediaType(contentType);
+    if (!mediaType) {
+      return '';
+    }
+    return RDFA_CONTENTTYPES[`${mediaType.type}/${mediaType.subtype}`] ||
+      (mediaType.suffix === 'xml' ? 'xml' : '');
+  }
+
+  /**
+   * Detect the RDFa profile from the start of a document,
+   * based on the XML declaration, the DOCTYPE and the root element.
+   *
+   * * An `<svg>` root element results in the 'xml' profile.
+   * * An `<html>` root element results in the 'xhtml' profile if it has an XHTML DOCTYPE,
+   *   or if it has an xmlns attribute and an XML declaration or no (HTML5) DOCTYPE.
+   *   Otherwise, it results in the 'html' profile.
+   * * Other root elements result in the 'xml' profile if there is an XML declaration,
+   *   and the default profile otherwise.
+   *
+   * @param {string} text The start of a document.
+   * @param {boolean} complete If the given text is the complete document,
+   *                           or if no more text should be taken into account.
+   * @return {RdfaProfile | undefined} The detected profile,
+   *                                   or undefined if more text is needed to determine the profile.
+   */
+  public static detectProfile(text: string, complete: boolean): RdfaProfile | undefined {
+    let xmlDeclaration = false;
+    let doctype: string | undefined;
+    let i = text.startsWith('\uFEFF') ? 1 : 0;
+    for (;;) {
+      i = text.indexOf('<', i);
+      if (i < 0 || i === text.length - 1) {
+        return complete ? '' : undefined;
+      }
+      let end: number;
+      if (text.startsWith('<?', i)) {
+        end = text.indexOf('?>', i);
+        xmlDeclaration ||= text.startsWith('<?xml', i) && text.slice(0, i).trim() === '';
+      } else if (text.startsWith('<!--', i)) {
+        end = text.indexOf('-->', i);
+      } else if (text.startsWith('<!', i)) {
+        end = text.indexOf('>', i);
+        doctype = end < 0 ? undefined : text.slice(i + 2, end);
+      } else if (/[A-Za-z]/u.test(text[i + 1])) {
+        end = text.indexOf('>', i);
+        if (end < 0) {
+          if (!complete) {
+            return;
+          }
+          end = text.length;
+        }
+        const tag = text.slice(i + 1, end);
+        const name = tag.split(/[\s/]/u, 1)[0].toLowerCase();
+        if (name === 'svg') {
+          return 'xml';
+        }
+        if (name === 'html') {
+          if (doctype && /xhtml/iu.test(doctype)) {
+            return 'xhtml';
+          }
+          return /\sxmlns\s*=/u.test(tag) && (xmlDeclaration || !doctype) ? 'xhtml' : 'html';
+        }
+        return xmlDeclaration ? 'xml' : '';
+      } else {
+        end = i;
+      }
+      if (end < 0) {
+        return complete ? '' : undefined;
+      }
+      i = end + 1;
+    }
   }
 
   /**
-   * Get the base IRI.
+   * Get the base IRI, after applying the IRI policy to it.
    * @param {string} baseIriValue A base IRI value.
-   * @return A base IRI named node.
+   * @return A base IRI named node, or null if it violates the IRI policy and must be dropped.
    */
-  public getBaseIRI(baseIriValue: string): RDF.NamedNode {
+  public getBaseIRI(baseIriValue: string): RDF.NamedNode | null {
     let href: string = baseIriValue;
     const fragmentIndex = href.indexOf('#');
     if (fragmentIndex >= 0) {
       href = href.slice(0, Math.max(0, fragmentIndex));
     }
-    return this.dataFactory.namedNode(resolve(href, this.baseIRI.value));
+    return this.createPolicyNamedNode(this.resolveIri(href, this.baseIRI.value));
+  }
+
+  /**
+   * Resolve the given IRI against the given base IRI.
+   * If relative IRIs are allowed, and both are relative, the result is a relative IRI.
+   * @param {string} iri An IRI or relative IRI reference.
+   * @param {string} baseIRI A base IRI.
+   * @return {string} The resolved IRI.
+   */
+  public resolveIri(iri: string, baseIRI: string): string {
+    if (this.relativeIris && !Util.isAbsoluteIri(iri) && !Util.isAbsoluteIri(baseIRI)) {
+      return Util.resolveRelativeIri(iri, baseIRI);
+    }
+    return resolve(iri, baseIRI);
+  }
+
+  /**
+   * Check if the given IRI may be used in a named node.
+   * @param {string} iri An IRI.
+   * @return {boolean} If the IRI is valid, or if it is a valid relative IRI and relative IRIs are allowed.
+   */
+  public isAllowedIri(iri: string): boolean {
+    return Util.isValidIri(iri) || (this.relativeIris && Util.RELATIVE_IRI_REGEX.test(iri));
+  }
+
+  /**
+   * Determine why the given IRI violates the IRI policy, if any.
+   * @param {string} iri An IRI.
+   * @return {string | undefined} A description of the violation, or undefined if the IRI is allowed.
+   */
+  public getIriPolicyViolation(iri: string): string | undefined {
+    if (!this.iriPolicy) {
+      return;
+    }
+    if (this.iriPolicy.maxIriLength !== undefined && iri.length > this.iriPolicy.maxIriLength) {
+      return `it is longer than ${this.iriPolicy.maxIriLength} characters`;
+    }
+    const scheme = Util.getScheme(iri);
+    if (scheme !== undefined) {
+      if (this.allowedSchemes && !this.allowedSchemes.has(scheme)) {
+        return `the scheme '${scheme}' is not allowed`;
+      }
+      if (this.deniedSchemes?.has(scheme)) {
+        return `the scheme '${scheme}' is denied`;
+      }
+    }
+  }
+
+  /**
+   * Create a named node for the given IRI, after applying the IRI policy to it.
+   * @param {string} iri A valid IRI.
+   * @return {RDF.NamedNode | null} A named node, which has the replacement IRI of the policy if the IRI violates it,
+   *                                or null if the IRI violates it and must be dropped.
+   */
+  public createPolicyNamedNode(iri: string): RDF.NamedNode | null {
+    const violation = this.getIriPolicyViolation(iri);
+    if (violation) {
+      // Data IRIs may be megabytes long, so they are abbreviated in descriptions
+      const description = iri.length > 100 ? `${iri.slice(0, 100)}...` : iri;
+      switch (this.iriPolicy!.action) {
+        case 'replace':
+          this.emitProcessorStatus('Warning', `Replaced the IRI ${description}, as ${violation}`);
+          return this.dataFactory.namedNode(this.iriPolicy!.replacement || 'about:invalid');
+        case 'report':
+          this.emitProcessorStatus('Warning', `The IRI ${description} violates the IRI policy, as ${violation}`);
+          break;
+        default:
+          this.emitProcessorStatus('Warning', `Dropped the IRI ${description}, as ${violation}`);
+          return null;
+      }
+    }
+    return this.dataFactory.namedNode(iri);
+  }
+
+  /**
+   * Resolve the relative IRIs of the named nodes in the given quad against the base IRI.
+   * @param {RDF.Quad} quad A quad.
+   * @return {RDF.Quad} A quad without relative IRIs, or the given quad if it contained no relative IRIs.
+   */
+  public rebaseQuad(quad: RDF.Quad): RDF.Quad {
+    const subject = this.rebaseTerm(quad.subject);
+    const predicate = this.rebaseTerm(quad.predicate);
+    const object = this.rebaseTerm(quad.object);
+    const graph = this.rebaseTerm(quad.graph);
+    if (subject === quad.subject && predicate === quad.predicate && object === quad.object && graph === quad.graph) {
+      return quad;
+    }
+    return this.dataFactory.quad(subject, predicate, object, graph);
+  }
+
+  /**
+   * Resolve the given term against the base IRI if it is a named node with a relative IRI.
+   * @param {RDF.Term} term A term.
+   * @return {RDF.Term} The resolved term, or the given term if it was not relative.
+   */
+  public rebaseTerm<T extends RDF.Term>(term: T): T {
+    if (term.termType === 'NamedNode' && !Util.isAbsoluteIri(term.value)) {
+      return <T> this.dataFactory.namedNode(resolve(term.value, this.baseIRI.value));
+    }
+    return term;
   }
 
   /**
@@ -234,6 +616,7 @@ export class Util {
    *                                 (invalid CURIEs between square brackets will return null)
    *                                 Otherwise, only IRIs are allowed.
    * @param {boolean} allowBlankNode If blank nodes are allowed. Otherwise null will be returned.
+   *                                 Named nodes are subject to the IRI policy, if any.
    * @return {Term} An RDF term or null.
    */
   public createIri<TB extends boolean>(
@@ -254,20 +637,24 @@ export class Util {
 
     if (!allowSafeCurie) {
       if (!vocab) {
-        term = resolve(term, this.getBaseIriTerm(activeTag).value);
+        term = this.resolveIri(term, this.getBaseIriTerm(activeTag).value);
       }
-      if (!Util.isValidIri(term)) {
+      if (!this.isAllowedIri(term)) {
+        this.emitProcessorStatus('Warning', `Invalid IRI: ${term}`);
         return null;
       }
-      return this.dataFactory.namedNode(term);
+      return this.createPolicyNamedNode(term);
     }
 
     // Handle strict CURIEs
-    if (term.length > 0 && term.startsWith('[') && term.at(-1) === ']') {
+    let safeCurie = false;
+    if (term.length > 0 && term.startsWith('[') && term.endsWith(']')) {
       term = term.slice(1, 1 + term.length - 2);
+      safeCurie = true;
 
       // Strict CURIEs MUST have a prefix separator
       if (!term.includes(':')) {
+        this.emitProcessorStatus('UnresolvedCURIE', `Safe CURIE without prefix: [${term}]`);
         return null;
       }
     }
@@ -279,20 +666,43 @@ export class Util {
 
     // Handle vocab IRIs
     if (vocab && activeTag.vocab && !term.includes(':')) {
-      return this.dataFactory.namedNode(activeTag.vocab + term);
+      return this.createPolicyNamedNode(activeTag.vocab + term);
     }
 
     // Handle prefixed IRIs
     let iri: string = Util.expandPrefixedTerm(term, activeTag);
+    if (iri === term) {
+      if (vocab && !term.includes(':')) {
+        if (term) {
+          this.emitProcessorStatus('UnresolvedTerm', `Unresolved term: ${term}`);
+        }
+        return null;
+      }
+      if (safeCurie && !term.startsWith(':')) {
+        this.emitProcessorStatus('UnresolvedCURIE', `Undefined prefix in CURIE: [${term}]`);
+      }
+    }
     // Resolve against baseIRI if in base-mode, or if the term was a prefixed relative IRI
     if (!vocab) {
-      iri = resolve(iri, this.getBaseIriTerm(activeTag).value);
+      iri = this.resolveIri(iri, this.getBaseIriTerm(activeTag).value);
     } else if (term !== iri) {
-      iri = resolve(iri, this.baseIRIDocument.value);
+      iri = this.resolveIri(iri, this.baseIRIDocument.value);
     }
-    if (!Util.isValidIri(iri)) {
+    if (!this.isAllowedIri(iri)) {
+      this.emitProcessorStatus('Warning', `Invalid IRI: ${iri}`);
       return null;
     }
-    return this.dataFactory.namedNode(iri);
+    return this.createPolicyNamedNode(iri);
+  }
+
+  /**
+   * Report an entry for the processor graph, if a listener is set.
+   * @param {RdfaProcessorStatus} type The type of processor status.
+   * @param {string} description A human-readable description of the status.
+   */
+  protected emitProcessorStatus(type: RdfaProcessorStatus, description: string): void {
+    if (this.processorStatusListener) {
+      this.processorStatusListener(type, description);
+    }
   }
 }
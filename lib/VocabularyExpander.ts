@@ -0,0 +1,154 @@
+import type * as RDF from '@rdfjs/types';
+import { Util } from './Util';
+
+/**
+ * Performs RDFa vocabulary expansion based on the OWL subset defined in
+ * https://www.w3.org/TR/rdfa-core/#s_vocab_expansion
+ *
+ * The rules prp-spo1 (rdfs:subPropertyOf), prp-eqp1 and prp-eqp2 (owl:equivalentProperty),
+ * and cax-sco (rdfs:subClassOf), cax-eqc1 and cax-eqc2 (owl:equivalentClass) are applied.
+ */
+export class VocabularyExpander {
+  public static readonly RDFS = 'http://www.w3.org/2000/01/rdf-schema#';
+  public static readonly OWL = 'http://www.w3.org/2002/07/owl#';
+
+  private readonly dataFactory: RDF.DataFactory;
+  private readonly superProperties: Map<string, Set<string>> = new Map();
+  private readonly superClasses: Map<string, Set<string>> = new Map();
+  private readonly closureCache: Map<Map<string, Set<string>>, Map<string, string[]>> = new Map();
+
+  public constructor(dataFactory: RDF.DataFactory) {
+    this.dataFactory = dataFactory;
+  }
+
+  /**
+   * Create a string key that uniquely identifies the given term.
+   * @param {RDF.Term} term An RDF term.
+   * @return {string} A string key.
+   */
+  public static termToKey(term: RDF.Term): string {
+    if (term.termType === 'Literal') {
+      return `"${term.value}"@${term.language}^^${term.datatype.value}`;
+    }
+    return `${term.termType}:${term.value}`;
+  }
+
+  /**
+   * Create a string key that uniquely identifies the given quad.
+   * @param {RDF.Quad} quad A quad.
+   * @return {string} A string key.
+   */
+  public static quadToKey(quad: RDF.Quad): string {
+    return `${VocabularyExpander.termToKey(quad.subject)} ${VocabularyExpander.termToKey(quad.predicate)} ${VocabularyExpander.termToKey(quad.object)} ${VocabularyExpander.termToKey(quad.graph)}`;
+  }
+
+  /**
+   * Add the property and class relations within the given vocabulary.
+   * @param {RDF.Quad[]} quads The quads of a vocabulary.
+   * @return {boolean} If relations were added that were not known yet.
+   */
+  public addVocabulary(quads: RDF.Quad[]): boolean {
+    let added = false;
+    for (const quad of quads) {
+      if (quad.subject.termType !== 'NamedNode' || quad.object.termType !== 'NamedNode') {
+        continue;
+      }
+      switch (quad.predicate.value) {
+        case `${VocabularyExpander.RDFS}subPropertyOf`:
+          added = VocabularyExpander.addEdge(this.superProperties, quad.subject.value, quad.object.value) || added;
+          break;
+        case `${VocabularyExpander.OWL}equivalentProperty`:
+          added = VocabularyExpander.addEdge(this.superProperties, quad.subject.value, quad.object.value) || added;
+          added = VocabularyExpander.addEdge(this.superProperties, quad.object.value, quad.subject.value) || added;
+          break;
+        case `${VocabularyExpander.RDFS}subClassOf`:
+          added = VocabularyExpander.addEdge(this.superClasses, quad.subject.value, quad.object.value) || added;
+          break;
+        case `${VocabularyExpander.OWL}equivalentClass`:
+          added = VocabularyExpander.addEdge(this.superClasses, quad.subject.value, quad.object.value) || added;
+          added = VocabularyExpander.addEdge(this.superClasses, quad.object.value, quad.subject.value) || added;
+          break;
+      }
+    }
+    if (added) {
+      this.closureCache.clear();
+    }
+    return added;
+  }
+
+  /**
+   * Determine all quads that are entailed by the given quad.
+   * The given quad itself is not included in the result.
+   * @param {RDF.Quad} quad A quad.
+   * @return {RDF.Quad[]} The entailed quads.
+   */
+  public expand(quad: RDF.Quad): RDF.Quad[] {
+    const entailed: RDF.Quad[] = [];
+    const predicates = [ quad.predicate.value, ...this.getClosure(this.superProperties, quad.predicate.value) ];
+    for (const predicate of predicates) {
+      if (predicate !== quad.predicate.value) {
+        entailed.push(this.dataFactory.quad(
+          quad.subject,
+          this.dataFactory.namedNode(predicate),
+          quad.object,
+          quad.graph,
+        ));
+      }
+      if (predicate === `${Util.RDF}type` && quad.object.termType === 'NamedNode') {
+        for (const type of this.getClosure(this.superClasses, quad.object.value)) {
+          entailed.push(this.dataFactory.quad(
+            quad.subject,
+            this.dataFactory.namedNode(predicate),
+            this.dataFactory.namedNode(type),
+            quad.graph,
+          ));
+        }
+      }
+    }
+    return entailed;
+  }
+
+  /**
+   * Determine all terms that are transitively reachable from the given term, excluding the term itself.
+   * @param {Map<string, Set<string>>} edges A mapping from term to its direct super terms.
+   * @param {string} term A term.
+   * @return {string[]} The reachable terms.
+   */
+  protected getClosure(edges: Map<string, Set<string>>, term: string): string[] {
+    let cache = this.closureCache.get(edges);
+    if (!cache) {
+      cache = new Map();
+      this.closureCache.set(edges, cache);
+    }
+    let closure = cache.get(term);
+    if (!closure) {
+      const reached = new Set<string>([ term ]);
+      const queue = [ term ];
+      while (queue.length > 0) {
+        for (const next of edges.get(queue.pop()!) || []) {
+          if (!reached.has(next)) {
+            reached.add(next);
+            queue.push(next);
+          }
+        }
+      }
+      reached.delete(term);
+      closure = [ ...reached ];
+      cache.set(term, closure);
+    }
+    return closure;
+  }
+
+  protected static addEdge(edges: Map<string, Set<string>>, from: string, to: string): boolean {
+    let targets = edges.get(from);
+    if (!targets) {
+      targets = new Set();
+      edges.set(from, targets);
+    }
+    if (targets.has(to)) {
+      return false;
+    }
+    targets.add(to);
+    return true;
+  }
+}
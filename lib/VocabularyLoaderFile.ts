@@ -0,0 +1,37 @@
+import { createReadStream } from 'node:fs';
+import type * as RDF from '@rdfjs/types';
+import type { IVocabularyLoader } from './IVocabularyLoader';
+import { RdfaParser } from './RdfaParser';
+
+/**
+ * A vocabulary loader that parses RDFa vocabulary documents from local files.
+ *
+ * This loader is not available in browsers.
+ */
+export class VocabularyLoaderFile implements IVocabularyLoader {
+  private readonly files: Record<string, string>;
+  private readonly contentType: string;
+
+  /**
+   * @param {Record<string, string>} files A mapping from vocabulary IRI to file path.
+   * @param {string} contentType The content type of the vocabulary files, defaults to 'text/html'.
+   */
+  public constructor(files: Record<string, string>, contentType?: string) {
+    this.files = files;
+    this.contentType = contentType || 'text/html';
+  }
+
+  public async load(vocab: string): Promise<RDF.Quad[]> {
+    if (!Object.prototype.hasOwnProperty.call(this.files, vocab)) {
+      throw new Error(`Could not find a file for the vocabulary ${vocab}`);
+    }
+    const quads: RDF.Quad[] = [];
+    const parser = new RdfaParser({ baseIRI: vocab, contentType: this.contentType });
+    return new Promise((resolve, reject) => {
+      parser.import(createReadStream(this.files[vocab]))
+        .on('data', (quad: RDF.Quad) => quads.push(quad))
+        .on('error', reject)
+        .on('end', () => resolve(quads));
+    });
+  }
+}
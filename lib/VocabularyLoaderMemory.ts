@@ -0,0 +1,23 @@
+import type * as RDF from '@rdfjs/types';
+import type { IVocabularyLoader } from './IVocabularyLoader';
+
+/**
+ * A vocabulary loader that serves vocabularies from an in-memory map.
+ */
+export class VocabularyLoaderMemory implements IVocabularyLoader {
+  private readonly vocabularies: Record<string, RDF.Quad[]>;
+
+  /**
+   * @param {Record<string, RDF.Quad[]>} vocabularies A mapping from vocabulary IRI to quads.
+   */
+  public constructor(vocabularies: Record<string, RDF.Quad[]>) {
+    this.vocabularies = vocabularies;
+  }
+
+  public async load(vocab: string): Promise<RDF.Quad[]> {
+    if (!Object.prototype.hasOwnProperty.call(this.vocabularies, vocab)) {
+      throw new Error(`Could not find the vocabulary ${vocab}`);
+    }
+    return this.vocabularies[vocab];
+  }
+}
@@ -0,0 +1,257 @@
+import { Util } from './Util';
+
+/**
+ * Serializes the markup of rdf:XMLLiteral literals as well-formed XML.
+ *
+ * Text and attribute values are escaped, and the namespaces that are in scope of the literal,
+ * such as prefixes declared on ancestors of the literal, are declared on its top-level elements.
+ * Descendants only declare namespaces that differ from those declared on their ancestors.
+ *
+ * If canonical is enabled, markup is serialized following Exclusive XML Canonicalization
+ * (https://www.w3.org/TR/xml-exc-c14n/),
+ * so that only namespaces that are used by element and attribute names are declared,
+ * and namespace declarations and attributes are sorted.
+ */
+export class XmlLiteralSerializer {
+  public static readonly XML_NAMESPACE = 'http://www.w3.org/XML/1998/namespace';
+
+  private static readonly ESCAPED_CHARACTERS: Record<string, string> = {
+    '\t': '&#x9;',
+    '\n': '&#xA;',
+    '\r': '&#xD;',
+    '"': '&quot;',
+    '&': '&amp;',
+    '<': '&lt;',
+    '>': '&gt;',
+  };
+
+  public readonly canonical: boolean;
+
+  /**
+   * @param {IXmlLiteralSerializerOptions} options Optional serialization options.
+   */
+  public constructor(options?: IXmlLiteralSerializerOptions) {
+    this.canonical = Boolean(options && options.canonical);
+  }
+
+  /**
+   * Escape the given text for use as text content,
+   * as done by XML Canonicalization.
+   * @param {string} text Decoded text.
+   * @return {string} Escaped text.
+   */
+  public static escapeText(text: string): string {
+    return XmlLiteralSerializer.escape(text, /[\r&<>]/gu);
+  }
+
+  /**
+   * Escape the given value for use as a double-quoted attribute value,
+   * as done by XML Canonicalization, so that whitespace characters are not normalized when parsing it.
+   * @param {string} value A decoded attribute value.
+   * @return {string} An escaped attribute value.
+   */
+  public static escapeAttribute(value: string): string {
+    return XmlLiteralSerializer.escape(value, /[\t\n\r"&<]/gu);
+  }
+
+  /**
+   * Get the prefix of the given qualified element or attribute name.
+   * @param {string} name A qualified name, such as 'svg:rect' or 'p'.
+   * @return {string} The prefix, or the empty string for unprefixed names.
+   */
+  public static getPrefix(name: string): string {
+    const colon = name.indexOf(':');
+    return colon < 0 ? '' : name.slice(0, colon);
+  }
+
+  /**
+   * Get the prefix that is declared by the given attribute.
+   * @param {string} name An attribute name.
+   * @return {string | undefined} The declared prefix, the empty string for the default namespace,
+   *                              or undefined if the attribute is not a namespace declaration.
+   */
+  public static getDeclaredPrefix(name: string): string | undefined {
+    if (name === 'xmlns') {
+      return '';
+    }
+    return name.startsWith('xmlns:') ? name.slice(6) : undefined;
+  }
+
+  /**
+   * Check if the given namespace declaration may be serialized.
+   * The xml and xmlns prefixes are reserved, and prefixes can not be undeclared in XML 1.0.
+   * @param {string} prefix A prefix, or the empty string for the default namespace.
+   * @param {string} namespace A namespace IRI.
+   * @return {boolean} If the declaration may be serialized.
+   */
+  public static isDeclarable(prefix: string, namespace: string): boolean {
+    return prefix !== 'xml' && prefix !== 'xmlns' && (prefix === '' || namespace !== '');
+  }
+
+  protected static escape(value: string, characters: RegExp): string {
+    return value.replace(characters, character => XmlLiteralSerializer.ESCAPED_CHARACTERS[character]);
+  }
+
+  protected static serializeAttribute(name: string, value: string): string {
+    return ` ${name}="${XmlLiteralSerializer.escapeAttribute(value)}"`;
+  }
+
+  protected static serializeDeclaration(prefix: string, namespace: string): string {
+    return XmlLiteralSerializer.serializeAttribute(prefix === '' ? 'xmlns' : `xmlns:${prefix}`, namespace);
+  }
+
+  /**
+   * Serialize the start tag of the given element.
+   * @param {string} name A tag name.
+   * @param {Record<string, string>} attributes A hash of attributes,
+   *                                           including the namespace declarations of the element.
+   * @param {Record<string, string>} namespaces The namespaces that are in scope of the element,
+   *                                           excluding the ones declared by the element itself.
+   * @param {Record<string, string>} parentNamespaces The namespace context of the serialized parent element,
+   *                                                 or undefined if the element is a top-level element of a literal.
+   * @return {IXmlLiteralStartTag} The start tag, and the namespace context for serializing its child elements.
+   */
+  public serializeStartTag(
+    name: string,
+    attributes: Record<string, string>,
+    namespaces: Record<string, string>,
+    parentNamespaces?: Record<string, string>,
+  ): IXmlLiteralStartTag {
+    const declarations: Record<string, string> = Util.createRecord();
+    for (const key of Object.keys(attributes)) {
+      const prefix = XmlLiteralSerializer.getDeclaredPrefix(key);
+      if (prefix !== undefined) {
+        declarations[prefix] = attributes[key];
+      }
+    }
+    const inScopeNamespaces = Util.createRecord(namespaces, declarations);
+    return this.canonical ?
+      this.serializeStartTagCanonical(name, attributes, inScopeNamespaces, parentNamespaces) :
+      this.serializeStartTagDefault(name, attributes, declarations, inScopeNamespaces, parentNamespaces);
+  }
+
+  /**
+   * Serialize a start tag with its attributes in document order,
+   * followed by the in-scope namespaces that are not declared in the namespace context of the parent, sorted by prefix.
+   */
+  protected serializeStartTagDefault(
+    name: string,
+    attributes: Record<string, string>,
+    declarations: Record<string, string>,
+    inScopeNamespaces: Record<string, string>,
+    parentNamespaces?: Record<string, string>,
+  ): IXmlLiteralStartTag {
+    let tag = `<${name}`;
+    for (const key of Object.keys(attributes)) {
+      const prefix = XmlLiteralSerializer.getDeclaredPrefix(key);
+      if (prefix === undefined || XmlLiteralSerializer.isDeclarable(prefix, attributes[key])) {
+        tag += XmlLiteralSerializer.serializeAttribute(key, attributes[key]);
+      }
+    }
+    for (const prefix of Object.keys(inScopeNamespaces).sort()) {
+      const namespace = inScopeNamespaces[prefix];
+      if (!(prefix in declarations) && XmlLiteralSerializer.isDeclarable(prefix, namespace) &&
+        namespace !== XmlLiteralSerializer.getNamespace(parentNamespaces, prefix)) {
+        tag += XmlLiteralSerializer.serializeDeclaration(prefix, namespace);
+      }
+    }
+    return { tag: `${tag}>`, namespaces: inScopeNamespaces };
+  }
+
+  /**
+   * Serialize a start tag following Exclusive XML Canonicalization.
+   * Only the namespaces that are visibly utilized by the element and attribute names are declared,
+   * if they are not declared in the namespace context of the parent.
+   * Namespace declarations are sorted by prefix, and attributes by namespace IRI and local name.
+   */
+  protected serializeStartTagCanonical(
+    name: string,
+    attributes: Record<string, string>,
+    inScopeNamespaces: Record<string, string>,
+    parentNamespaces?: Record<string, string>,
+  ): IXmlLiteralStartTag {
+    const usedPrefixes = new Set([ XmlLiteralSerializer.getPrefix(name) ]);
+    const sortedAttributes: { namespace: string; localName: string; name: string }[] = [];
+    for (const key of Object.keys(attributes)) {
+      if (XmlLiteralSerializer.getDeclaredPrefix(key) === undefined) {
+        const prefix = XmlLiteralSerializer.getPrefix(key);
+        if (prefix !== '') {
+          usedPrefixes.add(prefix);
+        }
+        sortedAttributes.push({
+          namespace: XmlLiteralSerializer.getAttributeNamespace(inScopeNamespaces, prefix),
+          localName: prefix ? key.slice(prefix.length + 1) : key,
+          name: key,
+        });
+      }
+    }
+    sortedAttributes.sort((left, right) => XmlLiteralSerializer.compare(left.namespace, right.namespace) ||
+      XmlLiteralSerializer.compare(left.localName, right.localName));
+
+    let tag = `<${name}`;
+    const declarations: Record<string, string> = Util.createRecord();
+    for (const prefix of [ ...usedPrefixes ].sort()) {
+      const namespace = Util.getOwnValue(inScopeNamespaces, prefix);
+      if (namespace !== undefined && XmlLiteralSerializer.isDeclarable(prefix, namespace) &&
+        namespace !== XmlLiteralSerializer.getNamespace(parentNamespaces, prefix)) {
+        declarations[prefix] = namespace;
+        tag += XmlLiteralSerializer.serializeDeclaration(prefix, namespace);
+      }
+    }
+    for (const attribute of sortedAttributes) {
+      tag += XmlLiteralSerializer.serializeAttribute(attribute.name, attributes[attribute.name]);
+    }
+    return { tag: `${tag}>`, namespaces: Util.createRecord(parentNamespaces || {}, declarations) };
+  }
+
+  /**
+   * Get the namespace of the given prefix in the given namespace context,
+   * where the default namespace is empty if it was not declared.
+   */
+  protected static getNamespace(namespaces: Record<string, string> | undefined, prefix: string): string | undefined {
+    const namespace = namespaces && Util.getOwnValue(namespaces, prefix);
+    return namespace === undefined && prefix === '' ? '' : namespace;
+  }
+
+  /**
+   * Get the namespace of an attribute with the given prefix,
+   * where unprefixed attributes have no namespace, instead of the default namespace.
+   */
+  protected static getAttributeNamespace(namespaces: Record<string, string>, prefix: string): string {
+    if (prefix === 'xml') {
+      return XmlLiteralSerializer.XML_NAMESPACE;
+    }
+    return (prefix && Util.getOwnValue(namespaces, prefix)) || '';
+  }
+
+  protected static compare(left: string, right: string): number {
+    if (left === right) {
+      return 0;
+    }
+    return left < right ? -1 : 1;
+  }
+}
+
+export interface IXmlLiteralSerializerOptions {
+  /**
+   * If markup must be serialized following Exclusive XML Canonicalization,
+   * so that equal markup always results in equal literals, regardless of unused namespace declarations
+   * and attribute order.
+   * Defaults to false.
+   */
+  canonical?: boolean;
+}
+
+/**
+ * A serialized start tag of an element in a literal.
+ */
+export interface IXmlLiteralStartTag {
+  /**
+   * The serialized start tag.
+   */
+  tag: string;
+  /**
+   * The namespace context for serializing the child elements of the element.
+   */
+  namespaces: Record<string, string>;
+}
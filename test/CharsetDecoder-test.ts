@@ -0,0 +1,210 @@
+import { CharsetDecoder } from '../lib/CharsetDecoder';
+
+function bytes(...values: number[]): Uint8Array {
+  return new Uint8Array(values);
+}
+
+function ascii(text: string): Uint8Array {
+  return new TextEncoder().encode(text);
+}
+
+function decodeAll(decoder: CharsetDecoder, ...chunks: Uint8Array[]): string {
+  return chunks.map(chunk => decoder.decode(chunk)).join('') + decoder.end();
+}
+
+describe('CharsetDecoder', () => {
+  describe('#createDecoder', () => {
+    it('should create a decoder for a supported encoding', () => {
+      expect(CharsetDecoder.createDecoder('Shift_JIS').encoding).toBe('shift_jis');
+    });
+
+    it('should throw on an unsupported encoding', () => {
+      expect(() => CharsetDecoder.createDecoder('unknown')).toThrow(new Error('Unsupported encoding: unknown'));
+    });
+  });
+
+  describe('#isSupportedEncoding', () => {
+    it('should be true for supported encodings', () => {
+      expect(CharsetDecoder.isSupportedEncoding('windows-1252')).toBe(true);
+    });
+
+    it('should be false for unsupported encodings', () => {
+      expect(CharsetDecoder.isSupportedEncoding('unknown')).toBe(false);
+    });
+  });
+
+  describe('#getBomEncoding', () => {
+    it('should detect a UTF-8 BOM', () => {
+      expect(CharsetDecoder.getBomEncoding(bytes(0xEF, 0xBB, 0xBF, 0x61))).toBe('utf-8');
+    });
+
+    it('should detect a UTF-16BE BOM', () => {
+      expect(CharsetDecoder.getBomEncoding(bytes(0xFE, 0xFF, 0x00, 0x61))).toBe('utf-16be');
+    });
+
+    it('should detect a UTF-16LE BOM', () => {
+      expect(CharsetDecoder.getBomEncoding(bytes(0xFF, 0xFE, 0x61, 0x00))).toBe('utf-16le');
+    });
+
+    it('should return undefined without BOM', () => {
+      expect(CharsetDecoder.getBomEncoding(ascii('abc'))).toBeUndefined();
+      expect(CharsetDecoder.getBomEncoding(bytes(0xEF, 0xBB))).toBeUndefined();
+    });
+  });
+
+  describe('#getContentTypeEncoding', () => {
+    it('should return undefined without charset parameter', () => {
+      expect(CharsetDecoder.getContentTypeEncoding('text/html')).toBeUndefined();
+      expect(CharsetDecoder.getContentTypeEncoding('text/html; q=1')).toBeUndefined();
+    });
+
+    it('should return the charset parameter', () => {
+      expect(CharsetDecoder.getContentTypeEncoding('text/html;charset=utf-8')).toBe('utf-8');
+      expect(CharsetDecoder.getContentTypeEncoding('text/html; CharSet = "Shift_JIS"')).toBe('Shift_JIS');
+      expect(CharsetDecoder.getContentTypeEncoding('text/html; q=1; charset=windows-1252')).toBe('windows-1252');
+    });
+  });
+
+  describe('#sniffEncoding', () => {
+    it('should return undefined for documents without encoding declaration', () => {
+      expect(CharsetDecoder.sniffEncoding(ascii('<html><head></head></html>'))).toBeUndefined();
+    });
+
+    it('should detect meta charset', () => {
+      expect(CharsetDecoder.sniffEncoding(ascii('<html><head><meta charset="windows-1252">')))
+        .toBe('windows-1252');
+      expect(CharsetDecoder.sniffEncoding(ascii('<html><head><META CHARSET=Shift_JIS>'))).toBe('Shift_JIS');
+    });
+
+    it('should detect meta http-equiv', () => {
+      expect(CharsetDecoder.sniffEncoding(ascii(
+        '<meta http-equiv="Content-Type" content="text/html; charset=iso-8859-2">',
+      ))).toBe('iso-8859-2');
+    });
+
+    it('should replace UTF-16 declared in a meta tag by UTF-8', () => {
+      expect(CharsetDecoder.sniffEncoding(ascii('<meta charset="utf-16le">'))).toBe('utf-8');
+    });
+
+    it('should ignore unsupported encodings in meta tags', () => {
+      expect(CharsetDecoder.sniffEncoding(ascii('<meta charset="unknown">'))).toBeUndefined();
+    });
+
+    it('should ignore meta tags after the sniffing length', () => {
+      expect(CharsetDecoder.sniffEncoding(ascii(`${' '.repeat(1024)}<meta charset="windows-1252">`)))
+        .toBeUndefined();
+    });
+
+    it('should detect an XML declaration', () => {
+      expect(CharsetDecoder.sniffEncoding(ascii(`<?xml version="1.0" encoding='Shift_JIS'?><svg/>`)))
+        .toBe('Shift_JIS');
+    });
+
+    it('should ignore unsupported encodings in XML declarations', () => {
+      expect(CharsetDecoder.sniffEncoding(ascii(`<?xml version="1.0" encoding="unknown"?>`))).toBeUndefined();
+    });
+
+    it('should ignore XML declarations that are not at the start', () => {
+      expect(CharsetDecoder.sniffEncoding(ascii(` <?xml version="1.0" encoding="Shift_JIS"?>`))).toBeUndefined();
+    });
+
+    it('should prefer meta tags over XML declarations', () => {
+      expect(CharsetDecoder.sniffEncoding(ascii(
+        `<?xml version="1.0" encoding="Shift_JIS"?><html><meta charset="windows-1252"/></html>`,
+      ))).toBe('windows-1252');
+    });
+  });
+
+  describe('an instance without encoding', () => {
+    let decoder: CharsetDecoder;
+
+    beforeEach(() => {
+      decoder = new CharsetDecoder();
+    });
+
+    it('should decode nothing', () => {
+      expect(decodeAll(decoder)).toBe('');
+    });
+
+    it('should decode UTF-8 by default', () => {
+      expect(decodeAll(decoder, ascii('<p>é€😀</p>'))).toBe('<p>é€😀</p>');
+    });
+
+    it('should decode multi-byte characters split over chunks', () => {
+      const data = ascii(`<p>${'a'.repeat(1024)}€😀</p>`);
+      expect(decodeAll(decoder, data.subarray(0, 1028), data.subarray(1028, 1030), data.subarray(1030)))
+        .toBe(`<p>${'a'.repeat(1024)}€😀</p>`);
+    });
+
+    it('should buffer chunks until the sniffing length is reached', () => {
+      expect(decoder.decode(ascii('<p>a</p>'))).toBe('');
+      expect(decoder.decode(ascii(' '.repeat(1024)))).toBe(`<p>a</p>${' '.repeat(1024)}`);
+      expect(decoder.decode(ascii('b'))).toBe('b');
+      expect(decoder.end()).toBe('');
+    });
+
+    it('should decode by a UTF-8 BOM', () => {
+      expect(decoder.decode(bytes(0xEF, 0xBB))).toBe('');
+      expect(decoder.decode(bytes(0xBF, 0xC3, 0xA9))).toBe('é');
+      expect(decoder.end()).toBe('');
+    });
+
+    it('should decode by a UTF-16LE BOM', () => {
+      expect(decodeAll(decoder, bytes(0xFF, 0xFE, 0x3C, 0x00, 0xE9), bytes(0x00, 0x3E, 0x00))).toBe('<é>');
+    });
+
+    it('should decode by a UTF-16BE BOM', () => {
+      expect(decodeAll(decoder, bytes(0xFE, 0xFF, 0x00, 0x3C, 0x00, 0xE9, 0x00, 0x3E))).toBe('<é>');
+    });
+
+    it('should decode by a meta charset', () => {
+      expect(decodeAll(decoder, ascii('<meta charset="windows-1252"><p>'), bytes(0x80, 0xE9), ascii('</p>')))
+        .toBe('<meta charset="windows-1252"><p>€é</p>');
+    });
+
+    it('should decode by a meta charset in a long document', () => {
+      const text = `<meta charset="windows-1252"><p>${'a'.repeat(1024)}`;
+      expect(decoder.decode(ascii(text))).toBe(text);
+      expect(decoder.decode(bytes(0x80))).toBe('€');
+      expect(decoder.end()).toBe('');
+    });
+
+    it('should decode by an XML declaration', () => {
+      const declaration = '<?xml version="1.0" encoding="Shift_JIS"?>';
+      expect(decodeAll(decoder, ascii(`${declaration}<p>`), bytes(0x93, 0xFA), ascii('</p>')))
+        .toBe('<?xml version="1.0" encoding="Shift_JIS"?><p>日</p>');
+    });
+
+    it('should decode incomplete sequences at the end', () => {
+      expect(decodeAll(decoder, ascii('<p>'), bytes(0xE2, 0x82))).toBe('<p>�');
+    });
+  });
+
+  describe('an instance with encoding', () => {
+    it('should throw on an unsupported encoding', () => {
+      expect(() => new CharsetDecoder('unknown')).toThrow(new Error('Unsupported encoding: unknown'));
+    });
+
+    it('should decode with the given encoding', () => {
+      const decoder = new CharsetDecoder('windows-1252');
+      expect(decoder.decode(bytes(0x3C, 0x70, 0x3E, 0x80))).toBe('<p>€');
+      expect(decoder.end()).toBe('');
+    });
+
+    it('should prefer the given encoding over a meta charset', () => {
+      const decoder = new CharsetDecoder('windows-1252');
+      expect(decodeAll(decoder, ascii('<meta charset="utf-8"><p>'), bytes(0xC3, 0xA9)))
+        .toBe('<meta charset="utf-8"><p>Ã©');
+    });
+
+    it('should prefer a BOM over the given encoding', () => {
+      const decoder = new CharsetDecoder('windows-1252');
+      expect(decodeAll(decoder, bytes(0xEF, 0xBB, 0xBF, 0xC3, 0xA9))).toBe('é');
+    });
+
+    it('should decode short documents with the given encoding', () => {
+      const decoder = new CharsetDecoder('windows-1252');
+      expect(decodeAll(decoder, bytes(0x80))).toBe('€');
+    });
+  });
+});
@@ -0,0 +1,62 @@
+import { PassThrough } from 'node:stream';
+import { brotliCompressSync, gzipSync } from 'node:zlib';
+import { arrayifyStream } from 'arrayify-stream';
+import { ContentEncodingDecoder } from '../lib/ContentEncodingDecoder';
+
+describe('ContentEncodingDecoder', () => {
+  it('should have no codings for the identity coding', () => {
+    expect(new ContentEncodingDecoder('identity').codings).toEqual([]);
+    expect(new ContentEncodingDecoder(' , ').codings).toEqual([]);
+  });
+
+  it('should have lowercase codings in reverse order', () => {
+    expect(new ContentEncodingDecoder('gzip, identity, BR').codings).toEqual([ 'br', 'gzip' ]);
+  });
+
+  it('should throw for unsupported codings', () => {
+    expect(() => new ContentEncodingDecoder('gzip, compress'))
+      .toThrow(new Error('Unsupported content encoding: compress'));
+  });
+
+  describe('#createDecoder', () => {
+    it('should create decoders for all supported codings', () => {
+      expect(ContentEncodingDecoder.createDecoder('gzip').constructor.name).toBe('Gunzip');
+      expect(ContentEncodingDecoder.createDecoder('x-gzip').constructor.name).toBe('Gunzip');
+      expect(ContentEncodingDecoder.createDecoder('deflate').constructor.name).toBe('DeflateDecoder');
+      expect(ContentEncodingDecoder.createDecoder('br').constructor.name).toBe('BrotliDecompress');
+    });
+  });
+
+  describe('#decode', () => {
+    it('should return the body without codings', () => {
+      const body = new PassThrough();
+      expect(new ContentEncodingDecoder('').decode(body, jest.fn())).toBe(body);
+    });
+
+    it('should decode multiple codings', async() => {
+      const body = new PassThrough();
+      body.end(brotliCompressSync(gzipSync('abc')));
+      await expect(arrayifyStream(new ContentEncodingDecoder('gzip, br').decode(body, jest.fn()))).resolves
+        .toEqual([ Buffer.from('abc') ]);
+    });
+
+    it('should decode an empty body as empty for all codings', async() => {
+      const body = new PassThrough();
+      body.end();
+      await expect(arrayifyStream(new ContentEncodingDecoder('deflate, gzip, br').decode(body, jest.fn())))
+        .resolves.toEqual([]);
+    });
+
+    it('should forward errors of the body and the decompression streams', async() => {
+      const body = new PassThrough();
+      const onError = jest.fn();
+      const decoded = new ContentEncodingDecoder('gzip').decode(body, onError);
+      body.emit('error', new Error('my error'));
+      body.end('abc');
+      await new Promise(resolve => decoded.on('close', resolve));
+      expect(onError).toHaveBeenCalledTimes(2);
+      expect(onError).toHaveBeenCalledWith(new Error('my error'));
+      expect(onError).toHaveBeenCalledWith(expect.objectContaining({ code: 'Z_DATA_ERROR' }));
+    });
+  });
+});
@@ -0,0 +1,64 @@
+import { PassThrough } from 'node:stream';
+import { deflateRawSync, deflateSync } from 'node:zlib';
+import { arrayifyStream } from 'arrayify-stream';
+import { DeflateDecoder } from '../lib/DeflateDecoder';
+
+describe('DeflateDecoder', () => {
+  async function decode(...chunks: Buffer[]): Promise<string> {
+    const body = new PassThrough();
+    for (const chunk of chunks) {
+      body.write(chunk);
+    }
+    body.end();
+    return Buffer.concat(await arrayifyStream<Buffer>(body.pipe(new DeflateDecoder()))).toString();
+  }
+
+  describe('#isZlibHeader', () => {
+    it('should be true for zlib headers', () => {
+      expect(DeflateDecoder.isZlibHeader(deflateSync('abc'))).toBe(true);
+      expect(DeflateDecoder.isZlibHeader(deflateSync('abc', { level: 9 }))).toBe(true);
+      expect(DeflateDecoder.isZlibHeader(Buffer.from([ 0x08, 0x1D ]))).toBe(true);
+    });
+
+    it('should be false for other bytes', () => {
+      expect(DeflateDecoder.isZlibHeader(deflateRawSync('abc'))).toBe(false);
+      expect(DeflateDecoder.isZlibHeader(Buffer.from([ 0x78, 0x9D ]))).toBe(false);
+      expect(DeflateDecoder.isZlibHeader(Buffer.from([ 0x79, 0x9C ]))).toBe(false);
+      expect(DeflateDecoder.isZlibHeader(Buffer.from([ 0x78 ]))).toBe(false);
+    });
+  });
+
+  it('should decode the zlib format', async() => {
+    await expect(decode(deflateSync('abc'))).resolves.toBe('abc');
+  });
+
+  it('should decode the raw deflate format', async() => {
+    await expect(decode(deflateRawSync('abc'))).resolves.toBe('abc');
+  });
+
+  it('should decode headers that are split over chunks', async() => {
+    const zlib = deflateSync('abc');
+    await expect(decode(zlib.subarray(0, 1), zlib.subarray(1, 2), zlib.subarray(2))).resolves.toBe('abc');
+    const raw = deflateRawSync('abc');
+    await expect(decode(raw.subarray(0, 1), raw.subarray(1))).resolves.toBe('abc');
+  });
+
+  it('should decode data that is larger than the buffers of the streams', async() => {
+    const text = 'abcdefghij'.repeat(100_000);
+    await expect(decode(deflateSync(text))).resolves.toBe(text);
+    await expect(decode(deflateRawSync(text))).resolves.toBe(text);
+  });
+
+  it('should decode an empty body as empty', async() => {
+    await expect(decode()).resolves.toBe('');
+  });
+
+  it('should emit errors for invalid data', async() => {
+    await expect(decode(Buffer.from([ 0x78, 0x9C, 0xFF, 0xFF ]))).rejects.toThrow('invalid block type');
+    await expect(decode(Buffer.from([ 0xFF, 0xFF ]))).rejects.toThrow('invalid block type');
+  });
+
+  it('should emit errors for data that is shorter than the header', async() => {
+    await expect(decode(Buffer.from([ 0x78 ]))).rejects.toThrow('unexpected end of file');
+  });
+});
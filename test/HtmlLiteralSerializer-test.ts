@@ -0,0 +1,75 @@
+import { HtmlLiteralSerializer } from '../lib/HtmlLiteralSerializer';
+
+describe('HtmlLiteralSerializer', () => {
+  let serializer: HtmlLiteralSerializer;
+
+  beforeEach(() => {
+    serializer = new HtmlLiteralSerializer();
+  });
+
+  describe('#escapeText', () => {
+    it('should escape markup characters and no-break spaces', () => {
+      expect(HtmlLiteralSerializer.escapeText('a & <b> "c"\u00A0\r\n')).toBe('a &amp; &lt;b&gt; "c"&nbsp;\r\n');
+    });
+  });
+
+  describe('#escapeAttribute', () => {
+    it('should escape markup characters, double quotes and no-break spaces', () => {
+      expect(HtmlLiteralSerializer.escapeAttribute('a & <b> "c"\u00A0\n'))
+        .toBe('a &amp; &lt;b&gt; &quot;c&quot;&nbsp;\n');
+    });
+  });
+
+  describe('#isVoidElement', () => {
+    it('should be true for void elements', () => {
+      expect(HtmlLiteralSerializer.isVoidElement('br')).toBe(true);
+      expect(HtmlLiteralSerializer.isVoidElement('img')).toBe(true);
+    });
+
+    it('should be false for other elements', () => {
+      expect(HtmlLiteralSerializer.isVoidElement('p')).toBe(false);
+    });
+  });
+
+  describe('#isRawTextElement', () => {
+    it('should be true for raw text elements', () => {
+      expect(HtmlLiteralSerializer.isRawTextElement('script')).toBe(true);
+      expect(HtmlLiteralSerializer.isRawTextElement('style')).toBe(true);
+    });
+
+    it('should be false for other elements', () => {
+      expect(HtmlLiteralSerializer.isRawTextElement('textarea')).toBe(false);
+    });
+  });
+
+  describe('#serializeStartTag', () => {
+    it('should serialize attributes in document order with escaped values', () => {
+      expect(serializer.serializeStartTag('a', { title: '"<&>"', href: 'b', 'xmlns:ex': 'http://ex.org/' }))
+        .toBe('<a title="&quot;&lt;&amp;&gt;&quot;" href="b" xmlns:ex="http://ex.org/">');
+    });
+
+    it('should serialize elements without attributes', () => {
+      expect(serializer.serializeStartTag('p', {})).toBe('<p>');
+    });
+  });
+
+  describe('#serializeEndTag', () => {
+    it('should serialize end tags', () => {
+      expect(serializer.serializeEndTag('p')).toBe('</p>');
+    });
+
+    it('should not serialize end tags of void elements', () => {
+      expect(serializer.serializeEndTag('br')).toBe('');
+    });
+  });
+
+  describe('#serializeText', () => {
+    it('should escape text', () => {
+      expect(serializer.serializeText('a < b', 'p')).toBe('a &lt; b');
+    });
+
+    it('should not escape text in raw text elements', () => {
+      expect(serializer.serializeText('a < b', 'script')).toBe('a < b');
+    });
+  });
+});
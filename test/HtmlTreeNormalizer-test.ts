@@ -0,0 +1,148 @@
+import { HtmlTreeNormalizer } from '../lib/HtmlTreeNormalizer';
+import type { ITokenizerListener } from '../lib/ITokenizer';
+import type { ITokenizerAdapter } from '../lib/ITokenizerAdapter';
+import { TokenizerAdapterHtmlparser2 } from '../lib/TokenizerAdapterHtmlparser2';
+import { TokenizerAdapterParse5 } from '../lib/TokenizerAdapterParse5';
+
+describe('HtmlTreeNormalizer', () => {
+  let events: string[];
+  let listener: ITokenizerListener;
+
+  beforeEach(() => {
+    events = [];
+    listener = {
+      onTagOpen: name => events.push(`<${name}>`),
+      onTagClose: () => events.push('</>'),
+      onText: data => events.push(data),
+      onError: error => events.push(`error ${error.message}`),
+      onEnd: () => events.push('end'),
+    };
+  });
+
+  function normalize(html: string, tokenizerAdapter: ITokenizerAdapter = new TokenizerAdapterParse5()): string {
+    const tokenizer = tokenizerAdapter.createTokenizer(new HtmlTreeNormalizer(listener), false);
+    tokenizer.write(html);
+    tokenizer.end();
+    return events.join('');
+  }
+
+  describe('for document elements', () => {
+    it('should not change complete documents', () => {
+      expect(normalize('<html><head><title>a</title></head><body><p>b</p></body></html>'))
+        .toBe('<html><head><title>a</></><body><p>b</></></>end');
+    });
+
+    it('should open missing html, head and body elements', () => {
+      expect(normalize('<p>a</p>')).toBe('<html><head></><body><p>a</></></>end');
+    });
+
+    it('should open all document elements for empty documents', () => {
+      expect(normalize('')).toBe('<html><head></><body></></>end');
+    });
+
+    it('should place head elements in the head', () => {
+      expect(normalize('<title>a</title><meta charset="utf-8">b'))
+        .toBe('<html><head><title>a</><meta></></><body>b</></>end');
+    });
+
+    it('should place head elements after the end of the head in the head', () => {
+      expect(normalize('<head></head><link>'))
+        .toBe('<html><head><link></></><body></></>end');
+    });
+
+    it('should place head elements between whitespace after the end of the head in the head', () => {
+      expect(normalize('<html><head><title>a</title></head>\n<meta>\n<link>\n<body>b</body></html>'))
+        .toBe('<html><head><title>a</><meta></><link></></>\n\n\n<body>b</></>end');
+    });
+
+    it('should place whitespace after the end of the head in the html element', () => {
+      expect(normalize('<html><head></head>\n<body>a</body></html>'))
+        .toBe('<html><head></>\n<body>a</></>end');
+    });
+
+    it('should close the head for body content', () => {
+      expect(normalize('<html><head><title>a</title><div>b</div></head><body>c</body></html>'))
+        .toBe('<html><head><title>a</></><body><div>b</>c</></>end');
+    });
+
+    it('should open the body for text', () => {
+      expect(normalize('\n<html>\n<head>\n</head>\na</html>'))
+        .toBe('<html>\n<head>\n</><body>\na</></>end');
+    });
+
+    it('should ignore duplicate document elements', () => {
+      expect(normalize('<html><body><html><head><body>a</body></head></html></body></html>'))
+        .toBe('<html><head></><body>a</></>end');
+    });
+
+    it('should place content after the body in the body', () => {
+      expect(normalize('<html><body>a</body><p>b</p></html>c'))
+        .toBe('<html><head></><body>a<p>b</>c</></>end');
+    });
+  });
+
+  describe('for implicitly closed elements', () => {
+    it('should close paragraphs for block elements', () => {
+      expect(normalize('<body><p>a<span>b<div>c</div>d</span>e</p>'))
+        .toBe('<html><head></><body><p>a<span>b</></><div>c</>de</></>end');
+    });
+
+    it('should not close paragraphs across buttons', () => {
+      expect(normalize('<body><p><button><div>a</div></button></p>'))
+        .toBe('<html><head></><body><p><button><div>a</></></></></>end');
+    });
+
+    it('should close list items', () => {
+      expect(normalize('<body><ul><li>a<li>b<ul><li>c</ul></ul>'))
+        .toBe('<html><head></><body><ul><li>a</><li>b<ul><li>c</></></></></></>end');
+    });
+
+    it('should close definitions', () => {
+      expect(normalize('<body><dl><dt>a<dd>b<dt><span>c</span><dd>d</dl>'))
+        .toBe('<html><head></><body><dl><dt>a</><dd>b</><dt><span>c</></><dd>d</></></></>end');
+    });
+
+    it('should not close list items across special elements other than address, div and p', () => {
+      expect(normalize('<body><li><div>a<li>b</div></li>'))
+        .toBe('<html><head></><body><li><div>a</></><li>b</></></>end');
+      events = [];
+      expect(normalize('<body><li><section>a<li>b</section></li>'))
+        .toBe('<html><head></><body><li><section>a<li>b</></></></></>end');
+    });
+
+    it('should close headings', () => {
+      expect(normalize('<body><h1>a<h2>b</h2>'))
+        .toBe('<html><head></><body><h1>a</><h2>b</></></>end');
+    });
+
+    it('should close options', () => {
+      expect(normalize('<body><select><option>a<option>b<optgroup><option>c<optgroup><option>d</select>'))
+        .toBe('<html><head></><body><select><option>a</><option>b</><optgroup><option>c</></>' +
+          '<optgroup><option>d</></></></></>end');
+    });
+
+    it('should close table cells, rows and sections, and open missing rows and sections', () => {
+      expect(normalize('<body><table><td>a<td>b<tr><th>c<tbody><td>d<thead><tr><td>e</table>'))
+        .toBe('<html><head></><body><table>' +
+          '<tbody><tr><td>a</><td>b</></><tr><th>c</></></>' +
+          '<tbody><tr><td>d</></></>' +
+          '<thead><tr><td>e</></></></>' +
+          '</></>end');
+    });
+
+    it('should not close table cells of parent tables', () => {
+      expect(normalize('<body><table><tr><td><table><tr><td>a</table>b</td></tr></table>'))
+        .toBe('<html><head></><body><table><tbody><tr><td>' +
+          '<table><tbody><tr><td>a</></></></>b</></></></></></>end');
+    });
+  });
+
+  it('should forward errors', () => {
+    expect(normalize('<p a a>')).toBe('error 1:7: duplicate-attribute<html><head></><body><p></></></>end');
+  });
+
+  it('should work with htmlparser2', () => {
+    expect(normalize('<p>a<span>b<div>c</div></span>', new TokenizerAdapterHtmlparser2()))
+      .toBe('<html><head></><body><p>a<span>b</></><div>c</></></>end');
+  });
+});
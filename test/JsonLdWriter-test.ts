@@ -0,0 +1,118 @@
+import { PassThrough } from 'node:stream';
+import { DataFactory } from 'rdf-data-factory';
+import { JsonLdWriter } from '../lib/JsonLdWriter';
+
+const quad = require('rdf-quad');
+
+const DF = new DataFactory();
+
+describe('JsonLdWriter', () => {
+  let output: PassThrough;
+  let writer: JsonLdWriter;
+  let written: string;
+
+  beforeEach(() => {
+    output = new PassThrough();
+    writer = new JsonLdWriter(output);
+    written = '';
+    output.on('data', (data: Buffer) => written += data.toString());
+  });
+
+  function end(): Promise<any> {
+    return new Promise((resolve, reject) => writer.end(error => error ? reject(error) : resolve(JSON.parse(written))));
+  }
+
+  it('should write an empty document', async() => {
+    await expect(end()).resolves.toEqual([]);
+  });
+
+  it('should group quads by subject', async() => {
+    writer.addQuad(quad('http://ex.org/s', 'http://ex.org/p', 'http://ex.org/o1'));
+    writer.addQuad(quad('http://ex.org/s', 'http://ex.org/p', 'http://ex.org/o2'));
+    writer.addQuad(quad('_:b', 'http://ex.org/p', '"a"'));
+    await expect(end()).resolves.toEqual([
+      {
+        '@id': 'http://ex.org/s',
+        'http://ex.org/p': [{ '@id': 'http://ex.org/o1' }, { '@id': 'http://ex.org/o2' }],
+      },
+      {
+        '@id': '_:b',
+        'http://ex.org/p': [{ '@value': 'a' }],
+      },
+    ]);
+  });
+
+  it('should write types', async() => {
+    writer.addQuad(quad('http://ex.org/s', 'http://www.w3.org/1999/02/22-rdf-syntax-ns#type', 'http://ex.org/C'));
+    writer.addQuad(quad('http://ex.org/s', 'http://www.w3.org/1999/02/22-rdf-syntax-ns#type', '_:c'));
+    writer.addQuad(quad('http://ex.org/s', 'http://www.w3.org/1999/02/22-rdf-syntax-ns#type', '"C"'));
+    await expect(end()).resolves.toEqual([
+      {
+        '@id': 'http://ex.org/s',
+        '@type': [ 'http://ex.org/C', '_:c' ],
+        'http://www.w3.org/1999/02/22-rdf-syntax-ns#type': [{ '@value': 'C' }],
+      },
+    ]);
+  });
+
+  it('should write literals', async() => {
+    writer.addQuad(quad('http://ex.org/s', 'http://ex.org/p', '"a"@en'));
+    writer.addQuad(quad('http://ex.org/s', 'http://ex.org/p', '"1"^^http://www.w3.org/2001/XMLSchema#integer'));
+    writer.addQuad(quad('http://ex.org/s', 'http://ex.org/p', '"b"^^http://www.w3.org/2001/XMLSchema#string'));
+    await expect(end()).resolves.toEqual([
+      {
+        '@id': 'http://ex.org/s',
+        'http://ex.org/p': [
+          { '@value': 'a', '@language': 'en' },
+          { '@value': '1', '@type': 'http://www.w3.org/2001/XMLSchema#integer' },
+          { '@value': 'b' },
+        ],
+      },
+    ]);
+  });
+
+  it('should write named graphs', async() => {
+    writer.addQuad(quad('http://ex.org/s', 'http://ex.org/p', 'http://ex.org/o'));
+    writer.addQuad(DF.quad(
+      DF.namedNode('http://ex.org/s'),
+      DF.namedNode('http://ex.org/p'),
+      DF.namedNode('http://ex.org/o'),
+      DF.namedNode('http://ex.org/g'),
+    ));
+    writer.addQuad(DF.quad(
+      DF.namedNode('http://ex.org/s'),
+      DF.namedNode('http://ex.org/p'),
+      DF.namedNode('http://ex.org/o'),
+      DF.blankNode('g'),
+    ));
+    await expect(end()).resolves.toEqual([
+      {
+        '@id': 'http://ex.org/s',
+        'http://ex.org/p': [{ '@id': 'http://ex.org/o' }],
+      },
+      {
+        '@id': 'http://ex.org/g',
+        '@graph': [
+          {
+            '@id': 'http://ex.org/s',
+            'http://ex.org/p': [{ '@id': 'http://ex.org/o' }],
+          },
+        ],
+      },
+      {
+        '@id': '_:g',
+        '@graph': [
+          {
+            '@id': 'http://ex.org/s',
+            'http://ex.org/p': [{ '@id': 'http://ex.org/o' }],
+          },
+        ],
+      },
+    ]);
+  });
+
+  it('should pass write errors to the callback', async() => {
+    output.destroy();
+    await expect(end()).rejects.toThrow('Cannot call write after a stream was destroyed');
+  });
+});
@@ -0,0 +1,40 @@
+import { PassThrough } from 'node:stream';
+import { createGunzip, gzipSync } from 'node:zlib';
+import { arrayifyStream } from 'arrayify-stream';
+import { LazyDecoder } from '../lib/LazyDecoder';
+
+describe('LazyDecoder', () => {
+  function decode(createDecoder: () => NodeJS.ReadWriteStream, ...chunks: Buffer[]): Promise<Buffer[]> {
+    const body = new PassThrough();
+    for (const chunk of chunks) {
+      body.write(chunk);
+    }
+    body.end();
+    return arrayifyStream<Buffer>(body.pipe(new LazyDecoder(createDecoder)));
+  }
+
+  it('should decode data with the created decoder', async() => {
+    await expect(decode(createGunzip, gzipSync('abc'))).resolves.toEqual([ Buffer.from('abc') ]);
+  });
+
+  it('should not create a decoder for an empty body', async() => {
+    const createDecoder = jest.fn(createGunzip);
+    await expect(decode(createDecoder)).resolves.toEqual([]);
+    await expect(decode(createDecoder, Buffer.alloc(0))).resolves.toEqual([]);
+    expect(createDecoder).not.toHaveBeenCalled();
+  });
+
+  it('should decode data that is larger than the buffers of the streams', async() => {
+    const text = 'abcdefghij'.repeat(100_000);
+    await expect(decode(createGunzip, gzipSync(text)).then(chunks => Buffer.concat(chunks).toString()))
+      .resolves.toBe(text);
+  });
+
+  it('should emit errors of the decoder', async() => {
+    await expect(decode(createGunzip, Buffer.from('abc'))).rejects.toThrow('incorrect header check');
+  });
+
+  it('should emit errors for truncated data', async() => {
+    await expect(decode(createGunzip, gzipSync('abc').subarray(0, 5))).rejects.toThrow('unexpected end of file');
+  });
+});
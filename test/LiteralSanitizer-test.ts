@@ -0,0 +1,106 @@
+import { LiteralSanitizer } from '../lib/LiteralSanitizer';
+
+describe('LiteralSanitizer', () => {
+  let sanitizer: LiteralSanitizer;
+
+  beforeEach(() => {
+    sanitizer = new LiteralSanitizer();
+  });
+
+  describe('#isAllowedElement', () => {
+    it('should allow default elements', () => {
+      expect(sanitizer.isAllowedElement('p')).toBe(true);
+      expect(sanitizer.isAllowedElement('A')).toBe(true);
+    });
+
+    it('should not allow other elements', () => {
+      expect(sanitizer.isAllowedElement('script')).toBe(false);
+      expect(sanitizer.isAllowedElement('form')).toBe(false);
+    });
+
+    it('should allow configured elements', () => {
+      sanitizer = new LiteralSanitizer({ allowedElements: [ 'P', 'svg' ]});
+      expect(sanitizer.isAllowedElement('p')).toBe(true);
+      expect(sanitizer.isAllowedElement('svg')).toBe(true);
+      expect(sanitizer.isAllowedElement('span')).toBe(false);
+    });
+  });
+
+  describe('#isContentOmitted', () => {
+    it('should be true for dangerous elements', () => {
+      expect(sanitizer.isContentOmitted('script')).toBe(true);
+      expect(sanitizer.isContentOmitted('STYLE')).toBe(true);
+      expect(sanitizer.isContentOmitted('svg')).toBe(true);
+    });
+
+    it('should be false for other elements', () => {
+      expect(sanitizer.isContentOmitted('form')).toBe(false);
+      expect(sanitizer.isContentOmitted('p')).toBe(false);
+    });
+
+    it('should be false for allowed dangerous elements', () => {
+      sanitizer = new LiteralSanitizer({ allowedElements: [ 'svg' ]});
+      expect(sanitizer.isContentOmitted('svg')).toBe(false);
+    });
+  });
+
+  describe('#isAllowedAttribute', () => {
+    it('should allow default attributes', () => {
+      expect(sanitizer.isAllowedAttribute('class', 'a')).toBe(true);
+      expect(sanitizer.isAllowedAttribute('TITLE', 'a')).toBe(true);
+    });
+
+    it('should not allow other attributes', () => {
+      expect(sanitizer.isAllowedAttribute('style', 'a')).toBe(false);
+    });
+
+    it('should always allow namespace declarations', () => {
+      expect(sanitizer.isAllowedAttribute('xmlns', 'http://www.w3.org/1999/xhtml')).toBe(true);
+      expect(sanitizer.isAllowedAttribute('xmlns:ex', 'http://ex.org/')).toBe(true);
+    });
+
+    it('should never allow event handler attributes', () => {
+      sanitizer = new LiteralSanitizer({ allowedAttributes: [ 'onclick' ]});
+      expect(sanitizer.isAllowedAttribute('onclick', 'alert(1)')).toBe(false);
+    });
+
+    it('should allow URL attributes with allowed schemes or relative URLs', () => {
+      expect(sanitizer.isAllowedAttribute('href', 'https://ex.org/')).toBe(true);
+      expect(sanitizer.isAllowedAttribute('href', 'MAILTO:a@ex.org')).toBe(true);
+      expect(sanitizer.isAllowedAttribute('src', 'a.png')).toBe(true);
+      expect(sanitizer.isAllowedAttribute('href', '#a:b')).toBe(true);
+    });
+
+    it('should not allow URL attributes with other schemes', () => {
+      expect(sanitizer.isAllowedAttribute('href', 'javascript:alert(1)')).toBe(false);
+      expect(sanitizer.isAllowedAttribute('href', ' JavaScript:alert(1)')).toBe(false);
+      expect(sanitizer.isAllowedAttribute('href', 'java\tscript:alert(1)')).toBe(false);
+      expect(sanitizer.isAllowedAttribute('src', 'data:image/png;base64,AA')).toBe(false);
+    });
+
+    it('should allow URL attributes with configured schemes', () => {
+      sanitizer = new LiteralSanitizer({ allowedSchemes: [ 'DATA' ]});
+      expect(sanitizer.isAllowedAttribute('src', 'data:image/png;base64,AA')).toBe(true);
+      expect(sanitizer.isAllowedAttribute('href', 'https://ex.org/')).toBe(false);
+    });
+  });
+
+  describe('#sanitizeAttributes', () => {
+    it('should keep allowed attributes', () => {
+      expect(Object.entries(sanitizer.sanitizeAttributes({
+        href: 'https://ex.org/?a=1&b="2"',
+        onclick: 'alert(1)',
+        title: '<t>',
+        'xmlns:ex': 'http://ex.org/',
+      }))).toEqual([
+        [ 'href', 'https://ex.org/?a=1&b="2"' ],
+        [ 'title', '<t>' ],
+        [ 'xmlns:ex', 'http://ex.org/' ],
+      ]);
+    });
+
+    it('should return no attributes if none are allowed', () => {
+      expect(Object.entries(sanitizer.sanitizeAttributes({ style: 'a' }))).toEqual([]);
+    });
+  });
+});
@@ -1,10 +1,21 @@
+import { EventEmitter } from 'node:events';
 import { PassThrough } from 'node:stream';
+import { brotliCompressSync, deflateSync, gzipSync } from 'node:zlib';
 import type * as RDF from '@rdfjs/types';
 import { arrayifyStream } from 'arrayify-stream';
 import { DataFactory } from 'rdf-data-factory';
 import 'jest-rdf';
+import { AbortError } from '../lib/AbortError';
+import type { IRdfaLimits } from '../lib/IRdfaLimits';
+import type { ISourceLocation } from '../lib/ISourceLocation';
+import { LiteralSanitizer } from '../lib/LiteralSanitizer';
+import { RdfaLimitError } from '../lib/RdfaLimitError';
+import type { IRdfaIncomingMessage, IRdfaParserOptions } from '../lib/RdfaParser';
 import { RdfaParser } from '../lib/RdfaParser';
 import { RDFA_FEATURES } from '../lib/RdfaProfile';
+import { TokenizerAdapterParse5 } from '../lib/TokenizerAdapterParse5';
+import { TokenizerAdapterSaxes } from '../lib/TokenizerAdapterSaxes';
+import { VocabularyLoaderMemory } from '../lib/VocabularyLoaderMemory';
 
 const quad = require('rdf-quad');
 const streamifyString = require('streamify-string');
@@ -15,43 +26,43 @@ describe('RdfaParser', () => {
   it('should be constructable without args', () => {
     const instance = new RdfaParser();
     expect(instance).toBeInstanceOf(RdfaParser);
-    expect((<any> instance).util.dataFactory).toBeInstanceOf(DataFactory);
-    expect((<any> instance).util.baseIRI).toEqualRdfTerm(DF.namedNode(''));
-    expect((<any> instance).defaultGraph).toBe(DF.defaultGraph());
+    expect((<any> instance).textParser.processor.util.dataFactory).toBeInstanceOf(DataFactory);
+    expect((<any> instance).textParser.processor.util.baseIRI).toEqualRdfTerm(DF.namedNode(''));
+    expect((<any> instance).textParser.processor.defaultGraph).toBe(DF.defaultGraph());
   });
 
   it('should be constructable with empty args', () => {
     const instance = new RdfaParser({});
     expect(instance).toBeInstanceOf(RdfaParser);
-    expect((<any> instance).util.dataFactory).toBeInstanceOf(DataFactory);
-    expect((<any> instance).util.baseIRI).toEqualRdfTerm(DF.namedNode(''));
-    expect((<any> instance).defaultGraph).toBe(DF.defaultGraph());
+    expect((<any> instance).textParser.processor.util.dataFactory).toBeInstanceOf(DataFactory);
+    expect((<any> instance).textParser.processor.util.baseIRI).toEqualRdfTerm(DF.namedNode(''));
+    expect((<any> instance).textParser.processor.defaultGraph).toBe(DF.defaultGraph());
   });
 
   it('should be constructable with args with a custom data factory', () => {
     const dataFactory: any = { defaultGraph: () => 'abc', namedNode: () => DF.namedNode('abc') };
     const instance = new RdfaParser({ dataFactory });
     expect(instance).toBeInstanceOf(RdfaParser);
-    expect((<any> instance).util.dataFactory).toBe(dataFactory);
-    expect((<any> instance).util.baseIRI).toEqualRdfTerm(DF.namedNode('abc'));
-    expect((<any> instance).defaultGraph).toBe('abc');
+    expect((<any> instance).textParser.processor.util.dataFactory).toBe(dataFactory);
+    expect((<any> instance).textParser.processor.util.baseIRI).toEqualRdfTerm(DF.namedNode('abc'));
+    expect((<any> instance).textParser.processor.defaultGraph).toBe('abc');
   });
 
   it('should be constructable with args with a custom base IRI', () => {
     const instance = new RdfaParser({ baseIRI: 'myBaseIRI' });
     expect(instance).toBeInstanceOf(RdfaParser);
-    expect((<any> instance).util.dataFactory).toBeInstanceOf(DataFactory);
-    expect((<any> instance).util.baseIRI).toEqualRdfTerm(DF.namedNode('myBaseIRI'));
-    expect((<any> instance).defaultGraph).toBe(DF.defaultGraph());
+    expect((<any> instance).textParser.processor.util.dataFactory).toBeInstanceOf(DataFactory);
+    expect((<any> instance).textParser.processor.util.baseIRI).toEqualRdfTerm(DF.namedNode('myBaseIRI'));
+    expect((<any> instance).textParser.processor.defaultGraph).toBe(DF.defaultGraph());
   });
 
   it('should be constructable with args with a custom default graph', () => {
     const defaultGraph = DF.namedNode('abc');
     const instance = new RdfaParser({ defaultGraph });
     expect(instance).toBeInstanceOf(RdfaParser);
-    expect((<any> instance).util.dataFactory).toBeInstanceOf(DataFactory);
-    expect((<any> instance).util.baseIRI).toEqualRdfTerm(DF.namedNode(''));
-    expect((<any> instance).defaultGraph).toBe(defaultGraph);
+    expect((<any> instance).textParser.processor.util.dataFactory).toBeInstanceOf(DataFactory);
+    expect((<any> instance).textParser.processor.util.baseIRI).toEqualRdfTerm(DF.namedNode(''));
+    expect((<any> instance).textParser.processor.defaultGraph).toBe(defaultGraph);
   });
 
   it('should be constructable with args with a custom data factory, base IRI and default graph', () => {
@@ -59,30 +70,30 @@ describe('RdfaParser', () => {
     const defaultGraph = DF.namedNode('abc');
     const instance = new RdfaParser({ dataFactory, baseIRI: 'myBaseIRI', defaultGraph });
     expect(instance).toBeInstanceOf(RdfaParser);
-    expect((<any> instance).util.dataFactory).toBe(dataFactory);
-    expect((<any> instance).util.baseIRI).toEqualRdfTerm(DF.namedNode('abc'));
-    expect((<any> instance).defaultGraph).toBe(defaultGraph);
+    expect((<any> instance).textParser.processor.util.dataFactory).toBe(dataFactory);
+    expect((<any> instance).textParser.processor.util.baseIRI).toEqualRdfTerm(DF.namedNode('abc'));
+    expect((<any> instance).textParser.processor.defaultGraph).toBe(defaultGraph);
   });
 
   it('should default to the empty profile when no content type, profile or features was set', () => {
     const instance = new RdfaParser({});
-    expect((<any> instance).features).toBe(RDFA_FEATURES['']);
+    expect((<any> instance).textParser.processor.features).toBe(RDFA_FEATURES['']);
   });
 
   it('should allow custom features to be set', () => {
     const features: any = { a: 1 };
     const instance = new RdfaParser({ features });
-    expect((<any> instance).features).toBe(features);
+    expect((<any> instance).textParser.processor.features).toBe(features);
   });
 
   it('should allow a profile to be set', () => {
     const instance = new RdfaParser({ profile: 'core' });
-    expect((<any> instance).features).toBe(RDFA_FEATURES.core);
+    expect((<any> instance).textParser.processor.features).toBe(RDFA_FEATURES.core);
   });
 
   it('should allow a content type to be set', () => {
     const instance = new RdfaParser({ contentType: 'application/xml' });
-    expect((<any> instance).features).toBe(RDFA_FEATURES.xml);
+    expect((<any> instance).textParser.processor.features).toBe(RDFA_FEATURES.xml);
   });
 
   describe('a default instance', () => {
@@ -95,7 +106,7 @@ describe('RdfaParser', () => {
     describe('#emitTriple', () => {
       it('should emit on valid terms', async() => {
         const spy = jest.spyOn(parser, 'push');
-        parser.emitTriple(DF.namedNode('http://s'), DF.namedNode('http://p'), DF.namedNode('http://o'));
+        parser.textParser.processor.emitTriple(DF.namedNode('http://s'), DF.namedNode('http://p'), DF.namedNode('http://o'));
         expect(spy).toHaveBeenCalledWith(quad(
           'http://s',
           'http://p',
@@ -105,26 +116,26 @@ describe('RdfaParser', () => {
 
       it('should not emit on invalid subject', async() => {
         const spy = jest.spyOn(parser, 'push');
-        parser.emitTriple(DF.namedNode('s'), DF.namedNode('http://p'), DF.namedNode('http://o'));
+        parser.textParser.processor.emitTriple(DF.namedNode('s'), DF.namedNode('http://p'), DF.namedNode('http://o'));
         expect(spy).not.toHaveBeenCalled();
       });
 
       it('should not emit on invalid predicate', async() => {
         const spy = jest.spyOn(parser, 'push');
-        parser.emitTriple(DF.namedNode('http://s'), DF.namedNode('p'), DF.namedNode('http://o'));
+        parser.textParser.processor.emitTriple(DF.namedNode('http://s'), DF.namedNode('p'), DF.namedNode('http://o'));
         expect(spy).not.toHaveBeenCalled();
       });
 
       it('should not emit on invalid object', async() => {
         const spy = jest.spyOn(parser, 'push');
-        parser.emitTriple(DF.namedNode('http://s'), DF.namedNode('http://p'), DF.namedNode('o'));
+        parser.textParser.processor.emitTriple(DF.namedNode('http://s'), DF.namedNode('http://p'), DF.namedNode('o'));
         expect(spy).not.toHaveBeenCalled();
       });
     });
 
     describe('should error', () => {
       it('when an error is thrown in onTagClose', async() => {
-        parser.onTagClose = () => {
+        parser.textParser.processor.onTagClose = () => {
           throw new Error('Dummy error');
         };
         await expect(parse(parser, `<html>
@@ -136,7 +147,7 @@ describe('RdfaParser', () => {
       });
 
       it('when an error is thrown in onTagOpen', async() => {
-        parser.onTagOpen = () => {
+        parser.textParser.processor.onTagOpen = () => {
           throw new Error('Dummy error');
         };
         await expect(parse(parser, `<html>
@@ -148,7 +159,7 @@ describe('RdfaParser', () => {
       });
 
       it('when an error is thrown in onText', async() => {
-        parser.onText = () => {
+        parser.textParser.processor.onText = () => {
           throw new Error('Dummy error');
         };
         await expect(parse(parser, `<html>
@@ -160,7 +171,7 @@ describe('RdfaParser', () => {
       });
 
       it('when an error is thrown in onEnd', async() => {
-        parser.onEnd = () => {
+        parser.textParser.processor.onEnd = () => {
           throw new Error('Dummy error');
         };
         await expect(parse(parser, `<html>
@@ -288,7 +299,7 @@ with Bob</h2>
         expect(output).toBeRdfIsomorphic([
           quad('http://base.com/', 'http://purl.org/dc/terms/title', 'http://base.com/img.jpg'),
         ]);
-        await expect(parser.util.baseIRI).toEqualRdfTerm(DF.namedNode('http://base.com/'));
+        await expect(parser.textParser.processor.util.baseIRI).toEqualRdfTerm(DF.namedNode('http://base.com/'));
       });
 
       it('base tags are ignored when features.baseTag is disabled', async() => {
@@ -304,7 +315,7 @@ with Bob</h2>
         expect(output).toBeRdfIsomorphic([
           quad('http://example.org/', 'http://purl.org/dc/terms/title', 'http://example.org/img.jpg'),
         ]);
-        await expect(parser.util.baseIRI).toEqualRdfTerm(DF.namedNode('http://example.org/'));
+        await expect(parser.textParser.processor.util.baseIRI).toEqualRdfTerm(DF.namedNode('http://example.org/'));
       });
 
       it('base tags with fragment and set the baseIRI', async() => {
@@ -319,7 +330,7 @@ with Bob</h2>
         expect(output).toBeRdfIsomorphic([
           quad('http://base.com/', 'http://purl.org/dc/terms/title', 'http://base.com/img.jpg'),
         ]);
-        await expect(parser.util.baseIRI).toEqualRdfTerm(DF.namedNode('http://base.com/'));
+        await expect(parser.textParser.processor.util.baseIRI).toEqualRdfTerm(DF.namedNode('http://base.com/'));
       });
 
       it('base tags without href and not set the baseIRI', async() => {
@@ -331,7 +342,7 @@ with Bob</h2>
     <div property="dc:title" resource="img.jpg"></div>
 </body>
 </html>`);
-        await expect(parser.util.baseIRI).toEqualRdfTerm(DF.namedNode('http://example.org/'));
+        await expect(parser.textParser.processor.util.baseIRI).toEqualRdfTerm(DF.namedNode('http://example.org/'));
       });
 
       it('typeof with about', async() => {
@@ -846,15 +857,33 @@ rdf: http://www.w3.org/1999/02/22-rdf-syntax-ns#">
   </body>
 </html>`)).resolves
           .toBeRdfIsomorphic([
-            quad('http://example.org/', 'http://purl.org/dc/elements/1.1/title', '"<b some="attribute" xmlns:dc="http://purl.org/dc/elements/1.1/" ' +
-              'xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#" ' +
-              'xmlns:xsd="http://www.w3.org/2001/XMLSchema#">M</b>ark ' +
-              '<b xmlns:dc="http://purl.org/dc/elements/1.1/" ' +
-              'xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#" xmlns:xsd="http://www.w3.org/2001/XMLSchema#">' +
-              'B</b>irbeck"^^http://www.w3.org/1999/02/22-rdf-syntax-ns#HTML'),
+            quad('http://example.org/', 'http://purl.org/dc/elements/1.1/title', '"<b some="attribute">M</b>ark ' +
+              '<b>B</b>irbeck"^^http://www.w3.org/1999/02/22-rdf-syntax-ns#HTML'),
+          ]);
+      });
+
+      it('rdf:HTML datatype with escaped text in textarea tags', async() => {
+        await expect(parse(parser, `<div property="http://ex.org/p" datatype="rdf:HTML">
+<textarea property="http://ex.org/q">&lt;b&gt;&amp;&lt;script&gt;</textarea></div>`)).resolves
+          .toBeRdfIsomorphic([
+            quad('http://example.org/', 'http://ex.org/q', '"<b>&<script>"'),
+            quad('http://example.org/', 'http://ex.org/p', '"\n<textarea property="http://ex.org/q">&lt;b&gt;&amp;&lt;script&gt;' +
+              '</textarea>"^^http://www.w3.org/1999/02/22-rdf-syntax-ns#HTML'),
           ]);
       });
 
+      it('text in textarea tags with entities that are split over chunks', async() => {
+        parser.write('<textarea property="http://ex.org/p">&l');
+        parser.write('t;b&');
+        parser.write('gt;&#6');
+        parser.write(`0;${'&amp'.repeat(10)}</textarea><textarea property="http://ex.org/q">a&</textarea>`);
+        parser.end();
+        await expect(arrayifyStream(parser)).resolves.toBeRdfIsomorphic([
+          quad('http://example.org/', 'http://ex.org/p', `"<b><${'&'.repeat(10)}"`),
+          quad('http://example.org/', 'http://ex.org/q', '"a&"'),
+        ]);
+      });
+
       it('rdf:HTML datatype to not preserve all nested tags when features.htmlDatatype is disabled', async() => {
         parser = new RdfaParser({ baseIRI: 'http://example.org/', features: {}});
         await expect(parse(parser, `<html prefix="dc: http://purl.org/dc/elements/1.1/
@@ -1701,10 +1730,11 @@ foaf: http://xmlns.com/foaf/0.1/">
             quad('http://example.org/#muse', 'http://schema.org/name', '"Muse"'),
           ]);
 
-        delete parser.rdfaPatterns['#muse'].text;
-        delete parser.rdfaPatterns['#muse'].parentTag;
-        expect(parser.rdfaPatterns).toEqual({
-          '#muse': {
+        delete parser.textParser.processor.rdfaPatterns.get('#muse').text;
+        delete parser.textParser.processor.rdfaPatterns.get('#muse').parentTag;
+        expect(parser.textParser.processor.rdfaPatterns).toEqual(new Map([[
+          '#muse',
+          {
             attributes: {},
             children: [
               {
@@ -1756,7 +1786,7 @@ foaf: http://xmlns.com/foaf/0.1/">
             referenced: false,
             rootPattern: true,
           },
-        });
+        ]]));
       });
 
       it('rdfa:Pattern on root without rdfa:copy', async() => {
@@ -3460,50 +3490,1930 @@ prefix="xhv: http://www.w3.org/1999/xhtml/vocab#">
     });
   });
 
-  describe('#import', () => {
+  describe('an instance with a processor graph', () => {
     let parser;
 
-    beforeAll(() => {
-      parser = new RdfaParser({ baseIRI: 'http://example.org/' });
+    beforeEach(() => {
+      parser = new RdfaParser({
+        baseIRI: 'http://example.org/',
+        processorGraph: DF.namedNode('http://example.org/processor'),
+      });
     });
 
-    it('should parse a stream', async() => {
-      const stream = streamifyString(`<html prefix="dc: http://purl.org/dc/elements/1.1/">
-  <head>
-    <title>Test 0257</title>
-  </head>
-  <body>
-    <span about="#a" property="dc:title"></span>
-  </body>
-</html>`);
-      await expect(arrayifyStream(parser.import(stream))).resolves.toBeRdfIsomorphic([
-        quad('http://example.org/#a', 'http://purl.org/dc/elements/1.1/title', '""'),
+    describe('should parse', () => {
+      it('without processor graph entries for a valid document', async() => {
+        await expect(parse(parser, `<html>
+<head></head>
+<body>
+    <h2 property="http://purl.org/dc/terms/title">The Trouble with Bob</h2>
+</body>
+</html>`)).resolves
+          .toBeRdfIsomorphic([
+            quad('http://example.org/', 'http://purl.org/dc/terms/title', '"The Trouble with Bob"'),
+          ]);
+      });
+
+      it('unresolved terms', async() => {
+        await expect(parse(parser, `<html>
+<head></head>
+<body>
+    <h2 property="title">The Trouble with Bob</h2>
+</body>
+</html>`)).resolves
+          .toBeRdfIsomorphic([
+            quad('_:s', 'http://www.w3.org/1999/02/22-rdf-syntax-ns#type', 'http://www.w3.org/ns/rdfa#UnresolvedTerm', 'http://example.org/processor'),
+            quad('_:s', 'http://purl.org/dc/terms/description', '"Unresolved term: title"', 'http://example.org/processor'),
+            quad('_:s', 'http://www.w3.org/ns/rdfa#context', '_:p', 'http://example.org/processor'),
+            quad('_:p', 'http://www.w3.org/1999/02/22-rdf-syntax-ns#type', 'http://www.w3.org/2009/pointers#XPathPointer', 'http://example.org/processor'),
+            quad('_:p', 'http://www.w3.org/2009/pointers#expression', '"/html[1]/body[1]/h2[1]"', 'http://example.org/processor'),
+          ]);
+      });
+
+      it('unresolved CURIEs', async() => {
+        await expect(parse(parser, `<html>
+<head></head>
+<body>
+    <p>abc</p>
+    <p>def</p>
+    <p about="[ex:me]" property="http://purl.org/dc/terms/title">The Trouble with Bob</p>
+</body>
+</html>`)).resolves
+          .toBeRdfIsomorphic([
+            quad('ex:me', 'http://purl.org/dc/terms/title', '"The Trouble with Bob"'),
+            quad('_:s', 'http://www.w3.org/1999/02/22-rdf-syntax-ns#type', 'http://www.w3.org/ns/rdfa#UnresolvedCURIE', 'http://example.org/processor'),
+            quad('_:s', 'http://purl.org/dc/terms/description', '"Undefined prefix in CURIE: [ex:me]"', 'http://example.org/processor'),
+            quad('_:s', 'http://www.w3.org/ns/rdfa#context', '_:p', 'http://example.org/processor'),
+            quad('_:p', 'http://www.w3.org/1999/02/22-rdf-syntax-ns#type', 'http://www.w3.org/2009/pointers#XPathPointer', 'http://example.org/processor'),
+            quad('_:p', 'http://www.w3.org/2009/pointers#expression', '"/html[1]/body[1]/p[3]"', 'http://example.org/processor'),
+          ]);
+      });
+
+      it('prefix redefinitions', async() => {
+        await expect(parse(parser, `<html prefix="ex: http://ex.org/">
+<body prefix="ex: http://ex2.org/">
+</body>
+</html>`)).resolves
+          .toBeRdfIsomorphic([
+            quad('_:s', 'http://www.w3.org/1999/02/22-rdf-syntax-ns#type', 'http://www.w3.org/ns/rdfa#PrefixRedefinition', 'http://example.org/processor'),
+            quad('_:s', 'http://purl.org/dc/terms/description', '"The prefix \'ex\' was redefined from \'http://ex.org/\' to \'http://ex2.org/\'"', 'http://example.org/processor'),
+            quad('_:s', 'http://www.w3.org/ns/rdfa#context', '_:p', 'http://example.org/processor'),
+            quad('_:p', 'http://www.w3.org/1999/02/22-rdf-syntax-ns#type', 'http://www.w3.org/2009/pointers#XPathPointer', 'http://example.org/processor'),
+            quad('_:p', 'http://www.w3.org/2009/pointers#expression', '"/html[1]/body[1]"', 'http://example.org/processor'),
+          ]);
+      });
+
+      it('without prefix redefinitions for identical prefixes', async() => {
+        await expect(parse(parser, `<html prefix="ex: http://ex.org/">
+<body prefix="ex: http://ex.org/">
+</body>
+</html>`)).resolves
+          .toBeRdfIsomorphic([]);
+      });
+
+      it('rejected prefix declarations', async() => {
+        await expect(parse(parser, `<html>
+<body prefix="_: http://ex.org/">
+    <p about="[EX:me]" prefix="ex: http://ex.org/" property="http://purl.org/dc/terms/title">Bob</p>
+</body>
+</html>`)).resolves
+          .toBeRdfIsomorphic([
+            quad('http://ex.org/me', 'http://purl.org/dc/terms/title', '"Bob"'),
+            quad('_:s', 'http://www.w3.org/1999/02/22-rdf-syntax-ns#type', 'http://www.w3.org/ns/rdfa#Warning', 'http://example.org/processor'),
+            quad('_:s', 'http://purl.org/dc/terms/description', '"Ignored the prefix \'_\' for \'http://ex.org/\', as it is reserved for blank nodes"', 'http://example.org/processor'),
+            quad('_:s', 'http://www.w3.org/ns/rdfa#context', '_:p', 'http://example.org/processor'),
+            quad('_:p', 'http://www.w3.org/1999/02/22-rdf-syntax-ns#type', 'http://www.w3.org/2009/pointers#XPathPointer', 'http://example.org/processor'),
+            quad('_:p', 'http://www.w3.org/2009/pointers#expression', '"/html[1]/body[1]"', 'http://example.org/processor'),
+          ]);
+      });
+
+      it('dropped triples with relative IRIs', async() => {
+        parser = new RdfaParser({ processorGraph: DF.namedNode('http://example.org/processor') });
+        await expect(parse(parser, `<html>
+<body>
+    <p property="http://purl.org/dc/terms/title">Bob</p>
+</body>
+</html>`)).resolves
+          .toBeRdfIsomorphic([
+            quad('_:s', 'http://www.w3.org/1999/02/22-rdf-syntax-ns#type', 'http://www.w3.org/ns/rdfa#Warning', 'http://example.org/processor'),
+            quad('_:s', 'http://purl.org/dc/terms/description', '"Dropped the triple <> <http://purl.org/dc/terms/title> <Bob> because it contains a relative IRI"', 'http://example.org/processor'),
+            quad('_:s', 'http://www.w3.org/ns/rdfa#context', '_:p', 'http://example.org/processor'),
+            quad('_:p', 'http://www.w3.org/1999/02/22-rdf-syntax-ns#type', 'http://www.w3.org/2009/pointers#XPathPointer', 'http://example.org/processor'),
+            quad('_:p', 'http://www.w3.org/2009/pointers#expression', '"/html[1]/body[1]/p[1]"', 'http://example.org/processor'),
+          ]);
+      });
+
+      it('unclosed elements in XML as document errors', async() => {
+        parser = new RdfaParser({ processorGraph: DF.namedNode('http://example.org/processor'), profile: 'xml' });
+        await expect(parse(parser, `<root><a></root>`)).resolves
+          .toBeRdfIsomorphic([
+            quad('_:s', 'http://www.w3.org/1999/02/22-rdf-syntax-ns#type', 'http://www.w3.org/ns/rdfa#DocumentError', 'http://example.org/processor'),
+            quad('_:s', 'http://purl.org/dc/terms/description', '"The element \'a\' was not closed"', 'http://example.org/processor'),
+            quad('_:s', 'http://www.w3.org/ns/rdfa#context', '_:p', 'http://example.org/processor'),
+            quad('_:p', 'http://www.w3.org/1999/02/22-rdf-syntax-ns#type', 'http://www.w3.org/2009/pointers#XPathPointer', 'http://example.org/processor'),
+            quad('_:p', 'http://www.w3.org/2009/pointers#expression', '"/root[1]/a[1]"', 'http://example.org/processor'),
+          ]);
+      });
+
+      it('parser errors as document errors', async() => {
+        parser.textParser.tokenizer.cbs.onerror(new Error('Broken document'));
+        await expect(parse(parser, ``)).resolves
+          .toBeRdfIsomorphic([
+            quad('_:s', 'http://www.w3.org/1999/02/22-rdf-syntax-ns#type', 'http://www.w3.org/ns/rdfa#DocumentError', 'http://example.org/processor'),
+            quad('_:s', 'http://purl.org/dc/terms/description', '"Broken document"', 'http://example.org/processor'),
+          ]);
+      });
+    });
+
+    it('should write to a processor graph stream', async() => {
+      const processorGraphStream = new PassThrough({ objectMode: true });
+      parser = new RdfaParser({ baseIRI: 'http://example.org/', processorGraphStream });
+      const processorQuads = arrayifyStream(processorGraphStream);
+      await expect(parse(parser, `<html>
+<body>
+    <h2 property="title">The Trouble with Bob</h2>
+</body>
+</html>`)).resolves
+        .toBeRdfIsomorphic([]);
+      await expect(processorQuads).resolves.toBeRdfIsomorphic([
+        quad('_:s', 'http://www.w3.org/1999/02/22-rdf-syntax-ns#type', 'http://www.w3.org/ns/rdfa#UnresolvedTerm'),
+        quad('_:s', 'http://purl.org/dc/terms/description', '"Unresolved term: title"'),
+        quad('_:s', 'http://www.w3.org/ns/rdfa#context', '_:p'),
+        quad('_:p', 'http://www.w3.org/1999/02/22-rdf-syntax-ns#type', 'http://www.w3.org/2009/pointers#XPathPointer'),
+        quad('_:p', 'http://www.w3.org/2009/pointers#expression', '"/html[1]/body[1]/h2[1]"'),
       ]);
     });
+  });
+
+  describe('an instance with vocabulary expansion', () => {
+    let parser;
+    let vocabLoader;
+
+    beforeEach(() => {
+      vocabLoader = new VocabularyLoaderMemory({
+        'http://schema.org/': [
+          quad('http://schema.org/Person', 'http://www.w3.org/2000/01/rdf-schema#subClassOf', 'http://schema.org/Thing'),
+          quad('http://schema.org/name', 'http://www.w3.org/2002/07/owl#equivalentProperty', 'http://xmlns.com/foaf/0.1/name'),
+        ],
+        'http://ex.org/': [
+          quad('http://ex.org/fullName', 'http://www.w3.org/2000/01/rdf-schema#subPropertyOf', 'http://schema.org/name'),
+        ],
+      });
+      parser = new RdfaParser({ baseIRI: 'http://example.org/', vocabExpansion: true, vocabLoader });
+    });
 
-    it('should parse another stream', async() => {
-      const stream = streamifyString(`<html prefix="foaf: http://xmlns.com/foaf/0.1/">
-   <head>
-      <title>Test 0066</title>
-   </head>
-   <body typeof="foaf:Document" property="foaf:name">
-      <p>This is test #66.</p>
-   </body>
+    it('should throw when no vocabLoader is given', () => {
+      expect(() => new RdfaParser({ vocabExpansion: true }))
+        .toThrow(new Error('A vocabLoader must be provided when vocabExpansion is enabled'));
+    });
+
+    describe('should parse', () => {
+      it('without vocabularies', async() => {
+        await expect(parse(parser, `<html>
+<body>
+    <h2 property="http://purl.org/dc/terms/title">The Trouble with Bob</h2>
+</body>
+</html>`)).resolves
+          .toBeRdfIsomorphic([
+            quad('http://example.org/', 'http://purl.org/dc/terms/title', '"The Trouble with Bob"'),
+          ]);
+      });
+
+      it('and expand subclasses and equivalent properties', async() => {
+        await expect(parse(parser, `<html>
+<body vocab="http://schema.org/">
+    <div typeof="Person">
+      <span property="name">Bob</span>
+    </div>
+</body>
+</html>`)).resolves
+          .toBeRdfIsomorphic([
+            quad('http://example.org/', 'http://www.w3.org/ns/rdfa#usesVocabulary', 'http://schema.org/'),
+            quad('_:b', 'http://www.w3.org/1999/02/22-rdf-syntax-ns#type', 'http://schema.org/Person'),
+            quad('_:b', 'http://schema.org/name', '"Bob"'),
+            quad('_:b', 'http://www.w3.org/1999/02/22-rdf-syntax-ns#type', 'http://schema.org/Thing'),
+            quad('_:b', 'http://xmlns.com/foaf/0.1/name', '"Bob"'),
+          ]);
+      });
+
+      it('and expand with vocabularies that are referenced after the triples', async() => {
+        await expect(parse(parser, `<html>
+<body vocab="http://ex.org/">
+    <span property="fullName">Bob</span>
+    <div vocab="http://schema.org/"></div>
+    <div vocab="http://schema.org/"></div>
+</body>
+</html>`)).resolves
+          .toBeRdfIsomorphic([
+            quad('http://example.org/', 'http://www.w3.org/ns/rdfa#usesVocabulary', 'http://ex.org/'),
+            quad('http://example.org/', 'http://www.w3.org/ns/rdfa#usesVocabulary', 'http://schema.org/'),
+            quad('http://example.org/', 'http://ex.org/fullName', '"Bob"'),
+            quad('http://example.org/', 'http://schema.org/name', '"Bob"'),
+            quad('http://example.org/', 'http://xmlns.com/foaf/0.1/name', '"Bob"'),
+          ]);
+      });
+
+      it('and expand with vocabularies that are referenced in later chunks', async() => {
+        const quads: RDF.Quad[] = [];
+        parser.on('data', (value: RDF.Quad) => quads.push(value));
+        const ended = new Promise(resolve => parser.on('end', resolve));
+        parser.write(`<html>
+<body vocab="http://ex.org/">
+    <span property="fullName">Bob</span>`);
+        await new Promise(setImmediate);
+        parser.end(`
+    <div vocab="http://schema.org/"></div>
+</body>
 </html>`);
-      await expect(arrayifyStream(parser.import(stream))).resolves.toBeRdfIsomorphic([
-        quad('http://example.org/', 'http://www.w3.org/1999/02/22-rdf-syntax-ns#type', 'http://xmlns.com/foaf/0.1/Document'),
-        quad('http://example.org/', 'http://xmlns.com/foaf/0.1/name', 'http://example.org/'),
+        await ended;
+        expect(quads).toBeRdfIsomorphic([
+          quad('http://example.org/', 'http://www.w3.org/ns/rdfa#usesVocabulary', 'http://ex.org/'),
+          quad('http://example.org/', 'http://www.w3.org/ns/rdfa#usesVocabulary', 'http://schema.org/'),
+          quad('http://example.org/', 'http://ex.org/fullName', '"Bob"'),
+          quad('http://example.org/', 'http://schema.org/name', '"Bob"'),
+          quad('http://example.org/', 'http://xmlns.com/foaf/0.1/name', '"Bob"'),
+        ]);
+      });
+
+      it('and not emit entailed triples that were already emitted', async() => {
+        await expect(parse(parser, `<html>
+<body vocab="http://schema.org/">
+    <span property="name">Bob</span>
+    <span property="http://xmlns.com/foaf/0.1/name">Bob</span>
+</body>
+</html>`)).resolves
+          .toBeRdfIsomorphic([
+            quad('http://example.org/', 'http://www.w3.org/ns/rdfa#usesVocabulary', 'http://schema.org/'),
+            quad('http://example.org/', 'http://schema.org/name', '"Bob"'),
+            quad('http://example.org/', 'http://xmlns.com/foaf/0.1/name', '"Bob"'),
+          ]);
+      });
+
+      it('and ignore vocabularies that can not be loaded', async() => {
+        await expect(parse(parser, `<html>
+<body vocab="http://unknown.org/">
+    <span property="name">Bob</span>
+</body>
+</html>`)).resolves
+          .toBeRdfIsomorphic([
+            quad('http://example.org/', 'http://www.w3.org/ns/rdfa#usesVocabulary', 'http://unknown.org/'),
+            quad('http://example.org/', 'http://unknown.org/name', '"Bob"'),
+          ]);
+      });
+
+      it('and report vocabularies that can not be loaded in the processor graph', async() => {
+        parser = new RdfaParser({
+          baseIRI: 'http://example.org/',
+          processorGraph: DF.namedNode('http://example.org/processor'),
+          vocabExpansion: true,
+          vocabLoader,
+        });
+        await expect(parse(parser, `<html>
+<body vocab="http://unknown.org/">
+</body>
+</html>`)).resolves
+          .toBeRdfIsomorphic([
+            quad('http://example.org/', 'http://www.w3.org/ns/rdfa#usesVocabulary', 'http://unknown.org/'),
+            quad('_:s', 'http://www.w3.org/1999/02/22-rdf-syntax-ns#type', 'http://www.w3.org/ns/rdfa#VocabReferenceError', 'http://example.org/processor'),
+            quad('_:s', 'http://purl.org/dc/terms/description', '"Could not load the vocabulary http://unknown.org/: Could not find the vocabulary http://unknown.org/"', 'http://example.org/processor'),
+            quad('_:s', 'http://www.w3.org/ns/rdfa#context', '_:p', 'http://example.org/processor'),
+            quad('_:p', 'http://www.w3.org/1999/02/22-rdf-syntax-ns#type', 'http://www.w3.org/2009/pointers#XPathPointer', 'http://example.org/processor'),
+            quad('_:p', 'http://www.w3.org/2009/pointers#expression', '"/html[1]/body[1]"', 'http://example.org/processor'),
+          ]);
+      });
+    });
+
+    it('should emit an error when expansion fails', async() => {
+      parser.textParser.processor.vocabExpander.expand = () => {
+        throw new Error('Expansion error');
+      };
+      await expect(parse(parser, `<html>
+<body vocab="http://schema.org/">
+</body>
+</html>`)).rejects.toThrow(new Error('Expansion error'));
+    });
+  });
+
+  describe('an instance with source locations', () => {
+    let parser;
+    let locations: [ RDF.Quad, any ][];
+
+    beforeEach(() => {
+      parser = new RdfaParser({ baseIRI: 'http://example.org/', sourceLocations: true });
+      locations = [];
+      parser.on('location', (quad: RDF.Quad, location: any) => locations.push([ quad, location ]));
+    });
+
+    it('should emit locations for quads emitted in opening and closing tags', async() => {
+      await expect(parse(parser, `<html>
+<body>
+    <a rel="http://ex.org/p" href="http://ex.org/o"></a>
+    <h2 property="http://purl.org/dc/terms/title">€ Bob</h2>
+</body>
+</html>`)).resolves
+        .toBeRdfIsomorphic([
+          quad('http://example.org/', 'http://ex.org/p', 'http://ex.org/o'),
+          quad('http://example.org/', 'http://purl.org/dc/terms/title', '"€ Bob"'),
+        ]);
+      expect(locations).toHaveLength(2);
+      expect(locations[0][0]).toEqualRdfQuad(quad('http://example.org/', 'http://ex.org/p', 'http://ex.org/o'));
+      expect(locations[0][1]).toEqual({
+        start: { line: 3, column: 5, offset: 18, utf8ByteOffset: 18 },
+        end: { line: 3, column: 57, offset: 70, utf8ByteOffset: 70 },
+      });
+      expect(locations[1][0]).toEqualRdfQuad(quad('http://example.org/', 'http://purl.org/dc/terms/title', '"€ Bob"'));
+      expect(locations[1][1]).toEqual({
+        start: { line: 4, column: 5, offset: 75, utf8ByteOffset: 75 },
+        end: { line: 4, column: 61, offset: 131, utf8ByteOffset: 133 },
+      });
+    });
+
+    it('should emit locations across chunk boundaries', async() => {
+      const stream = new PassThrough();
+      const quadsPromise = arrayifyStream(stream.pipe(parser));
+      stream.write('<html>\n<bo');
+      stream.write('dy>\n  <span property="http://ex.org/p"');
+      stream.write('>a\nb</span>\n</body></html>');
+      stream.end();
+      await expect(quadsPromise).resolves.toBeRdfIsomorphic([
+        quad('http://example.org/', 'http://ex.org/p', '"a\nb"'),
+      ]);
+      expect(locations).toHaveLength(1);
+      expect(locations[0][1]).toEqual({
+        start: { line: 3, column: 3, offset: 16, utf8ByteOffset: 16 },
+        end: { line: 4, column: 9, offset: 59, utf8ByteOffset: 59 },
+      });
+    });
+
+    it('should emit the location of the element that contains a pattern copy', async() => {
+      await expect(parse(parser, `<div typeof="rdfa:Pattern" resource="#pattern"><span property="http://ex.org/p">a</span></div>
+<p about="http://ex.org/s"><link property="rdfa:copy" href="#pattern"/></p>`)).resolves
+        .toBeRdfIsomorphic([
+          quad('http://ex.org/s', 'http://ex.org/p', '"a"'),
+        ]);
+      expect(locations).toHaveLength(1);
+      expect(locations[0][1]).toEqual({
+        start: { line: 2, column: 1, offset: 95, utf8ByteOffset: 95 },
+        end: { line: 2, column: 76, offset: 170, utf8ByteOffset: 170 },
+      });
+    });
+
+    it('should not emit locations for quads emitted outside of tags', async() => {
+      parser.textParser.processor.activeTagStack[0].location = undefined;
+      parser.textParser.processor.emitTriple(DF.namedNode('http://ex.org/s'), DF.namedNode('http://ex.org/p'), DF.namedNode('http://ex.org/o'));
+      expect(locations).toHaveLength(0);
+    });
+  });
+
+  describe('an instance parsing byte chunks', () => {
+    function parseBytes(parser: RdfaParser, ...chunks: Buffer[]): Promise<RDF.Quad[]> {
+      const stream = new PassThrough();
+      const quadsPromise = arrayifyStream(stream.pipe(parser));
+      for (const chunk of chunks) {
+        stream.write(chunk);
+      }
+      stream.end();
+      return quadsPromise;
+    }
+
+    it('should decode UTF-8 characters that are split over chunks', async() => {
+      const data = Buffer.from(`<p property="http://ex.org/p">${'a'.repeat(2000)}€😀</p>`);
+      await expect(parseBytes(
+        new RdfaParser({ baseIRI: 'http://ex.org/' }),
+        data.subarray(0, 2031),
+        data.subarray(2031, 2033),
+        data.subarray(2033),
+      )).resolves.toBeRdfIsomorphic([
+        quad('http://ex.org/', 'http://ex.org/p', `"${'a'.repeat(2000)}€😀"`),
       ]);
     });
 
-    it('should forward error events', async() => {
+    it('should decode by the encoding option', async() => {
+      await expect(parseBytes(
+        new RdfaParser({ baseIRI: 'http://ex.org/', encoding: 'windows-1252' }),
+        Buffer.from([ ...Buffer.from('<p property="http://ex.org/p">'), 0x80, 0xE9, ...Buffer.from('</p>') ]),
+      )).resolves.toBeRdfIsomorphic([
+        quad('http://ex.org/', 'http://ex.org/p', '"€é"'),
+      ]);
+    });
+
+    it('should throw on an unsupported encoding option', () => {
+      expect(() => new RdfaParser({ encoding: 'unknown' })).toThrow(new Error('Unsupported encoding: unknown'));
+    });
+
+    it('should decode by the charset of the content type', async() => {
+      await expect(parseBytes(
+        new RdfaParser({ baseIRI: 'http://ex.org/', contentType: 'text/html; charset=Shift_JIS' }),
+        Buffer.from([ ...Buffer.from('<p property="http://ex.org/p">'), 0x93, 0xFA ]),
+        Buffer.from([ 0x96, 0x7B, ...Buffer.from('</p>') ]),
+      )).resolves.toBeRdfIsomorphic([
+        quad('http://ex.org/', 'http://ex.org/p', '"日本"'),
+      ]);
+    });
+
+    it('should ignore an unsupported charset of the content type', async() => {
+      await expect(parseBytes(
+        new RdfaParser({ baseIRI: 'http://ex.org/', contentType: 'text/html; charset=unknown' }),
+        Buffer.from('<p property="http://ex.org/p">é</p>'),
+      )).resolves.toBeRdfIsomorphic([
+        quad('http://ex.org/', 'http://ex.org/p', '"é"'),
+      ]);
+    });
+
+    it('should decode by a meta charset', async() => {
+      await expect(parseBytes(
+        new RdfaParser({ baseIRI: 'http://ex.org/' }),
+        Buffer.from('<html><head><meta http-equiv="Content-Type" content="text/html; charset=windows-1252">'),
+        Buffer.from([ ...Buffer.from('</head><body><p property="http://ex.org/p">'), 0xE9, ...Buffer.from('</p>') ]),
+        Buffer.from(`</body></html>${' '.repeat(1024)}`),
+      )).resolves.toBeRdfIsomorphic([
+        quad('http://ex.org/', 'http://ex.org/p', '"é"'),
+      ]);
+    });
+
+    it('should decode by an XML declaration', async() => {
+      await expect(parseBytes(
+        new RdfaParser({ baseIRI: 'http://ex.org/', profile: 'xml' }),
+        Buffer.from([
+          ...Buffer.from('<?xml version="1.0" encoding="Shift_JIS"?><svg property="http://ex.org/p">'),
+          0x93,
+          0xFA,
+          ...Buffer.from('</svg>'),
+        ]),
+      )).resolves.toBeRdfIsomorphic([
+        quad('http://ex.org/', 'http://ex.org/p', '"日"'),
+      ]);
+    });
+
+    it('should decode by a BOM', async() => {
+      await expect(parseBytes(
+        new RdfaParser({ baseIRI: 'http://ex.org/', encoding: 'windows-1252' }),
+        Buffer.from([ 0xFF, 0xFE ]),
+        Buffer.from('<p property="http://ex.org/p">é</p>', 'utf16le'),
+      )).resolves.toBeRdfIsomorphic([
+        quad('http://ex.org/', 'http://ex.org/p', '"é"'),
+      ]);
+    });
+
+    it('should not decode string chunks', async() => {
+      const parser = new RdfaParser({ baseIRI: 'http://ex.org/', encoding: 'windows-1252' });
+      const quadsPromise = arrayifyStream(parser);
+      parser.write('<p property="http://ex.org/p">é');
+      parser.write('€</p>');
+      parser.end();
+      await expect(quadsPromise).resolves.toBeRdfIsomorphic([
+        quad('http://ex.org/', 'http://ex.org/p', '"é€"'),
+      ]);
+    });
+
+    it('should import byte streams', async() => {
       const stream = new PassThrough();
-      stream._read = () => stream.emit('error', new Error('my error'));
-      await expect(arrayifyStream(parser.import(stream))).rejects.toThrow(new Error('my error'));
+      stream.end(Buffer.from([ ...Buffer.from('<p property="http://ex.org/p">'), 0xE9, ...Buffer.from('</p>') ]));
+      await expect(arrayifyStream(new RdfaParser({ baseIRI: 'http://ex.org/', encoding: 'windows-1252' })
+        .import(stream))).resolves.toBeRdfIsomorphic([
+        quad('http://ex.org/', 'http://ex.org/p', '"é"'),
+      ]);
     });
   });
-});
 
-function parse(parser: RdfaParser, input: string): Promise<RDF.Quad[]> {
-  return arrayifyStream(streamifyString(input).pipe(parser));
+  describe('an instance with HTML tree normalization', () => {
+    it('should use the implied body as subject', async() => {
+      const html = '<div typeof="http://ex.org/T"><span property="http://ex.org/p">a</span></div>';
+      await expect(parse(new RdfaParser({ baseIRI: 'http://ex.org/', profile: 'html', normalizeHtml: true }), html))
+        .resolves.toBeRdfIsomorphic([
+          quad('_:b', 'http://www.w3.org/1999/02/22-rdf-syntax-ns#type', 'http://ex.org/T'),
+          quad('_:b', 'http://ex.org/p', '"a"'),
+        ]);
+      await expect(parse(new RdfaParser({ baseIRI: 'http://ex.org/', profile: 'html' }), html))
+        .resolves.toBeRdfIsomorphic([
+          quad('http://ex.org/', 'http://www.w3.org/1999/02/22-rdf-syntax-ns#type', 'http://ex.org/T'),
+          quad('http://ex.org/', 'http://ex.org/p', '"a"'),
+        ]);
+    });
+
+    it('should not include implicitly closed paragraphs in literals', async() => {
+      await expect(parse(new RdfaParser({
+        baseIRI: 'http://ex.org/',
+        profile: 'html',
+        normalizeHtml: true,
+        tokenizer: new TokenizerAdapterParse5(),
+      }), '<p property="http://ex.org/p">a<span>b<div>c</div></span></p>')).resolves.toBeRdfIsomorphic([
+        quad('http://ex.org/', 'http://ex.org/p', '"ab"'),
+      ]);
+    });
+
+    it('should not normalize other profiles', async() => {
+      await expect(parse(
+        new RdfaParser({ baseIRI: 'http://ex.org/', profile: 'xhtml', normalizeHtml: true }),
+        '<div typeof="http://ex.org/T"></div>',
+      )).resolves.toBeRdfIsomorphic([
+        quad('http://ex.org/', 'http://www.w3.org/1999/02/22-rdf-syntax-ns#type', 'http://ex.org/T'),
+      ]);
+    });
+  });
+
+  describe('an instance with a parse5 tokenizer', () => {
+    let parser: RdfaParser;
+
+    beforeEach(() => {
+      parser = new RdfaParser({ baseIRI: 'http://ex.org/', profile: 'html', tokenizer: new TokenizerAdapterParse5() });
+    });
+
+    it('should produce quads', async() => {
+      await expect(parse(parser, `<html><head><title property="http://ex.org/title">a &lt;b></title></head>
+<body><div about="#s"><br><span property="http://ex.org/p">b</span></div><p property="http://ex.org/q">c</p></body></html>`))
+        .resolves.toBeRdfIsomorphic([
+          quad('http://ex.org/', 'http://ex.org/title', '"a <b>"'),
+          quad('http://ex.org/#s', 'http://ex.org/p', '"b"'),
+          quad('http://ex.org/', 'http://ex.org/q', '"c"'),
+        ]);
+    });
+
+    it('should emit source locations', async() => {
+      parser = new RdfaParser({ baseIRI: 'http://ex.org/', sourceLocations: true, tokenizer: new TokenizerAdapterParse5() });
+      const locations: ISourceLocation[] = [];
+      parser.on('location', (value: RDF.Quad, location: ISourceLocation) => locations.push(location));
+      await parse(parser, '<div>\n<p property="http://ex.org/p">a</p></div>');
+      expect(locations).toEqual([
+        {
+          start: { line: 2, column: 1, offset: 6, utf8ByteOffset: 6 },
+          end: { line: 2, column: 36, offset: 41, utf8ByteOffset: 41 },
+        },
+      ]);
+    });
+  });
+
+  describe('an instance with a saxes tokenizer', () => {
+    it('should produce quads and document errors', async() => {
+      const parser = new RdfaParser({
+        baseIRI: 'http://ex.org/',
+        profile: 'xml',
+        processorGraph: DF.namedNode('http://ex.org/processor'),
+        tokenizer: new TokenizerAdapterSaxes(),
+      });
+      await expect(parse(parser, `<root xmlns:ex="http://ex.org/">
+  <a about="#s" property="ex:p">b</a>
+</rot>`)).resolves.toBeRdfIsomorphic([
+        quad('http://ex.org/#s', 'http://ex.org/p', '"b"'),
+        quad('_:s', 'http://www.w3.org/1999/02/22-rdf-syntax-ns#type', 'http://www.w3.org/ns/rdfa#DocumentError', 'http://ex.org/processor'),
+        quad('_:s', 'http://purl.org/dc/terms/description', '"3:6: unexpected close tag."', 'http://ex.org/processor'),
+        quad('_:t', 'http://www.w3.org/1999/02/22-rdf-syntax-ns#type', 'http://www.w3.org/ns/rdfa#DocumentError', 'http://ex.org/processor'),
+        quad('_:t', 'http://purl.org/dc/terms/description', '"3:6: unmatched closing tag: rot."', 'http://ex.org/processor'),
+      ]);
+    });
+  });
+
+  describe('an instance with profile detection', () => {
+    it('should detect the html profile', async() => {
+      const parser = new RdfaParser({ baseIRI: 'http://ex.org/', detectProfile: true });
+      await expect(parse(parser, `<!DOCTYPE html>
+<html><head><base href="http://base.org/"></head>
+<body><time property="http://ex.org/p">2024-01-01</time></body>
+</html>`)).resolves.toBeRdfIsomorphic([
+        quad('http://base.org/', 'http://ex.org/p', '"2024-01-01"^^http://www.w3.org/2001/XMLSchema#date'),
+      ]);
+    });
+
+    it('should detect the xhtml profile', async() => {
+      const parser = new RdfaParser({ baseIRI: 'http://ex.org/', detectProfile: true });
+      await expect(parse(parser, `<?xml version="1.0"?>
+<html xmlns="http://www.w3.org/1999/xhtml">
+<body><p rel="copyright" resource="http://ex.org/l"/></body>
+</html>`)).resolves.toBeRdfIsomorphic([
+        quad('http://ex.org/', 'http://www.w3.org/1999/xhtml/vocab#copyright', 'http://ex.org/l'),
+      ]);
+    });
+
+    it('should detect the xml profile', async() => {
+      const parser = new RdfaParser({ baseIRI: 'http://ex.org/', detectProfile: true });
+      await expect(parse(parser, `<svg xmlns="http://www.w3.org/2000/svg">
+  <metadata about="#s" property="http://ex.org/p">a<br>b</metadata>
+</svg>`)).resolves.toBeRdfIsomorphic([
+        quad('http://ex.org/#s', 'http://ex.org/p', '"ab"'),
+      ]);
+    });
+
+    it('should detect the profile over multiple chunks', async() => {
+      const parser = new RdfaParser({ baseIRI: 'http://ex.org/', detectProfile: true });
+      const quadsPromise = arrayifyStream(parser);
+      parser.write('<!-- comment --');
+      parser.write('><sv');
+      parser.write('g><metadata about="#s" property="http://ex.org/p">a<br>b</metadata></svg>');
+      parser.end();
+      await expect(quadsPromise).resolves.toBeRdfIsomorphic([
+        quad('http://ex.org/#s', 'http://ex.org/p', '"ab"'),
+      ]);
+    });
+
+    it('should fall back to the default profile after the detection length', async() => {
+      const parser = new RdfaParser({ baseIRI: 'http://ex.org/', detectProfile: true });
+      const quadsPromise = arrayifyStream(parser);
+      parser.write(`<!-- ${'a'.repeat(RdfaParser.PROFILE_DETECTION_LENGTH)}`);
+      parser.write(' --><time property="http://ex.org/p">2024-01-01</time>');
+      parser.end();
+      await expect(quadsPromise).resolves.toBeRdfIsomorphic([
+        quad('http://ex.org/', 'http://ex.org/p', '"2024-01-01"^^http://www.w3.org/2001/XMLSchema#date'),
+      ]);
+    });
+
+    it('should detect the profile at the end of short documents', async() => {
+      const parser = new RdfaParser({ baseIRI: 'http://ex.org/', detectProfile: true });
+      await expect(parse(parser, `<html><body><time property="http://ex.org/p">2024-01-01</time></body></html`))
+        .resolves.toBeRdfIsomorphic([
+          quad('http://ex.org/', 'http://ex.org/p', '"2024-01-01"^^http://www.w3.org/2001/XMLSchema#date'),
+        ]);
+    });
+
+    it('should handle empty documents', async() => {
+      const parser = new RdfaParser({ baseIRI: 'http://ex.org/', detectProfile: true });
+      await expect(parse(parser, ``)).resolves.toBeRdfIsomorphic([]);
+    });
+
+    it('should not detect the profile if a known content type is given', async() => {
+      const parser = new RdfaParser({ baseIRI: 'http://ex.org/', detectProfile: true, contentType: 'text/html' });
+      await expect(parse(parser, `<svg><metadata property="http://ex.org/p">a<br>b</metadata></svg>`)).resolves
+        .toBeRdfIsomorphic([
+          quad('http://ex.org/', 'http://ex.org/p', '"ab"'),
+        ]);
+    });
+
+    it('should detect the profile if an unknown content type is given', async() => {
+      const parser = new RdfaParser({ baseIRI: 'http://ex.org/', detectProfile: true, contentType: 'text/plain' });
+      await expect(parse(parser, `<svg><metadata property="http://ex.org/p">a<br>b</metadata></svg>`)).resolves
+        .toBeRdfIsomorphic([
+          quad('http://ex.org/', 'http://ex.org/p', '"ab"'),
+        ]);
+    });
+
+    it('should not detect the profile if features are given', async() => {
+      const parser = new RdfaParser({ baseIRI: 'http://ex.org/', detectProfile: true, features: {}});
+      await expect(parse(parser, `<html><head><base href="http://base.org/"></head>
+<body><p property="http://ex.org/p">a</p></body></html>`)).resolves.toBeRdfIsomorphic([
+        quad('http://ex.org/', 'http://ex.org/p', '"a"'),
+      ]);
+    });
+  });
+
+  describe('collecting text', () => {
+    let parser: any;
+
+    beforeEach(() => {
+      parser = new RdfaParser({ baseIRI: 'http://ex.org/' });
+    });
+
+    it('should include text of nested literals within non-property tags', async() => {
+      await expect(parse(parser, `<p property="http://ex.org/a"><span><b property="http://ex.org/b">x</b></span>y</p>`))
+        .resolves.toBeRdfIsomorphic([
+          quad('http://ex.org/', 'http://ex.org/b', '"x"'),
+          quad('http://ex.org/', 'http://ex.org/a', '"xy"'),
+        ]);
+    });
+
+    it('should not buffer text if no open tag has a property', () => {
+      parser.write(`<div><p>${'<span>a</span>'.repeat(10)}`);
+      expect(parser.textParser.processor.textBuffer).toEqual({
+        withTags: [],
+        withHtmlTags: [],
+        withoutTags: [],
+        collectingTags: 0,
+        collectingWithTags: 0,
+        collectingWithHtmlTags: 0,
+        collectingWithoutTags: 0,
+        length: 0,
+        truncated: false,
+      });
+    });
+
+    it('should only buffer text once for nested properties', () => {
+      parser.write(`<div property="http://ex.org/a"><p property="http://ex.org/b"><span>a</span><span>b</span>`);
+      expect(parser.textParser.processor.textBuffer).toEqual({
+        withTags: [],
+        withHtmlTags: [],
+        withoutTags: [ 'a', 'b' ],
+        collectingTags: 2,
+        collectingWithTags: 0,
+        collectingWithHtmlTags: 0,
+        collectingWithoutTags: 2,
+        length: 2,
+        truncated: false,
+      });
+    });
+
+    it('should release buffered text when the last collecting tag is closed', async() => {
+      parser.write(`<div property="http://ex.org/a"><p property="http://ex.org/b">a</p>b</div><div>c</div>`);
+      expect(parser.textParser.processor.textBuffer).toEqual({
+        withTags: [],
+        withHtmlTags: [],
+        withoutTags: [],
+        collectingTags: 0,
+        collectingWithTags: 0,
+        collectingWithHtmlTags: 0,
+        collectingWithoutTags: 0,
+        length: 0,
+        truncated: false,
+      });
+      parser.end();
+      await expect(arrayifyStream(parser)).resolves.toBeRdfIsomorphic([
+        quad('http://ex.org/', 'http://ex.org/b', '"a"'),
+        quad('http://ex.org/', 'http://ex.org/a', '"ab"'),
+      ]);
+    });
+
+    it('should only buffer markup for XML literals', () => {
+      parser.write(`<div property="http://ex.org/a" datatype="rdf:XMLLiteral"><p>a</p><span>b`);
+      expect(parser.textParser.processor.textBuffer).toEqual({
+        withTags: [ '<p>', 'a', '</p>', '<span>', 'b' ],
+        withHtmlTags: [],
+        withoutTags: [],
+        collectingTags: 1,
+        collectingWithTags: 1,
+        collectingWithHtmlTags: 0,
+        collectingWithoutTags: 0,
+        length: 15,
+        truncated: false,
+      });
+    });
+
+    it('should only buffer markup for HTML literals', () => {
+      parser.write(`<div property="http://ex.org/a" datatype="rdf:HTML"><br/>a&amp;`);
+      expect(parser.textParser.processor.textBuffer).toEqual({
+        withTags: [],
+        withHtmlTags: [ '<br>', '', 'a', '&amp;' ],
+        withoutTags: [],
+        collectingTags: 1,
+        collectingWithTags: 0,
+        collectingWithHtmlTags: 1,
+        collectingWithoutTags: 0,
+        length: 10,
+        truncated: false,
+      });
+    });
+
+    it('should buffer text in each form that is needed by nested literals', () => {
+      parser.write(`<div property="http://ex.org/a"><p property="http://ex.org/b" datatype="rdf:HTML"><b>a</b>`);
+      expect(parser.textParser.processor.textBuffer).toEqual({
+        withTags: [],
+        withHtmlTags: [ '<b>', 'a', '</b>' ],
+        withoutTags: [ 'a' ],
+        collectingTags: 2,
+        collectingWithTags: 0,
+        collectingWithHtmlTags: 1,
+        collectingWithoutTags: 1,
+        length: 8,
+        truncated: false,
+      });
+    });
+
+    it('should not include text of copied patterns in literals of open tags', async() => {
+      await expect(parse(parser, `<div typeof="rdfa:Pattern" resource="#pattern"><span property="http://ex.org/p">a</span></div>
+<p property="http://ex.org/q">b<span about="http://ex.org/s"><link property="rdfa:copy" href="#pattern"/></span>c</p>`))
+        .resolves.toBeRdfIsomorphic([
+          quad('http://ex.org/s', 'http://ex.org/p', '"a"'),
+          quad('http://ex.org/', 'http://ex.org/q', '"bc"'),
+        ]);
+    });
+
+    it('should not include text of deferred pattern copies in literals of open tags', async() => {
+      await expect(parse(parser, `<div property="http://ex.org/q">b<span about="http://ex.org/s"><link property="rdfa:copy" href="#pattern"/></span>
+<div typeof="rdfa:Pattern" resource="#pattern"><span property="http://ex.org/p">a</span></div>c</div>`))
+        .resolves.toBeRdfIsomorphic([
+          quad('http://ex.org/s', 'http://ex.org/p', '"a"'),
+          quad('http://ex.org/', 'http://ex.org/q', '"b\nc"'),
+        ]);
+    });
+  });
+
+  describe('an instance with backpressure', () => {
+    const html = `<div>${[ ...Array.from({ length: 100 }).keys() ].map(i => `<p about="#s${i}" property="http://ex.org/p">${i}</p>`).join('')}</div>`;
+    const expected = [ ...Array.from({ length: 100 }).keys() ].map(i => quad(`http://ex.org/#s${i}`, 'http://ex.org/p', `"${i}"`));
+
+    it('should not buffer more quads than the high water mark', async() => {
+      const parser = new RdfaParser({ baseIRI: 'http://ex.org/' });
+      const written = jest.fn();
+      parser.write(html, written);
+      await new Promise(setImmediate);
+      expect(parser.readableLength).toBeLessThanOrEqual(parser.readableHighWaterMark);
+      expect(written).not.toHaveBeenCalled();
+
+      parser.end();
+      await expect(arrayifyStream(parser)).resolves.toBeRdfIsomorphic(expected);
+      expect(written).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not buffer more quads than the high water mark with the saxes tokenizer', async() => {
+      const parser = new RdfaParser({ baseIRI: 'http://ex.org/', profile: 'xml', tokenizer: new TokenizerAdapterSaxes() });
+      const written = jest.fn();
+      parser.write(html, written);
+      await new Promise(setImmediate);
+      expect(parser.readableLength).toBeLessThanOrEqual(parser.readableHighWaterMark);
+      expect(written).not.toHaveBeenCalled();
+
+      parser.end();
+      await expect(arrayifyStream(parser)).resolves.toBeRdfIsomorphic(expected);
+      expect(written).toHaveBeenCalledTimes(1);
+    });
+
+    it('should emit all quads in order to a slow consumer', async() => {
+      const parser = new RdfaParser({ baseIRI: 'http://ex.org/' });
+      const quads: RDF.Quad[] = [];
+      streamifyString(html).pipe(parser);
+      for await (const value of parser) {
+        quads.push(value);
+        await new Promise(setImmediate);
+      }
+      expect(quads.map(value => value.subject.value)).toEqual(expected.map(value => value.subject.value));
+    });
+  });
+
+  describe('an instance with limits', () => {
+    const patterns = `<div resource="#a" typeof="rdfa:Pattern"><span property="http://ex.org/name">A</span></div>
+<div resource="#b" typeof="rdfa:Pattern"><span property="http://ex.org/name">B</span></div>`;
+    const copies = `<p resource="#x"><link property="rdfa:copy" href="#a"/><link property="rdfa:copy" href="#b"/></p>`;
+
+    function parseWithLimits(
+      limits: IRdfaLimits,
+      input: string,
+      limitErrors: RdfaLimitError[],
+      options: IRdfaParserOptions = {},
+    ): Promise<RDF.Quad[]> {
+      const parser = new RdfaParser({ baseIRI: 'http://ex.org/', limits, limitBehavior: 'truncate', ...options });
+      parser.on('limit', error => limitErrors.push(error));
+      return parse(parser, input);
+    }
+
+    it('should not apply limits by default', async() => {
+      await expect(parse(new RdfaParser({ baseIRI: 'http://ex.org/' }), `${patterns}${copies}`)).resolves
+        .toBeRdfIsomorphic([
+          quad('http://ex.org/#x', 'http://ex.org/name', '"A"'),
+          quad('http://ex.org/#x', 'http://ex.org/name', '"B"'),
+        ]);
+    });
+
+    it('should error on exceeding maxDepth', async() => {
+      const parser = new RdfaParser({ baseIRI: 'http://ex.org/', limits: { maxDepth: 2 }});
+      const promise = parse(parser, '<div><div><div property="http://ex.org/p">a</div></div></div>');
+      await expect(promise).rejects.toThrow(new RdfaLimitError('maxDepth', 2));
+      await expect(promise).rejects.toMatchObject({ name: 'RdfaLimitError', limit: 'maxDepth', max: 2 });
+    });
+
+    it('should ignore elements exceeding maxDepth when truncating', async() => {
+      const limitErrors: RdfaLimitError[] = [];
+      await expect(parseWithLimits(
+        { maxDepth: 2 },
+        `<div property="http://ex.org/p"><span><b property="http://ex.org/q">x<i>y</i></b></span>z</div>
+<div property="http://ex.org/p"><span><b property="http://ex.org/q">x</b></span></div>`,
+        limitErrors,
+      )).resolves.toBeRdfIsomorphic([
+        quad('http://ex.org/', 'http://ex.org/p', '"z"'),
+        quad('http://ex.org/', 'http://ex.org/p', '""'),
+      ]);
+      expect(limitErrors).toEqual([ new RdfaLimitError('maxDepth', 2) ]);
+    });
+
+    it('should not count the elements of pattern copies for maxDepth', async() => {
+      const limitErrors: RdfaLimitError[] = [];
+      await expect(parseWithLimits({ maxDepth: 2 }, `${patterns}${copies}`, limitErrors)).resolves
+        .toBeRdfIsomorphic([
+          quad('http://ex.org/#x', 'http://ex.org/name', '"A"'),
+          quad('http://ex.org/#x', 'http://ex.org/name', '"B"'),
+        ]);
+      expect(limitErrors).toEqual([]);
+    });
+
+    it('should not count the elements of unreferenced pattern copies for maxDepth', async() => {
+      const limitErrors: RdfaLimitError[] = [];
+      await expect(parseWithLimits({ maxDepth: 2 }, `${copies}${patterns}`, limitErrors)).resolves
+        .toBeRdfIsomorphic([
+          quad('http://ex.org/#x', 'http://ex.org/name', '"A"'),
+          quad('http://ex.org/#x', 'http://ex.org/name', '"B"'),
+        ]);
+      expect(limitErrors).toEqual([]);
+    });
+
+    it('should error on exceeding maxQuads', async() => {
+      const parser = new RdfaParser({ baseIRI: 'http://ex.org/', limits: { maxQuads: 2 }});
+      await expect(parse(parser, '<p property="http://ex.org/p">a</p>'.repeat(3))).rejects
+        .toThrow(new RdfaLimitError('maxQuads', 2));
+    });
+
+    it('should drop quads exceeding maxQuads when truncating', async() => {
+      const limitErrors: RdfaLimitError[] = [];
+      await expect(parseWithLimits({ maxQuads: 2 }, '<p property="http://ex.org/p">a</p>'.repeat(3), limitErrors))
+        .resolves.toHaveLength(2);
+      expect(limitErrors).toEqual([ new RdfaLimitError('maxQuads', 2) ]);
+    });
+
+    it('should not count processor graph quads for maxQuads', async() => {
+      const limitErrors: RdfaLimitError[] = [];
+      const quads = await parseWithLimits(
+        { maxQuads: 1 },
+        '<p property="http://ex.org/p">a</p><p property="http://ex.org/p">b</p>',
+        limitErrors,
+        { processorGraph: DF.namedNode('http://ex.org/processor') },
+      );
+      expect(quads.filter(value => value.graph.equals(DF.defaultGraph()))).toHaveLength(1);
+      expect(quads).toContainEqual(DF.quad(
+        expect.anything(),
+        DF.namedNode('http://purl.org/dc/terms/description'),
+        DF.literal('The document exceeded the maxQuads limit of 1'),
+        DF.namedNode('http://ex.org/processor'),
+      ));
+    });
+
+    it('should limit quads entailed by vocabulary expansion', async() => {
+      const limitErrors: RdfaLimitError[] = [];
+      const vocabLoader = new VocabularyLoaderMemory({
+        'http://ex.org/vocab#': [
+          quad('http://ex.org/vocab#p', 'http://www.w3.org/2000/01/rdf-schema#subPropertyOf', 'http://ex.org/vocab#q'),
+        ],
+      });
+      await expect(parseWithLimits(
+        { maxQuads: 2 },
+        '<div vocab="http://ex.org/vocab#"><p property="p">a</p></div>',
+        limitErrors,
+        { vocabExpansion: true, vocabLoader },
+      )).resolves.toBeRdfIsomorphic([
+        quad('http://ex.org/', 'http://www.w3.org/ns/rdfa#usesVocabulary', 'http://ex.org/vocab#'),
+        quad('http://ex.org/', 'http://ex.org/vocab#p', '"a"'),
+      ]);
+      expect(limitErrors).toEqual([ new RdfaLimitError('maxQuads', 2) ]);
+    });
+
+    it('should error on exceeding maxLiteralLength', async() => {
+      const parser = new RdfaParser({ baseIRI: 'http://ex.org/', limits: { maxLiteralLength: 3 }});
+      await expect(parse(parser, '<p property="http://ex.org/p">abcd</p>')).rejects
+        .toThrow(new RdfaLimitError('maxLiteralLength', 3));
+    });
+
+    it('should cut off literals exceeding maxLiteralLength when truncating', async() => {
+      const limitErrors: RdfaLimitError[] = [];
+      await expect(parseWithLimits(
+        { maxLiteralLength: 3 },
+        '<p property="http://ex.org/p">ab<span>cd</span>e</p><p property="http://ex.org/p">fgh</p>',
+        limitErrors,
+      )).resolves.toBeRdfIsomorphic([
+        quad('http://ex.org/', 'http://ex.org/p', '"abc"'),
+        quad('http://ex.org/', 'http://ex.org/p', '"fgh"'),
+      ]);
+      expect(limitErrors).toEqual([ new RdfaLimitError('maxLiteralLength', 3) ]);
+    });
+
+    it('should cut off XML and HTML literals exceeding maxLiteralLength when truncating', async() => {
+      const limitErrors: RdfaLimitError[] = [];
+      await expect(parseWithLimits(
+        { maxLiteralLength: 3 },
+        `<p property="http://ex.org/p" datatype="rdf:XMLLiteral">abcd</p>
+<p property="http://ex.org/p" datatype="rdf:HTML">efgh</p>`,
+        limitErrors,
+        { profile: 'html' },
+      )).resolves.toBeRdfIsomorphic([
+        quad('http://ex.org/', 'http://ex.org/p', '"abc"^^http://www.w3.org/1999/02/22-rdf-syntax-ns#XMLLiteral'),
+        quad('http://ex.org/', 'http://ex.org/p', '"efg"^^http://www.w3.org/1999/02/22-rdf-syntax-ns#HTML'),
+      ]);
+      expect(limitErrors).toEqual([ new RdfaLimitError('maxLiteralLength', 3) ]);
+    });
+
+    it('should omit markup exceeding maxLiteralLength when truncating', async() => {
+      const limitErrors: RdfaLimitError[] = [];
+      await expect(parseWithLimits(
+        { maxLiteralLength: 4 },
+        '<p property="http://ex.org/p" datatype="rdf:XMLLiteral">ab<span>cd</span>e</p>',
+        limitErrors,
+      )).resolves.toBeRdfIsomorphic([
+        quad('http://ex.org/', 'http://ex.org/p', '"ab"^^http://www.w3.org/1999/02/22-rdf-syntax-ns#XMLLiteral'),
+      ]);
+      expect(limitErrors).toEqual([ new RdfaLimitError('maxLiteralLength', 4) ]);
+    });
+
+    it('should close collected markup when cutting off literals exceeding maxLiteralLength', async() => {
+      const limitErrors: RdfaLimitError[] = [];
+      await expect(parseWithLimits(
+        { maxLiteralLength: 20 },
+        `<p property="http://ex.org/p" datatype="rdf:XMLLiteral">a<b>b<i>cdefgh</i><u>i</u>j</b>k</p>
+<p property="http://ex.org/p" datatype="rdf:HTML">a<b>b<i>cdefgh</i><u>i</u>j</b>k</p>`,
+        limitErrors,
+        { profile: 'html' },
+      )).resolves.toBeRdfIsomorphic([
+        quad('http://ex.org/', 'http://ex.org/p', '"a<b>b<i>cdefgh</i></b>"^^http://www.w3.org/1999/02/22-rdf-syntax-ns#XMLLiteral'),
+        quad('http://ex.org/', 'http://ex.org/p', '"a<b>b<i>cdefgh</i></b>"^^http://www.w3.org/1999/02/22-rdf-syntax-ns#HTML'),
+      ]);
+      expect(limitErrors).toEqual([ new RdfaLimitError('maxLiteralLength', 20) ]);
+    });
+
+    it('should error on exceeding maxPatterns', async() => {
+      const parser = new RdfaParser({ baseIRI: 'http://ex.org/', limits: { maxPatterns: 1 }});
+      await expect(parse(parser, `${patterns}${copies}`)).rejects.toThrow(new RdfaLimitError('maxPatterns', 1));
+    });
+
+    it('should ignore patterns exceeding maxPatterns when truncating', async() => {
+      const limitErrors: RdfaLimitError[] = [];
+      await expect(parseWithLimits({ maxPatterns: 1 }, `${patterns}${copies}`, limitErrors)).resolves
+        .toBeRdfIsomorphic([
+          quad('http://ex.org/#x', 'http://ex.org/name', '"A"'),
+          quad('http://ex.org/#x', 'http://www.w3.org/ns/rdfa#copy', 'http://ex.org/#b'),
+        ]);
+      expect(limitErrors).toEqual([ new RdfaLimitError('maxPatterns', 1) ]);
+    });
+
+    it('should ignore pending copies exceeding maxPendingPatternCopies when truncating', async() => {
+      const limitErrors: RdfaLimitError[] = [];
+      await expect(parseWithLimits(
+        { maxPendingPatternCopies: 1 },
+        `${copies}${patterns}${copies}`,
+        limitErrors,
+      )).resolves.toBeRdfIsomorphic([
+        quad('http://ex.org/#x', 'http://ex.org/name', '"A"'),
+        quad('http://ex.org/#x', 'http://ex.org/name', '"B"'),
+      ]);
+      expect(limitErrors).toEqual([ new RdfaLimitError('maxPendingPatternCopies', 1) ]);
+    });
+
+    it('should release pending copies once their pattern is defined', async() => {
+      const limitErrors: RdfaLimitError[] = [];
+      await expect(parseWithLimits(
+        { maxPendingPatternCopies: 1 },
+        `<p resource="#x"><link property="rdfa:copy" href="#a"/></p>${patterns}
+<p resource="#y"><link property="rdfa:copy" href="#c"/></p>`,
+        limitErrors,
+      )).resolves.toBeRdfIsomorphic([
+        quad('http://ex.org/#x', 'http://ex.org/name', '"A"'),
+        quad('http://ex.org/#y', 'http://www.w3.org/ns/rdfa#copy', 'http://ex.org/#c'),
+        quad('http://ex.org/#b', 'http://ex.org/name', '"B"'),
+        quad('http://ex.org/#b', 'http://www.w3.org/1999/02/22-rdf-syntax-ns#type', 'http://www.w3.org/ns/rdfa#Pattern'),
+      ]);
+      expect(limitErrors).toHaveLength(0);
+    });
+
+    it('should error on exceeding maxPatternCopies', async() => {
+      const parser = new RdfaParser({ baseIRI: 'http://ex.org/', limits: { maxPatternCopies: 1 }});
+      await expect(parse(parser, `${patterns}${copies}`)).rejects.toThrow(new RdfaLimitError('maxPatternCopies', 1));
+    });
+
+    it('should ignore copies exceeding maxPatternCopies when truncating', async() => {
+      const limitErrors: RdfaLimitError[] = [];
+      await expect(parseWithLimits({ maxPatternCopies: 1 }, `${patterns}${copies}`, limitErrors)).resolves
+        .toBeRdfIsomorphic([
+          quad('http://ex.org/#x', 'http://ex.org/name', '"A"'),
+        ]);
+      expect(limitErrors).toEqual([ new RdfaLimitError('maxPatternCopies', 1) ]);
+    });
+  });
+
+  describe('an instance with an abort signal or timeout', () => {
+    it('should error if the signal was aborted before construction', async() => {
+      const controller = new AbortController();
+      controller.abort('reason');
+      const parser = new RdfaParser({ baseIRI: 'http://ex.org/', signal: controller.signal });
+      const promise = parse(parser, '<p property="http://ex.org/p">a</p>');
+      await expect(promise).rejects.toThrow(new AbortError('The parser was aborted'));
+      await expect(promise).rejects.toMatchObject({ name: 'AbortError', reason: 'reason' });
+    });
+
+    it('should error on writing if the signal was aborted before construction', async() => {
+      const controller = new AbortController();
+      controller.abort();
+      const parser = new RdfaParser({ baseIRI: 'http://ex.org/', signal: controller.signal });
+      const error = new Promise(resolve => parser.on('error', resolve));
+      parser.write('<p property="http://ex.org/p">a</p>');
+      await expect(error).resolves.toEqual(new AbortError('The parser was aborted'));
+    });
+
+    it('should error on ending if the signal was aborted before construction', async() => {
+      const controller = new AbortController();
+      controller.abort();
+      const parser = new RdfaParser({ baseIRI: 'http://ex.org/', signal: controller.signal });
+      const error = new Promise(resolve => parser.on('error', resolve));
+      parser.end();
+      await expect(error).resolves.toEqual(new AbortError('The parser was aborted'));
+    });
+
+    it('should error when the signal is aborted while parsing', async() => {
+      const controller = new AbortController();
+      const parser = new RdfaParser({ baseIRI: 'http://ex.org/', signal: controller.signal });
+      const quads: RDF.Quad[] = [];
+      parser.on('data', (value: RDF.Quad) => quads.push(value));
+      const error = new Promise(resolve => parser.on('error', resolve));
+      parser.write('<p property="http://ex.org/p">a</p>');
+      await new Promise(setImmediate);
+      controller.abort('reason');
+      parser.write('<p property="http://ex.org/p">b</p>');
+      await expect(error).resolves.toMatchObject({ name: 'AbortError', reason: 'reason' });
+      expect(quads).toBeRdfIsomorphic([
+        quad('http://ex.org/', 'http://ex.org/p', '"a"'),
+      ]);
+    });
+
+    it('should stop tokenizing when the signal is aborted within a chunk', async() => {
+      const controller = new AbortController();
+      const parser = new RdfaParser({ baseIRI: 'http://ex.org/', signal: controller.signal });
+      const quads: RDF.Quad[] = [];
+      parser.on('data', (value: RDF.Quad) => {
+        quads.push(value);
+        controller.abort();
+      });
+      const error = new Promise(resolve => parser.on('error', resolve));
+      parser.end('<p property="http://ex.org/p">a</p>'.repeat(10));
+      await expect(error).resolves.toEqual(new AbortError('The parser was aborted'));
+      expect(quads).toHaveLength(1);
+    });
+
+    it('should stop pattern expansion at the end when the signal is aborted', async() => {
+      const controller = new AbortController();
+      const parser = new RdfaParser({ baseIRI: 'http://ex.org/', signal: controller.signal });
+      const quads: RDF.Quad[] = [];
+      parser.on('data', (value: RDF.Quad) => {
+        quads.push(value);
+        controller.abort();
+      });
+      const error = new Promise(resolve => parser.on('error', resolve));
+      parser.end([ 'a', 'b', 'c' ].map(id => `<div resource="#${id}" typeof="rdfa:Pattern">
+<span property="http://ex.org/p">a</span><span property="http://ex.org/q">b</span></div>`).join(''));
+      await expect(error).resolves.toEqual(new AbortError('The parser was aborted'));
+      expect(quads).toHaveLength(1);
+    });
+
+    it('should stop emitting pending pattern copies at the end when the signal is aborted', async() => {
+      const controller = new AbortController();
+      const parser = new RdfaParser({ baseIRI: 'http://ex.org/', signal: controller.signal });
+      const quads: RDF.Quad[] = [];
+      parser.on('data', (value: RDF.Quad) => {
+        quads.push(value);
+        controller.abort();
+      });
+      const error = new Promise(resolve => parser.on('error', resolve));
+      parser.end(`<p resource="#x"><link property="rdfa:copy" href="#a"/><link property="rdfa:copy" href="#b"/></p>`);
+      await expect(error).resolves.toEqual(new AbortError('The parser was aborted'));
+      expect(quads).toHaveLength(1);
+    });
+
+    it('should error when the timeout is exceeded', async() => {
+      const parser = new RdfaParser({ baseIRI: 'http://ex.org/', timeout: 10 });
+      const error = new Promise(resolve => parser.on('error', resolve));
+      parser.write('<p property="http://ex.org/p">a</p>');
+      await expect(error).resolves.toEqual(new AbortError('The parser timed out after 10ms'));
+    });
+
+    it('should error when the timeout is exceeded within a single chunk', async() => {
+      let now = 0;
+      const dateNow = jest.spyOn(Date, 'now').mockImplementation(() => now++);
+      const parser = new RdfaParser({ baseIRI: 'http://ex.org/', timeout: 5 });
+      const quads: RDF.Quad[] = [];
+      parser.on('data', (value: RDF.Quad) => quads.push(value));
+      const error = new Promise(resolve => parser.on('error', resolve));
+      parser.end(`<div resource="#a" typeof="rdfa:Pattern"><span property="http://ex.org/p">a</span></div>
+${'<p resource="#x"><link property="rdfa:copy" href="#a"/></p>'.repeat(100)}`);
+      await expect(error).resolves.toEqual(new AbortError('The parser timed out after 5ms'));
+      expect(quads.length).toBeLessThan(5);
+      dateNow.mockRestore();
+    });
+
+    it('should stop listening to the signal and the timeout after parsing', async() => {
+      const controller = new AbortController();
+      const parser = new RdfaParser({ baseIRI: 'http://ex.org/', signal: controller.signal, timeout: 10 });
+      const onError = jest.fn();
+      await expect(parse(parser, '<p property="http://ex.org/p">a</p>')).resolves.toHaveLength(1);
+      parser.on('error', onError);
+      controller.abort();
+      await new Promise(resolve => setTimeout(resolve, 20));
+      expect(onError).not.toHaveBeenCalled();
+    });
+
+    it('should abort streams created via import', async() => {
+      const controller = new AbortController();
+      const parser = new RdfaParser({ baseIRI: 'http://ex.org/', signal: controller.signal });
+      const stream = new PassThrough();
+      const promise = arrayifyStream(parser.import(stream));
+      stream.write('<p property="http://ex.org/p">a</p>');
+      controller.abort();
+      await expect(promise).rejects.toThrow(new AbortError('The parser was aborted'));
+    });
+  });
+
+  describe('an instance with deferBase', () => {
+    it('should resolve IRIs before the first base tag against it', async() => {
+      const parser = new RdfaParser({ baseIRI: 'http://ex.org/', profile: 'html', deferBase: true });
+      await expect(parse(parser, `<html>
+<head>
+  <link rel="http://ex.org/p" href="a">
+  <base href="http://base.org/">
+  <base href="http://other.org/">
+</head>
+<body><a rel="http://ex.org/q" href="b"></a></body>
+</html>`)).resolves.toBeRdfIsomorphic([
+        quad('http://base.org/', 'http://ex.org/p', 'http://base.org/a'),
+        quad('http://base.org/', 'http://ex.org/q', 'http://base.org/b'),
+      ]);
+    });
+
+    it('should emit the source locations of deferred tags', async() => {
+      const parser = new RdfaParser({ baseIRI: 'http://ex.org/', deferBase: true, sourceLocations: true });
+      const locations: any[] = [];
+      parser.on('location', (value, location) => locations.push(location));
+      await parse(parser, '<head><link rel="http://ex.org/p" href="a"><base href="http://base.org/"></head>');
+      expect(locations).toEqual([
+        {
+          start: { line: 1, column: 7, offset: 6, utf8ByteOffset: 6 },
+          end: { line: 1, column: 44, offset: 43, utf8ByteOffset: 43 },
+        },
+      ]);
+    });
+  });
+
+  describe('an instance with relative IRIs', () => {
+    const html = `<html><head><title property="http://ex.org/title">T</title></head><body>
+  <div about="#me" typeof="http://ex.org/Person">
+    <a rel="http://ex.org/knows" href="../people/bob"></a>
+    <span property="http://ex.org/name">Me</span>
+  </div>
+</body></html>`;
+
+    it('should keep relative IRIs without base IRI', async() => {
+      await expect(parse(new RdfaParser({ profile: 'html', relativeIris: true }), html)).resolves.toBeRdfIsomorphic([
+        quad('', 'http://ex.org/title', '"T"'),
+        quad('#me', 'http://www.w3.org/1999/02/22-rdf-syntax-ns#type', 'http://ex.org/Person'),
+        quad('#me', 'http://ex.org/knows', '../people/bob'),
+        quad('#me', 'http://ex.org/name', '"Me"'),
+      ]);
+    });
+
+    it('should resolve relative IRIs against a relative base tag', async() => {
+      await expect(parse(new RdfaParser({ profile: 'html', relativeIris: true }), `<html><head><base href="dir/"></head>
+<body><a rel="http://ex.org/p" href="a"></a></body></html>`)).resolves.toBeRdfIsomorphic([
+        quad('dir/', 'http://ex.org/p', 'dir/a'),
+      ]);
+    });
+
+    it('should resolve IRIs against an absolute base IRI', async() => {
+      await expect(parse(new RdfaParser({ baseIRI: 'http://ex.org/doc', relativeIris: true }), html)).resolves
+        .toBeRdfIsomorphic([
+          quad('http://ex.org/doc', 'http://ex.org/title', '"T"'),
+          quad('http://ex.org/doc#me', 'http://www.w3.org/1999/02/22-rdf-syntax-ns#type', 'http://ex.org/Person'),
+          quad('http://ex.org/doc#me', 'http://ex.org/knows', 'http://ex.org/people/bob'),
+          quad('http://ex.org/doc#me', 'http://ex.org/name', '"Me"'),
+        ]);
+    });
+
+    it('should produce the same quads after rebasing as with a base IRI', async() => {
+      const parser = new RdfaParser({ profile: 'html', relativeIris: true });
+      await expect(arrayifyStream(RdfaParser.rebase(streamifyString(html).pipe(parser), 'http://ex.org/site/doc')))
+        .resolves.toBeRdfIsomorphic(await parse(new RdfaParser({ profile: 'html', baseIRI: 'http://ex.org/site/doc' }), html));
+    });
+  });
+
+  describe('an instance with an IRI policy', () => {
+    const html = `<html>
+<body>
+  <a rel="http://ex.org/link" href="javascript:alert(1)"></a>
+  <a rel="http://ex.org/link" href="mailto:a@ex.org"></a>
+  <img rel="http://ex.org/image" src="data:image/png;base64,${'A'.repeat(1000)}"/>
+  <img rel="http://ex.org/image" src="image.png"/>
+</body>
+</html>`;
+
+    it('should drop IRIs that violate the policy', async() => {
+      await expect(parse(new RdfaParser({
+        baseIRI: 'http://ex.org/',
+        iriPolicy: { allowedSchemes: [ 'http', 'https', 'mailto' ]},
+      }), html)).resolves.toBeRdfIsomorphic([
+        quad('http://ex.org/', 'http://ex.org/link', 'mailto:a@ex.org'),
+        quad('http://ex.org/', 'http://ex.org/image', 'http://ex.org/image.png'),
+      ]);
+    });
+
+    it('should replace IRIs that violate the policy', async() => {
+      await expect(parse(new RdfaParser({
+        baseIRI: 'http://ex.org/',
+        iriPolicy: { deniedSchemes: [ 'javascript' ], maxIriLength: 100, action: 'replace' },
+      }), html)).resolves.toBeRdfIsomorphic([
+        quad('http://ex.org/', 'http://ex.org/link', 'about:invalid'),
+        quad('http://ex.org/', 'http://ex.org/link', 'mailto:a@ex.org'),
+        quad('http://ex.org/', 'http://ex.org/image', 'about:invalid'),
+        quad('http://ex.org/', 'http://ex.org/image', 'http://ex.org/image.png'),
+      ]);
+    });
+
+    it('should report IRIs that violate the policy in the processor graph', async() => {
+      await expect(parse(new RdfaParser({
+        baseIRI: 'http://ex.org/',
+        iriPolicy: { deniedSchemes: [ 'javascript' ], action: 'report' },
+        processorGraph: DF.namedNode('http://ex.org/processor'),
+      }), `<html>
+<body>
+  <a rel="http://ex.org/link" href="javascript:alert(1)"></a>
+</body>
+</html>`)).resolves.toBeRdfIsomorphic([
+        quad('http://ex.org/', 'http://ex.org/link', 'javascript:alert(1)'),
+        quad('_:s', 'http://www.w3.org/1999/02/22-rdf-syntax-ns#type', 'http://www.w3.org/ns/rdfa#Warning', 'http://ex.org/processor'),
+        quad('_:s', 'http://purl.org/dc/terms/description', '"The IRI javascript:alert(1) violates the IRI policy, as the scheme \'javascript\' is denied"', 'http://ex.org/processor'),
+        quad('_:s', 'http://www.w3.org/ns/rdfa#context', '_:p', 'http://ex.org/processor'),
+        quad('_:p', 'http://www.w3.org/1999/02/22-rdf-syntax-ns#type', 'http://www.w3.org/2009/pointers#XPathPointer', 'http://ex.org/processor'),
+        quad('_:p', 'http://www.w3.org/2009/pointers#expression', '"/html[1]/body[1]/a[1]"', 'http://ex.org/processor'),
+      ]);
+    });
+
+    it('should drop base IRIs and vocabularies that violate the policy', async() => {
+      await expect(parse(new RdfaParser({
+        baseIRI: 'http://ex.org/',
+        profile: 'html',
+        iriPolicy: { allowedSchemes: [ 'http', 'https' ]},
+      }), `<html>
+<head><base href="javascript:alert(1)//"></head>
+<body vocab="data:,evil">
+  <a rel="http://ex.org/link" href="a"></a>
+</body>
+</html>`)).resolves.toBeRdfIsomorphic([
+        quad('http://ex.org/', 'http://ex.org/link', 'http://ex.org/a'),
+      ]);
+    });
+
+    it('should drop xml:base IRIs that violate the policy', async() => {
+      await expect(parse(new RdfaParser({
+        baseIRI: 'http://ex.org/',
+        profile: 'xml',
+        iriPolicy: { allowedSchemes: [ 'http', 'https' ]},
+      }), `<root xml:base="http://ex.org/dir/">
+  <a xml:base="javascript:alert(1)//" rel="http://ex.org/link" resource="a"></a>
+</root>`)).resolves.toBeRdfIsomorphic([
+        quad('http://ex.org/dir/', 'http://ex.org/link', 'http://ex.org/dir/a'),
+      ]);
+    });
+
+    it('should replace base IRIs and vocabularies that violate the policy', async() => {
+      await expect(parse(new RdfaParser({
+        baseIRI: 'http://ex.org/',
+        profile: 'html',
+        iriPolicy: { allowedSchemes: [ 'http', 'https' ], action: 'replace', replacement: 'urn:x-invalid' },
+      }), `<html>
+<head><base href="javascript:alert(1)//"></head>
+<body vocab="data:,evil">
+  <a rel="link" href="a"></a>
+</body>
+</html>`)).resolves.toBeRdfIsomorphic([
+        quad('urn:x-invalid', 'http://www.w3.org/ns/rdfa#usesVocabulary', 'urn:x-invalid'),
+        quad('urn:x-invalid', 'urn:x-invalid', 'urn:x-invalid'),
+      ]);
+    });
+  });
+
+  describe('an instance with a literal sanitizer', () => {
+    let parser: RdfaParser;
+
+    beforeEach(() => {
+      parser = new RdfaParser({ baseIRI: 'http://ex.org/', profile: 'html', literalSanitizer: new LiteralSanitizer() });
+    });
+
+    it('should sanitize rdf:HTML literals', async() => {
+      await expect(parse(parser, `<div property="http://ex.org/p" datatype="rdf:HTML">
+<p onclick="alert(1)" class="a">A <a href="javascript:alert(1)">link</a> and <a href="b">b</a></p>
+<script>alert(1)</script><style>p { color: red }</style>
+<form action="x"><b>&lt;script&gt;&amp;</b></form>
+</div>`)).resolves.toBeRdfIsomorphic([
+        quad('http://ex.org/', 'http://ex.org/p', `"
+<p class="a">A <a>link</a> and <a href="b">b</a></p>
+
+<b>&lt;script&gt;&amp;</b>
+"^^http://www.w3.org/1999/02/22-rdf-syntax-ns#HTML`),
+      ]);
+    });
+
+    it('should sanitize rdf:XMLLiteral literals', async() => {
+      await expect(parse(parser, `<div prefix="ex: http://ex.org/" property="ex:p" datatype="rdf:XMLLiteral">
+<svg><script>a</script></svg><img src="x.png" onerror="alert(1)"/></div>`)).resolves.toBeRdfIsomorphic([
+        quad('http://ex.org/', 'http://ex.org/p', '"\n<img src="x.png" xmlns:ex="http://ex.org/"></img>"^^http://www.w3.org/1999/02/22-rdf-syntax-ns#XMLLiteral'),
+      ]);
+    });
+
+    it('should omit nested contents of dangerous elements', async() => {
+      await expect(parse(parser, `<div property="http://ex.org/p" datatype="rdf:HTML"><noscript><p><b>a</b></p></noscript>b</div>`))
+        .resolves.toBeRdfIsomorphic([
+          quad('http://ex.org/', 'http://ex.org/p', '"b"^^http://www.w3.org/1999/02/22-rdf-syntax-ns#HTML'),
+        ]);
+    });
+
+    it('should keep the text of omitted elements in plain literals', async() => {
+      await expect(parse(parser, `<div property="http://ex.org/p">
+<span property="http://ex.org/q" datatype="rdf:HTML"><script>a</script>&lt;b&gt;</span></div>`))
+        .resolves.toBeRdfIsomorphic([
+          quad('http://ex.org/', 'http://ex.org/p', '"\na<b>"'),
+          quad('http://ex.org/', 'http://ex.org/q', '"&lt;b&gt;"^^http://www.w3.org/1999/02/22-rdf-syntax-ns#HTML'),
+        ]);
+    });
+
+    it('should still extract RDFa from omitted elements', async() => {
+      parser = new RdfaParser({ baseIRI: 'http://ex.org/', profile: 'xhtml', literalSanitizer: new LiteralSanitizer() });
+      await expect(parse(parser, `<div property="http://ex.org/p" datatype="rdf:XMLLiteral">
+<form about="#f"><span property="http://ex.org/q">a</span></form></div>`))
+        .resolves.toBeRdfIsomorphic([
+          quad('http://ex.org/', 'http://ex.org/p', '"\n<span property="http://ex.org/q">a</span>"^^http://www.w3.org/1999/02/22-rdf-syntax-ns#XMLLiteral'),
+          quad('http://ex.org/#f', 'http://ex.org/q', '"a"'),
+        ]);
+    });
+
+    it('should omit escaped text instead of cutting it off at the literal length limit', async() => {
+      parser = new RdfaParser({
+        baseIRI: 'http://ex.org/',
+        profile: 'html',
+        literalSanitizer: new LiteralSanitizer(),
+        limits: { maxLiteralLength: 10 },
+        limitBehavior: 'truncate',
+      });
+      await expect(parse(parser, `<div property="http://ex.org/p" datatype="rdf:HTML"><b>a</b>&lt;b&gt;</div>`))
+        .resolves.toBeRdfIsomorphic([
+          quad('http://ex.org/', 'http://ex.org/p', '"<b>a</b>"^^http://www.w3.org/1999/02/22-rdf-syntax-ns#HTML'),
+        ]);
+    });
+
+    it('should only escape literals without sanitizer', async() => {
+      parser = new RdfaParser({ baseIRI: 'http://ex.org/', profile: 'html' });
+      await expect(parse(parser, `<div property="http://ex.org/p" datatype="rdf:HTML"><b onclick="a">&lt;</b></div>`))
+        .resolves.toBeRdfIsomorphic([
+          quad('http://ex.org/', 'http://ex.org/p', '"<b onclick="a">&lt;</b>"^^http://www.w3.org/1999/02/22-rdf-syntax-ns#HTML'),
+        ]);
+    });
+  });
+
+  describe('an instance serializing XML literals', () => {
+    let parser: RdfaParser;
+
+    beforeEach(() => {
+      parser = new RdfaParser({ baseIRI: 'http://ex.org/', profile: 'xhtml' });
+    });
+
+    it('should escape attributes and text', async() => {
+      await expect(parse(parser, `<div property="http://ex.org/p" datatype="rdf:XMLLiteral">
+<a title="&quot;a&quot; &lt;&amp;&gt;">&lt;b&gt; &amp; c</a></div>`)).resolves.toBeRdfIsomorphic([
+        quad('http://ex.org/', 'http://ex.org/p', '"\n<a title="&quot;a&quot; &lt;&amp;>">&lt;b&gt; &amp; c</a>"^^http://www.w3.org/1999/02/22-rdf-syntax-ns#XMLLiteral'),
+      ]);
+    });
+
+    it('should only declare in-scope namespaces on top-level elements', async() => {
+      await expect(parse(parser, `<div prefix="ex: http://ex.org/"><div property="ex:p" datatype="rdf:XMLLiteral">
+<p xmlns:a="http://a.org/"><b>a</b><i xmlns:ex="http://ex2.org/">b</i></p><p>c</p></div></div>`))
+        .resolves.toBeRdfIsomorphic([
+          quad('http://ex.org/', 'http://ex.org/p', '"\n<p xmlns:a="http://a.org/" xmlns:ex="http://ex.org/"><b>a</b>' +
+            '<i xmlns:ex="http://ex2.org/">b</i></p><p xmlns:ex="http://ex.org/">c</p>"^^http://www.w3.org/1999/02/22-rdf-syntax-ns#XMLLiteral'),
+        ]);
+    });
+
+    it('should declare in-scope namespaces on top-level elements of nested literals', async() => {
+      await expect(parse(parser, `<div prefix="ex: http://ex.org/" property="ex:p" datatype="rdf:XMLLiteral">
+<div property="ex:q" datatype="rdf:XMLLiteral"><b>a</b></div></div>`)).resolves.toBeRdfIsomorphic([
+        quad('http://ex.org/', 'http://ex.org/p', '"\n<div property="ex:q" datatype="rdf:XMLLiteral" xmlns:ex="http://ex.org/">' +
+          '<b xmlns:ex="http://ex.org/">a</b></div>"^^http://www.w3.org/1999/02/22-rdf-syntax-ns#XMLLiteral'),
+        quad('http://ex.org/', 'http://ex.org/q', '"<b xmlns:ex="http://ex.org/">a</b>"^^http://www.w3.org/1999/02/22-rdf-syntax-ns#XMLLiteral'),
+      ]);
+    });
+
+    it('should produce equal literals for equal markup if canonical', async() => {
+      const options: IRdfaParserOptions = { baseIRI: 'http://ex.org/', profile: 'xhtml', canonicalXmlLiterals: true };
+      const expected = [
+        quad('http://ex.org/', 'http://ex.org/p', '"<svg:svg xmlns:svg="http://www.w3.org/2000/svg" height="1" width="2">' +
+          '<svg:rect xmlns:xlink="http://www.w3.org/1999/xlink" xlink:href="#a"></svg:rect></svg:svg>"^^http://www.w3.org/1999/02/22-rdf-syntax-ns#XMLLiteral'),
+      ];
+      await expect(parse(new RdfaParser(options), `<div xmlns:svg="http://www.w3.org/2000/svg" prefix="ex: http://ex.org/">
+<div property="ex:p" datatype="rdf:XMLLiteral"><svg:svg width="2" height="1" xmlns:dc="http://purl.org/dc/terms/"
+><svg:rect xmlns:xlink="http://www.w3.org/1999/xlink" xlink:href="#a"/></svg:svg></div></div>`))
+        .resolves.toBeRdfIsomorphic(expected);
+      await expect(parse(new RdfaParser(options), `<div property="http://ex.org/p" datatype="rdf:XMLLiteral"><svg:svg
+ xmlns:svg="http://www.w3.org/2000/svg" height='1'  width="2"><svg:rect xlink:href="#a"
+ xmlns:xlink="http://www.w3.org/1999/xlink"></svg:rect></svg:svg></div>`))
+        .resolves.toBeRdfIsomorphic(expected);
+    });
+  });
+
+  describe('an instance serializing HTML literals', () => {
+    let parser: RdfaParser;
+
+    beforeEach(() => {
+      parser = new RdfaParser({ baseIRI: 'http://ex.org/', profile: 'html' });
+    });
+
+    it('should serialize void elements without end tags', async() => {
+      await expect(parse(parser, `<p property="http://ex.org/p" datatype="rdf:HTML">a<br>b<img src="x.png" alt=""></p>`))
+        .resolves.toBeRdfIsomorphic([
+          quad('http://ex.org/', 'http://ex.org/p', '"a<br>b<img src="x.png" alt="">"^^http://www.w3.org/1999/02/22-rdf-syntax-ns#HTML'),
+        ]);
+    });
+
+    it('should not declare namespaces of prefixes', async() => {
+      await expect(parse(parser, `<div prefix="ex: http://ex.org/" xmlns:dc="http://purl.org/dc/terms/">
+<p property="ex:p" datatype="rdf:HTML"><b xmlns:a="http://a.org/">a</b></p></div>`))
+        .resolves.toBeRdfIsomorphic([
+          quad('http://ex.org/', 'http://ex.org/p', '"<b xmlns:a="http://a.org/">a</b>"^^http://www.w3.org/1999/02/22-rdf-syntax-ns#HTML'),
+        ]);
+    });
+
+    it('should escape text and attributes', async() => {
+      await expect(parse(parser, `<p property="http://ex.org/p" datatype="rdf:HTML"><a title="&quot;a&quot;&nbsp;&lt;&gt;">&lt;b&gt;&nbsp;&amp; c</a></p>`))
+        .resolves.toBeRdfIsomorphic([
+          quad('http://ex.org/', 'http://ex.org/p', '"<a title="&quot;a&quot;&nbsp;&lt;&gt;">&lt;b&gt;&nbsp;&amp; c</a>"^^http://www.w3.org/1999/02/22-rdf-syntax-ns#HTML'),
+        ]);
+    });
+
+    it('should not escape text of raw text elements', async() => {
+      await expect(parse(parser, `<div property="http://ex.org/p" datatype="rdf:HTML"><script>if (a < b && c) {}</script>
+<style>a > b { content: "&amp;" }</style></div>`))
+        .resolves.toBeRdfIsomorphic([
+          quad('http://ex.org/', 'http://ex.org/p', '"<script>if (a < b && c) {}</script>\n<style>a > b { content: "&amp;" }</style>"^^http://www.w3.org/1999/02/22-rdf-syntax-ns#HTML'),
+        ]);
+    });
+
+    it('should serialize XML literals in the same document as XML', async() => {
+      await expect(parse(parser, `<div prefix="ex: http://ex.org/">
+<p property="ex:p" datatype="rdf:HTML">a<br>&lt;</p><p property="ex:q" datatype="rdf:XMLLiteral">a<br>&lt;</p></div>`))
+        .resolves.toBeRdfIsomorphic([
+          quad('http://ex.org/', 'http://ex.org/p', '"a<br>&lt;"^^http://www.w3.org/1999/02/22-rdf-syntax-ns#HTML'),
+          quad('http://ex.org/', 'http://ex.org/q', '"a<br xmlns:ex="http://ex.org/"></br>&lt;"^^http://www.w3.org/1999/02/22-rdf-syntax-ns#XMLLiteral'),
+        ]);
+    });
+
+    it('should serialize nested HTML literals as HTML', async() => {
+      await expect(parse(parser, `<div prefix="ex: http://ex.org/" property="ex:q" datatype="rdf:XMLLiteral">
+<p property="ex:p" datatype="rdf:HTML">a<br>b</p></div>`))
+        .resolves.toBeRdfIsomorphic([
+          quad('http://ex.org/', 'http://ex.org/p', '"a<br>b"^^http://www.w3.org/1999/02/22-rdf-syntax-ns#HTML'),
+          quad('http://ex.org/', 'http://ex.org/q', '"\n<p property="ex:p" datatype="rdf:HTML" xmlns:ex="http://ex.org/">a' +
+            '<br xmlns:ex="http://ex.org/"></br>b</p>"^^http://www.w3.org/1999/02/22-rdf-syntax-ns#XMLLiteral'),
+        ]);
+    });
+  });
+
+  describe('an instance parsing hostile input', () => {
+    it('should use prefixes named after Object.prototype properties', async() => {
+      await expect(parse(new RdfaParser({ baseIRI: 'http://ex.org/' }), `<html>
+<body prefix="__proto__: http://ex.org/a# constructor: http://ex.org/c#">
+  <span property="__proto__:p constructor:q">a</span>
+</body>
+</html>`)).resolves.toBeRdfIsomorphic([
+        quad('http://ex.org/', 'http://ex.org/a#p', '"a"'),
+        quad('http://ex.org/', 'http://ex.org/c#q', '"a"'),
+      ]);
+    });
+
+    it('should use xmlns prefixes named after Object.prototype properties', async() => {
+      await expect(parse(new RdfaParser({ baseIRI: 'http://ex.org/', profile: 'xml' }), `<root>
+  <a xmlns:__proto__="http://ex.org/a#" property="__proto__:p">a</a>
+</root>`)).resolves.toBeRdfIsomorphic([
+        quad('http://ex.org/', 'http://ex.org/a#p', '"a"'),
+      ]);
+    });
+
+    it('should not expand prefixes and terms to Object.prototype properties', async() => {
+      await expect(parse(new RdfaParser({ baseIRI: 'http://ex.org/' }), `<html>
+<body>
+  <span property="constructor:p toString __proto__">a</span>
+</body>
+</html>`)).resolves.toBeRdfIsomorphic([
+        quad('http://ex.org/', 'constructor:p', '"a"'),
+      ]);
+    });
+
+    it('should copy patterns with ids named after Object.prototype properties', async() => {
+      await expect(parse(new RdfaParser({ baseIRI: 'http://ex.org/', profile: 'html' }), `<html>
+<body>
+  <div resource="#s1"><link property="rdfa:copy" href="constructor"/></div>
+  <div resource="#s2"><link property="rdfa:copy" href="__proto__"/></div>
+  <div resource="constructor" typeof="rdfa:Pattern"><span property="http://ex.org/p">a</span></div>
+</body>
+</html>`)).resolves.toBeRdfIsomorphic([
+        quad('http://ex.org/#s1', 'http://ex.org/p', '"a"'),
+        quad('http://ex.org/#s2', 'http://www.w3.org/ns/rdfa#copy', 'http://ex.org/__proto__'),
+      ]);
+    });
+
+    it('should create lists for predicates named after Object.prototype properties', async() => {
+      await expect(parse(new RdfaParser({ baseIRI: 'http://ex.org/', relativeIris: true }), `<html>
+<body about="#s" vocab="__pro">
+  <span property="to__" inlist>a</span>
+  <span property="to__" inlist>b</span>
+  <span about="#t" vocab="construc"><span property="tor" inlist>c</span></span>
+</body>
+</html>`)).resolves.toBeRdfIsomorphic([
+        DF.quad(DF.namedNode('http://ex.org/'), DF.namedNode('http://www.w3.org/ns/rdfa#usesVocabulary'), DF.namedNode('__pro')),
+        quad('http://ex.org/', 'http://www.w3.org/ns/rdfa#usesVocabulary', 'construc'),
+        DF.quad(DF.namedNode('http://ex.org/#s'), DF.namedNode('__proto__'), DF.blankNode('l1')),
+        quad('_:l1', 'http://www.w3.org/1999/02/22-rdf-syntax-ns#first', '"a"'),
+        quad('_:l1', 'http://www.w3.org/1999/02/22-rdf-syntax-ns#rest', '_:l2'),
+        quad('_:l2', 'http://www.w3.org/1999/02/22-rdf-syntax-ns#first', '"b"'),
+        quad('_:l2', 'http://www.w3.org/1999/02/22-rdf-syntax-ns#rest', 'http://www.w3.org/1999/02/22-rdf-syntax-ns#nil'),
+        quad('http://ex.org/#t', 'constructor', '_:l3'),
+        quad('_:l3', 'http://www.w3.org/1999/02/22-rdf-syntax-ns#first', '"c"'),
+        quad('_:l3', 'http://www.w3.org/1999/02/22-rdf-syntax-ns#rest', 'http://www.w3.org/1999/02/22-rdf-syntax-ns#nil'),
+      ]);
+    });
+  });
+
+  describe('#rebase', () => {
+    it('should resolve relative IRIs with a custom data factory', async() => {
+      const dataFactory = new DataFactory();
+      const namedNode = jest.spyOn(dataFactory, 'namedNode');
+      const stream = new PassThrough({ objectMode: true });
+      stream.end(DF.quad(DF.namedNode('#s'), DF.namedNode('http://ex.org/p'), DF.literal('o')));
+      await expect(arrayifyStream(RdfaParser.rebase(stream, 'http://ex.org/doc', dataFactory))).resolves
+        .toBeRdfIsomorphic([
+          quad('http://ex.org/doc#s', 'http://ex.org/p', '"o"'),
+        ]);
+      expect(namedNode).toHaveBeenCalledWith('http://ex.org/doc#s');
+    });
+
+    it('should forward error events', async() => {
+      const stream = new PassThrough({ objectMode: true });
+      stream._read = () => stream.emit('error', new Error('my error'));
+      await expect(arrayifyStream(RdfaParser.rebase(stream, 'http://ex.org/'))).rejects.toThrow(new Error('my error'));
+    });
+
+    it('should pause the stream while the quads are not consumed', async() => {
+      const stream = new PassThrough({ objectMode: true });
+      for (let i = 0; i < 100; i++) {
+        stream.write(DF.quad(DF.namedNode(`#s${i}`), DF.namedNode('http://ex.org/p'), DF.literal(`${i}`)));
+      }
+      stream.end();
+      const quads = RdfaParser.rebase(stream, 'http://ex.org/');
+      await new Promise(setImmediate);
+      expect(stream.isPaused()).toBe(true);
+      expect(stream.readableEnded).toBe(false);
+
+      await expect(arrayifyStream(quads)).resolves.toHaveLength(100);
+    });
+  });
+
+  describe('#import', () => {
+    let parser;
+
+    beforeAll(() => {
+      parser = new RdfaParser({ baseIRI: 'http://example.org/' });
+    });
+
+    it('should parse a stream', async() => {
+      const stream = streamifyString(`<html prefix="dc: http://purl.org/dc/elements/1.1/">
+  <head>
+    <title>Test 0257</title>
+  </head>
+  <body>
+    <span about="#a" property="dc:title"></span>
+  </body>
+</html>`);
+      await expect(arrayifyStream(parser.import(stream))).resolves.toBeRdfIsomorphic([
+        quad('http://example.org/#a', 'http://purl.org/dc/elements/1.1/title', '""'),
+      ]);
+    });
+
+    it('should parse another stream', async() => {
+      const stream = streamifyString(`<html prefix="foaf: http://xmlns.com/foaf/0.1/">
+   <head>
+      <title>Test 0066</title>
+   </head>
+   <body typeof="foaf:Document" property="foaf:name">
+      <p>This is test #66.</p>
+   </body>
+</html>`);
+      await expect(arrayifyStream(parser.import(stream))).resolves.toBeRdfIsomorphic([
+        quad('http://example.org/', 'http://www.w3.org/1999/02/22-rdf-syntax-ns#type', 'http://xmlns.com/foaf/0.1/Document'),
+        quad('http://example.org/', 'http://xmlns.com/foaf/0.1/name', 'http://example.org/'),
+      ]);
+    });
+
+    it('should forward error events', async() => {
+      const stream = new PassThrough();
+      stream._read = () => stream.emit('error', new Error('my error'));
+      await expect(arrayifyStream(parser.import(stream))).rejects.toThrow(new Error('my error'));
+    });
+
+    it('should pause the stream while the quads are not consumed', async() => {
+      const stream = new PassThrough();
+      for (let i = 0; i < 1000; i++) {
+        stream.write(`<p about="#s${i}" property="http://ex.org/p">${i}</p>`);
+      }
+      stream.end();
+      const quads = parser.import(stream);
+      await new Promise(setImmediate);
+      expect(stream.isPaused()).toBe(true);
+      expect(stream.readableEnded).toBe(false);
+
+      await expect(arrayifyStream(quads)).resolves.toHaveLength(1000);
+    });
+
+    it('should parse streams that can not be paused', async() => {
+      const stream = new EventEmitter();
+      const quads = parser.import(stream);
+      for (let i = 0; i < 1000; i++) {
+        stream.emit('data', `<p about="#s${i}" property="http://ex.org/p">${i}</p>`);
+      }
+      const promise = arrayifyStream(quads);
+      await new Promise(setImmediate);
+      stream.emit('end');
+
+      await expect(promise).resolves.toHaveLength(1000);
+    });
+  });
+
+  describe('#getResponseOptions', () => {
+    function createResponse(url: string, headers: Record<string, string>): Response {
+      const response = new Response(null, { headers });
+      Object.defineProperty(response, 'url', { value: url });
+      return response;
+    }
+
+    it('should derive options from a WHATWG response', () => {
+      expect(RdfaParser.getResponseOptions(createResponse('http://ex.org/a', {
+        'Content-Type': 'application/xhtml+xml; charset=windows-1252',
+        'Content-Language': 'en-US',
+      }))).toEqual({
+        baseIRI: 'http://ex.org/a',
+        contentType: 'application/xhtml+xml; charset=windows-1252',
+        language: 'en-US',
+      });
+    });
+
+    it('should derive no options from a response without metadata', () => {
+      expect(RdfaParser.getResponseOptions(createResponse('', {}))).toEqual({});
+    });
+
+    it('should resolve the Content-Location against the final URL', () => {
+      expect(RdfaParser.getResponseOptions(createResponse('http://ex.org/a/b', {
+        'Content-Location': '../c.en.html',
+      }))).toEqual({ baseIRI: 'http://ex.org/c.en.html' });
+    });
+
+    it('should only use an absolute Content-Location without a final URL', () => {
+      expect(RdfaParser.getResponseOptions(createResponse('', { 'Content-Location': 'http://ex.org/c' })))
+        .toEqual({ baseIRI: 'http://ex.org/c' });
+      expect(RdfaParser.getResponseOptions(createResponse('', { 'Content-Location': 'c' }))).toEqual({});
+    });
+
+    it('should ignore a Content-Language with multiple languages', () => {
+      expect(RdfaParser.getResponseOptions(createResponse('', { 'Content-Language': 'en, nl' }))).toEqual({});
+      expect(RdfaParser.getResponseOptions(createResponse('', { 'Content-Language': ' nl , ' })))
+        .toEqual({ language: 'nl' });
+    });
+
+    it('should derive options from a Node.js response', () => {
+      expect(RdfaParser.getResponseOptions(createIncomingMessage([], {
+        'content-type': 'text/html',
+        'content-location': 'c',
+        'content-language': [ 'nl' ],
+      }, { responseUrl: 'http://ex.org/a', url: '' }))).toEqual({
+        baseIRI: 'http://ex.org/c',
+        contentType: 'text/html',
+        language: 'nl',
+      });
+    });
+
+    it('should ignore the URL of Node.js responses that is not absolute', () => {
+      expect(RdfaParser.getResponseOptions(createIncomingMessage([], {}, { url: '/a' }))).toEqual({});
+      expect(RdfaParser.getResponseOptions(createIncomingMessage([], {}, { url: 'http://ex.org/a' })))
+        .toEqual({ baseIRI: 'http://ex.org/a' });
+    });
+  });
+
+  describe('#fromResponse', () => {
+    const html = `<html><head><meta charset="utf-8"></head><body>
+  <p about="#a" property="http://ex.org/p">é</p>
+</body></html>`;
+    const quads = [
+      quad('http://ex.org/doc#a', 'http://ex.org/p', '"é"@nl'),
+    ];
+
+    function createResponse(body: BodyInit | null, headers: Record<string, string>): Response {
+      const response = new Response(body, { headers });
+      Object.defineProperty(response, 'url', { value: 'http://ex.org/doc' });
+      return response;
+    }
+
+    it('should parse a WHATWG response', async() => {
+      await expect(arrayifyStream(RdfaParser.fromResponse(createResponse(html, {
+        'Content-Type': 'text/html',
+        'Content-Language': 'nl',
+      })))).resolves.toBeRdfIsomorphic(quads);
+    });
+
+    it('should parse a WHATWG response with the charset of its content type', async() => {
+      await expect(arrayifyStream(RdfaParser.fromResponse(createResponse(new Uint8Array([
+        ...Buffer.from('<p about="#a" property="http://ex.org/p">'),
+        0xE9,
+        ...Buffer.from('</p>'),
+      ]), {
+        'Content-Type': 'text/html; charset=iso-8859-1',
+        'Content-Language': 'nl',
+      })))).resolves.toBeRdfIsomorphic(quads);
+    });
+
+    it('should parse a WHATWG response in chunks that exceed the write buffer', async() => {
+      const text = 'a'.repeat(20_000);
+      const body = new ReadableStream<Uint8Array>({
+        start(controller) {
+          for (let i = 0; i < 3; i++) {
+            controller.enqueue(Buffer.from(`<p property="http://ex.org/p">${text}</p>`));
+          }
+          controller.close();
+        },
+      });
+      await expect(arrayifyStream(RdfaParser.fromResponse(createResponse(body, {})))).resolves.toBeRdfIsomorphic([
+        quad('http://ex.org/doc', 'http://ex.org/p', `"${text}"`),
+        quad('http://ex.org/doc', 'http://ex.org/p', `"${text}"`),
+        quad('http://ex.org/doc', 'http://ex.org/p', `"${text}"`),
+      ]);
+    });
+
+    it('should parse a WHATWG response without body', async() => {
+      await expect(arrayifyStream(RdfaParser.fromResponse(createResponse(null, {})))).resolves.toEqual([]);
+    });
+
+    it('should forward errors of the body of a WHATWG response', async() => {
+      const body = new ReadableStream<Uint8Array>({
+        start(controller) {
+          controller.error(new Error('my error'));
+        },
+      });
+      await expect(arrayifyStream(RdfaParser.fromResponse(createResponse(body, {}))))
+        .rejects.toThrow(new Error('my error'));
+    });
+
+    it('should cancel the body of a WHATWG response when parsing is aborted', async() => {
+      const cancel = jest.fn();
+      const body = new ReadableStream<Uint8Array>({ cancel });
+      const controller = new AbortController();
+      const parser = RdfaParser.fromResponse(createResponse(body, {}), { signal: controller.signal });
+      parser.write('<p>');
+      controller.abort();
+      await expect(arrayifyStream(parser)).rejects.toThrow(AbortError);
+      expect(cancel).toHaveBeenCalledTimes(1);
+    });
+
+    it('should let options override the options derived from the response', async() => {
+      await expect(arrayifyStream(RdfaParser.fromResponse(createResponse(html, {
+        'Content-Type': 'text/html',
+        'Content-Language': 'nl',
+      }), { baseIRI: 'http://ex.org/other', language: 'en' }))).resolves.toBeRdfIsomorphic([
+        quad('http://ex.org/other#a', 'http://ex.org/p', '"é"@en'),
+      ]);
+    });
+
+    it('should parse a Node.js response', async() => {
+      await expect(arrayifyStream(RdfaParser.fromResponse(createIncomingMessage([ Buffer.from(html) ], {
+        'content-type': 'text/html',
+        'content-language': 'nl',
+      }, { responseUrl: 'http://ex.org/doc' })))).resolves.toBeRdfIsomorphic(quads);
+    });
+
+    it('should parse a compressed Node.js response', async() => {
+      for (const [ encoding, body ] of <[string, Buffer][]> [
+        [ 'gzip', gzipSync(html) ],
+        [ 'x-gzip', gzipSync(html) ],
+        [ 'deflate', deflateSync(html) ],
+        [ 'br', brotliCompressSync(html) ],
+        [ 'identity', Buffer.from(html) ],
+        [ 'gzip, br', brotliCompressSync(gzipSync(html)) ],
+      ]) {
+        await expect(arrayifyStream(RdfaParser.fromResponse(createIncomingMessage([ body ], {
+          'content-encoding': encoding,
+          'content-language': 'nl',
+        }, { responseUrl: 'http://ex.org/doc' })))).resolves.toBeRdfIsomorphic(quads);
+      }
+    });
+
+    it('should parse an empty compressed Node.js response', async() => {
+      for (const encoding of [ 'gzip', 'deflate', 'br', 'gzip, br' ]) {
+        await expect(arrayifyStream(RdfaParser.fromResponse(createIncomingMessage([ Buffer.alloc(0) ], {
+          'content-encoding': encoding,
+        }, { responseUrl: 'http://ex.org/doc' })))).resolves.toEqual([]);
+      }
+    });
+
+    it('should emit an error for an unsupported content encoding', async() => {
+      await expect(arrayifyStream(RdfaParser.fromResponse(createIncomingMessage([ Buffer.from(html) ], {
+        'content-encoding': 'compress',
+      })))).rejects.toThrow(new Error('Unsupported content encoding: compress'));
+    });
+
+    it('should forward errors of the body of a Node.js response', async() => {
+      const response = createIncomingMessage([], {});
+      response._read = () => response.emit('error', new Error('my error'));
+      await expect(arrayifyStream(RdfaParser.fromResponse(response))).rejects.toThrow(new Error('my error'));
+    });
+
+    it('should forward decompression errors of a Node.js response', async() => {
+      await expect(arrayifyStream(RdfaParser.fromResponse(createIncomingMessage([ Buffer.from(html) ], {
+        'content-encoding': 'gzip',
+      })))).rejects.toThrow('incorrect header check');
+    });
+  });
+});
+
+function parse(parser: RdfaParser, input: string): Promise<RDF.Quad[]> {
+  return arrayifyStream(streamifyString(input).pipe(parser));
+}
+
+function createIncomingMessage(
+  chunks: Buffer[],
+  headers: Record<string, string | string[]>,
+  properties: { url?: string; responseUrl?: string } = {},
+): PassThrough & IRdfaIncomingMessage {
+  const response = Object.assign(new PassThrough(), { headers, ...properties });
+  for (const chunk of chunks) {
+    response.write(chunk);
+  }
+  if (chunks.length > 0) {
+    response.end();
+  }
+  return response;
 }
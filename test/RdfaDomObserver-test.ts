@@ -0,0 +1,329 @@
+import type * as RDF from '@rdfjs/types';
+import type { ChildNode, Document, Element, ParentNode, Text } from 'domhandler';
+import { parseDocument } from 'htmlparser2';
+import 'jest-rdf';
+import type { IRdfaMutationRecord } from '../lib/RdfaDomObserver';
+import { RdfaDomObserver } from '../lib/RdfaDomObserver';
+
+const quad = require('rdf-quad');
+
+class FakeMutationObserver {
+  public static instances: FakeMutationObserver[] = [];
+
+  public readonly callback: (records: IRdfaMutationRecord[]) => void;
+  public readonly observe = jest.fn();
+  public readonly disconnect = jest.fn();
+
+  public constructor(callback: (records: IRdfaMutationRecord[]) => void) {
+    this.callback = callback;
+    FakeMutationObserver.instances.push(this);
+  }
+}
+
+describe('RdfaDomObserver', () => {
+  let changes: { added: RDF.Quad[]; removed: RDF.Quad[] }[];
+  let observer: RdfaDomObserver;
+  let document: Document;
+
+  function findElement(node: ChildNode | Document, id: string): Element {
+    const nodes: (ChildNode | Document)[] = [ node ];
+    for (let current = nodes.pop(); current; current = nodes.pop()) {
+      if ('attribs' in current && current.attribs.id === id) {
+        return current;
+      }
+      if ('children' in current) {
+        nodes.push(...current.children);
+      }
+    }
+    throw new Error(`No element with id ${id}`);
+  }
+
+  function createElement(html: string): Element {
+    return <Element> parseDocument(html).children[0];
+  }
+
+  function appendChild(parent: ParentNode, child: ChildNode): IRdfaMutationRecord {
+    child.parent = parent;
+    parent.children.push(child);
+    return { type: 'childList', target: parent, addedNodes: [ child ], removedNodes: []};
+  }
+
+  function removeChild(child: ChildNode): IRdfaMutationRecord {
+    const parent = child.parent!;
+    parent.children.splice(parent.children.indexOf(child), 1);
+    child.parent = null;
+    return { type: 'childList', target: parent, addedNodes: [], removedNodes: [ child ]};
+  }
+
+  function setAttribute(element: Element, name: string, value: string): IRdfaMutationRecord {
+    const oldValue = element.attribs[name];
+    element.attribs[name] = value;
+    return { type: 'attributes', target: element, attributeName: name, oldValue };
+  }
+
+  function setText(text: Text, data: string): IRdfaMutationRecord {
+    text.data = data;
+    return { type: 'characterData', target: text };
+  }
+
+  function mutate(...records: IRdfaMutationRecord[]): void {
+    FakeMutationObserver.instances[FakeMutationObserver.instances.length - 1].callback(records);
+  }
+
+  beforeEach(() => {
+    FakeMutationObserver.instances = [];
+    changes = [];
+    observer = new RdfaDomObserver(
+      (added, removed) => changes.push({ added, removed }),
+      { baseIRI: 'http://ex.org/', profile: 'html', mutationObserverClass: FakeMutationObserver },
+    );
+    document = parseDocument(`<html><head id="head"></head><body prefix="ex: http://ex.org/">
+<div id="person" about="#me">
+  <span id="name" property="ex:name">Ruben</span>
+  <div id="extra"></div>
+</div>
+<p id="description" property="ex:description"><span id="inner">a</span> text</p>
+</body></html>`);
+  });
+
+  describe('#observe', () => {
+    it('should throw without a MutationObserver', () => {
+      expect(() => new RdfaDomObserver(jest.fn()).observe(document))
+        .toThrow(new Error(
+          'No MutationObserver is available, one must be provided via the mutationObserverClass option',
+        ));
+    });
+
+    it('should use the global MutationObserver by default', () => {
+      (<any> globalThis).MutationObserver = FakeMutationObserver;
+      try {
+        new RdfaDomObserver(jest.fn()).observe(document);
+        expect(FakeMutationObserver.instances).toHaveLength(1);
+      } finally {
+        delete (<any> globalThis).MutationObserver;
+      }
+    });
+
+    it('should report all initial quads as added', () => {
+      observer.observe(document);
+      expect(FakeMutationObserver.instances[0].observe).toHaveBeenCalledWith(document, {
+        attributeOldValue: true,
+        attributes: true,
+        characterData: true,
+        childList: true,
+        subtree: true,
+      });
+      expect(changes).toHaveLength(1);
+      expect(changes[0].removed).toHaveLength(0);
+      expect(changes[0].added).toBeRdfIsomorphic([
+        quad('http://ex.org/#me', 'http://ex.org/name', '"Ruben"'),
+        quad('http://ex.org/', 'http://ex.org/description', '"a text"'),
+      ]);
+      expect(observer.quads).toBeRdfIsomorphic(changes[0].added);
+    });
+
+    it('should not report anything for a root without quads', () => {
+      observer.observe(parseDocument('<p>a</p>'));
+      expect(changes).toHaveLength(0);
+    });
+
+    it('should disconnect from a previous root', () => {
+      observer.observe(document);
+      observer.observe(parseDocument('<p>a</p>'));
+      expect(FakeMutationObserver.instances[0].disconnect).toHaveBeenCalledTimes(1);
+      expect(observer.quads).toHaveLength(0);
+    });
+  });
+
+  describe('#disconnect', () => {
+    it('should do nothing if not observing', () => {
+      expect(() => observer.disconnect()).not.toThrow();
+    });
+
+    it('should ignore further mutations', () => {
+      observer.observe(document);
+      observer.disconnect();
+      expect(FakeMutationObserver.instances[0].disconnect).toHaveBeenCalledTimes(1);
+      const span = createElement('<span property="ex:p">b</span>');
+      observer.handleMutations([ appendChild(findElement(document, 'extra'), span) ]);
+      expect(changes).toHaveLength(1);
+      expect(observer.quads).toHaveLength(0);
+    });
+  });
+
+  describe('#handleMutations', () => {
+    beforeEach(() => {
+      observer.observe(document);
+      changes = [];
+    });
+
+    it('should report quads of added elements using the context of their ancestors', () => {
+      mutate(appendChild(findElement(document, 'extra'), createElement('<span property="ex:age">30</span>')));
+      expect(changes).toHaveLength(1);
+      expect(changes[0].added).toBeRdfIsomorphic([
+        quad('http://ex.org/#me', 'http://ex.org/age', '"30"'),
+      ]);
+      expect(changes[0].removed).toHaveLength(0);
+    });
+
+    it('should report quads of removed elements', () => {
+      mutate(removeChild(findElement(document, 'name')));
+      expect(changes).toHaveLength(1);
+      expect(changes[0].added).toHaveLength(0);
+      expect(changes[0].removed).toBeRdfIsomorphic([
+        quad('http://ex.org/#me', 'http://ex.org/name', '"Ruben"'),
+      ]);
+      expect(observer.quads).toBeRdfIsomorphic([
+        quad('http://ex.org/', 'http://ex.org/description', '"a text"'),
+      ]);
+    });
+
+    it('should report changed attributes', () => {
+      mutate(setAttribute(findElement(document, 'person'), 'about', '#you'));
+      expect(changes).toHaveLength(1);
+      expect(changes[0].added).toBeRdfIsomorphic([
+        quad('http://ex.org/#you', 'http://ex.org/name', '"Ruben"'),
+      ]);
+      expect(changes[0].removed).toBeRdfIsomorphic([
+        quad('http://ex.org/#me', 'http://ex.org/name', '"Ruben"'),
+      ]);
+    });
+
+    it('should report changed text', () => {
+      mutate(setText(<Text> findElement(document, 'name').children[0], 'Rubensworks'));
+      expect(changes).toHaveLength(1);
+      expect(changes[0].added).toBeRdfIsomorphic([
+        quad('http://ex.org/#me', 'http://ex.org/name', '"Rubensworks"'),
+      ]);
+      expect(changes[0].removed).toBeRdfIsomorphic([
+        quad('http://ex.org/#me', 'http://ex.org/name', '"Ruben"'),
+      ]);
+    });
+
+    it('should extract ancestors with a property attribute again when their text changes', () => {
+      mutate(setText(<Text> findElement(document, 'inner').children[0], 'b'));
+      expect(changes).toHaveLength(1);
+      expect(changes[0].added).toBeRdfIsomorphic([
+        quad('http://ex.org/', 'http://ex.org/description', '"b text"'),
+      ]);
+      expect(changes[0].removed).toBeRdfIsomorphic([
+        quad('http://ex.org/', 'http://ex.org/description', '"a text"'),
+      ]);
+    });
+
+    it('should not report mutations that do not change quads', () => {
+      mutate(appendChild(findElement(document, 'extra'), createElement('<span>b</span>')));
+      expect(changes).toHaveLength(0);
+    });
+
+    it('should keep quads that are still produced by other elements', () => {
+      mutate(appendChild(findElement(document, 'extra'), createElement('<span property="ex:name">Ruben</span>')));
+      expect(changes).toHaveLength(0);
+      mutate(removeChild(findElement(document, 'name')));
+      expect(changes).toHaveLength(0);
+      expect(observer.quads).toHaveLength(2);
+    });
+
+    it('should handle multiple mutations in a single batch', () => {
+      const span = createElement('<span property="ex:age">30</span>');
+      mutate(
+        appendChild(findElement(document, 'extra'), span),
+        setAttribute(span, 'property', 'ex:years'),
+        removeChild(findElement(document, 'description')),
+      );
+      expect(changes).toHaveLength(1);
+      expect(changes[0].added).toBeRdfIsomorphic([
+        quad('http://ex.org/#me', 'http://ex.org/years', '"30"'),
+      ]);
+      expect(changes[0].removed).toBeRdfIsomorphic([
+        quad('http://ex.org/', 'http://ex.org/description', '"a text"'),
+      ]);
+    });
+
+    it('should handle mutations of elements that were added and removed again', () => {
+      const span = createElement('<span property="ex:age">30</span>');
+      const added = appendChild(findElement(document, 'extra'), span);
+      const changed = setAttribute(span, 'property', 'ex:years');
+      const removed = removeChild(span);
+      mutate(added, changed, removed);
+      expect(changes).toHaveLength(0);
+    });
+
+    it('should handle elements that were added before they were observed', () => {
+      const span = createElement('<span property="ex:age">30</span>');
+      appendChild(findElement(document, 'extra'), span);
+      mutate(setAttribute(span, 'property', 'ex:years'));
+      expect(changes[0].added).toBeRdfIsomorphic([
+        quad('http://ex.org/#me', 'http://ex.org/years', '"30"'),
+      ]);
+      mutate(removeChild(findElement(document, 'person')));
+      expect(changes[1].removed).toBeRdfIsomorphic([
+        quad('http://ex.org/#me', 'http://ex.org/name', '"Ruben"'),
+        quad('http://ex.org/#me', 'http://ex.org/years', '"30"'),
+      ]);
+    });
+
+    it('should extract the whole root again when a base element is added', () => {
+      const head = findElement(document, 'head');
+      mutate(appendChild(head, createElement('<base href="http://base.org/">')));
+      expect(changes).toHaveLength(1);
+      expect(changes[0].added).toBeRdfIsomorphic([
+        quad('http://base.org/#me', 'http://ex.org/name', '"Ruben"'),
+        quad('http://base.org/', 'http://ex.org/description', '"a text"'),
+      ]);
+      expect(changes[0].removed).toHaveLength(2);
+    });
+
+    it('should extract the whole root again when a list changes', () => {
+      mutate(appendChild(findElement(document, 'extra'), createElement('<span property="ex:list" inlist>b</span>')));
+      expect(changes).toHaveLength(1);
+      expect(changes[0].added).toHaveLength(3);
+      mutate(setText(<Text> (<Element> findElement(document, 'extra').children[0]).children[0], 'c'));
+      expect(changes).toHaveLength(2);
+    });
+
+    it('should extract the whole root again when a pattern attribute changes', () => {
+      const person = findElement(document, 'person');
+      mutate(setAttribute(person, 'typeof', 'rdfa:Pattern'));
+      expect(changes).toHaveLength(1);
+      mutate(setAttribute(person, 'typeof', 'ex:Person'));
+      expect(changes).toHaveLength(2);
+      expect(changes[1].added).toBeRdfIsomorphic([
+        quad('http://ex.org/#me', 'http://www.w3.org/1999/02/22-rdf-syntax-ns#type', 'http://ex.org/Person'),
+      ]);
+      expect(changes[1].removed).toBeRdfIsomorphic([
+        quad('http://ex.org/#me', 'http://www.w3.org/1999/02/22-rdf-syntax-ns#type', 'http://www.w3.org/ns/rdfa#Pattern'),
+      ]);
+    });
+
+    it('should extract the whole root again when an inlist attribute changes', () => {
+      mutate(setAttribute(findElement(document, 'name'), 'inlist', ''));
+      expect(changes).toHaveLength(1);
+      expect(changes[0].removed).toBeRdfIsomorphic([
+        quad('http://ex.org/#me', 'http://ex.org/name', '"Ruben"'),
+      ]);
+    });
+
+    it('should report quads with blank nodes in changed subtrees as removed and added again', () => {
+      const span = createElement('<span rel="ex:knows"><span typeof="ex:Person"></span></span>');
+      mutate(appendChild(findElement(document, 'extra'), span));
+      expect(changes[0].added).toHaveLength(2);
+      mutate(setAttribute(findElement(document, 'extra'), 'class', 'changed'));
+      expect(changes[1].added).toHaveLength(2);
+      expect(changes[1].removed).toHaveLength(2);
+    });
+  });
+
+  describe('#getTermKey', () => {
+    it('should distinguish literals by language and datatype', () => {
+      const a = quad('http://ex.org/s', 'http://ex.org/p', '"a"@en');
+      const b = quad('http://ex.org/s', 'http://ex.org/p', '"a"');
+      expect(RdfaDomObserver.getQuadKey(a)).not.toBe(RdfaDomObserver.getQuadKey(b));
+    });
+
+    it('should support quoted triples', () => {
+      const a = quad('http://ex.org/s', 'http://ex.org/p', '"a"');
+      expect(RdfaDomObserver.getTermKey(a)).toBe(`<<${RdfaDomObserver.getQuadKey(a)}>>`);
+    });
+  });
+});
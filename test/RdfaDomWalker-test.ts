@@ -0,0 +1,252 @@
+import type * as RDF from '@rdfjs/types';
+import { arrayifyStream } from 'arrayify-stream';
+import type { ChildNode, Element } from 'domhandler';
+import { parseDocument } from 'htmlparser2';
+import 'jest-rdf';
+import type { IRdfaDomNode } from '../lib/RdfaDomWalker';
+import { RdfaDomWalker } from '../lib/RdfaDomWalker';
+import { RdfaLimitError } from '../lib/RdfaLimitError';
+import { RdfaParser } from '../lib/RdfaParser';
+import { VocabularyLoaderMemory } from '../lib/VocabularyLoaderMemory';
+
+const quad = require('rdf-quad');
+const streamifyString = require('streamify-string');
+
+describe('RdfaDomWalker', () => {
+  const html = `<html>
+<head><base href="http://base.org/"><title property="http://ex.org/title">Title</title></head>
+<body prefix="ex: http://ex.org/" lang="en">
+  <div about="#me" typeof="ex:Person">
+    <span id="name" property="ex:name">Ruben</span>
+    <p rel="ex:knows"><span about="#friend" property="ex:name">Friend</span></p>
+  </div>
+</body>
+</html>`;
+
+  function findElement(node: ChildNode, predicate: (element: Element) => boolean): Element | undefined {
+    if ('attribs' in node && predicate(node)) {
+      return node;
+    }
+    for (const child of 'children' in node ? node.children : []) {
+      const found = findElement(child, predicate);
+      if (found) {
+        return found;
+      }
+    }
+  }
+
+  function createDomLevel2Element(
+    tagName: string,
+    attributes: Record<string, string>,
+    childNodes: IRdfaDomNode[],
+  ): IRdfaDomNode {
+    const element: IRdfaDomNode = {
+      nodeType: 1,
+      tagName,
+      namespaceURI: RdfaDomWalker.XHTML_NAMESPACE,
+      attributes: Object.entries(attributes).map(([ name, value ]) => ({ name, value })),
+      childNodes,
+    };
+    for (const child of childNodes) {
+      child.parentNode = element;
+    }
+    return element;
+  }
+
+  it('should be constructable without options', () => {
+    expect(new RdfaDomWalker()).toBeInstanceOf(RdfaDomWalker);
+  });
+
+  describe('#parse', () => {
+    it('should produce the same quads as RdfaParser for a domhandler document', async() => {
+      const expected = await arrayifyStream(streamifyString(html).pipe(new RdfaParser({ profile: 'html' })));
+      expect(new RdfaDomWalker({ profile: 'html' }).parse(parseDocument(html))).toBeRdfIsomorphic(expected);
+    });
+
+    it('should walk DOM Level 2 nodes with uppercase HTML tag names', () => {
+      const document: IRdfaDomNode = {
+        nodeType: 9,
+        contentType: 'text/html',
+        childNodes: [
+          createDomLevel2Element('HTML', {}, [
+            createDomLevel2Element('BODY', {}, [
+              createDomLevel2Element('TIME', { about: 'http://ex.org/s', property: 'http://ex.org/p' }, [
+                { nodeType: 3, data: '2020-01-01' },
+                { nodeType: 8, data: 'comment' },
+              ]),
+            ]),
+          ]),
+        ],
+      };
+      expect(new RdfaDomWalker().parse(document)).toBeRdfIsomorphic([
+        quad('http://ex.org/s', 'http://ex.org/p', '"2020-01-01"^^http://www.w3.org/2001/XMLSchema#date'),
+      ]);
+    });
+
+    it('should take text of DOM Level 2 CDATA sections into account', () => {
+      const fragment: IRdfaDomNode = {
+        nodeType: 11,
+        childNodes: [
+          createDomLevel2Element('p', { about: 'http://ex.org/s', property: 'http://ex.org/p' }, [
+            { nodeType: 4, data: 'a<b' },
+          ]),
+        ],
+      };
+      expect(new RdfaDomWalker().parse(fragment)).toBeRdfIsomorphic([
+        quad('http://ex.org/s', 'http://ex.org/p', '"a<b"'),
+      ]);
+    });
+
+    it('should take text of domhandler CDATA sections into account', () => {
+      const document = parseDocument('<?xml version="1.0"?><root about="http://ex.org/s" property="http://ex.org/p"><![CDATA[a<b]]></root>', {
+        xmlMode: true,
+      });
+      expect(new RdfaDomWalker({ profile: 'xml' }).parse(document)).toBeRdfIsomorphic([
+        quad('http://ex.org/s', 'http://ex.org/p', '"a<b"'),
+      ]);
+    });
+
+    it('should derive the profile from the content type option', () => {
+      const document = parseDocument('<p about="http://ex.org/s" property="http://ex.org/p">a</p>');
+      expect((<any> new RdfaDomWalker({ contentType: 'text/html' })).getProcessorOptions(document).profile)
+        .toBe('html');
+      expect((<any> new RdfaDomWalker({ contentType: 'text/html', profile: 'core' })).getProcessorOptions(document)
+        .profile).toBe('core');
+    });
+
+    it('should throw when vocabulary expansion is enabled', () => {
+      const walker = new RdfaDomWalker({ vocabExpansion: true, vocabLoader: new VocabularyLoaderMemory({}) });
+      expect(() => walker.parse(parseDocument(html)))
+        .toThrow(new Error('Vocabulary expansion is not supported when parsing synchronously, use stream instead'));
+    });
+
+    it('should throw when a limit is exceeded', () => {
+      expect(() => new RdfaDomWalker({ limits: { maxQuads: 1 }}).parse(parseDocument(html)))
+        .toThrow(new RdfaLimitError('maxQuads', 1));
+    });
+
+    it('should walk deeply nested documents', () => {
+      const depth = 10_000;
+      const document = parseDocument(`${'<div>'.repeat(depth)}<p about="http://ex.org/s" property="http://ex.org/p">a</p>`);
+      expect(new RdfaDomWalker().parse(document)).toBeRdfIsomorphic([
+        quad('http://ex.org/s', 'http://ex.org/p', '"a"'),
+      ]);
+    });
+  });
+
+  describe('#parse for a subtree', () => {
+    it('should inherit the context of the ancestors', () => {
+      const document = parseDocument(html);
+      const name = findElement(document, element => element.attribs.id === 'name')!;
+      expect(new RdfaDomWalker({ profile: 'html' }).parse(name)).toBeRdfIsomorphic([
+        quad('http://base.org/#me', 'http://ex.org/name', '"Ruben"@en'),
+      ]);
+    });
+
+    it('should complete incomplete triples of ancestors', () => {
+      const document = parseDocument(html);
+      const friend = findElement(document, element => element.attribs.about === '#friend')!;
+      expect(new RdfaDomWalker({ profile: 'html' }).parse(friend)).toBeRdfIsomorphic([
+        quad('http://base.org/#me', 'http://ex.org/knows', 'http://base.org/#friend'),
+        quad('http://base.org/#friend', 'http://ex.org/name', '"Friend"@en'),
+      ]);
+    });
+
+    it('should not inherit the context if disabled', () => {
+      const document = parseDocument(html);
+      const name = findElement(document, element => element.attribs.id === 'name')!;
+      expect(new RdfaDomWalker({ profile: 'html', baseIRI: 'http://ex.org/', inheritContext: false }).parse(name))
+        .toBeRdfIsomorphic([
+          quad('http://ex.org/', 'ex:name', '"Ruben"'),
+        ]);
+    });
+
+    it('should process a base element within the subtree as usual', () => {
+      const document = parseDocument(html);
+      const title = findElement(document, element => element.name === 'title')!;
+      expect(new RdfaDomWalker({ profile: 'html', baseIRI: 'http://ex.org/' }).parse(title)).toBeRdfIsomorphic([
+        quad('http://ex.org/', 'http://ex.org/title', '"Title"'),
+      ]);
+    });
+
+    it('should not require a head element', () => {
+      const document = parseDocument('<div about="http://ex.org/s"><p property="http://ex.org/p">a</p></div>');
+      const p = findElement(document, element => element.name === 'p')!;
+      expect(new RdfaDomWalker().parse(p)).toBeRdfIsomorphic([
+        quad('http://ex.org/s', 'http://ex.org/p', '"a"'),
+      ]);
+    });
+  });
+
+  describe('#extract', () => {
+    it('should emit quads with the element that produced them, and walked elements with their parent', () => {
+      const document = parseDocument(html);
+      const div = findElement(document, element => element.attribs.about === '#me')!;
+      const name = findElement(document, element => element.attribs.id === 'name')!;
+      const onQuad = jest.fn();
+      const onElement = jest.fn();
+      new RdfaDomWalker({ profile: 'html' }).extract(div, { onQuad, onElement });
+      expect(onQuad).toHaveBeenCalledWith(quad('http://base.org/#me', 'http://ex.org/name', '"Ruben"@en'), name);
+      expect(onElement).toHaveBeenCalledWith(div, undefined);
+      expect(onElement).toHaveBeenCalledWith(name, div);
+      expect(onElement).toHaveBeenCalledTimes(4);
+    });
+  });
+
+  describe('#stream', () => {
+    it('should produce the same quads as #parse', async() => {
+      const document = parseDocument(html);
+      await expect(arrayifyStream(new RdfaDomWalker({ profile: 'html' }).stream(document))).resolves
+        .toBeRdfIsomorphic(new RdfaDomWalker({ profile: 'html' }).parse(document));
+    });
+
+    it('should walk lazily as quads are being read', async() => {
+      const document = parseDocument(
+        [ ...Array.from({ length: 100 }).keys() ].map(i => `<p about="http://ex.org/s" property="http://ex.org/p">${i}</p>`).join(''),
+      );
+      const stream = <any> new RdfaDomWalker().stream(document);
+      const quads: RDF.Quad[] = [];
+      await new Promise(resolve => stream.once('readable', resolve));
+      expect(stream.readableLength).toBeLessThan(100);
+      for await (const value of stream) {
+        quads.push(value);
+      }
+      expect(quads).toHaveLength(100);
+    });
+
+    it('should emit quads entailed by vocabulary expansion', async() => {
+      const document = parseDocument('<p vocab="http://ex.org/vocab#" property="p">a</p>');
+      const walker = new RdfaDomWalker({
+        baseIRI: 'http://ex.org/',
+        vocabExpansion: true,
+        vocabLoader: new VocabularyLoaderMemory({
+          'http://ex.org/vocab#': [
+            quad('http://ex.org/vocab#p', 'http://www.w3.org/2000/01/rdf-schema#subPropertyOf', 'http://ex.org/vocab#q'),
+          ],
+        }),
+      });
+      await expect(arrayifyStream(walker.stream(document))).resolves.toBeRdfIsomorphic([
+        quad('http://ex.org/', 'http://www.w3.org/ns/rdfa#usesVocabulary', 'http://ex.org/vocab#'),
+        quad('http://ex.org/', 'http://ex.org/vocab#p', '"a"'),
+        quad('http://ex.org/', 'http://ex.org/vocab#q', '"a"'),
+      ]);
+    });
+
+    it('should emit an error when a limit is exceeded', async() => {
+      await expect(arrayifyStream(new RdfaDomWalker({ limits: { maxQuads: 1 }}).stream(parseDocument(html))))
+        .rejects.toThrow(new RdfaLimitError('maxQuads', 1));
+    });
+
+    it('should emit an error when finishing fails', async() => {
+      const walker = new RdfaDomWalker({
+        processorGraphStream: {
+          write: jest.fn(),
+          end() {
+            throw new Error('End failed');
+          },
+        },
+      });
+      await expect(arrayifyStream(walker.stream(parseDocument('<p></p>')))).rejects.toThrow(new Error('End failed'));
+    });
+  });
+});
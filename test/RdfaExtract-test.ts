@@ -0,0 +1,191 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { PassThrough } from 'node:stream';
+import { pathToFileURL } from 'node:url';
+import { resolveFiles, runRdfaExtract, USAGE } from '../lib/RdfaExtract';
+
+describe('runRdfaExtract', () => {
+  let directory: string;
+  let stdin: PassThrough;
+  let stdout: PassThrough;
+  let stderr: PassThrough;
+  let out: string;
+  let err: string;
+
+  beforeAll(() => {
+    directory = mkdtempSync(join(tmpdir(), 'rdfa-extract-'));
+    mkdirSync(join(directory, 'pages'));
+    writeFileSync(join(directory, 'pages', 'a.html'), `<html><body>
+  <div about="#a" property="http://ex.org/p">A</div>
+</body></html>`);
+    writeFileSync(join(directory, 'pages', 'b.html'), `<html><body>
+  <div about="#b" property="http://ex.org/p" lang="en">B</div>
+</body></html>`);
+    writeFileSync(join(directory, 'image.svg'), `<svg xmlns="http://www.w3.org/2000/svg">
+  <metadata about="#c" property="http://ex.org/p" content="C" />
+</svg>`);
+    writeFileSync(join(directory, 'title.html'), `<html><head><title property="title">T</title></head></html>`);
+  });
+
+  beforeEach(() => {
+    stdin = new PassThrough();
+    stdout = new PassThrough();
+    stderr = new PassThrough();
+    out = '';
+    err = '';
+    stdout.on('data', (data: Buffer) => out += data.toString());
+    stderr.on('data', (data: Buffer) => err += data.toString());
+  });
+
+  afterAll(() => {
+    rmSync(directory, { recursive: true });
+  });
+
+  function run(...args: string[]): Promise<number> {
+    return runRdfaExtract(args, stdin, stdout, stderr);
+  }
+
+  function fileIri(...path: string[]): string {
+    return pathToFileURL(join(directory, ...path)).href;
+  }
+
+  it('should print the usage with --help', async() => {
+    await expect(run('--help')).resolves.toBe(0);
+    expect(out).toBe(USAGE);
+  });
+
+  it('should fail on an unknown option', async() => {
+    await expect(run('--unknown')).resolves.toBe(1);
+    expect(err).toContain(`Unknown option '--unknown'`);
+    expect(err).toContain(USAGE);
+  });
+
+  it('should fail on an unknown format', async() => {
+    await expect(run('-f', 'rdf/xml')).resolves.toBe(1);
+    expect(err).toBe(`Unsupported format 'rdf/xml', must be one of n-triples, n-quads, turtle, json-ld\n`);
+  });
+
+  it('should fail on an unknown profile', async() => {
+    await expect(run('--profile', 'foo')).resolves.toBe(1);
+    expect(err).toBe(`Unsupported profile 'foo', must be one of core, html, xhtml, xml\n${USAGE}`);
+    expect(out).toBe('');
+  });
+
+  it('should extract from a file as N-Quads', async() => {
+    await expect(run(join(directory, 'pages', 'a.html'))).resolves.toBe(0);
+    expect(out).toBe(`<${fileIri('pages', 'a.html')}#a> <http://ex.org/p> "A" .\n`);
+  });
+
+  it('should extract from multiple files', async() => {
+    await expect(run(join(directory, 'pages', 'a.html'), join(directory, 'pages', 'b.html'))).resolves.toBe(0);
+    expect(out).toBe(`<${fileIri('pages', 'a.html')}#a> <http://ex.org/p> "A" .
+<${fileIri('pages', 'b.html')}#b> <http://ex.org/p> "B"@en .
+`);
+  });
+
+  it('should extract from files matching a glob', async() => {
+    await expect(run(join(directory, 'pages', '*.html').replace(/\\/gu, '/'))).resolves.toBe(0);
+    expect(out).toBe(`<${fileIri('pages', 'a.html')}#a> <http://ex.org/p> "A" .
+<${fileIri('pages', 'b.html')}#b> <http://ex.org/p> "B"@en .
+`);
+  });
+
+  it('should fail on a glob without matches', async() => {
+    const pattern = join(directory, 'pages', '*.xhtml').replace(/\\/gu, '/');
+    await expect(run(pattern)).resolves.toBe(1);
+    expect(err).toBe(`No files matched the pattern ${pattern}\n`);
+  });
+
+  it('should fail on a missing file', async() => {
+    await expect(run(join(directory, 'missing.html'))).resolves.toBe(1);
+    expect(err).toMatch(/ENOENT/u);
+  });
+
+  it('should determine the content type from the file extension', async() => {
+    await expect(run(join(directory, 'image.svg'))).resolves.toBe(0);
+    expect(out).toBe(`<${fileIri('image.svg')}#c> <http://ex.org/p> "C" .\n`);
+  });
+
+  it('should extract from stdin', async() => {
+    stdin.end(`<div about="http://ex.org/s" property="http://ex.org/p">A</div>`);
+    await expect(run()).resolves.toBe(0);
+    expect(out).toBe(`<http://ex.org/s> <http://ex.org/p> "A" .\n`);
+  });
+
+  it('should extract from stdin via -', async() => {
+    stdin.end(`<div about="#s" property="http://ex.org/p">A</div>`);
+    await expect(run('-', '--base', 'http://ex.org/')).resolves.toBe(0);
+    expect(out).toBe(`<http://ex.org/#s> <http://ex.org/p> "A" .\n`);
+  });
+
+  it('should detect the profile from stdin', async() => {
+    stdin.end(`<svg><metadata about="http://ex.org/s" property="http://ex.org/p">A<br>B</metadata></svg>`);
+    await expect(run()).resolves.toBe(0);
+    expect(out).toBe(`<http://ex.org/s> <http://ex.org/p> "AB" .\n`);
+  });
+
+  it('should pass parser options', async() => {
+    stdin.end(`<html><head><title property="title">T</title></head><body about="">
+  <span property="name">N</span>
+</body></html>`);
+    await expect(run(
+      '--base',
+      'http://ex.org/',
+      '--content-type',
+      'text/html',
+      '--language',
+      'nl',
+      '--vocab',
+      'http://schema.org/',
+      '--graph',
+      'http://ex.org/g',
+    )).resolves.toBe(0);
+    expect(out).toBe(`<http://ex.org/> <http://schema.org/title> "T"@nl <http://ex.org/g> .
+<http://ex.org/> <http://schema.org/name> "N"@nl <http://ex.org/g> .
+`);
+  });
+
+  it('should not override the profile by the file extension', async() => {
+    await expect(run(join(directory, 'title.html'), '--profile', 'core', '--vocab', 'http://ex.org/')).resolves.toBe(0);
+    expect(out).toBe(`<${fileIri('title.html')}> <http://ex.org/title> "T" .\n`);
+  });
+
+  it('should write N-Triples', async() => {
+    await expect(run(join(directory, 'pages', 'a.html'), '--format', 'n-triples')).resolves.toBe(0);
+    expect(out).toBe(`<${fileIri('pages', 'a.html')}#a> <http://ex.org/p> "A" .\n`);
+  });
+
+  it('should write Turtle', async() => {
+    await expect(run(join(directory, 'pages', 'a.html'), '-f', 'turtle')).resolves.toBe(0);
+    expect(out).toBe(`<${fileIri('pages', 'a.html')}#a> <http://ex.org/p> "A".\n`);
+  });
+
+  it('should fail when writing quads in a named graph as Turtle', async() => {
+    await expect(run(join(directory, 'pages', 'a.html'), '-f', 'turtle', '--graph', 'http://ex.org/g'))
+      .resolves.toBe(1);
+    expect(err).toBe(`The --graph option can not be used with the turtle format\n`);
+  });
+
+  it('should write JSON-LD', async() => {
+    await expect(run(join(directory, 'pages', 'a.html'), '-f', 'json-ld')).resolves.toBe(0);
+    expect(JSON.parse(out)).toEqual([
+      {
+        '@id': `${fileIri('pages', 'a.html')}#a`,
+        'http://ex.org/p': [{ '@value': 'A' }],
+      },
+    ]);
+  });
+
+  it('should fail when the output can not be written', async() => {
+    stdout.destroy();
+    await expect(run(join(directory, 'pages', 'a.html'), '-f', 'json-ld')).resolves.toBe(1);
+    expect(err).toBe('Cannot call write after a stream was destroyed\n');
+  });
+});
+
+describe('resolveFiles', () => {
+  it('should pass through stdin and plain paths', async() => {
+    await expect(resolveFiles([ '-', 'a.html' ])).resolves.toEqual([ '-', 'a.html' ]);
+  });
+});
@@ -0,0 +1,725 @@
+import type * as RDF from '@rdfjs/types';
+import { DataFactory } from 'rdf-data-factory';
+import 'jest-rdf';
+import { RdfaLimitError } from '../lib/RdfaLimitError';
+import type { IRdfaProcessorOptions } from '../lib/RdfaProcessor';
+import { RdfaProcessor } from '../lib/RdfaProcessor';
+import { RDFA_FEATURES } from '../lib/RdfaProfile';
+import { VocabularyLoaderMemory } from '../lib/VocabularyLoaderMemory';
+
+const quad = require('rdf-quad');
+
+const DF = new DataFactory();
+
+describe('RdfaProcessor', () => {
+  let quads: RDF.Quad[];
+  let processor: RdfaProcessor;
+
+  function createProcessor(options: IRdfaProcessorOptions = {}): RdfaProcessor {
+    return new RdfaProcessor({ onQuad: value => quads.push(value) }, { baseIRI: 'http://ex.org/', ...options });
+  }
+
+  beforeEach(() => {
+    quads = [];
+    processor = createProcessor();
+  });
+
+  it('should be constructable without options', () => {
+    const instance = new RdfaProcessor({ onQuad: jest.fn() });
+    expect(instance).toBeInstanceOf(RdfaProcessor);
+    expect((<any> instance).util.dataFactory).toBeInstanceOf(DataFactory);
+    expect((<any> instance).util.baseIRI).toEqualRdfTerm(DF.namedNode(''));
+    expect((<any> instance).defaultGraph).toBe(DF.defaultGraph());
+    expect((<any> instance).features).toBe(RDFA_FEATURES['']);
+  });
+
+  it('should allow a profile to be set', () => {
+    const instance = new RdfaProcessor({ onQuad: jest.fn() }, { profile: 'core' });
+    expect((<any> instance).features).toBe(RDFA_FEATURES.core);
+  });
+
+  it('should allow custom features to be set', () => {
+    const features: any = { a: 1 };
+    const instance = new RdfaProcessor({ onQuad: jest.fn() }, { profile: 'core', features });
+    expect((<any> instance).features).toBe(features);
+  });
+
+  it('should throw when the iriPolicy action is report without processor graph', () => {
+    expect(() => new RdfaProcessor({ onQuad: jest.fn() }, { iriPolicy: { action: 'report' }}))
+      .toThrow('A processorGraph or processorGraphStream must be provided when the iriPolicy action is report');
+  });
+
+  it('should not throw when the iriPolicy action is report with a processor graph stream', () => {
+    expect(() => new RdfaProcessor({ onQuad: jest.fn() }, {
+      iriPolicy: { action: 'report' },
+      processorGraphStream: { write: jest.fn(), end: jest.fn() },
+    })).not.toThrow();
+  });
+
+  it('should throw when vocabExpansion is enabled without a vocabLoader', () => {
+    expect(() => new RdfaProcessor({ onQuad: jest.fn() }, { vocabExpansion: true }))
+      .toThrow(new Error('A vocabLoader must be provided when vocabExpansion is enabled'));
+  });
+
+  it('should emit quads to the sink', () => {
+    processor.onTagOpen('div', { about: '#s' });
+    processor.onTagOpen('span', { property: 'http://ex.org/p' });
+    processor.onText('a');
+    processor.onText('b');
+    processor.onTagClose();
+    processor.onTagClose();
+    processor.onEnd();
+    expect(quads).toBeRdfIsomorphic([
+      quad('http://ex.org/#s', 'http://ex.org/p', '"ab"'),
+    ]);
+  });
+
+  it('should apply pending pattern copies once the pattern is defined', () => {
+    processor.onTagOpen('div', { resource: '#x' });
+    processor.onTagOpen('link', { property: 'rdfa:copy', href: '#pattern' });
+    processor.onTagClose();
+    processor.onTagClose();
+    processor.onTagOpen('div', { resource: '#pattern', typeof: 'rdfa:Pattern' });
+    processor.onTagOpen('span', { property: 'http://ex.org/p' });
+    processor.onText('a');
+    processor.onTagClose();
+    processor.onTagClose();
+    expect(quads).toBeRdfIsomorphic([
+      quad('http://ex.org/#x', 'http://ex.org/p', '"a"'),
+    ]);
+  });
+
+  it('should notify the sink of progress before each tag, including copied pattern tags', () => {
+    const onProgress = jest.fn();
+    processor = new RdfaProcessor({ onQuad: value => quads.push(value), onProgress }, { baseIRI: 'http://ex.org/' });
+    processor.onTagOpen('div', { resource: '#pattern', typeof: 'rdfa:Pattern' });
+    processor.onTagOpen('span', { property: 'http://ex.org/p' });
+    processor.onTagClose();
+    processor.onTagClose();
+    expect(onProgress).toHaveBeenCalledTimes(2);
+    processor.onTagOpen('div', { resource: '#x' });
+    processor.onTagOpen('link', { property: 'rdfa:copy', href: '#pattern' });
+    processor.onTagClose();
+    processor.onTagClose();
+    expect(onProgress).toHaveBeenCalledTimes(6);
+  });
+
+  it('should stop processing when the progress callback of the sink throws', () => {
+    processor = new RdfaProcessor({
+      onQuad: value => quads.push(value),
+      onProgress() {
+        throw new Error('stop');
+      },
+    }, { baseIRI: 'http://ex.org/' });
+    expect(() => processor.onTagOpen('p', { property: 'http://ex.org/p', content: 'a' })).toThrow(new Error('stop'));
+    expect(quads).toHaveLength(0);
+  });
+
+  it('should allow text outside of tags', () => {
+    processor.onText('a');
+    processor.onEnd();
+    expect(quads).toHaveLength(0);
+  });
+
+  describe('#emitTriple', () => {
+    it('should emit on valid terms', () => {
+      (<any> processor).emitTriple(DF.namedNode('http://s'), DF.namedNode('http://p'), DF.namedNode('http://o'));
+      expect(quads).toBeRdfIsomorphic([
+        quad('http://s', 'http://p', 'http://o'),
+      ]);
+    });
+
+    it('should not emit on an invalid subject', () => {
+      (<any> processor).emitTriple(DF.namedNode('s'), DF.namedNode('http://p'), DF.namedNode('http://o'));
+      expect(quads).toHaveLength(0);
+    });
+  });
+
+  describe('with unbalanced calls', () => {
+    it('should throw when closing a tag without an open tag', () => {
+      processor.onTagOpen('div', {});
+      processor.onTagClose();
+      expect(() => processor.onTagClose()).toThrow(new Error('Unable to close a tag, as no tag is open'));
+    });
+
+    it('should throw when ending with open tags', () => {
+      processor.onTagOpen('div', {});
+      processor.onTagOpen('p', {});
+      expect(() => processor.onEnd()).toThrow(new Error('Unable to end processing, as 2 tag(s) are still open'));
+    });
+
+    it('should throw when opening a tag after the end', () => {
+      processor.onEnd();
+      expect(() => processor.onTagOpen('div', {}))
+        .toThrow(new Error(`Unable to open the tag 'div', as processing has already ended`));
+    });
+
+    it('should throw when processing text after the end', () => {
+      processor.onEnd();
+      expect(() => processor.onText('a')).toThrow(new Error('Unable to process text, as processing has already ended'));
+    });
+
+    it('should throw when closing a tag after the end', () => {
+      processor.onEnd();
+      expect(() => processor.onTagClose()).toThrow(new Error('Unable to close a tag, as processing has already ended'));
+    });
+
+    it('should throw when ending twice', () => {
+      processor.onEnd();
+      expect(() => processor.onEnd()).toThrow(new Error('Unable to end processing, as processing has already ended'));
+    });
+
+    it('should count tags that are ignored due to maxDepth', () => {
+      processor = createProcessor({ limits: { maxDepth: 1 }, limitBehavior: 'truncate' });
+      processor.onTagOpen('div', {});
+      processor.onTagOpen('p', {});
+      expect(() => processor.onEnd()).toThrow(new Error('Unable to end processing, as 2 tag(s) are still open'));
+      processor.onTagClose();
+      processor.onTagClose();
+      expect(() => processor.onTagClose()).toThrow(new Error('Unable to close a tag, as no tag is open'));
+    });
+  });
+
+  describe('with limits', () => {
+    it('should throw an RdfaLimitError by default', () => {
+      processor = createProcessor({ limits: { maxQuads: 1 }});
+      processor.onTagOpen('p', { property: 'http://ex.org/p', content: 'a' });
+      processor.onTagClose();
+      expect(() => processor.onTagOpen('p', { property: 'http://ex.org/p', content: 'b' }))
+        .toThrow(new RdfaLimitError('maxQuads', 1));
+    });
+
+    it('should pass limit errors to the sink when truncating', () => {
+      const onLimit = jest.fn();
+      processor = new RdfaProcessor(
+        { onQuad: value => quads.push(value), onLimit },
+        { baseIRI: 'http://ex.org/', limits: { maxQuads: 1 }, limitBehavior: 'truncate' },
+      );
+      for (const value of [ 'a', 'b', 'c' ]) {
+        processor.onTagOpen('p', { property: 'http://ex.org/p', content: value });
+        processor.onTagClose();
+      }
+      expect(quads).toHaveLength(1);
+      expect(onLimit).toHaveBeenCalledTimes(1);
+      expect(onLimit).toHaveBeenCalledWith(new RdfaLimitError('maxQuads', 1));
+    });
+
+    it('should not require a limit callback when truncating', () => {
+      processor = createProcessor({ limits: { maxQuads: 1 }, limitBehavior: 'truncate' });
+      processor.onTagOpen('p', { property: 'http://ex.org/p', content: 'a' });
+      processor.onTagOpen('p', { property: 'http://ex.org/p', content: 'b' });
+      processor.onTagClose();
+      processor.onTagClose();
+      expect(quads).toHaveLength(1);
+    });
+  });
+
+  describe('with source locations', () => {
+    let locations: any[];
+
+    beforeEach(() => {
+      locations = [];
+      processor = new RdfaProcessor(
+        { onQuad: (value, location) => locations.push(location) },
+        { baseIRI: 'http://ex.org/', sourceLocations: true },
+      );
+    });
+
+    it('should pass the location of the closest tag with a location', () => {
+      const location = { start: { line: 1, column: 1, offset: 0, utf8ByteOffset: 0 }};
+      processor.onTagOpen('div', { about: '#s' }, location);
+      processor.onTagOpen('span', { property: 'http://ex.org/p' });
+      processor.onTagClose();
+      processor.onTagClose();
+      expect(locations).toEqual([ location ]);
+    });
+
+    it('should not pass a location if no tag has a location', () => {
+      processor.onTagOpen('span', { property: 'http://ex.org/p' });
+      processor.onTagClose();
+      expect(locations).toEqual([ undefined ]);
+    });
+
+    it('should not pass locations if disabled', () => {
+      processor = new RdfaProcessor({ onQuad: (value, location) => locations.push(location) });
+      processor.onTagOpen('span', { property: 'http://ex.org/p' }, {
+        start: { line: 1, column: 1, offset: 0, utf8ByteOffset: 0 },
+      });
+      processor.onTagClose();
+      expect(locations).toEqual([ undefined ]);
+    });
+  });
+
+  describe('with deferBase', () => {
+    const processorGraph = DF.namedNode('http://ex.org/processor');
+
+    beforeEach(() => {
+      processor = createProcessor({ profile: 'html', deferBase: true });
+    });
+
+    function emitHead(base: string): void {
+      processor.onTagOpen('html', {});
+      processor.onTagOpen('head', {});
+      processor.onTagOpen('link', { rel: 'http://ex.org/p', href: 'a' });
+      processor.onTagClose();
+      processor.onText('\n');
+      processor.onTagOpen('title', { property: 'http://ex.org/title' });
+      processor.onText('T');
+      processor.onTagClose();
+      processor.onTagOpen('base', { href: base });
+      processor.onTagClose();
+    }
+
+    it('should apply the first base tag to the tags before it', () => {
+      emitHead('http://base.org/');
+      processor.onTagOpen('base', { href: 'http://other.org/' });
+      processor.onTagClose();
+      processor.onTagClose();
+      expect(quads).toBeRdfIsomorphic([
+        quad('http://base.org/', 'http://ex.org/p', 'http://base.org/a'),
+        quad('http://base.org/', 'http://ex.org/title', '"T"'),
+      ]);
+      processor.onTagOpen('body', {});
+      processor.onTagOpen('a', { rel: 'http://ex.org/q', href: 'b' });
+      processor.onTagClose();
+      processor.onTagClose();
+      processor.onTagClose();
+      processor.onEnd();
+      expect(quads).toBeRdfIsomorphic([
+        quad('http://base.org/', 'http://ex.org/p', 'http://base.org/a'),
+        quad('http://base.org/', 'http://ex.org/title', '"T"'),
+        quad('http://base.org/', 'http://ex.org/q', 'http://base.org/b'),
+      ]);
+    });
+
+    it('should resolve the base tag against the initial base IRI', () => {
+      emitHead('/dir/');
+      expect(quads).toBeRdfIsomorphic([
+        quad('http://ex.org/dir/', 'http://ex.org/p', 'http://ex.org/dir/a'),
+        quad('http://ex.org/dir/', 'http://ex.org/title', '"T"'),
+      ]);
+    });
+
+    it('should stop deferring at the end of the head', () => {
+      processor.onTagOpen('head', {});
+      processor.onTagOpen('link', { rel: 'http://ex.org/p', href: 'a' });
+      processor.onTagClose();
+      expect(quads).toHaveLength(0);
+      processor.onTagClose();
+      expect(quads).toBeRdfIsomorphic([
+        quad('http://ex.org/', 'http://ex.org/p', 'http://ex.org/a'),
+      ]);
+      processor.onTagOpen('base', { href: 'http://base.org/' });
+      processor.onTagClose();
+      processor.onTagOpen('link', { rel: 'http://ex.org/p', href: 'b' });
+      processor.onTagClose();
+      expect(quads).toBeRdfIsomorphic([
+        quad('http://ex.org/', 'http://ex.org/p', 'http://ex.org/a'),
+        quad('http://ex.org/', 'http://ex.org/p', 'http://ex.org/b'),
+      ]);
+    });
+
+    it('should stop deferring at tags that can not be placed in the head', () => {
+      processor.onTagOpen('meta', { property: 'http://ex.org/p', content: 'a' });
+      processor.onTagClose();
+      expect(quads).toHaveLength(0);
+      processor.onTagOpen('div', {});
+      expect(quads).toBeRdfIsomorphic([
+        quad('http://ex.org/', 'http://ex.org/p', '"a"'),
+      ]);
+    });
+
+    it('should stop deferring at text outside the elements of the head', () => {
+      processor.onTagOpen('html', {});
+      processor.onTagOpen('meta', { property: 'http://ex.org/p', content: 'a' });
+      processor.onTagClose();
+      processor.onText(' \n');
+      expect(quads).toHaveLength(0);
+      processor.onText('b');
+      expect(quads).toBeRdfIsomorphic([
+        quad('http://ex.org/', 'http://ex.org/p', '"a"'),
+      ]);
+    });
+
+    it('should stop deferring at the end of the document', () => {
+      processor.onTagOpen('meta', { property: 'http://ex.org/p', content: 'a' });
+      processor.onTagClose();
+      processor.onEnd();
+      expect(quads).toBeRdfIsomorphic([
+        quad('http://ex.org/', 'http://ex.org/p', '"a"'),
+      ]);
+    });
+
+    it('should stop deferring when the deferred tags exceed the maximum length', () => {
+      const content = 'a'.repeat((RdfaProcessor.DEFERRED_EVENTS_LENGTH / 4) - 100);
+      processor.onTagOpen('head', {});
+      for (let i = 0; i < 4; i++) {
+        processor.onTagOpen('meta', { property: 'http://ex.org/p', content });
+        processor.onTagClose();
+      }
+      expect(quads).toHaveLength(0);
+      processor.onTagOpen('meta', { property: 'http://ex.org/p', content });
+      expect(quads).toHaveLength(5);
+      expect((<any> processor).deferredEvents).toBeUndefined();
+    });
+
+    it('should stop deferring when the deferred text exceeds the maximum length', () => {
+      processor.onTagOpen('head', {});
+      processor.onTagOpen('title', { property: 'http://ex.org/title' });
+      processor.onText('a'.repeat(RdfaProcessor.DEFERRED_EVENTS_LENGTH - 100));
+      expect((<any> processor).deferredEvents).toBeDefined();
+      processor.onText('b'.repeat(100));
+      expect((<any> processor).deferredEvents).toBeUndefined();
+      processor.onTagClose();
+      expect(quads).toHaveLength(1);
+    });
+
+    it('should stop deferring when the number of deferred tags exceeds the maximum length', () => {
+      processor.onTagOpen('head', {});
+      // Each link tag is counted as 4 characters, and each end tag as 1 character
+      for (let i = 0; i < Math.floor((RdfaProcessor.DEFERRED_EVENTS_LENGTH - 5) / 5); i++) {
+        processor.onTagOpen('link', {});
+        processor.onTagClose();
+      }
+      expect((<any> processor).deferredEvents).toBeDefined();
+      processor.onTagOpen('link', {});
+      processor.onTagClose();
+      expect((<any> processor).deferredEvents).toBeUndefined();
+    });
+
+    it('should emit a warning for ignored base tags', () => {
+      processor = createProcessor({ profile: 'html', deferBase: true, processorGraph });
+      processor.onTagOpen('base', { href: 'http://base.org/' });
+      processor.onTagClose();
+      processor.onTagOpen('base', { href: 'http://other.org/' });
+      processor.onTagClose();
+      expect(quads).toContainEqual(DF.quad(
+        expect.anything(),
+        DF.namedNode('http://purl.org/dc/terms/description'),
+        DF.literal('The base element with href \'http://other.org/\' was ignored, as only the first base element in the head is used'),
+        processorGraph,
+      ));
+      expect(quads.filter(value => value.predicate.value === 'http://purl.org/dc/terms/description'))
+        .toHaveLength(1);
+    });
+
+    it('should not defer for profiles without base tags', () => {
+      processor = createProcessor({ profile: 'xml', deferBase: true });
+      processor.onTagOpen('meta', { property: 'http://ex.org/p', content: 'a' });
+      processor.onTagClose();
+      expect(quads).toHaveLength(1);
+    });
+
+    it('should release deferred events when aborted', () => {
+      processor.onTagOpen('meta', { property: 'http://ex.org/p', content: 'a' });
+      processor.abort();
+      expect((<any> processor).deferredEvents).toBeUndefined();
+    });
+
+    it('should not process deferred events after an abort', () => {
+      processor = new RdfaProcessor({
+        onQuad() {
+          processor.abort();
+        },
+      }, { baseIRI: 'http://ex.org/', profile: 'html', deferBase: true });
+      processor.onTagOpen('meta', { property: 'http://ex.org/p', content: 'a' });
+      processor.onTagClose();
+      processor.onTagOpen('meta', { property: 'http://ex.org/p', content: 'b' });
+      processor.onTagClose();
+      processor.onEnd();
+      expect((<any> processor).activeTagStack).toHaveLength(1);
+    });
+  });
+
+  describe('#onDocumentError', () => {
+    it('should emit a DocumentError in the processor graph', () => {
+      processor = createProcessor({ processorGraph: DF.namedNode('http://ex.org/processor') });
+      processor.onDocumentError('Unexpected end of document');
+      expect(quads).toContainEqual(DF.quad(
+        expect.anything(),
+        DF.namedNode('http://www.w3.org/1999/02/22-rdf-syntax-ns#type'),
+        DF.namedNode('http://www.w3.org/ns/rdfa#DocumentError'),
+        DF.namedNode('http://ex.org/processor'),
+      ));
+    });
+
+    it('should do nothing without processor graph', () => {
+      processor.onDocumentError('Unexpected end of document');
+      expect(quads).toHaveLength(0);
+    });
+  });
+
+  describe('#finish', () => {
+    it('should emit quads entailed by vocabulary expansion', async() => {
+      processor = createProcessor({
+        vocabExpansion: true,
+        vocabLoader: new VocabularyLoaderMemory({
+          'http://ex.org/vocab#': [
+            quad('http://ex.org/vocab#p', 'http://www.w3.org/2000/01/rdf-schema#subPropertyOf', 'http://ex.org/vocab#q'),
+          ],
+        }),
+      });
+      processor.onTagOpen('p', { vocab: 'http://ex.org/vocab#', property: 'p' });
+      processor.onText('a');
+      processor.onTagClose();
+      processor.onEnd();
+      await processor.finish();
+      expect(quads).toBeRdfIsomorphic([
+        quad('http://ex.org/', 'http://www.w3.org/ns/rdfa#usesVocabulary', 'http://ex.org/vocab#'),
+        quad('http://ex.org/', 'http://ex.org/vocab#p', '"a"'),
+        quad('http://ex.org/', 'http://ex.org/vocab#q', '"a"'),
+      ]);
+    });
+
+    it('should emit quads entailed by vocabulary expansion before the end once vocabularies are loaded', async() => {
+      processor = createProcessor({
+        vocabExpansion: true,
+        vocabLoader: new VocabularyLoaderMemory({
+          'http://ex.org/vocab#': [
+            quad('http://ex.org/vocab#p', 'http://www.w3.org/2000/01/rdf-schema#subPropertyOf', 'http://ex.org/vocab#q'),
+          ],
+        }),
+      });
+      processor.onTagOpen('div', { vocab: 'http://ex.org/vocab#' });
+      processor.onTagOpen('p', { property: 'p' });
+      processor.onText('a');
+      processor.onTagClose();
+      expect(quads).toHaveLength(2);
+      await new Promise(setImmediate);
+      expect(quads).toBeRdfIsomorphic([
+        quad('http://ex.org/', 'http://www.w3.org/ns/rdfa#usesVocabulary', 'http://ex.org/vocab#'),
+        quad('http://ex.org/', 'http://ex.org/vocab#p', '"a"'),
+        quad('http://ex.org/', 'http://ex.org/vocab#q', '"a"'),
+      ]);
+
+      processor.onTagOpen('p', { property: 'p' });
+      processor.onText('b');
+      processor.onTagClose();
+      expect(quads.slice(3)).toBeRdfIsomorphic([
+        quad('http://ex.org/', 'http://ex.org/vocab#p', '"b"'),
+        quad('http://ex.org/', 'http://ex.org/vocab#q', '"b"'),
+      ]);
+    });
+
+    it('should expand quads that were emitted before a vocabulary was loaded with that vocabulary', async() => {
+      const vocabLoader = new VocabularyLoaderMemory({
+        'http://ex.org/a#': [],
+        'http://ex.org/b#': [
+          quad('http://ex.org/a#name', 'http://www.w3.org/2000/01/rdf-schema#subPropertyOf', 'http://ex.org/b#title'),
+        ],
+      });
+      const expected = [
+        quad('http://ex.org/', 'http://www.w3.org/ns/rdfa#usesVocabulary', 'http://ex.org/a#'),
+        quad('http://ex.org/s', 'http://ex.org/a#name', '"x"'),
+        quad('http://ex.org/', 'http://www.w3.org/ns/rdfa#usesVocabulary', 'http://ex.org/b#'),
+        quad('http://ex.org/s', 'http://ex.org/b#title', '"x"'),
+      ];
+      for (const loadInBetween of [ false, true ]) {
+        quads = [];
+        processor = createProcessor({ vocabExpansion: true, vocabLoader });
+        processor.onTagOpen('p', { vocab: 'http://ex.org/a#', about: 'http://ex.org/s', property: 'name' });
+        processor.onText('x');
+        processor.onTagClose();
+        if (loadInBetween) {
+          await new Promise(setImmediate);
+        }
+        processor.onTagOpen('p', { vocab: 'http://ex.org/b#' });
+        processor.onTagClose();
+        processor.onEnd();
+        await processor.finish();
+        expect(quads).toBeRdfIsomorphic(expected);
+      }
+    });
+
+    it('should emit each entailed quad only once', async() => {
+      processor = createProcessor({
+        vocabExpansion: true,
+        vocabLoader: new VocabularyLoaderMemory({
+          'http://ex.org/vocab#': [
+            quad('http://ex.org/vocab#p', 'http://www.w3.org/2000/01/rdf-schema#subPropertyOf', 'http://ex.org/vocab#q'),
+            quad('http://ex.org/vocab#r', 'http://www.w3.org/2000/01/rdf-schema#subPropertyOf', 'http://ex.org/vocab#q'),
+          ],
+          'http://ex.org/other#': [],
+        }),
+      });
+      processor.onTagOpen('div', { vocab: 'http://ex.org/vocab#' });
+      processor.onTagOpen('p', { property: 'p' });
+      processor.onText('a');
+      processor.onTagClose();
+      await new Promise(setImmediate);
+      processor.onTagOpen('p', { property: 'r' });
+      processor.onText('a');
+      processor.onTagClose();
+      processor.onTagOpen('p', { property: 'q' });
+      processor.onText('a');
+      processor.onTagClose();
+      processor.onTagOpen('p', { vocab: 'http://ex.org/other#' });
+      processor.onTagClose();
+      processor.onTagClose();
+      processor.onEnd();
+      await processor.finish();
+      expect(quads).toBeRdfIsomorphic([
+        quad('http://ex.org/', 'http://www.w3.org/ns/rdfa#usesVocabulary', 'http://ex.org/vocab#'),
+        quad('http://ex.org/', 'http://ex.org/vocab#p', '"a"'),
+        quad('http://ex.org/', 'http://ex.org/vocab#q', '"a"'),
+        quad('http://ex.org/', 'http://ex.org/vocab#r', '"a"'),
+        quad('http://ex.org/', 'http://ex.org/vocab#q', '"a"'),
+        quad('http://ex.org/', 'http://www.w3.org/ns/rdfa#usesVocabulary', 'http://ex.org/other#'),
+      ]);
+      expect(quads).toHaveLength(6);
+    });
+
+    it('should reject when vocabulary expansion of buffered quads fails', async() => {
+      processor = createProcessor({
+        vocabExpansion: true,
+        vocabLoader: new VocabularyLoaderMemory({
+          'http://ex.org/vocab#': [
+            quad('http://ex.org/vocab#p', 'http://www.w3.org/2000/01/rdf-schema#subPropertyOf', 'http://ex.org/vocab#q'),
+          ],
+        }),
+      });
+      processor.onTagOpen('p', { vocab: 'http://ex.org/vocab#', property: 'p' });
+      (<any> processor).vocabExpander.expand = () => {
+        throw new Error('Expansion error');
+      };
+      processor.onText('a');
+      processor.onTagClose();
+      processor.onEnd();
+      await expect(processor.finish()).rejects.toThrow(new Error('Expansion error'));
+    });
+
+    it('should not expand emitted quads again for vocabularies without new relations', async() => {
+      processor = createProcessor({
+        vocabExpansion: true,
+        vocabLoader: new VocabularyLoaderMemory({
+          'http://ex.org/vocab#': [
+            quad('http://ex.org/vocab#p', 'http://www.w3.org/2000/01/rdf-schema#subPropertyOf', 'http://ex.org/vocab#q'),
+          ],
+          'http://ex.org/other#': [
+            quad('http://ex.org/vocab#p', 'http://www.w3.org/2000/01/rdf-schema#subPropertyOf', 'http://ex.org/vocab#q'),
+          ],
+        }),
+      });
+      const expandEmittedQuads = jest.spyOn(<any> processor, 'expandEmittedQuads');
+      processor.onTagOpen('p', { vocab: 'http://ex.org/vocab#', property: 'p' });
+      processor.onText('a');
+      processor.onTagClose();
+      await new Promise(setImmediate);
+      processor.onTagOpen('p', { vocab: 'http://ex.org/other#' });
+      processor.onTagClose();
+      processor.onEnd();
+      await processor.finish();
+      expect(expandEmittedQuads).toHaveBeenCalledTimes(1);
+      expect(quads).toHaveLength(4);
+    });
+
+    it('should release the kept emitted quads after the last vocabulary load', async() => {
+      processor = createProcessor({
+        vocabExpansion: true,
+        vocabLoader: new VocabularyLoaderMemory({
+          'http://ex.org/vocab#': [
+            quad('http://ex.org/vocab#p', 'http://www.w3.org/2000/01/rdf-schema#subPropertyOf', 'http://ex.org/vocab#q'),
+          ],
+        }),
+      });
+      processor.onTagOpen('p', { vocab: 'http://ex.org/vocab#', property: 'p' });
+      processor.onText('a');
+      processor.onTagClose();
+      processor.onEnd();
+      expect((<any> processor).vocabExpansionQuads.size).toBe(2);
+      expect((<any> processor).vocabExpansionKeys.size).toBe(2);
+      await processor.finish();
+      expect((<any> processor).vocabExpansionQuads.size).toBe(0);
+      expect((<any> processor).vocabExpansionKeys.size).toBe(0);
+      expect(quads).toHaveLength(3);
+    });
+
+    it('should release the kept emitted quads at the end if all vocabularies are loaded', async() => {
+      processor = createProcessor({
+        vocabExpansion: true,
+        vocabLoader: new VocabularyLoaderMemory({ 'http://ex.org/vocab#': []}),
+      });
+      processor.onTagOpen('p', { vocab: 'http://ex.org/vocab#', property: 'p' });
+      processor.onText('a');
+      processor.onTagClose();
+      await new Promise(setImmediate);
+      expect((<any> processor).vocabExpansionQuads.size).toBe(2);
+      processor.onEnd();
+      expect((<any> processor).vocabExpansionQuads.size).toBe(0);
+      expect((<any> processor).vocabExpansionKeys.size).toBe(0);
+      await processor.finish();
+      expect(quads).toHaveLength(2);
+    });
+
+    it('should end the processor graph stream', async() => {
+      const processorGraphStream = { write: jest.fn(), end: jest.fn() };
+      processor = createProcessor({ processorGraphStream });
+      processor.onEnd();
+      await processor.finish();
+      expect(processorGraphStream.end).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('#abort', () => {
+    it('should ignore all further calls', () => {
+      processor.onTagOpen('div', { property: 'http://ex.org/p' });
+      processor.abort();
+      processor.onText('a');
+      processor.onTagClose();
+      processor.onTagClose();
+      processor.onEnd();
+      processor.onDocumentError('error');
+      expect(quads).toHaveLength(0);
+    });
+
+    it('should release buffered state', () => {
+      processor.onTagOpen('div', { property: 'http://ex.org/p' });
+      processor.onText('a');
+      processor.abort();
+      expect((<any> processor).activeTagStack).toHaveLength(1);
+      expect((<any> processor).textBuffer.withTags).toHaveLength(0);
+    });
+
+    it('should not expand buffered quads', async() => {
+      processor = createProcessor({
+        vocabExpansion: true,
+        vocabLoader: new VocabularyLoaderMemory({ 'http://ex.org/vocab#': []}),
+      });
+      processor.onTagOpen('p', { vocab: 'http://ex.org/vocab#', property: 'p' });
+      processor.onText('a');
+      processor.onTagClose();
+      processor.abort();
+      expect((<any> processor).vocabExpansionQuads.size).toBe(0);
+      await processor.finish();
+      expect(quads).toHaveLength(2);
+    });
+
+    it('should stop expanding emitted quads once aborted during expansion', async() => {
+      processor = new RdfaProcessor({
+        onQuad(value) {
+          quads.push(value);
+          if (value.predicate.value === 'http://ex.org/vocab#q') {
+            processor.abort();
+          }
+        },
+      }, {
+        baseIRI: 'http://ex.org/',
+        vocabExpansion: true,
+        vocabLoader: new VocabularyLoaderMemory({
+          'http://ex.org/vocab#': [
+            quad('http://ex.org/vocab#p', 'http://www.w3.org/2000/01/rdf-schema#subPropertyOf', 'http://ex.org/vocab#q'),
+          ],
+        }),
+      });
+      processor.onTagOpen('div', { vocab: 'http://ex.org/vocab#' });
+      processor.onTagOpen('p', { property: 'p' });
+      processor.onText('a');
+      processor.onTagClose();
+      processor.onTagOpen('p', { property: 'p' });
+      processor.onText('b');
+      processor.onTagClose();
+      await processor.finish();
+      expect(quads).toHaveLength(4);
+    });
+  });
+});
@@ -0,0 +1,77 @@
+import type * as RDF from '@rdfjs/types';
+import 'jest-rdf';
+import { RdfaLimitError } from '../lib/RdfaLimitError';
+import type { IRdfaTextParserOptions } from '../lib/RdfaTextParser';
+import { RdfaTextParser } from '../lib/RdfaTextParser';
+
+const quad = require('rdf-quad');
+
+describe('RdfaTextParser', () => {
+  let quads: RDF.Quad[];
+  let errors: unknown[];
+
+  function createParser(options: IRdfaTextParserOptions = {}): RdfaTextParser {
+    return new RdfaTextParser({
+      onQuad: value => quads.push(value),
+      onError: error => errors.push(error),
+    }, { baseIRI: 'http://ex.org/', ...options });
+  }
+
+  beforeEach(() => {
+    quads = [];
+    errors = [];
+  });
+
+  it('should be constructable without options', () => {
+    const parser = new RdfaTextParser({ onQuad: jest.fn(), onError: jest.fn() });
+    expect(parser).toBeInstanceOf(RdfaTextParser);
+    expect(parser.ended).toBe(false);
+  });
+
+  it('should parse text and byte chunks', async() => {
+    const parser = createParser();
+    parser.write('<p about="#s" property="http://ex.org/p">a');
+    parser.write(new TextEncoder().encode('é</p>'));
+    expect(quads).toHaveLength(0);
+    parser.end();
+    expect(parser.ended).toBe(true);
+    await parser.finish();
+    expect(quads).toBeRdfIsomorphic([
+      quad('http://ex.org/#s', 'http://ex.org/p', '"aé"'),
+    ]);
+  });
+
+  it('should buffer text while paused', () => {
+    const parser = createParser();
+    parser.pause();
+    parser.write('<p about="#s" property="http://ex.org/p" content="a"></p>');
+    expect(quads).toHaveLength(0);
+    parser.resume();
+    expect(quads).toBeRdfIsomorphic([
+      quad('http://ex.org/#s', 'http://ex.org/p', '"a"'),
+    ]);
+  });
+
+  it('should pass errors to the sink', () => {
+    const parser = new RdfaTextParser({
+      onQuad: value => quads.push(value),
+      onError(error) {
+        errors.push(error);
+        parser.abort();
+      },
+    }, { baseIRI: 'http://ex.org/', limits: { maxQuads: 1 }});
+    parser.write('<p about="#s" property="http://ex.org/p" content="a"></p>');
+    parser.write('<p about="#s" property="http://ex.org/p" content="b"></p>');
+    expect(errors).toEqual([ new RdfaLimitError('maxQuads', 1) ]);
+  });
+
+  it('should ignore all further chunks once aborted', () => {
+    const parser = createParser({ detectProfile: true });
+    parser.write('  ');
+    parser.abort();
+    parser.write('<p about="#s" property="http://ex.org/p" content="b"></p>');
+    parser.end();
+    expect(quads).toHaveLength(0);
+    expect(errors).toHaveLength(0);
+  });
+});
@@ -0,0 +1,258 @@
+import type * as RDF from '@rdfjs/types';
+import { DataFactory } from 'rdf-data-factory';
+import 'jest-rdf';
+import { AbortError } from '../lib/AbortError';
+import { RdfaLimitError } from '../lib/RdfaLimitError';
+import type { IRdfaParserOptions } from '../lib/RdfaParser';
+import { RdfaTextParser } from '../lib/RdfaTextParser';
+import { RdfaTransformStream } from '../lib/RdfaTransformStream';
+
+const quad = require('rdf-quad');
+
+const DF = new DataFactory();
+
+describe('RdfaTransformStream', () => {
+  function createReadable(chunks: (string | Uint8Array)[]): ReadableStream<string | Uint8Array> {
+    return new ReadableStream({
+      start(controller) {
+        for (const chunk of chunks) {
+          controller.enqueue(chunk);
+        }
+        controller.close();
+      },
+    });
+  }
+
+  async function parse(chunks: (string | Uint8Array)[], options?: IRdfaParserOptions): Promise<RDF.Quad[]> {
+    const quads: RDF.Quad[] = [];
+    for await (const value of <AsyncIterable<RDF.Quad>> <any> createReadable(chunks)
+      .pipeThrough(new RdfaTransformStream(options))) {
+      quads.push(value);
+    }
+    return quads;
+  }
+
+  it('should be constructable without options', () => {
+    expect(new RdfaTransformStream()).toBeInstanceOf(TransformStream);
+  });
+
+  it('should parse string chunks', async() => {
+    await expect(parse([
+      '<p about="#s" property="http://ex.org/p">a',
+      'b</p>',
+    ], { baseIRI: 'http://ex.org/' })).resolves.toBeRdfIsomorphic([
+      quad('http://ex.org/#s', 'http://ex.org/p', '"ab"'),
+    ]);
+  });
+
+  it('should parse byte chunks split within multi-byte characters', async() => {
+    const bytes = new TextEncoder().encode('<p about="#s" property="http://ex.org/p">é</p>');
+    const index = bytes.indexOf(0xC3) + 1;
+    await expect(parse([
+      bytes.subarray(0, index),
+      bytes.subarray(index),
+    ], { baseIRI: 'http://ex.org/' })).resolves.toBeRdfIsomorphic([
+      quad('http://ex.org/#s', 'http://ex.org/p', '"é"'),
+    ]);
+  });
+
+  it('should decode byte chunks using the charset of the content type', async() => {
+    await expect(parse([
+      new Uint8Array([ ...new TextEncoder().encode('<p about="#s" property="http://ex.org/p">'), 0xE9, 0x3C, 0x2F, 0x70, 0x3E ]),
+    ], { baseIRI: 'http://ex.org/', contentType: 'text/html; charset=windows-1252' })).resolves.toBeRdfIsomorphic([
+      quad('http://ex.org/#s', 'http://ex.org/p', '"é"'),
+    ]);
+  });
+
+  it('should detect the profile', async() => {
+    await expect(parse([
+      '<?xml version="1.0"?>\n<root about="#s" property="http://ex.org/p" content="a"/>',
+    ], { baseIRI: 'http://ex.org/', detectProfile: true })).resolves.toBeRdfIsomorphic([
+      quad('http://ex.org/#s', 'http://ex.org/p', '"a"'),
+    ]);
+  });
+
+  it('should emit quads entailed by vocabulary expansion on flush', async() => {
+    await expect(parse([
+      '<p about="#s" property="http://ex.org/p" content="a"></p>',
+    ], {
+      baseIRI: 'http://ex.org/',
+      vocabExpansion: true,
+      vocabLoader: { load: async() => []},
+    })).resolves.toBeRdfIsomorphic([
+      quad('http://ex.org/#s', 'http://ex.org/p', '"a"'),
+    ]);
+  });
+
+  it('should error on exceeded limits', async() => {
+    await expect(parse([
+      '<p about="#s" property="http://ex.org/p" content="a"></p>',
+      '<p about="#s" property="http://ex.org/p" content="b"></p>',
+    ], { baseIRI: 'http://ex.org/', limits: { maxQuads: 1 }})).rejects.toThrow(new RdfaLimitError('maxQuads', 1));
+  });
+
+  it('should truncate on exceeded limits if configured', async() => {
+    await expect(parse([
+      '<p about="#s" property="http://ex.org/p" content="a"></p>',
+      '<p about="#s" property="http://ex.org/p" content="b"></p>',
+    ], { baseIRI: 'http://ex.org/', limits: { maxQuads: 1 }, limitBehavior: 'truncate' })).resolves.toBeRdfIsomorphic([
+      quad('http://ex.org/#s', 'http://ex.org/p', '"a"'),
+    ]);
+  });
+
+  it('should error when a parse listener throws', async() => {
+    await expect(parse([ '<p></p>' ], {
+      htmlParseListener: {
+        onTagOpen() {
+          throw new Error('Listener error');
+        },
+        onTagClose: jest.fn(),
+        onText: jest.fn(),
+        onEnd: jest.fn(),
+      },
+    })).rejects.toThrow(new Error('Listener error'));
+  });
+
+  it('should be constructable with queuing strategies', () => {
+    const stream = new RdfaTransformStream({}, { highWaterMark: 2 }, { highWaterMark: 3 });
+    expect(stream.writable.getWriter().desiredSize).toBe(2);
+  });
+
+  it('should pause parsing while the readable side is full', async() => {
+    const size = jest.fn(() => 1);
+    const stream = new RdfaTransformStream({ baseIRI: 'http://ex.org/' }, undefined, { highWaterMark: 2, size });
+    const writer = stream.writable.getWriter();
+    const reader = stream.readable.getReader();
+    const written = jest.fn();
+    const writing = writer.write('<p about="#s" property="http://ex.org/p" content="a"></p>'.repeat(5)).then(written);
+    await new Promise(setImmediate);
+    expect(size).toHaveBeenCalledTimes(2);
+    expect(written).not.toHaveBeenCalled();
+
+    for (let i = 0; i < 5; i++) {
+      expect((await reader.read()).value).toEqualRdfQuad(quad('http://ex.org/#s', 'http://ex.org/p', '"a"'));
+    }
+    await writing;
+    expect(size).toHaveBeenCalledTimes(5);
+    await writer.close();
+    expect((await reader.read()).done).toBe(true);
+  });
+
+  it('should stop parsing and error the readable side once the writable side is aborted', async() => {
+    const abort = jest.spyOn(RdfaTextParser.prototype, 'abort');
+    const stream = new RdfaTransformStream({ baseIRI: 'http://ex.org/' });
+    const reader = stream.readable.getReader();
+    await stream.writable.abort('reason');
+    await expect(reader.read()).rejects.toBe('reason');
+    expect(abort).toHaveBeenCalledTimes(1);
+    abort.mockRestore();
+  });
+
+  describe('with an abort signal', () => {
+    it('should error if the signal was already aborted', async() => {
+      const controller = new AbortController();
+      controller.abort();
+      await expect(parse([ '<p></p>' ], { signal: controller.signal }))
+        .rejects.toThrow(new AbortError('The parser was aborted'));
+    });
+
+    it('should error when the signal is aborted while parsing', async() => {
+      const controller = new AbortController();
+      const stream = new RdfaTransformStream({ baseIRI: 'http://ex.org/', signal: controller.signal });
+      const writer = stream.writable.getWriter();
+      const reader = stream.readable.getReader();
+      const written = writer.write('<p about="#s" property="http://ex.org/p" content="a">');
+      expect((await reader.read()).value).toEqualRdfQuad(quad('http://ex.org/#s', 'http://ex.org/p', '"a"'));
+      controller.abort('reason');
+      const error = await reader.read().catch((caught: AbortError) => caught);
+      expect(error).toEqual(new AbortError('The parser was aborted'));
+      expect((<AbortError> error).reason).toBe('reason');
+      await written;
+      await expect(writer.write('</p>')).rejects.toThrow(new AbortError('The parser was aborted'));
+    });
+
+    it('should stop listening to the signal once flushed', async() => {
+      const controller = new AbortController();
+      const removeEventListener = jest.spyOn(controller.signal, 'removeEventListener');
+      await parse([ '<p></p>' ], { signal: controller.signal });
+      expect(removeEventListener).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  it('should stop listening to the signal once a limit was exceeded', async() => {
+    const controller = new AbortController();
+    const removeEventListener = jest.spyOn(controller.signal, 'removeEventListener');
+    await expect(parse([ '<p about="#s" property="http://ex.org/p" content="a"></p>' ], {
+      baseIRI: 'http://ex.org/',
+      limits: { maxQuads: 0 },
+      signal: controller.signal,
+    })).rejects.toThrow(new RdfaLimitError('maxQuads', 0));
+    expect(removeEventListener).toHaveBeenCalledTimes(1);
+  });
+
+  describe('with a timeout', () => {
+    beforeEach(() => {
+      jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should error once the timeout is exceeded', async() => {
+      const stream = new RdfaTransformStream({ timeout: 100 });
+      const reader = stream.readable.getReader();
+      jest.advanceTimersByTime(100);
+      await expect(reader.read()).rejects.toThrow(new AbortError('The parser timed out after 100ms'));
+    });
+
+    it('should error once the timeout is exceeded within a single chunk', async() => {
+      const stream = new RdfaTransformStream({ baseIRI: 'http://ex.org/', timeout: 100 });
+      const writer = stream.writable.getWriter();
+      const reader = stream.readable.getReader();
+      jest.spyOn(Date, 'now').mockReturnValue(Date.now() + 101);
+      const written = writer.write('<p about="#s" property="http://ex.org/p" content="a"></p>');
+      await expect(reader.read()).rejects.toThrow(new AbortError('The parser timed out after 100ms'));
+      await written;
+      expect(jest.getTimerCount()).toBe(0);
+      jest.mocked(Date.now).mockRestore();
+    });
+
+    it('should clear the timeout once flushed', async() => {
+      const stream = new RdfaTransformStream({ baseIRI: 'http://ex.org/', timeout: 100 });
+      const writer = stream.writable.getWriter();
+      const reader = stream.readable.getReader();
+      const written = Promise.all([
+        writer.write('<p about="#s" property="http://ex.org/p" content="a"></p>'),
+        writer.close(),
+      ]);
+      expect((await reader.read()).value).toEqualRdfQuad(quad('http://ex.org/#s', 'http://ex.org/p', '"a"'));
+      expect((await reader.read()).done).toBe(true);
+      await written;
+      expect(jest.getTimerCount()).toBe(0);
+    });
+
+    it('should stop parsing and clear the timeout and signal listener once canceled', async() => {
+      const abort = jest.spyOn(RdfaTextParser.prototype, 'abort');
+      const controller = new AbortController();
+      const removeEventListener = jest.spyOn(controller.signal, 'removeEventListener');
+      const stream = new RdfaTransformStream({ baseIRI: 'http://ex.org/', timeout: 100, signal: controller.signal });
+      const writer = stream.writable.getWriter();
+      const written = writer.write('<p about="#s" property="http://ex.org/p" content="a">');
+      await stream.readable.cancel('reason');
+      await expect(written).rejects.toBe('reason');
+      expect(abort).toHaveBeenCalledTimes(1);
+      expect(jest.getTimerCount()).toBe(0);
+      expect(removeEventListener).toHaveBeenCalledTimes(1);
+      abort.mockRestore();
+    });
+  });
+
+  it('should not emit quads in the default graph if a default graph is given', async() => {
+    await expect(parse([
+      '<p about="#s" property="http://ex.org/p" content="a"></p>',
+    ], { baseIRI: 'http://ex.org/', defaultGraph: DF.namedNode('http://ex.org/g') })).resolves.toBeRdfIsomorphic([
+      quad('http://ex.org/#s', 'http://ex.org/p', '"a"', 'http://ex.org/g'),
+    ]);
+  });
+});
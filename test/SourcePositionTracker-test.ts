@@ -0,0 +1,51 @@
+import { SourcePositionTracker } from '../lib/SourcePositionTracker';
+
+describe('SourcePositionTracker', () => {
+  let tracker: SourcePositionTracker;
+
+  beforeEach(() => {
+    tracker = new SourcePositionTracker();
+  });
+
+  it('should return the initial position for offset 0', () => {
+    expect(tracker.getPosition(0)).toEqual({ line: 1, column: 1, offset: 0, utf8ByteOffset: 0 });
+  });
+
+  it('should determine positions within a single line', () => {
+    tracker.append('abcdef');
+    expect(tracker.getPosition(3)).toEqual({ line: 1, column: 4, offset: 3, utf8ByteOffset: 3 });
+  });
+
+  it('should determine positions over multiple lines', () => {
+    tracker.append('ab\ncd\nef');
+    expect(tracker.getPosition(4)).toEqual({ line: 2, column: 2, offset: 4, utf8ByteOffset: 4 });
+    expect(tracker.getPosition(7)).toEqual({ line: 3, column: 2, offset: 7, utf8ByteOffset: 7 });
+  });
+
+  it('should determine positions over multiple chunks', () => {
+    tracker.append('ab\nc');
+    expect(tracker.getPosition(1)).toEqual({ line: 1, column: 2, offset: 1, utf8ByteOffset: 1 });
+    tracker.append('d\nef');
+    tracker.append('gh');
+    expect(tracker.getPosition(8)).toEqual({ line: 3, column: 3, offset: 8, utf8ByteOffset: 8 });
+  });
+
+  it('should count multi-byte characters', () => {
+    tracker.append('é€😀a');
+    expect(tracker.getPosition(1)).toEqual({ line: 1, column: 2, offset: 1, utf8ByteOffset: 2 });
+    expect(tracker.getPosition(2)).toEqual({ line: 1, column: 3, offset: 2, utf8ByteOffset: 5 });
+    expect(tracker.getPosition(4)).toEqual({ line: 1, column: 4, offset: 4, utf8ByteOffset: 9 });
+    expect(tracker.getPosition(5)).toEqual({ line: 1, column: 5, offset: 5, utf8ByteOffset: 10 });
+  });
+
+  it('should return the last position for offsets before the last requested offset', () => {
+    tracker.append('abcdef');
+    tracker.getPosition(4);
+    expect(tracker.getPosition(2)).toEqual({ line: 1, column: 5, offset: 4, utf8ByteOffset: 4 });
+  });
+
+  it('should not go beyond the appended text', () => {
+    tracker.append('abc');
+    expect(tracker.getPosition(10)).toEqual({ line: 1, column: 4, offset: 3, utf8ByteOffset: 3 });
+  });
+});
@@ -0,0 +1,182 @@
+import type { ITokenizer, ITokenizerListener } from '../lib/ITokenizer';
+import { TokenizerAdapterParse5 } from '../lib/TokenizerAdapterParse5';
+
+describe('TokenizerAdapterParse5', () => {
+  let events: string[];
+  let listener: ITokenizerListener;
+  let tokenizer: ITokenizer;
+
+  beforeEach(() => {
+    events = [];
+    listener = {
+      onTagOpen: (name, attributes) => events.push(`open ${name} ${JSON.stringify(attributes)}`),
+      onTagClose: () => events.push('close'),
+      onText: data => events.push(`text ${data}`),
+      onError: error => events.push(`error ${error.message}`),
+      onEnd: () => events.push('end'),
+    };
+    tokenizer = new TokenizerAdapterParse5().createTokenizer(listener, false);
+  });
+
+  function tokenize(...chunks: string[]): string[] {
+    for (const chunk of chunks) {
+      tokenizer.write(chunk);
+    }
+    tokenizer.end();
+    return events;
+  }
+
+  it('should emit tags, text and the end', () => {
+    expect(tokenize('<!DOCTYPE html><!-- c --><p class="a" id=b>x &amp; ', 'y</p>')).toEqual([
+      'open p {"class":"a","id":"b"}',
+      'text x & y',
+      'close',
+      'end',
+    ]);
+  });
+
+  it('should ignore null characters', () => {
+    expect(tokenize('<p>a\u0000b</p>')).toEqual([
+      'open p {}',
+      'error 1:5: unexpected-null-character',
+      'text ab',
+      'close',
+      'end',
+    ]);
+  });
+
+  it('should emit tokenizer errors', () => {
+    expect(tokenize('<p a="1" a="2"></p>')).toEqual([
+      'error 1:11: duplicate-attribute',
+      'open p {"a":"1"}',
+      'close',
+      'end',
+    ]);
+  });
+
+  it('should close void elements', () => {
+    expect(tokenize('<p><br><img src="a.png"/>a</p>')).toEqual([
+      'open p {}',
+      'open br {}',
+      'close',
+      'open img {"src":"a.png"}',
+      'close',
+      'text a',
+      'close',
+      'end',
+    ]);
+  });
+
+  it('should not close non-void self-closing HTML elements', () => {
+    expect(tokenize('<div/>a')).toEqual([
+      'open div {}',
+      'text a',
+      'close',
+      'end',
+    ]);
+  });
+
+  it('should close self-closing foreign elements', () => {
+    expect(tokenize('<svg><rect/><![CDATA[a<b]]></svg><div/>')).toEqual([
+      'open svg {}',
+      'open rect {}',
+      'close',
+      'text a<b',
+      'close',
+      'open div {}',
+      'close',
+      'end',
+    ]);
+  });
+
+  it('should tokenize the contents of text elements as text', () => {
+    expect(tokenize('<title><b>&amp;</b></title><script>if (a<b) {}</script><style><p></style>')).toEqual([
+      'open title {}',
+      'text <b>&</b>',
+      'close',
+      'open script {}',
+      'text if (a<b) {}',
+      'close',
+      'open style {}',
+      'text <p>',
+      'close',
+      'end',
+    ]);
+  });
+
+  it('should close elements up to the element of an end tag, and ignore unmatched end tags', () => {
+    expect(tokenize('<div><span><b></div></i>a')).toEqual([
+      'open div {}',
+      'open span {}',
+      'open b {}',
+      'close',
+      'close',
+      'close',
+      'text a',
+      'end',
+    ]);
+  });
+
+  it('should expose the indexes of the current event', () => {
+    const indexes: string[] = [];
+    listener.onTagOpen = name => indexes.push(`open ${name} ${tokenizer.startIndex}-${tokenizer.endIndex}`);
+    listener.onTagClose = () => indexes.push(`close ${tokenizer.startIndex}-${tokenizer.endIndex}`);
+    tokenize('<div><br><p>a</div><p>');
+    expect(indexes).toEqual([
+      'open div 0-4',
+      'open br 5-8',
+      'close 5-8',
+      'open p 9-11',
+      'close 13-12',
+      'close 13-18',
+      'open p 19-21',
+      'close 22-21',
+    ]);
+  });
+
+  it('should buffer text while paused', () => {
+    listener.onTagOpen = (name) => {
+      events.push(`open ${name}`);
+      tokenizer.pause();
+    };
+    tokenizer.write('<p>a</p><p>b</p>');
+    expect(events).toEqual([ 'open p' ]);
+    tokenizer.resume();
+    expect(events).toEqual([ 'open p', 'text a', 'close', 'open p' ]);
+    tokenizer.end();
+    tokenizer.resume();
+    tokenizer.resume();
+    expect(events).toEqual([ 'open p', 'text a', 'close', 'open p', 'text b', 'close', 'end' ]);
+  });
+
+  it('should delegate XML documents to htmlparser2 by default', () => {
+    tokenizer = new TokenizerAdapterParse5().createTokenizer(listener, true);
+    expect(tokenize('<Root><![CDATA[a]]><A></A></Root>')).toEqual([
+      'open Root {}',
+      'text a',
+      'open A {}',
+      'close',
+      'close',
+      'end',
+    ]);
+  });
+
+  it('should delegate XML documents to the given adapter', () => {
+    const xmlTokenizer = <ITokenizer> {};
+    const xmlTokenizerAdapter = { createTokenizer: jest.fn(() => xmlTokenizer) };
+    expect(new TokenizerAdapterParse5(xmlTokenizerAdapter).createTokenizer(listener, true)).toBe(xmlTokenizer);
+    expect(xmlTokenizerAdapter.createTokenizer).toHaveBeenCalledWith(listener, true);
+  });
+
+  it('should only load parse5 when a tokenizer is created for it', () => {
+    jest.isolateModules(() => {
+      jest.doMock<typeof import('parse5')>('parse5', () => {
+        throw new Error('Cannot find module \'parse5\'');
+      });
+      const adapterModule = <typeof import('../lib/TokenizerAdapterParse5')> require('../lib/TokenizerAdapterParse5');
+      const adapter = new adapterModule.TokenizerAdapterParse5();
+      expect(adapter.createTokenizer(listener, true)).toBeTruthy();
+      expect(() => adapter.createTokenizer(listener, false)).toThrow('Cannot find module \'parse5\'');
+    });
+  });
+});
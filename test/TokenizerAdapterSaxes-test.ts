@@ -0,0 +1,145 @@
+import type { ITokenizer, ITokenizerListener } from '../lib/ITokenizer';
+import { TokenizerAdapterSaxes } from '../lib/TokenizerAdapterSaxes';
+
+describe('TokenizerAdapterSaxes', () => {
+  let events: string[];
+  let listener: ITokenizerListener;
+  let tokenizer: ITokenizer;
+
+  beforeEach(() => {
+    events = [];
+    listener = {
+      onTagOpen: (name, attributes) => events.push(`open ${name} ${JSON.stringify(attributes)}`),
+      onTagClose: () => events.push('close'),
+      onText: data => events.push(`text ${data}`),
+      onError: error => events.push(`error ${error.message}`),
+      onEnd: () => events.push('end'),
+    };
+    tokenizer = new TokenizerAdapterSaxes().createTokenizer(listener, true);
+  });
+
+  function tokenize(...chunks: string[]): string[] {
+    for (const chunk of chunks) {
+      tokenizer.write(chunk);
+    }
+    tokenizer.end();
+    return events;
+  }
+
+  it('should emit tags, text and the end', () => {
+    expect(tokenize(
+      '<?xml version="1.0"?><!-- c --><Root xmlns="http://ex.org/" xmlns:ex="http://ex.org/">a &amp;',
+      ' b<![CDATA[<c>]]><ex:A ex:b="1"/></Root>',
+    )).toEqual([
+      'open Root {"xmlns":"http://ex.org/","xmlns:ex":"http://ex.org/"}',
+      'text a & b',
+      'text <c>',
+      'open ex:A {"ex:b":"1"}',
+      'close',
+      'close',
+      'end',
+    ]);
+  });
+
+  it('should emit well-formedness and namespace errors, and continue', () => {
+    expect(tokenize('<a x:y="1">&nbsp;</b></a>')).toEqual([
+      'error 1:11: unbound namespace prefix: "x".',
+      'open a {"x:y":"1"}',
+      'error 1:17: undefined entity.',
+      'text &nbsp;',
+      'close',
+      'error 1:21: unexpected close tag.',
+      'error 1:21: unmatched closing tag: b.',
+      'text </b>',
+      'error 1:25: unmatched closing tag: a.',
+      'text </a>',
+      'end',
+    ]);
+  });
+
+  it('should close elements that are not closed at the end', () => {
+    expect(tokenize('<a><b>')).toEqual([
+      'open a {}',
+      'open b {}',
+      'error 1:6: unclosed tag: b',
+      'error 1:6: unclosed tag: a',
+      'close',
+      'close',
+      'end',
+    ]);
+  });
+
+  it('should expose the indexes of the current event', () => {
+    const indexes: string[] = [];
+    listener.onTagOpen = name => indexes.push(`open ${name} ${tokenizer.startIndex}-${tokenizer.endIndex}`);
+    listener.onTagClose = () => indexes.push(`close ${tokenizer.endIndex}`);
+    tokenize('<a>\n<b x="y"/>', '<c>d</c></a>');
+    expect(indexes).toEqual([
+      'open a 0-2',
+      'open b 4-13',
+      'close 13',
+      'open c 14-16',
+      'close 21',
+      'close 25',
+    ]);
+  });
+
+  it('should buffer chunks while paused', () => {
+    listener.onTagOpen = (name) => {
+      events.push(`open ${name}`);
+      tokenizer.pause();
+    };
+    tokenizer.write('<a>b');
+    tokenizer.write('</a>');
+    tokenizer.end();
+    expect(events).toEqual([ 'open a' ]);
+    tokenizer.resume();
+    expect(events).toEqual([ 'open a', 'text b', 'close', 'end' ]);
+  });
+
+  it('should pause after the tag at which it was paused within a chunk', () => {
+    listener.onTagOpen = (name) => {
+      events.push(`open ${name}`);
+      tokenizer.pause();
+    };
+    tokenizer.write('<a>b<c x="1>"/>d</a>');
+    tokenizer.end();
+    expect(events).toEqual([ 'open a' ]);
+    tokenizer.resume();
+    expect(events).toEqual([ 'open a', 'text b', 'open c', 'close' ]);
+    tokenizer.resume();
+    expect(events).toEqual([ 'open a', 'text b', 'open c', 'close', 'text d', 'close', 'end' ]);
+  });
+
+  it('should delegate HTML documents to htmlparser2 by default', () => {
+    tokenizer = new TokenizerAdapterSaxes().createTokenizer(listener, false);
+    expect(tokenize('<P>a<br>b')).toEqual([
+      'open p {}',
+      'text a',
+      'open br {}',
+      'close',
+      'text b',
+      'close',
+      'end',
+    ]);
+  });
+
+  it('should delegate HTML documents to the given adapter', () => {
+    const htmlTokenizer = <ITokenizer> {};
+    const htmlTokenizerAdapter = { createTokenizer: jest.fn(() => htmlTokenizer) };
+    expect(new TokenizerAdapterSaxes(htmlTokenizerAdapter).createTokenizer(listener, false)).toBe(htmlTokenizer);
+    expect(htmlTokenizerAdapter.createTokenizer).toHaveBeenCalledWith(listener, false);
+  });
+
+  it('should only load saxes when a tokenizer is created for it', () => {
+    jest.isolateModules(() => {
+      jest.doMock<typeof import('saxes')>('saxes', () => {
+        throw new Error('Cannot find module \'saxes\'');
+      });
+      const adapterModule = <typeof import('../lib/TokenizerAdapterSaxes')> require('../lib/TokenizerAdapterSaxes');
+      const adapter = new adapterModule.TokenizerAdapterSaxes();
+      expect(adapter.createTokenizer(listener, false)).toBeTruthy();
+      expect(() => adapter.createTokenizer(listener, true)).toThrow('Cannot find module \'saxes\'');
+    });
+  });
+});
@@ -169,9 +169,142 @@ describe('Util', () => {
         ex: 'http://example.org/',
       });
     });
+
+    it('should report an xmlns attribute that is overridden by @prefix', () => {
+      const attributes = {
+        prefix: 'ex: http://example.org/ abc: http://abc.org/',
+        'xmlns:ex': 'http://exampleignored.org/',
+        'xmlns:abc': 'http://abc.org/',
+      };
+      const onStatus = jest.fn();
+      expect(Util.parsePrefixes(attributes, {}, true, onStatus)).toEqual({
+        abc: 'http://abc.org/',
+        ex: 'http://example.org/',
+      });
+      expect(onStatus).toHaveBeenCalledTimes(1);
+      expect(onStatus).toHaveBeenCalledWith('PrefixRedefinition', 'The prefix \'ex\' of an xmlns attribute was overridden from \'http://exampleignored.org/\' to \'http://example.org/\' by the prefix attribute');
+    });
+
+    it('should report rejected prefixes', () => {
+      const attributes = {
+        prefix: '_: http://example.org/',
+      };
+      const onStatus = jest.fn();
+      expect(Util.parsePrefixes(attributes, {}, false, onStatus)).toEqual({});
+      expect(onStatus).toHaveBeenCalledWith('Warning', 'Ignored the prefix \'_\' for \'http://example.org/\', as it is reserved for blank nodes');
+    });
+  });
+
+  describe('#parsePrefixAttribute', () => {
+    it('should parse an empty value', () => {
+      expect(Util.parsePrefixAttribute('')).toEqual({});
+      expect(Util.parsePrefixAttribute(' \t\n')).toEqual({});
+    });
+
+    it('should parse prefixes separated by any whitespace', () => {
+      expect(Util.parsePrefixAttribute('\tdc:\r\nhttp://purl.org/dc/terms/\f ex:  http://example.org/ ')).toEqual({
+        dc: 'http://purl.org/dc/terms/',
+        ex: 'http://example.org/',
+      });
+    });
+
+    it('should convert prefixes to lowercase', () => {
+      expect(Util.parsePrefixAttribute('DC: http://purl.org/dc/terms/ eX: http://example.org/')).toEqual({
+        dc: 'http://purl.org/dc/terms/',
+        ex: 'http://example.org/',
+      });
+    });
+
+    it('should accept NCNames with non-ASCII characters', () => {
+      expect(Util.parsePrefixAttribute('é-x.1_: http://example.org/ 𐀀: http://example.org/2')).toEqual({
+        'é-x.1_': 'http://example.org/',
+        '𐀀': 'http://example.org/2',
+      });
+    });
+
+    it('should ignore and report prefixes that are not NCNames', () => {
+      const onStatus = jest.fn();
+      expect(Util.parsePrefixAttribute('1a: http://a.org/ a:b: http://b.org/ ok: http://ok.org/', onStatus)).toEqual({
+        ok: 'http://ok.org/',
+      });
+      expect(onStatus).toHaveBeenCalledTimes(2);
+      expect(onStatus).toHaveBeenCalledWith('Warning', 'Ignored the prefix \'1a\' for \'http://a.org/\', as it is not a valid NCName');
+      expect(onStatus).toHaveBeenCalledWith('Warning', 'Ignored the prefix \'a:b\' for \'http://b.org/\', as it is not a valid NCName');
+    });
+
+    it('should ignore and report the _ prefix', () => {
+      const onStatus = jest.fn();
+      expect(Util.parsePrefixAttribute('_: http://a.org/', onStatus)).toEqual({});
+      expect(onStatus).toHaveBeenCalledWith('Warning', 'Ignored the prefix \'_\' for \'http://a.org/\', as it is reserved for blank nodes');
+    });
+
+    it('should ignore and report the empty prefix', () => {
+      const onStatus = jest.fn();
+      expect(Util.parsePrefixAttribute(': http://a.org/', onStatus)).toEqual({});
+      expect(onStatus).toHaveBeenCalledWith('Warning', 'Ignored the prefix \'\' for \'http://a.org/\', as it is not a valid NCName');
+    });
+
+    it('should ignore and report declarations without colon', () => {
+      const onStatus = jest.fn();
+      expect(Util.parsePrefixAttribute('dc http://purl.org/dc/terms/ ex: http://example.org/', onStatus)).toEqual({
+        ex: 'http://example.org/',
+      });
+      expect(onStatus)
+        .toHaveBeenCalledWith('Warning', 'Ignored the prefix declaration \'dc\', as it does not end with a colon');
+      expect(onStatus).toHaveBeenCalledWith('Warning', 'Ignored the prefix declaration \'http://purl.org/dc/terms/\', as it does not end with a colon');
+    });
+
+    it('should ignore declarations without whitespace between prefix and IRI', () => {
+      const onStatus = jest.fn();
+      expect(Util.parsePrefixAttribute('dc:http://purl.org/dc/terms/', onStatus)).toEqual({});
+      expect(onStatus).toHaveBeenCalledWith('Warning', 'Ignored the prefix declaration \'dc:http://purl.org/dc/terms/\', as it does not end with a colon');
+    });
+
+    it('should ignore and report declarations without IRI', () => {
+      const onStatus = jest.fn();
+      expect(Util.parsePrefixAttribute('ex: http://example.org/ dc:', onStatus)).toEqual({
+        ex: 'http://example.org/',
+      });
+      expect(onStatus)
+        .toHaveBeenCalledWith('Warning', 'Ignored the prefix declaration \'dc:\', as it is not followed by an IRI');
+    });
+
+    it('should parse prefixes named after Object.prototype properties', () => {
+      const prefixes = Util.parsePrefixAttribute('__proto__: http://ex.org/a# constructor: http://ex.org/c#');
+      expect(Object.getPrototypeOf(prefixes)).toBeNull();
+      expect(Object.entries(prefixes)).toEqual([
+        [ '__proto__', 'http://ex.org/a#' ],
+        [ 'constructor', 'http://ex.org/c#' ],
+      ]);
+    });
+
+    it('should use the last declaration of a prefix, and report the redefinition', () => {
+      const onStatus = jest.fn();
+      expect(Util.parsePrefixAttribute('ex: http://a.org/ EX: http://b.org/', onStatus)).toEqual({
+        ex: 'http://b.org/',
+      });
+      expect(onStatus).toHaveBeenCalledWith('PrefixRedefinition', 'The prefix \'ex\' was declared multiple times, and was overridden from \'http://a.org/\' to \'http://b.org/\'');
+    });
+
+    it('should parse long malicious values in linear time', () => {
+      const start = Date.now();
+      expect(Util.parsePrefixAttribute(`${'a:'.repeat(50_000)} x`)).toEqual({});
+      expect(Util.parsePrefixAttribute(`${' :'.repeat(50_000)}!`)).toEqual({});
+      expect(Date.now() - start).toBeLessThan(1_000);
+    });
   });
 
   describe('#expandPrefixedTerm', () => {
+    it('should expand a prefixed term with an uppercase prefix', () => {
+      const activeTag: any = {
+        prefixesAll: {
+          dc: 'http://purl.org/dc/terms/',
+        },
+      };
+      expect(Util.expandPrefixedTerm('DC:bla', activeTag))
+        .toBe('http://purl.org/dc/terms/bla');
+    });
+
     it('should expand a valid prefixed term', () => {
       const activeTag: any = {
         prefixesAll: {
@@ -237,6 +370,62 @@ describe('Util', () => {
       };
       expect(Util.expandPrefixedTerm('', activeTag)).toBe('');
     });
+
+    it('should not expand prefixes and terms to Object.prototype properties', () => {
+      const activeTag: any = {
+        prefixesAll: {},
+      };
+      expect(Util.expandPrefixedTerm('constructor:bla', activeTag)).toBe('constructor:bla');
+      expect(Util.expandPrefixedTerm('toString', activeTag)).toBe('toString');
+      expect(Util.expandPrefixedTerm('__proto__', activeTag)).toBe('__proto__');
+    });
+
+    it('should expand prefixes named after Object.prototype properties', () => {
+      const activeTag: any = {
+        prefixesAll: Util.createRecord({ ['__proto__']: 'http://ex.org/a#' }, { constructor: 'http://ex.org/c#' }),
+      };
+      expect(Util.expandPrefixedTerm('__proto__:bla', activeTag)).toBe('http://ex.org/a#bla');
+      expect(Util.expandPrefixedTerm('constructor:bla', activeTag)).toBe('http://ex.org/c#bla');
+    });
+  });
+
+  describe('#createRecord', () => {
+    it('should create an empty record without prototype', () => {
+      const record = Util.createRecord();
+      expect(Object.getPrototypeOf(record)).toBeNull();
+      expect(Object.keys(record)).toEqual([]);
+      expect(record.constructor).toBeUndefined();
+    });
+
+    it('should copy the entries of the given records', () => {
+      expect(Util.createRecord({ a: '1', b: '2' }, { b: '3' })).toEqual({ a: '1', b: '3' });
+    });
+
+    it('should store __proto__ as a regular entry', () => {
+      const key = '__proto__';
+      const record = Util.createRecord<string>(JSON.parse('{ "__proto__": "a" }'));
+      expect(record[key]).toBe('a');
+      record[key] = 'b';
+      expect(Object.getPrototypeOf(record)).toBeNull();
+      expect(Object.keys(record)).toEqual([ key ]);
+      expect(record[key]).toBe('b');
+    });
+  });
+
+  describe('#getOwnValue', () => {
+    it('should return own values', () => {
+      expect(Util.getOwnValue({ a: '1' }, 'a')).toBe('1');
+    });
+
+    it('should not return inherited values', () => {
+      expect(Util.getOwnValue({ a: '1' }, 'b')).toBeUndefined();
+      expect(Util.getOwnValue({ a: '1' }, 'constructor')).toBeUndefined();
+      expect(Util.getOwnValue({ a: '1' }, '__proto__')).toBeUndefined();
+    });
+
+    it('should work for records without prototype', () => {
+      expect(Util.getOwnValue(Util.createRecord({ a: '1' }), 'a')).toBe('1');
+    });
   });
 
   describe('#contentTypeToProfile', () => {
@@ -269,6 +458,421 @@ describe('Util', () => {
       expect(Util.contentTypeToProfile('image/svg+xml'))
         .toBe('xml');
     });
+
+    it('should ignore parameters', () => {
+      expect(Util.contentTypeToProfile('text/html; charset=utf-8'))
+        .toBe('html');
+      expect(Util.contentTypeToProfile('application/xhtml+xml;charset="utf-8";q=0.9'))
+        .toBe('xhtml');
+    });
+
+    it('should ignore case and whitespace', () => {
+      expect(Util.contentTypeToProfile(' Text/HTML '))
+        .toBe('html');
+    });
+
+    it('should return xml for types with an +xml suffix', () => {
+      expect(Util.contentTypeToProfile('application/atom+xml'))
+        .toBe('xml');
+      expect(Util.contentTypeToProfile('application/rss+XML; charset=utf-8'))
+        .toBe('xml');
+    });
+
+    it('should return empty string for types with other suffixes', () => {
+      expect(Util.contentTypeToProfile('application/ld+json'))
+        .toBe('');
+    });
+
+    it('should return empty string for invalid content types', () => {
+      expect(Util.contentTypeToProfile(''))
+        .toBe('');
+      expect(Util.contentTypeToProfile('html'))
+        .toBe('');
+      expect(Util.contentTypeToProfile('text/ html'))
+        .toBe('');
+    });
+  });
+
+  describe('#parseMediaType', () => {
+    it('should return undefined for invalid media types', () => {
+      expect(Util.parseMediaType('')).toBeUndefined();
+      expect(Util.parseMediaType('text')).toBeUndefined();
+      expect(Util.parseMediaType('/html')).toBeUndefined();
+      expect(Util.parseMediaType('text/')).toBeUndefined();
+      expect(Util.parseMediaType('text/ht ml')).toBeUndefined();
+      expect(Util.parseMediaType('; charset=utf-8')).toBeUndefined();
+    });
+
+    it('should parse a media type without parameters', () => {
+      expect(Util.parseMediaType('text/html')).toEqual({
+        type: 'text',
+        subtype: 'html',
+        suffix: undefined,
+        parameters: {},
+      });
+    });
+
+    it('should parse a media type with a suffix', () => {
+      expect(Util.parseMediaType('Application/XHTML+XML')).toEqual({
+        type: 'application',
+        subtype: 'xhtml+xml',
+        suffix: 'xml',
+        parameters: {},
+      });
+    });
+
+    it('should parse parameters', () => {
+      expect(Util.parseMediaType('text/html; Charset=UTF-8;q=0.5 ;  level = 1 ')!.parameters).toEqual({
+        charset: 'UTF-8',
+        q: '0.5',
+        level: '1',
+      });
+    });
+
+    it('should parse quoted parameters', () => {
+      expect(Util.parseMediaType('text/html; a="x;y\\"z" ; b=c; d=  "e"')!.parameters).toEqual({
+        a: 'x;y"z',
+        b: 'c',
+        d: 'e',
+      });
+    });
+
+    it('should ignore parameters without name or value', () => {
+      expect(Util.parseMediaType('text/html;;a; =b; c=d; e')!.parameters).toEqual({
+        c: 'd',
+      });
+    });
+
+    it('should only consider the first occurrence of a parameter', () => {
+      expect(Util.parseMediaType('text/html; charset=a; CHARSET=b')!.parameters).toEqual({
+        charset: 'a',
+      });
+    });
+
+    it('should handle unterminated quoted parameters', () => {
+      expect(Util.parseMediaType('text/html; a="b\\')!.parameters).toEqual({
+        a: 'b',
+      });
+    });
+  });
+
+  describe('#detectProfile', () => {
+    it('should return undefined for incomplete documents', () => {
+      expect(Util.detectProfile('', false)).toBeUndefined();
+      expect(Util.detectProfile('abc', false)).toBeUndefined();
+      expect(Util.detectProfile('<', false)).toBeUndefined();
+      expect(Util.detectProfile('<?xml version="1.0"', false)).toBeUndefined();
+      expect(Util.detectProfile('<?xml version="1.0"?><!DOCTYPE html', false)).toBeUndefined();
+      expect(Util.detectProfile('<!-- <html> ', false)).toBeUndefined();
+      expect(Util.detectProfile('<html xmlns="', false)).toBeUndefined();
+    });
+
+    it('should return the default profile for complete documents without root element', () => {
+      expect(Util.detectProfile('', true)).toBe('');
+      expect(Util.detectProfile('abc', true)).toBe('');
+      expect(Util.detectProfile('<', true)).toBe('');
+      expect(Util.detectProfile('<?xml version="1.0"', true)).toBe('');
+      expect(Util.detectProfile('<!-- <html> ', true)).toBe('');
+      expect(Util.detectProfile('a < b', true)).toBe('');
+    });
+
+    it('should detect svg root elements', () => {
+      expect(Util.detectProfile('<svg xmlns="http://www.w3.org/2000/svg">', false)).toBe('xml');
+      expect(Util.detectProfile('<?xml version="1.0"?>\n<!-- a -->\n<SVG>', false)).toBe('xml');
+    });
+
+    it('should detect html root elements', () => {
+      expect(Util.detectProfile('<html>', false)).toBe('html');
+      expect(Util.detectProfile('<!DOCTYPE html>\n<html lang="en">', false)).toBe('html');
+      expect(Util.detectProfile('<!DOCTYPE HTML PUBLIC "-//W3C//DTD HTML 4.01//EN"><html>', false)).toBe('html');
+      expect(Util.detectProfile('<html/>', false)).toBe('html');
+    });
+
+    it('should detect html root elements in incomplete complete documents', () => {
+      expect(Util.detectProfile('<html lang="en"', true)).toBe('html');
+    });
+
+    it('should detect html5 root elements with xmlns', () => {
+      expect(Util.detectProfile('<!DOCTYPE html><html xmlns="http://www.w3.org/1999/xhtml">', false))
+        .toBe('html');
+    });
+
+    it('should detect xhtml by DOCTYPE', () => {
+      expect(Util.detectProfile(`<!DOCTYPE html PUBLIC "-//W3C//DTD XHTML+RDFa 1.1//EN"
+  "http://www.w3.org/MarkUp/DTD/xhtml-rdfa-2.dtd"><html>`, false)).toBe('xhtml');
+      expect(Util.detectProfile(`<!DOCTYPE html PUBLIC "-//W3C//DTD XHTML 1.0 Strict//EN"
+  "http://www.w3.org/TR/xhtml1/DTD/xhtml1-strict.dtd"><html>`, false)).toBe('xhtml');
+    });
+
+    it('should detect xhtml by xmlns without DOCTYPE', () => {
+      expect(Util.detectProfile('<html xmlns="http://www.w3.org/1999/xhtml">', false)).toBe('xhtml');
+    });
+
+    it('should detect xhtml5 by xmlns and an XML declaration', () => {
+      expect(Util.detectProfile(`\uFEFF<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml">`, false)).toBe('xhtml');
+    });
+
+    it('should not consider processing instructions after the start as XML declaration', () => {
+      expect(Util.detectProfile('<!-- a --><?xml version="1.0"?><root>', false)).toBe('');
+    });
+
+    it('should detect xml for other root elements with an XML declaration', () => {
+      expect(Util.detectProfile('<?xml version="1.0"?><rdf:RDF>', false)).toBe('xml');
+    });
+
+    it('should return the default profile for other root elements without XML declaration', () => {
+      expect(Util.detectProfile('<div>', false)).toBe('');
+      expect(Util.detectProfile('<!DOCTYPE html><body>', false)).toBe('');
+    });
+  });
+
+  describe('#isAbsoluteIri', () => {
+    it('should be true for IRIs with a scheme', () => {
+      expect(Util.isAbsoluteIri('http://ex.org/')).toBe(true);
+      expect(Util.isAbsoluteIri('urn:isbn:123')).toBe(true);
+    });
+
+    it('should be false for relative IRIs', () => {
+      expect(Util.isAbsoluteIri('')).toBe(false);
+      expect(Util.isAbsoluteIri('#me')).toBe(false);
+      expect(Util.isAbsoluteIri('a/b:c')).toBe(false);
+      expect(Util.isAbsoluteIri('_:b')).toBe(false);
+    });
+  });
+
+  describe('#getScheme', () => {
+    it('should return the lowercase scheme of absolute IRIs', () => {
+      expect(Util.getScheme('http://ex.org/')).toBe('http');
+      expect(Util.getScheme('JavaScript:alert(1)')).toBe('javascript');
+      expect(Util.getScheme('urn:isbn:123')).toBe('urn');
+    });
+
+    it('should return undefined for relative IRIs', () => {
+      expect(Util.getScheme('')).toBeUndefined();
+      expect(Util.getScheme('a/b:c')).toBeUndefined();
+    });
+  });
+
+  describe('#resolveRelativeIri', () => {
+    it('should keep IRIs for an empty base IRI', () => {
+      expect(Util.resolveRelativeIri('a/../b', '')).toBe('a/../b');
+      expect(Util.resolveRelativeIri('', '')).toBe('');
+    });
+
+    it('should keep path-absolute IRIs', () => {
+      expect(Util.resolveRelativeIri('/a', 'dir/page')).toBe('/a');
+      expect(Util.resolveRelativeIri('//host/a', 'dir/page')).toBe('//host/a');
+    });
+
+    it('should resolve against a relative base IRI', () => {
+      expect(Util.resolveRelativeIri('a', 'dir/page')).toBe('dir/a');
+      expect(Util.resolveRelativeIri('', 'dir/page#f')).toBe('dir/page');
+      expect(Util.resolveRelativeIri('#g', 'dir/page#f')).toBe('dir/page#g');
+      expect(Util.resolveRelativeIri('?q', 'dir/page?p')).toBe('dir/page?q');
+      expect(Util.resolveRelativeIri('../../a', 'dir/page')).toBe('a');
+      expect(Util.resolveRelativeIri('a', '#f')).toBe('a');
+    });
+
+    it('should resolve against a path-absolute base IRI', () => {
+      expect(Util.resolveRelativeIri('../a', '/dir/sub/page')).toBe('/dir/a');
+    });
+  });
+
+  describe('an instance with relative IRIs', () => {
+    let util: Util;
+
+    beforeEach(() => {
+      util = new Util(undefined, undefined, true);
+    });
+
+    describe('#resolveIri', () => {
+      it('should keep relative IRIs relative', () => {
+        expect(util.resolveIri('#me', '')).toBe('#me');
+        expect(util.resolveIri('a', 'dir/')).toBe('dir/a');
+      });
+
+      it('should resolve against absolute base IRIs', () => {
+        expect(util.resolveIri('a', 'http://ex.org/dir/')).toBe('http://ex.org/dir/a');
+        expect(util.resolveIri('http://ex.org/a/../b', '')).toBe('http://ex.org/b');
+      });
+    });
+
+    describe('#createIri', () => {
+      it('should create relative IRIs', () => {
+        const activeTag: any = {};
+        expect(util.createIri('#me', activeTag, false, false, true)).toEqualRdfTerm(DF.namedNode('#me'));
+        expect(util.createIri('', activeTag, false, true, true)).toEqualRdfTerm(DF.namedNode(''));
+      });
+
+      it('should create relative IRIs from prefixes with relative IRIs', () => {
+        const activeTag: any = { prefixesAll: { ex: 'dir/' }};
+        expect(util.createIri('ex:a', activeTag, true, true, true)).toEqualRdfTerm(DF.namedNode('dir/a'));
+      });
+
+      it('should not create invalid relative IRIs', () => {
+        const activeTag: any = {};
+        expect(util.createIri('a b', activeTag, false, false, true)).toBeNull();
+      });
+    });
+
+    describe('#getBaseIRI', () => {
+      it('should return a relative baseIRI', () => {
+        expect(util.getBaseIRI('dir/#f')).toEqualRdfTerm(DF.namedNode('dir/'));
+      });
+    });
+  });
+
+  describe('an instance with an IRI policy', () => {
+    let util: Util;
+    let listener: jest.Mock;
+
+    beforeEach(() => {
+      util = new Util(undefined, 'http://ex.org/', true, {
+        allowedSchemes: [ 'HTTP', 'https', 'mailto', 'javascript' ],
+        deniedSchemes: [ 'javascript' ],
+        maxIriLength: 30,
+      });
+      listener = jest.fn();
+      util.processorStatusListener = listener;
+    });
+
+    describe('#getIriPolicyViolation', () => {
+      it('should allow IRIs with allowed schemes', () => {
+        expect(util.getIriPolicyViolation('http://ex.org/')).toBeUndefined();
+        expect(util.getIriPolicyViolation('HTTPS://ex.org/')).toBeUndefined();
+      });
+
+      it('should allow relative IRIs', () => {
+        expect(util.getIriPolicyViolation('#me')).toBeUndefined();
+      });
+
+      it('should reject IRIs with schemes that are not allowed', () => {
+        expect(util.getIriPolicyViolation('file:///etc/passwd')).toBe('the scheme \'file\' is not allowed');
+      });
+
+      it('should reject IRIs with denied schemes', () => {
+        expect(util.getIriPolicyViolation('JavaScript:alert(1)')).toBe('the scheme \'javascript\' is denied');
+      });
+
+      it('should reject IRIs that are too long', () => {
+        expect(util.getIriPolicyViolation(`http://ex.org/${'a'.repeat(17)}`))
+          .toBe('it is longer than 30 characters');
+        expect(util.getIriPolicyViolation(`${'a'.repeat(31)}`)).toBe('it is longer than 30 characters');
+      });
+
+      it('should allow all IRIs without policy', () => {
+        expect(new Util(undefined, undefined).getIriPolicyViolation('javascript:alert(1)')).toBeUndefined();
+      });
+    });
+
+    describe('#createPolicyNamedNode', () => {
+      it('should create named nodes for allowed IRIs', () => {
+        expect(util.createPolicyNamedNode('http://ex.org/')).toEqualRdfTerm(DF.namedNode('http://ex.org/'));
+        expect(listener).not.toHaveBeenCalled();
+      });
+
+      it('should drop and report IRIs that violate the policy by default', () => {
+        expect(util.createPolicyNamedNode('javascript:alert(1)')).toBeNull();
+        expect(listener).toHaveBeenCalledWith(
+          'Warning',
+          'Dropped the IRI javascript:alert(1), as the scheme \'javascript\' is denied',
+        );
+      });
+
+      it('should abbreviate long IRIs in reports', () => {
+        expect(util.createPolicyNamedNode(`file:${'a'.repeat(200)}`)).toBeNull();
+        expect(listener).toHaveBeenCalledWith('Warning', `Dropped the IRI file:${'a'.repeat(95)}..., as it is longer than 30 characters`);
+      });
+
+      it('should replace IRIs that violate the policy with about:invalid', () => {
+        util = new Util(undefined, undefined, false, { deniedSchemes: [ 'data' ], action: 'replace' });
+        util.processorStatusListener = listener;
+        expect(util.createPolicyNamedNode('data:,a')).toEqualRdfTerm(DF.namedNode('about:invalid'));
+        expect(listener).toHaveBeenCalledWith('Warning', 'Replaced the IRI data:,a, as the scheme \'data\' is denied');
+      });
+
+      it('should replace IRIs that violate the policy with a custom replacement', () => {
+        util = new Util(undefined, undefined, false, {
+          deniedSchemes: [ 'data' ],
+          action: 'replace',
+          replacement: 'urn:x-invalid',
+        });
+        expect(util.createPolicyNamedNode('data:,a')).toEqualRdfTerm(DF.namedNode('urn:x-invalid'));
+      });
+
+      it('should keep and report IRIs that violate the policy when reporting', () => {
+        util = new Util(undefined, undefined, false, { deniedSchemes: [ 'data' ], action: 'report' });
+        util.processorStatusListener = listener;
+        expect(util.createPolicyNamedNode('data:,a')).toEqualRdfTerm(DF.namedNode('data:,a'));
+        expect(listener)
+          .toHaveBeenCalledWith('Warning', 'The IRI data:,a violates the IRI policy, as the scheme \'data\' is denied');
+      });
+    });
+
+    describe('#getBaseIRI', () => {
+      it('should apply the policy to base IRIs', () => {
+        expect(util.getBaseIRI('https://ex.org/#a')).toEqualRdfTerm(DF.namedNode('https://ex.org/'));
+        expect(util.getBaseIRI('javascript:alert(1)//')).toBeNull();
+      });
+    });
+
+    describe('#createIri', () => {
+      it('should apply the policy to IRIs', () => {
+        const activeTag: any = {};
+        expect(util.createIri('mailto:a@ex.org', activeTag, false, false, true))
+          .toEqualRdfTerm(DF.namedNode('mailto:a@ex.org'));
+        expect(util.createIri('javascript:alert(1)', activeTag, false, false, true)).toBeNull();
+      });
+
+      it('should apply the policy to resolved IRIs', () => {
+        const activeTag: any = { localBaseIRI: DF.namedNode('file:///dir/') };
+        expect(util.createIri('a', activeTag, false, false, true)).toBeNull();
+        expect(util.createIri('[a]', activeTag, false, true, true)).toBeNull();
+      });
+
+      it('should apply the policy to expanded CURIEs', () => {
+        const activeTag: any = { prefixesAll: { ex: 'http://ex.org/', js: 'javascript:' }};
+        expect(util.createIri('ex:a', activeTag, true, true, true)).toEqualRdfTerm(DF.namedNode('http://ex.org/a'));
+        expect(util.createIri('js:alert(1)', activeTag, true, true, true)).toBeNull();
+      });
+
+      it('should apply the policy to vocabulary terms', () => {
+        const activeTag: any = { vocab: 'javascript:' };
+        expect(util.createIri('alert(1)', activeTag, true, true, true)).toBeNull();
+      });
+
+      it('should not apply the policy to blank nodes', () => {
+        const activeTag: any = {};
+        expect(util.createIri('_:b', activeTag, false, true, true)).toEqualRdfTerm(DF.blankNode('b'));
+      });
+    });
+  });
+
+  describe('an instance with a base IRI', () => {
+    let util: Util;
+
+    beforeEach(() => {
+      util = new Util(undefined, 'http://ex.org/dir/page');
+    });
+
+    describe('#rebaseQuad', () => {
+      it('should resolve relative IRIs in all positions', () => {
+        expect(util.rebaseQuad(DF.quad(DF.namedNode(''), DF.namedNode('p'), DF.namedNode('#o'), DF.namedNode('../g'))))
+          .toEqualRdfQuad(DF.quad(
+            DF.namedNode('http://ex.org/dir/page'),
+            DF.namedNode('http://ex.org/dir/p'),
+            DF.namedNode('http://ex.org/dir/page#o'),
+            DF.namedNode('http://ex.org/g'),
+          ));
+      });
+
+      it('should return quads without relative IRIs as-is', () => {
+        const quad = DF.quad(DF.blankNode(), DF.namedNode('http://ex.org/p'), DF.literal('a'), DF.defaultGraph());
+        expect(util.rebaseQuad(quad)).toBe(quad);
+      });
+    });
   });
 
   describe('a default instance', () => {
@@ -484,6 +1088,66 @@ describe('Util', () => {
       });
     });
 
+    describe('#createIri with a processor status listener', () => {
+      let listener;
+
+      beforeEach(() => {
+        listener = jest.fn();
+        util.processorStatusListener = listener;
+      });
+
+      it('should report invalid IRIs when CURIEs are not allowed', async() => {
+        const activeTag: any = {};
+        await expect(util.createIri('abc', activeTag, true, false, true)).toBeFalsy();
+        expect(listener).toHaveBeenCalledWith('Warning', 'Invalid IRI: abc');
+      });
+
+      it('should report safe CURIEs without prefix', async() => {
+        const activeTag: any = {};
+        await expect(util.createIri('[abc]', activeTag, false, true, true)).toBeFalsy();
+        expect(listener).toHaveBeenCalledWith('UnresolvedCURIE', 'Safe CURIE without prefix: [abc]');
+      });
+
+      it('should report safe CURIEs with an undefined prefix', async() => {
+        const activeTag: any = { prefixesAll: {}};
+        await expect(util.createIri('[ex:abc]', activeTag, false, true, true))
+          .toEqualRdfTerm(DF.namedNode('ex:abc'));
+        expect(listener).toHaveBeenCalledWith('UnresolvedCURIE', 'Undefined prefix in CURIE: [ex:abc]');
+      });
+
+      it('should not report safe CURIEs with a defined prefix', async() => {
+        const activeTag: any = { prefixesAll: { ex: 'http://ex.org/' }};
+        await expect(util.createIri('[ex:abc]', activeTag, false, true, true))
+          .toEqualRdfTerm(DF.namedNode('http://ex.org/abc'));
+        expect(listener).not.toHaveBeenCalled();
+      });
+
+      it('should not report safe CURIEs with the default prefix', async() => {
+        const activeTag: any = { prefixesAll: {}};
+        await expect(util.createIri('[:abc]', activeTag, false, true, true))
+          .toEqualRdfTerm(DF.namedNode('http://www.w3.org/1999/xhtml/vocab#abc'));
+        expect(listener).not.toHaveBeenCalled();
+      });
+
+      it('should report unresolved terms', async() => {
+        const activeTag: any = { prefixesAll: {}};
+        await expect(util.createIri('abc', activeTag, true, true, true)).toBeFalsy();
+        expect(listener).toHaveBeenCalledWith('UnresolvedTerm', 'Unresolved term: abc');
+      });
+
+      it('should not report empty terms', async() => {
+        const activeTag: any = { prefixesAll: {}};
+        await expect(util.createIri('', activeTag, true, true, true)).toBeFalsy();
+        expect(listener).not.toHaveBeenCalled();
+      });
+
+      it('should report invalid IRIs when CURIEs are allowed', async() => {
+        const activeTag: any = { prefixesAll: { ex: 'http://ex.org/' }};
+        await expect(util.createIri('ex:a b', activeTag, false, true, true)).toBeFalsy();
+        expect(listener).toHaveBeenCalledWith('Warning', 'Invalid IRI: http://ex.org/a b');
+      });
+    });
+
     describe('#createLiteral', () => {
       it('should create string literals', async() => {
         const activeTag: any = {};
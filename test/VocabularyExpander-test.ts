@@ -0,0 +1,169 @@
+import { DataFactory } from 'rdf-data-factory';
+import 'jest-rdf';
+import { VocabularyExpander } from '../lib/VocabularyExpander';
+
+const quad = require('rdf-quad');
+
+const DF = new DataFactory();
+
+describe('VocabularyExpander', () => {
+  let expander: VocabularyExpander;
+
+  beforeEach(() => {
+    expander = new VocabularyExpander(DF);
+  });
+
+  describe('#termToKey', () => {
+    it('should create keys for named nodes', () => {
+      expect(VocabularyExpander.termToKey(DF.namedNode('http://ex.org/a'))).toBe('NamedNode:http://ex.org/a');
+    });
+
+    it('should create keys for literals', () => {
+      expect(VocabularyExpander.termToKey(DF.literal('abc', 'en')))
+        .toBe('"abc"@en^^http://www.w3.org/1999/02/22-rdf-syntax-ns#langString');
+    });
+
+    it('should create distinct keys for literals and named nodes with equal values', () => {
+      expect(VocabularyExpander.termToKey(DF.literal('http://ex.org/a')))
+        .not.toBe(VocabularyExpander.termToKey(DF.namedNode('http://ex.org/a')));
+    });
+  });
+
+  describe('#quadToKey', () => {
+    it('should create distinct keys for distinct quads', () => {
+      expect(VocabularyExpander.quadToKey(quad('http://ex.org/s', 'http://ex.org/p', 'http://ex.org/o')))
+        .not.toBe(VocabularyExpander.quadToKey(quad('http://ex.org/s', 'http://ex.org/p', 'http://ex.org/o2')));
+    });
+
+    it('should create equal keys for equal quads', () => {
+      expect(VocabularyExpander.quadToKey(quad('http://ex.org/s', 'http://ex.org/p', '"o"')))
+        .toBe(VocabularyExpander.quadToKey(quad('http://ex.org/s', 'http://ex.org/p', '"o"')));
+    });
+  });
+
+  describe('#addVocabulary', () => {
+    it('should return true if new relations were added', () => {
+      expect(expander.addVocabulary([
+        quad('http://ex.org/p', 'http://www.w3.org/2000/01/rdf-schema#subPropertyOf', 'http://ex.org/p2'),
+      ])).toBe(true);
+    });
+
+    it('should return false if no new relations were added', () => {
+      expander.addVocabulary([
+        quad('http://ex.org/p', 'http://www.w3.org/2000/01/rdf-schema#subPropertyOf', 'http://ex.org/p2'),
+      ]);
+      expect(expander.addVocabulary([
+        quad('http://ex.org/p', 'http://www.w3.org/2000/01/rdf-schema#subPropertyOf', 'http://ex.org/p2'),
+        quad('http://ex.org/p', 'http://ex.org/label', 'http://ex.org/p2'),
+      ])).toBe(false);
+    });
+  });
+
+  describe('#expand', () => {
+    it('should not entail anything without vocabularies', () => {
+      expect(expander.expand(quad('http://ex.org/s', 'http://ex.org/p', 'http://ex.org/o')))
+        .toBeRdfIsomorphic([]);
+    });
+
+    it('should apply rdfs:subPropertyOf transitively', () => {
+      expander.addVocabulary([
+        quad('http://ex.org/p', 'http://www.w3.org/2000/01/rdf-schema#subPropertyOf', 'http://ex.org/p2'),
+        quad('http://ex.org/p2', 'http://www.w3.org/2000/01/rdf-schema#subPropertyOf', 'http://ex.org/p3'),
+      ]);
+      expect(expander.expand(quad('http://ex.org/s', 'http://ex.org/p', '"o"')))
+        .toBeRdfIsomorphic([
+          quad('http://ex.org/s', 'http://ex.org/p2', '"o"'),
+          quad('http://ex.org/s', 'http://ex.org/p3', '"o"'),
+        ]);
+    });
+
+    it('should apply owl:equivalentProperty in both directions', () => {
+      expander.addVocabulary([
+        quad('http://ex.org/p', 'http://www.w3.org/2002/07/owl#equivalentProperty', 'http://ex.org/p2'),
+      ]);
+      expect(expander.expand(quad('http://ex.org/s', 'http://ex.org/p', '"o"')))
+        .toBeRdfIsomorphic([
+          quad('http://ex.org/s', 'http://ex.org/p2', '"o"'),
+        ]);
+      expect(expander.expand(quad('http://ex.org/s', 'http://ex.org/p2', '"o"')))
+        .toBeRdfIsomorphic([
+          quad('http://ex.org/s', 'http://ex.org/p', '"o"'),
+        ]);
+    });
+
+    it('should apply rdfs:subClassOf transitively', () => {
+      expander.addVocabulary([
+        quad('http://ex.org/C', 'http://www.w3.org/2000/01/rdf-schema#subClassOf', 'http://ex.org/C2'),
+        quad('http://ex.org/C2', 'http://www.w3.org/2000/01/rdf-schema#subClassOf', 'http://ex.org/C3'),
+      ]);
+      expect(expander.expand(quad('http://ex.org/s', 'http://www.w3.org/1999/02/22-rdf-syntax-ns#type', 'http://ex.org/C')))
+        .toBeRdfIsomorphic([
+          quad('http://ex.org/s', 'http://www.w3.org/1999/02/22-rdf-syntax-ns#type', 'http://ex.org/C2'),
+          quad('http://ex.org/s', 'http://www.w3.org/1999/02/22-rdf-syntax-ns#type', 'http://ex.org/C3'),
+        ]);
+    });
+
+    it('should apply owl:equivalentClass in both directions', () => {
+      expander.addVocabulary([
+        quad('http://ex.org/C', 'http://www.w3.org/2002/07/owl#equivalentClass', 'http://ex.org/C2'),
+      ]);
+      expect(expander.expand(quad('http://ex.org/s', 'http://www.w3.org/1999/02/22-rdf-syntax-ns#type', 'http://ex.org/C2')))
+        .toBeRdfIsomorphic([
+          quad('http://ex.org/s', 'http://www.w3.org/1999/02/22-rdf-syntax-ns#type', 'http://ex.org/C'),
+        ]);
+    });
+
+    it('should apply class rules on properties that are sub-properties of rdf:type', () => {
+      expander.addVocabulary([
+        quad('http://ex.org/type', 'http://www.w3.org/2000/01/rdf-schema#subPropertyOf', 'http://www.w3.org/1999/02/22-rdf-syntax-ns#type'),
+        quad('http://ex.org/C', 'http://www.w3.org/2000/01/rdf-schema#subClassOf', 'http://ex.org/C2'),
+      ]);
+      expect(expander.expand(quad('http://ex.org/s', 'http://ex.org/type', 'http://ex.org/C')))
+        .toBeRdfIsomorphic([
+          quad('http://ex.org/s', 'http://www.w3.org/1999/02/22-rdf-syntax-ns#type', 'http://ex.org/C'),
+          quad('http://ex.org/s', 'http://www.w3.org/1999/02/22-rdf-syntax-ns#type', 'http://ex.org/C2'),
+        ]);
+    });
+
+    it('should not apply class rules on literal types', () => {
+      expander.addVocabulary([
+        quad('http://ex.org/C', 'http://www.w3.org/2000/01/rdf-schema#subClassOf', 'http://ex.org/C2'),
+      ]);
+      expect(expander.expand(quad('http://ex.org/s', 'http://www.w3.org/1999/02/22-rdf-syntax-ns#type', '"http://ex.org/C"')))
+        .toBeRdfIsomorphic([]);
+    });
+
+    it('should terminate on cyclic relations', () => {
+      expander.addVocabulary([
+        quad('http://ex.org/p', 'http://www.w3.org/2000/01/rdf-schema#subPropertyOf', 'http://ex.org/p2'),
+        quad('http://ex.org/p2', 'http://www.w3.org/2000/01/rdf-schema#subPropertyOf', 'http://ex.org/p'),
+      ]);
+      expect(expander.expand(quad('http://ex.org/s', 'http://ex.org/p', '"o"')))
+        .toBeRdfIsomorphic([
+          quad('http://ex.org/s', 'http://ex.org/p2', '"o"'),
+        ]);
+    });
+
+    it('should ignore non-IRI relations and unrelated quads in vocabularies', () => {
+      expander.addVocabulary([
+        quad('_:b', 'http://www.w3.org/2000/01/rdf-schema#subPropertyOf', 'http://ex.org/p2'),
+        quad('http://ex.org/p', 'http://www.w3.org/2000/01/rdf-schema#subPropertyOf', '"p2"'),
+        quad('http://ex.org/p', 'http://www.w3.org/2000/01/rdf-schema#label', 'http://ex.org/p3'),
+      ]);
+      expect(expander.expand(quad('http://ex.org/s', 'http://ex.org/p', '"o"')))
+        .toBeRdfIsomorphic([]);
+    });
+
+    it('should take into account vocabularies that are added after an expansion', () => {
+      expect(expander.expand(quad('http://ex.org/s', 'http://ex.org/p', '"o"')))
+        .toBeRdfIsomorphic([]);
+      expander.addVocabulary([
+        quad('http://ex.org/p', 'http://www.w3.org/2000/01/rdf-schema#subPropertyOf', 'http://ex.org/p2'),
+      ]);
+      expect(expander.expand(quad('http://ex.org/s', 'http://ex.org/p', '"o"')))
+        .toBeRdfIsomorphic([
+          quad('http://ex.org/s', 'http://ex.org/p2', '"o"'),
+        ]);
+    });
+  });
+});
@@ -0,0 +1,52 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import 'jest-rdf';
+import { VocabularyLoaderFile } from '../lib/VocabularyLoaderFile';
+
+const quad = require('rdf-quad');
+
+describe('VocabularyLoaderFile', () => {
+  let directory: string;
+
+  beforeAll(() => {
+    directory = mkdtempSync(join(tmpdir(), 'rdfa-vocab-'));
+    writeFileSync(join(directory, 'vocab.html'), `<html prefix="rdfs: http://www.w3.org/2000/01/rdf-schema#">
+<body>
+  <div about="#p"><link property="rdfs:subPropertyOf" href="#p2" /></div>
+</body>
+</html>`);
+    writeFileSync(join(directory, 'vocab.svg'), `<svg xmlns="http://www.w3.org/2000/svg">
+  <metadata about="#C" rel="http://www.w3.org/2000/01/rdf-schema#subClassOf" resource="#C2" />
+</svg>`);
+  });
+
+  afterAll(() => {
+    rmSync(directory, { recursive: true });
+  });
+
+  it('should load a known vocabulary', async() => {
+    const loader = new VocabularyLoaderFile({ 'http://ex.org/vocab': join(directory, 'vocab.html') });
+    await expect(loader.load('http://ex.org/vocab')).resolves.toBeRdfIsomorphic([
+      quad('http://ex.org/vocab#p', 'http://www.w3.org/2000/01/rdf-schema#subPropertyOf', 'http://ex.org/vocab#p2'),
+    ]);
+  });
+
+  it('should load a known vocabulary with a custom content type', async() => {
+    const loader = new VocabularyLoaderFile({ 'http://ex.org/vocab': join(directory, 'vocab.svg') }, 'image/svg+xml');
+    await expect(loader.load('http://ex.org/vocab')).resolves.toBeRdfIsomorphic([
+      quad('http://ex.org/vocab#C', 'http://www.w3.org/2000/01/rdf-schema#subClassOf', 'http://ex.org/vocab#C2'),
+    ]);
+  });
+
+  it('should reject on an unknown vocabulary', async() => {
+    const loader = new VocabularyLoaderFile({});
+    await expect(loader.load('http://ex.org/vocab')).rejects
+      .toThrow(new Error('Could not find a file for the vocabulary http://ex.org/vocab'));
+  });
+
+  it('should reject on a missing file', async() => {
+    const loader = new VocabularyLoaderFile({ 'http://ex.org/vocab': join(directory, 'missing.html') });
+    await expect(loader.load('http://ex.org/vocab')).rejects.toThrow(/ENOENT/u);
+  });
+});
@@ -0,0 +1,32 @@
+import 'jest-rdf';
+import { VocabularyLoaderMemory } from '../lib/VocabularyLoaderMemory';
+
+const quad = require('rdf-quad');
+
+describe('VocabularyLoaderMemory', () => {
+  let loader: VocabularyLoaderMemory;
+
+  beforeEach(() => {
+    loader = new VocabularyLoaderMemory({
+      'http://ex.org/vocab#': [
+        quad('http://ex.org/vocab#p', 'http://www.w3.org/2000/01/rdf-schema#subPropertyOf', 'http://ex.org/vocab#p2'),
+      ],
+    });
+  });
+
+  it('should load a known vocabulary', async() => {
+    await expect(loader.load('http://ex.org/vocab#')).resolves.toBeRdfIsomorphic([
+      quad('http://ex.org/vocab#p', 'http://www.w3.org/2000/01/rdf-schema#subPropertyOf', 'http://ex.org/vocab#p2'),
+    ]);
+  });
+
+  it('should reject on an unknown vocabulary', async() => {
+    await expect(loader.load('http://ex.org/other#')).rejects
+      .toThrow(new Error('Could not find the vocabulary http://ex.org/other#'));
+  });
+
+  it('should reject on inherited object properties', async() => {
+    await expect(loader.load('constructor')).rejects
+      .toThrow(new Error('Could not find the vocabulary constructor'));
+  });
+});
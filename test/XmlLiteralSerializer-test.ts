@@ -0,0 +1,129 @@
+import { XmlLiteralSerializer } from '../lib/XmlLiteralSerializer';
+
+describe('XmlLiteralSerializer', () => {
+  let serializer: XmlLiteralSerializer;
+
+  beforeEach(() => {
+    serializer = new XmlLiteralSerializer();
+  });
+
+  describe('#escapeText', () => {
+    it('should escape markup characters and carriage returns', () => {
+      expect(XmlLiteralSerializer.escapeText('a & <b> "c"\r\n\t')).toBe('a &amp; &lt;b&gt; "c"&#xD;\n\t');
+    });
+  });
+
+  describe('#escapeAttribute', () => {
+    it('should escape markup characters, double quotes and whitespace characters', () => {
+      expect(XmlLiteralSerializer.escapeAttribute('a & <b> "c"\r\n\t'))
+        .toBe('a &amp; &lt;b> &quot;c&quot;&#xD;&#xA;&#x9;');
+    });
+  });
+
+  describe('#getPrefix', () => {
+    it('should return the prefix of prefixed names', () => {
+      expect(XmlLiteralSerializer.getPrefix('svg:rect')).toBe('svg');
+    });
+
+    it('should return the empty string for unprefixed names', () => {
+      expect(XmlLiteralSerializer.getPrefix('p')).toBe('');
+    });
+  });
+
+  describe('#getDeclaredPrefix', () => {
+    it('should return the empty string for default namespace declarations', () => {
+      expect(XmlLiteralSerializer.getDeclaredPrefix('xmlns')).toBe('');
+    });
+
+    it('should return the prefix for prefixed namespace declarations', () => {
+      expect(XmlLiteralSerializer.getDeclaredPrefix('xmlns:ex')).toBe('ex');
+    });
+
+    it('should return undefined for other attributes', () => {
+      expect(XmlLiteralSerializer.getDeclaredPrefix('xmlnsa')).toBeUndefined();
+      expect(XmlLiteralSerializer.getDeclaredPrefix('xml:lang')).toBeUndefined();
+    });
+  });
+
+  describe('#isDeclarable', () => {
+    it('should be true for regular declarations', () => {
+      expect(XmlLiteralSerializer.isDeclarable('ex', 'http://ex.org/')).toBe(true);
+      expect(XmlLiteralSerializer.isDeclarable('', 'http://ex.org/')).toBe(true);
+      expect(XmlLiteralSerializer.isDeclarable('', '')).toBe(true);
+    });
+
+    it('should be false for reserved prefixes', () => {
+      expect(XmlLiteralSerializer.isDeclarable('xml', 'http://www.w3.org/XML/1998/namespace')).toBe(false);
+      expect(XmlLiteralSerializer.isDeclarable('xmlns', 'http://ex.org/')).toBe(false);
+    });
+
+    it('should be false for undeclared prefixes', () => {
+      expect(XmlLiteralSerializer.isDeclarable('ex', '')).toBe(false);
+    });
+  });
+
+  describe('#serializeStartTag', () => {
+    it('should serialize attributes in document order with escaped values', () => {
+      expect(serializer.serializeStartTag('a', { title: '"<&>"', href: 'b' }, {}).tag)
+        .toBe('<a title="&quot;&lt;&amp;>&quot;" href="b">');
+    });
+
+    it('should declare all in-scope namespaces on top-level elements', () => {
+      const startTag = serializer.serializeStartTag('p', { 'xmlns:b': 'B2', a: 'x' }, { b: 'B', a: 'A', '': 'D' });
+      expect(startTag.tag).toBe('<p xmlns:b="B2" a="x" xmlns="D" xmlns:a="A">');
+      expect(Object.entries(startTag.namespaces)).toEqual([[ 'b', 'B2' ], [ 'a', 'A' ], [ '', 'D' ]]);
+    });
+
+    it('should only declare namespaces that differ from the parent on child elements', () => {
+      expect(serializer.serializeStartTag('p', {}, { a: 'A', b: 'B2', '': '' }, { a: 'A', b: 'B', '': 'D' }).tag)
+        .toBe('<p xmlns="" xmlns:b="B2">');
+    });
+
+    it('should not declare reserved or undeclared prefixes', () => {
+      expect(serializer.serializeStartTag('p', { 'xmlns:xmlns': 'X' }, { xml: 'X', a: '', '': '' }).tag)
+        .toBe('<p>');
+    });
+
+    describe('if canonical', () => {
+      beforeEach(() => {
+        serializer = new XmlLiteralSerializer({ canonical: true });
+      });
+
+      it('should only declare visibly utilized namespaces', () => {
+        const startTag = serializer.serializeStartTag('svg:rect', { 'xlink:href': '#a', 'xmlns:dc': 'DC' }, {
+          '': 'D',
+          dc: 'DC0',
+          svg: 'S',
+          xlink: 'L',
+        });
+        expect(startTag.tag).toBe('<svg:rect xmlns:svg="S" xmlns:xlink="L" xlink:href="#a">');
+        expect(Object.entries(startTag.namespaces)).toEqual([[ 'svg', 'S' ], [ 'xlink', 'L' ]]);
+      });
+
+      it('should declare the default namespace of unprefixed elements', () => {
+        expect(serializer.serializeStartTag('p', {}, { '': 'D', dc: 'DC' }).tag).toBe('<p xmlns="D">');
+      });
+
+      it('should not declare namespaces that are declared by the parent', () => {
+        expect(serializer.serializeStartTag('p', { 'a:b': 'x' }, { '': 'D', a: 'A' }, { '': 'D', a: 'A' }).tag)
+          .toBe('<p a:b="x">');
+      });
+
+      it('should undeclare the default namespace if the parent declared one', () => {
+        expect(serializer.serializeStartTag('p', { xmlns: '' }, { '': 'D' }, { '': 'D' }).tag).toBe('<p xmlns="">');
+      });
+
+      it('should sort declarations by prefix and attributes by namespace and local name', () => {
+        expect(serializer.serializeStartTag('p', {
+          'b:x': '1',
+          'xml:lang': 'en',
+          z: '2',
+          'a:y': '3',
+          a: '4',
+          'xmlns:b': 'A',
+          'xmlns:a': 'B',
+        }, {}).tag).toBe('<p xmlns:a="B" xmlns:b="A" a="4" z="2" b:x="1" a:y="3" xml:lang="en">');
+      });
+    });
+  });
+});
@@ -14,6 +14,13 @@ module.exports = {
   },
   resolve: {
     extensions: [ '.tsx', '.ts', '.js' ],
+    // Mirrors the browser field of package.json, which only applies to the compiled .js files
+    alias: {
+      [path.resolve(__dirname, 'lib/ContentEncodingDecoder')]: false,
+      [path.resolve(__dirname, 'lib/DeflateDecoder')]: false,
+      [path.resolve(__dirname, 'lib/LazyDecoder')]: false,
+      [path.resolve(__dirname, 'lib/VocabularyLoaderFile')]: false,
+    },
   },
   output: {
     filename: 'out.js',